@@ -0,0 +1,41 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { encodeVectorMap, geoJsonToLines } from "../src/io";
+import type { VectorMapLayer, VectorMapLayerKind } from "../src/io";
+
+const SOURCES: Array<{ kind: VectorMapLayerKind; lod: number; file: string }> = [
+  { kind: "coastline", lod: 0, file: "ne_110m_coastline.geojson" },
+  { kind: "coastline", lod: 1, file: "ne_50m_coastline.geojson" },
+  { kind: "border", lod: 0, file: "ne_110m_admin_0_boundary_lines_land.geojson" },
+  { kind: "border", lod: 1, file: "ne_50m_admin_0_boundary_lines_land.geojson" }
+];
+
+const sourceDir = process.argv[2];
+const outPath = process.argv[3] ?? "public/assets/map/naturalearth.bin";
+
+if (!sourceDir) {
+  console.error("Usage: npm run map:build -- <natural-earth-geojson-dir> [output.bin]");
+  process.exit(1);
+}
+
+const layers: VectorMapLayer[] = [];
+for (const { kind, lod, file } of SOURCES) {
+  const path = join(sourceDir, file);
+  if (!existsSync(path)) {
+    console.warn(`Skipping ${file} (not found in ${sourceDir})`);
+    continue;
+  }
+  const lines = geoJsonToLines(JSON.parse(readFileSync(path, "utf8")));
+  layers.push({ kind, lod, lines });
+  console.log(`${file}: ${lines.length} lines`);
+}
+
+if (layers.length === 0) {
+  console.error("No Natural Earth layers found.");
+  process.exit(1);
+}
+
+const encoded = encodeVectorMap(layers);
+mkdirSync(dirname(outPath), { recursive: true });
+writeFileSync(outPath, new Uint8Array(encoded));
+console.log(`Wrote ${outPath} (${encoded.byteLength} bytes)`);
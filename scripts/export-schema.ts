@@ -0,0 +1,7 @@
+import { writeFileSync } from "node:fs";
+import { FRAME_PROTOCOL_SCHEMA } from "../src/core/schema";
+
+const outPath = process.argv[2] ?? "public/schema.json";
+
+writeFileSync(outPath, `${JSON.stringify(FRAME_PROTOCOL_SCHEMA, null, 2)}\n`);
+console.log(`Wrote ${outPath}`);
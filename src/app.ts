@@ -1,12 +1,85 @@
-import { generateDemoScenario, TimelineStore } from "./core/sim";
-import { WebGpuCombatRenderer } from "./render";
-import type { CameraMode, CameraPreset, RenderOptions, SimulationContext } from "./render";
-import { CameraInputController, HudController } from "./ui";
+import { ecefToLla, parseEpochUtcMs } from "./core/math";
+import { createTleSatellites, groundTrackEcef, parseTle, tleFrames, tleSessionStartMs } from "./core/orbit";
+import type { TleSatellite } from "./core/orbit";
+import { formatIssue, resolveAffiliation } from "./core/schema";
+import type { SessionHeader, StreamFrame } from "./core/schema";
+import { computeTelemetry, generateDemoScenario, TimelineStore } from "./core/sim";
+import type { RuntimeEntityState, RuntimeFrameMessage, TimelineRetentionPolicy } from "./core/sim";
+import { JsonStreamClient, loadRecording } from "./io";
+import type { StreamConnectionState, StreamStateDetail } from "./io";
+import { DEFAULT_EVENT_EFFECT_DURATIONS_SEC, WebGpuCombatRenderer } from "./render";
+import type {
+  CameraMode,
+  CameraPreset,
+  EventEffectDurations,
+  GroundTrack,
+  RenderOptions,
+  SimulationContext
+} from "./render";
+import {
+  CameraInputController,
+  FileDropController,
+  hasFileExtension,
+  HudController,
+  InspectorDock,
+  SelectionStore
+} from "./ui";
+import type { CanvasPoint } from "./ui";
+
+const DEFAULT_LIVE_LATENCY_SEC = 0.5;
+const DEFAULT_LIVE_EXTRAPOLATION_SEC = 2;
+const TLE_FILE_EXTENSIONS = [".tle", ".txt", ".3le"];
+const MAX_GROUND_TRACKS = 32;
+const GROUND_TRACK_REFRESH_MS = 20_000;
+const DEFAULT_LIVE_RETENTION: TimelineRetentionPolicy = {
+  maxDurationSec: 30 * 60,
+  maxApproxBytes: 256 * 1024 * 1024,
+  archiveIntervalSec: 5
+};
+
+export interface LiveFeedOptions {
+  url: string;
+  latencySec?: number;
+  retention?: TimelineRetentionPolicy;
+  extrapolationHorizonSec?: number;
+}
+
+export interface AppOptions {
+  liveFeed?: LiveFeedOptions;
+  recordingUrl?: string;
+  eventEffectDurationsSec?: Partial<EventEffectDurations>;
+}
+
+const formatTooltip = (entity: RuntimeEntityState): string => {
+  const altitudeM = ecefToLla(entity.positionEcefM)[2];
+  return [
+    entity.id,
+    `${resolveAffiliation(entity)} ${entity.domain} ${entity.kind}`,
+    `ALT ${Math.round(altitudeM).toLocaleString("en-US")} m${entity.coasting ? " (coasting)" : ""}`
+  ].join("\n");
+};
 
 export class ThreatVectorApp {
+  readonly selection = new SelectionStore();
+
   private readonly canvas: HTMLCanvasElement;
 
-  private readonly timeline = new TimelineStore();
+  private readonly liveFeed: LiveFeedOptions | null;
+
+  private readonly liveLatencySec: number;
+
+  private readonly recordingUrl: string | null;
+
+  private readonly stream = new JsonStreamClient();
+
+  private followLive = false;
+
+  private liveScenarioId: string | undefined;
+
+  private readonly timeline = new TimelineStore({
+    motion: { interpolation: "hermite" },
+    onIssue: (issue) => this.hud.setStatus(`Timeline: ${formatIssue(issue)}`)
+  });
 
   private readonly renderer: WebGpuCombatRenderer;
 
@@ -14,6 +87,8 @@ export class ThreatVectorApp {
 
   private readonly cameraInput: CameraInputController;
 
+  private readonly inspectors = new InspectorDock();
+
   private playing = true;
 
   private timeScale = 1;
@@ -30,61 +105,146 @@ export class ThreatVectorApp {
 
   private cameraPresetRequest: CameraPreset | undefined;
 
+  private hoverPoint: CanvasPoint | null = null;
+
   private lastEntityListKey = "";
 
-  private options: RenderOptions = { showGrid: true, showTrails: true, showEvents: true };
+  private epochUnixMs: number | null = null;
+
+  private tleSatellites: TleSatellite[] = [];
+
+  private groundTracks: GroundTrack[] = [];
+
+  private groundTrackKey = "";
 
-  constructor(canvas: HTMLCanvasElement) {
+  private groundTrackCenterMs: number | null = null;
+
+  private options: RenderOptions = {
+    showGrid: true,
+    showLocalGrid: false,
+    showCoastlines: true,
+    showBorders: false,
+    showTrails: true,
+    showEvents: true,
+    showLabels: true,
+    symbologyTheme: "phosphor",
+    farSide: "hidden",
+    frameModel: "ecef",
+    trailWindowSec: 60,
+    eventEffectDurationsSec: DEFAULT_EVENT_EFFECT_DURATIONS_SEC
+  };
+
+  constructor(canvas: HTMLCanvasElement, options: AppOptions = {}) {
     this.canvas = canvas;
-    this.renderer = new WebGpuCombatRenderer(canvas);
-    this.cameraInput = new CameraInputController(canvas);
+    this.liveFeed = options.liveFeed ?? null;
+    this.recordingUrl = options.recordingUrl ?? null;
+    this.options.eventEffectDurationsSec = {
+      ...DEFAULT_EVENT_EFFECT_DURATIONS_SEC,
+      ...options.eventEffectDurationsSec
+    };
+    this.timeline.setEventPersistence(this.options.eventEffectDurationsSec);
+    const latencySec = this.liveFeed?.latencySec;
+    this.liveLatencySec =
+      latencySec !== undefined && Number.isFinite(latencySec) ? Math.max(0, latencySec) : DEFAULT_LIVE_LATENCY_SEC;
+    this.renderer = new WebGpuCombatRenderer(canvas, { onWarning: (message) => this.hud.setStatus(message) });
+    this.cameraInput = new CameraInputController(canvas, {
+      onClick: (point) => {
+        this.selection.select(this.renderer.pickEntity(point.x, point.y));
+      },
+      onDoubleClick: (point) => {
+        const entityId = this.renderer.pickEntity(point.x, point.y);
+        if (entityId) {
+          this.selection.select(entityId);
+          this.setCameraTarget(entityId);
+        }
+      },
+      onHover: (point) => {
+        this.hoverPoint = point;
+      }
+    });
+    new FileDropController(canvas, {
+      accept: (file) => hasFileExtension(file, TLE_FILE_EXTENSIONS),
+      onFiles: (files) => void this.loadTleFiles(files)
+    });
     this.hud = new HudController({
       onTogglePlay: (playing) => {
         this.playing = playing;
+        if (!playing && this.followLive) {
+          this.setFollowLive(false);
+        }
       },
       onTimeScale: (scale) => {
         this.timeScale = scale;
       },
       onTimeline: (normalized) => {
         this.currentTime = this.range.start + this.range.duration * normalized;
+        if (this.liveFeed) {
+          this.setFollowLive(false);
+        }
         this.renderAtCurrentTime(0);
       },
       onLayerToggle: (state) => {
         this.options = { ...this.options, ...state };
       },
+      onSymbologyTheme: (symbologyTheme) => {
+        this.options = { ...this.options, symbologyTheme };
+      },
+      onFarSide: (farSide) => {
+        this.options = { ...this.options, farSide };
+      },
+      onFrameModel: (frameModel) => {
+        this.options = { ...this.options, frameModel };
+      },
+      onTrailWindow: (trailWindowSec) => {
+        this.options = { ...this.options, trailWindowSec };
+      },
       onCameraMode: (mode) => {
         this.cameraMode = mode;
         this.hud.setCameraMode(mode);
       },
-      onCameraTarget: (entityId) => {
-        this.cameraTargetEntityId = entityId;
-        if (entityId) {
-          this.cameraMode = "entityLock";
-          this.hud.setCameraMode(this.cameraMode);
-        }
-      },
+      onCameraTarget: (entityId) => this.setCameraTarget(entityId),
       onCameraPreset: (preset) => {
         this.cameraPresetRequest = preset;
         if (preset === "chase") {
           this.cameraMode = "entityLock";
           this.hud.setCameraMode(this.cameraMode);
         }
+      },
+      onGoLive: () => {
+        this.playing = true;
+        this.hud.setPlaying(true);
+        this.setFollowLive(true);
       }
     });
+    this.selection.subscribe((entityId) => this.inspectors.follow(entityId));
   }
 
   async start(): Promise<void> {
-    this.hud.setStatus("Loading scenario");
-    const frames = generateDemoScenario();
-    this.timeline.setFrames(frames);
-    this.range = this.timeline.getRange();
-    this.currentTime = this.range.start;
+    let readyStatus: string | null = "Ready";
+    if (this.liveFeed) {
+      this.timeline.setRetention(this.liveFeed.retention ?? DEFAULT_LIVE_RETENTION);
+      this.timeline.setMotion({
+        interpolation: "hermite",
+        extrapolationHorizonSec: this.liveFeed.extrapolationHorizonSec ?? DEFAULT_LIVE_EXTRAPOLATION_SEC
+      });
+      this.startLiveFeed(this.liveFeed.url);
+    } else if (this.recordingUrl) {
+      readyStatus = await this.loadRecording(this.recordingUrl);
+    } else {
+      this.hud.setStatus("Loading scenario");
+      const frames = generateDemoScenario();
+      this.timeline.setFrames(frames);
+      this.range = this.timeline.getRange();
+      this.currentTime = this.range.start;
+    }
     this.hud.setFrameModel("ECEF");
     this.hud.setCameraMode(this.cameraMode);
 
     try {
       await this.renderer.initialize();
-      this.hud.setStatus("Ready");
+      if (!this.liveFeed && readyStatus) {
+        this.hud.setStatus(readyStatus);
+      }
       this.installResizeHandler();
       requestAnimationFrame(this.tick);
     } catch (error) {
@@ -99,7 +259,9 @@ export class ThreatVectorApp {
     const dtSec = Math.min(0.05, (ts - this.lastFrameTs) / 1000);
     this.lastFrameTs = ts;
 
-    if (this.playing && this.range.duration > 0) {
+    if (this.liveFeed) {
+      this.advanceLivePlayhead(dtSec);
+    } else if (this.playing && this.range.duration > 0) {
       this.currentTime += dtSec * this.timeScale;
       if (this.currentTime > this.range.end) {
         this.currentTime = this.range.start;
@@ -117,21 +279,193 @@ export class ThreatVectorApp {
       cameraMode: this.cameraMode,
       cameraTargetEntityId: this.cameraTargetEntityId ?? undefined,
       userInput: this.cameraInput.consumeFrameInput(),
-      cameraPresetRequest: this.cameraPresetRequest
+      cameraPresetRequest: this.cameraPresetRequest,
+      selectedEntityId: this.selection.selected ?? undefined,
+      epochUnixMs: this.epochUnixMs ?? undefined,
+      trails: this.options.showTrails
+        ? this.timeline.trailsAt(sample, { windowSec: this.options.trailWindowSec })
+        : undefined,
+      groundTracks: this.groundTracksAt(sample.t)
     };
     this.cameraPresetRequest = undefined;
     if (this.renderer.isReady()) {
       this.renderer.render(sample, dtSec, this.options, simContext);
       this.hud.setCameraDebug(this.renderer.getCameraDebugData());
+      this.updateTooltip(sample);
     } else {
       this.hud.setCameraDebug(null);
     }
+    this.inspectors.update((entityId) => {
+      const entity = sample.entities.find((item) => item.id === entityId);
+      return entity ? computeTelemetry(entity, this.timeline.velocityAt(entityId, sample.t)) : null;
+    });
     const elapsed = this.currentTime - this.range.start;
     const normalized = this.range.duration > 0 ? elapsed / this.range.duration : 0;
     this.hud.setClock(elapsed);
     this.hud.setTimeline(normalized);
   }
 
+  private updateTooltip(sample: RuntimeFrameMessage): void {
+    const point = this.hoverPoint;
+    const entityId = point ? this.renderer.pickEntity(point.x, point.y) : null;
+    const entity = entityId ? sample.entities.find((item) => item.id === entityId) : undefined;
+    this.hud.setTooltip(
+      point && entity ? { text: formatTooltip(entity), clientX: point.clientX, clientY: point.clientY } : null
+    );
+  }
+
+  private setCameraTarget(entityId: string | null): void {
+    this.cameraTargetEntityId = entityId;
+    this.hud.setCameraTarget(entityId);
+    if (entityId) {
+      this.cameraMode = "entityLock";
+      this.hud.setCameraMode(this.cameraMode);
+    }
+  }
+
+  private async loadRecording(url: string): Promise<string | null> {
+    this.hud.setStatus("Loading recording");
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const report = loadRecording(await response.text());
+      this.timeline.setLifecycle({ staleAfterSec: report.header?.staleAfterSec });
+      this.epochUnixMs = parseEpochUtcMs(report.header?.epochUtc);
+      this.timeline.setFrames(report.frames);
+      this.range = this.timeline.getRange();
+      this.currentTime = this.range.start;
+      this.hud.setValidationSummary(report);
+      const [firstIssue] = report.issues;
+      return firstIssue
+        ? `Ready, ${report.issues.length} recording issues (first: ${formatIssue(firstIssue)})`
+        : "Ready";
+    } catch (error) {
+      this.hud.setStatus(`Failed to load recording (${String(error)})`);
+      return null;
+    }
+  }
+
+  private async loadTleFiles(files: File[]): Promise<void> {
+    if (this.liveFeed) {
+      this.hud.setStatus("TLE files cannot replace a live feed");
+      return;
+    }
+    try {
+      const records = (await Promise.all(files.map((file) => file.text()))).flatMap((text) => parseTle(text));
+      if (records.length === 0) {
+        throw new Error("no element sets found");
+      }
+      const startUnixMs = tleSessionStartMs(records);
+      this.tleSatellites = createTleSatellites(records);
+      this.groundTrackCenterMs = null;
+      this.epochUnixMs = startUnixMs;
+      this.timeline.setLifecycle({ staleAfterSec: undefined });
+      this.timeline.setFrames(tleFrames(this.tleSatellites, { startUnixMs }));
+      this.range = this.timeline.getRange();
+      this.currentTime = this.range.start;
+      this.setCameraTarget(null);
+      const names = files.map((file) => file.name).join(", ");
+      this.hud.setStatus(`Loaded ${this.tleSatellites.length} satellites from ${names}`);
+    } catch (error) {
+      this.hud.setStatus(`Failed to load TLE (${String(error)})`);
+    }
+  }
+
+  private groundTracksAt(t: number): GroundTrack[] | undefined {
+    if (this.tleSatellites.length === 0 || this.epochUnixMs === null) {
+      return undefined;
+    }
+    const unixMs = this.epochUnixMs + t * 1000;
+    const selected = this.selection.selected;
+    const tracked =
+      this.tleSatellites.length <= MAX_GROUND_TRACKS
+        ? this.tleSatellites
+        : this.tleSatellites.filter((satellite) => satellite.entityId === selected);
+    const key = tracked.map((satellite) => satellite.entityId).join(",");
+    if (
+      key !== this.groundTrackKey ||
+      this.groundTrackCenterMs === null ||
+      Math.abs(unixMs - this.groundTrackCenterMs) >= GROUND_TRACK_REFRESH_MS
+    ) {
+      this.groundTracks = tracked.map((satellite) => ({
+        id: satellite.entityId,
+        pointsEcefM: groundTrackEcef(satellite.sgp4, unixMs)
+      }));
+      this.groundTrackKey = key;
+      this.groundTrackCenterMs = unixMs;
+    }
+    return this.groundTracks;
+  }
+
+  private startLiveFeed(url: string): void {
+    this.setFollowLive(true);
+    this.stream.connect(url, {
+      onHeader: (header) => this.handleLiveHeader(header),
+      onFrame: (frame) => this.handleLiveFrame(frame),
+      onError: (error) => this.hud.setStatus(`Live: ${error.message}`),
+      onWarning: (message) => this.hud.setStatus(`Live: ${message}`),
+      onStateChange: (state, detail) => this.handleLiveState(state, detail)
+    });
+  }
+
+  private handleLiveHeader(header: SessionHeader): void {
+    this.timeline.setLifecycle({ staleAfterSec: header.staleAfterSec });
+    this.epochUnixMs = parseEpochUtcMs(header.epochUtc);
+    if (header.scenarioId !== this.liveScenarioId) {
+      this.liveScenarioId = header.scenarioId;
+      this.timeline.setFrames([]);
+      this.range = this.timeline.getRange();
+      this.currentTime = 0;
+      this.setFollowLive(true);
+    }
+    this.hud.setStatus(`Live: ${header.scenarioId ?? "unnamed scenario"}`);
+  }
+
+  private handleLiveFrame(frame: StreamFrame): void {
+    this.timeline.appendFrame(frame);
+    this.range = this.timeline.getRange();
+  }
+
+  private handleLiveState(state: StreamConnectionState, detail: StreamStateDetail): void {
+    switch (state) {
+      case "connecting":
+        this.hud.setStatus(detail.attempt > 0 ? `Live: reconnecting (attempt ${detail.attempt})` : "Live: connecting");
+        return;
+      case "open":
+        this.hud.setStatus("Live: connected, awaiting header");
+        return;
+      case "reconnecting":
+        this.hud.setStatus(`Live: disconnected, retry in ${((detail.retryInMs ?? 0) / 1000).toFixed(1)}s`);
+        return;
+      case "closed":
+        this.hud.setStatus("Live: disconnected");
+    }
+  }
+
+  private advanceLivePlayhead(dtSec: number): void {
+    const head = Math.max(this.range.start, this.range.end - this.liveLatencySec);
+    if (this.followLive) {
+      this.currentTime = head;
+      return;
+    }
+    this.currentTime = Math.max(this.range.start, this.currentTime);
+    if (!this.playing) {
+      return;
+    }
+    this.currentTime += dtSec * this.timeScale;
+    if (this.currentTime >= head) {
+      this.setFollowLive(true);
+      this.currentTime = head;
+    }
+  }
+
+  private setFollowLive(following: boolean): void {
+    this.followLive = following;
+    this.hud.setLiveState(Boolean(this.liveFeed), following);
+  }
+
   private installResizeHandler(): void {
     const resize = (): void => {
       this.renderer.resize(this.canvas.clientWidth || 1, this.canvas.clientHeight || 1);
@@ -145,6 +479,9 @@ export class ThreatVectorApp {
     if (this.cameraTargetEntityId && !uniqueSorted.includes(this.cameraTargetEntityId)) {
       this.cameraTargetEntityId = null;
     }
+    if (this.selection.selected && !uniqueSorted.includes(this.selection.selected)) {
+      this.selection.select(null);
+    }
     const key = uniqueSorted.join("|");
     if (key === this.lastEntityListKey) {
       return;
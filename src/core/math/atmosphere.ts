@@ -0,0 +1,32 @@
+const GAMMA_AIR = 1.4;
+const GAS_CONSTANT_AIR = 287.05287;
+const SEA_LEVEL_TEMPERATURE_K = 288.15;
+
+const ISA_LAYERS: ReadonlyArray<{ baseM: number; lapseKPerM: number }> = [
+  { baseM: 0, lapseKPerM: -0.0065 },
+  { baseM: 11000, lapseKPerM: 0 },
+  { baseM: 20000, lapseKPerM: 0.001 },
+  { baseM: 32000, lapseKPerM: 0.0028 },
+  { baseM: 47000, lapseKPerM: 0 },
+  { baseM: 51000, lapseKPerM: -0.0028 },
+  { baseM: 71000, lapseKPerM: -0.002 }
+];
+
+const ISA_TOP_M = 84852;
+
+export const isaTemperatureK = (altitudeM: number): number => {
+  const altitude = Math.min(altitudeM, ISA_TOP_M);
+  let temperature = SEA_LEVEL_TEMPERATURE_K;
+  for (let i = 0; i < ISA_LAYERS.length; i += 1) {
+    const { baseM, lapseKPerM } = ISA_LAYERS[i];
+    const topM = i + 1 < ISA_LAYERS.length ? ISA_LAYERS[i + 1].baseM : ISA_TOP_M;
+    if (altitude <= topM || i === ISA_LAYERS.length - 1) {
+      return temperature + lapseKPerM * (altitude - baseM);
+    }
+    temperature += lapseKPerM * (topM - baseM);
+  }
+  return temperature;
+};
+
+export const speedOfSoundMps = (altitudeM: number): number =>
+  Math.sqrt(GAMMA_AIR * GAS_CONSTANT_AIR * isaTemperatureK(altitudeM));
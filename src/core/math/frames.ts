@@ -0,0 +1,58 @@
+import type { Vec3 } from "./types";
+
+export const J2000_UNIX_MS = Date.UTC(2000, 0, 1, 12, 0, 0);
+export const JULIAN_DATE_UNIX_EPOCH = 2440587.5;
+export const JULIAN_DATE_J2000 = 2451545.0;
+export const MS_PER_DAY = 86_400_000;
+
+const SECONDS_PER_DAY = 86_400;
+const DAYS_PER_JULIAN_CENTURY = 36_525;
+const TWO_PI = 2 * Math.PI;
+
+export const julianDateFromUnixMs = (unixMs: number): number => unixMs / MS_PER_DAY + JULIAN_DATE_UNIX_EPOCH;
+
+export const gmstFromJulianDateRad = (julianDate: number): number => {
+  const t = (julianDate - JULIAN_DATE_J2000) / DAYS_PER_JULIAN_CENTURY;
+  const seconds = 67310.54841 + (876600 * 3600 + 8640184.812866) * t + 0.093104 * t * t - 6.2e-6 * t * t * t;
+  const fraction = (seconds % SECONDS_PER_DAY) / SECONDS_PER_DAY;
+  return (((fraction * TWO_PI) % TWO_PI) + TWO_PI) % TWO_PI;
+};
+
+export const gmstRad = (unixMs: number): number => gmstFromJulianDateRad(julianDateFromUnixMs(unixMs));
+
+export const parseEpochUtcMs = (epochUtc: string | undefined): number | null => {
+  if (epochUtc === undefined) {
+    return null;
+  }
+  const ms = Date.parse(epochUtc);
+  return Number.isFinite(ms) ? ms : null;
+};
+
+export const rotateAboutZ = (v: Vec3, angleRad: number): Vec3 => {
+  const c = Math.cos(angleRad);
+  const s = Math.sin(angleRad);
+  return [c * v[0] - s * v[1], s * v[0] + c * v[1], v[2]];
+};
+
+export const ecefToEci = (ecef: Vec3, gmst: number): Vec3 => rotateAboutZ(ecef, gmst);
+
+export const eciToEcef = (eci: Vec3, gmst: number): Vec3 => rotateAboutZ(eci, -gmst);
+
+export const EARTH_ROTATION_RAD_PER_SEC = 7.292115146706979e-5;
+
+export const temeToEcef = (
+  positionTeme: Vec3,
+  velocityTeme: Vec3,
+  gmst: number
+): { position: Vec3; velocity: Vec3 } => {
+  const position = eciToEcef(positionTeme, gmst);
+  const rotated = eciToEcef(velocityTeme, gmst);
+  return {
+    position,
+    velocity: [
+      rotated[0] + EARTH_ROTATION_RAD_PER_SEC * position[1],
+      rotated[1] - EARTH_ROTATION_RAD_PER_SEC * position[0],
+      rotated[2]
+    ]
+  };
+};
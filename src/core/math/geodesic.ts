@@ -0,0 +1,458 @@
+import { DEG2RAD, RAD2DEG, WGS84_A, WGS84_B, WGS84_EP2, WGS84_F } from "./constants";
+import type { LlaDegM } from "./geodesy";
+
+export interface GeodesicInverse {
+  distanceM: number;
+  initialAzimuthDeg: number;
+  finalAzimuthDeg: number;
+}
+
+export interface GeodesicDirect {
+  lla: LlaDegM;
+  finalAzimuthDeg: number;
+}
+
+type SinCos = { s: number; c: number };
+type ReducedEndpoints = { sbet1: number; cbet1: number; dn1: number; sbet2: number; cbet2: number; dn2: number };
+type LambdaStep = {
+  residual: number;
+  slope: number;
+  alp2: SinCos;
+  sig1: SinCos;
+  sig2: SinCos;
+  sig12: number;
+  eps: number;
+};
+
+const CONVERGENCE_RAD = 1e-12;
+const MAX_ITERATIONS = 200;
+
+const F1 = 1 - WGS84_F;
+const THIRD_FLATTENING = WGS84_F / (2 - WGS84_F);
+const SECOND_ECCENTRICITY_SQ = (WGS84_F * (2 - WGS84_F)) / (F1 * F1);
+const SEMI_MINOR_M = WGS84_A * F1;
+const TINY = Math.sqrt(Number.MIN_VALUE);
+const TOL0 = Number.EPSILON;
+const TOL1 = 200 * TOL0;
+const TOL2 = Math.sqrt(TOL0);
+const TOLB = TOL0 * TOL2;
+const XTHRESH = 1000 * TOL2;
+const ETOL2 = (0.1 * TOL2) / Math.sqrt((Math.max(0.001, WGS84_F) * Math.min(1, 1 - WGS84_F / 2)) / 2);
+const NEWTON_ITERATIONS = 20;
+const BISECTION_ITERATIONS = NEWTON_ITERATIONS + 63;
+
+const wrapAzimuthDeg = (rad: number): number => (((rad * RAD2DEG) % 360) + 360) % 360;
+
+const wrapLongitudeDeg = (deg: number): number => ((((deg + 180) % 360) + 360) % 360) - 180;
+
+const reducedLatitude = (latDeg: number): { sinU: number; cosU: number } => {
+  const tanU = (1 - WGS84_F) * Math.tan(latDeg * DEG2RAD);
+  const cosU = 1 / Math.sqrt(1 + tanU * tanU);
+  return { sinU: tanU * cosU, cosU };
+};
+
+const seriesCoefficients = (cosSqAlpha: number): { a: number; b: number } => {
+  const uSq = cosSqAlpha * WGS84_EP2;
+  return {
+    a: 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq))),
+    b: (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)))
+  };
+};
+
+const deltaSigma = (b: number, sinSigma: number, cosSigma: number, cos2SigmaM: number): number =>
+  b *
+  sinSigma *
+  (cos2SigmaM +
+    (b / 4) *
+      (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+        (b / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+
+const horner = (coeffs: readonly number[], x: number): number => coeffs.reduce((acc, c) => acc * x + c, 0);
+
+const nPoly = (coeffs: readonly number[], divisor: number): number => horner(coeffs, THIRD_FLATTENING) / divisor;
+
+const A3_COEFFS = [-3 / 128, nPoly([-2, -3], 64), nPoly([-1, -3, -1], 16), nPoly([3, -1, -2], 8), nPoly([1, -1], 2), 1];
+
+const C3_COEFFS = [
+  [3 / 128, nPoly([2, 5], 128), nPoly([-1, 3, 3], 64), nPoly([-1, 0, 1], 8), nPoly([-1, 1], 4)],
+  [5 / 256, nPoly([1, 3], 128), nPoly([-3, -2, 3], 64), nPoly([1, -3, 2], 32)],
+  [7 / 512, nPoly([-10, 9], 384), nPoly([5, -9, 5], 192)],
+  [7 / 512, nPoly([-14, 7], 512)],
+  [21 / 2560]
+];
+
+const a1m1 = (eps: number): number => (horner([1, 4, 64, 0], eps * eps) / 256 + eps) / (1 - eps);
+
+const a2m1 = (eps: number): number => (horner([-11, -28, -192, 0], eps * eps) / 256 - eps) / (1 + eps);
+
+const a3 = (eps: number): number => horner(A3_COEFFS, eps);
+
+const c1 = (eps: number): number[] => {
+  const eps2 = eps * eps;
+  return [
+    0,
+    (eps * horner([-1, 6, -16], eps2)) / 32,
+    (eps ** 2 * horner([-9, 64, -128], eps2)) / 2048,
+    (eps ** 3 * horner([9, -16], eps2)) / 768,
+    (eps ** 4 * horner([3, -5], eps2)) / 512,
+    (-7 * eps ** 5) / 1280,
+    (-7 * eps ** 6) / 2048
+  ];
+};
+
+const c2 = (eps: number): number[] => {
+  const eps2 = eps * eps;
+  return [
+    0,
+    (eps * horner([1, 2, 16], eps2)) / 32,
+    (eps ** 2 * horner([35, 64, 384], eps2)) / 2048,
+    (eps ** 3 * horner([15, 80], eps2)) / 768,
+    (eps ** 4 * horner([7, 35], eps2)) / 512,
+    (63 * eps ** 5) / 1280,
+    (77 * eps ** 6) / 2048
+  ];
+};
+
+const c3 = (eps: number): number[] => [0, ...C3_COEFFS.map((coeffs, i) => eps ** (i + 1) * horner(coeffs, eps))];
+
+const sinSeries = ({ s, c }: SinCos, coeffs: readonly number[]): number => {
+  const ar = 2 * (c - s) * (c + s);
+  let y0 = 0;
+  let y1 = 0;
+  for (let k = coeffs.length - 1; k >= 1; k -= 1) {
+    [y0, y1] = [ar * y0 - y1 + coeffs[k], y0];
+  }
+  return 2 * s * c * y0;
+};
+
+const copySign = (x: number, sign: number): number => (sign < 0 || Object.is(sign, -0) ? -Math.abs(x) : Math.abs(x));
+
+const normalize = (s: number, c: number): SinCos => {
+  const r = Math.hypot(s, c);
+  return { s: s / r, c: c / r };
+};
+
+const sinCosDeg = (deg: number): SinCos => {
+  const quadrant = Math.round((deg % 360) / 90);
+  const rad = ((deg % 360) - 90 * quadrant) * DEG2RAD;
+  const s = Math.sin(rad);
+  const c = Math.cos(rad);
+  switch (quadrant & 3) {
+    case 0:
+      return { s, c };
+    case 1:
+      return { s: c, c: -s };
+    case 2:
+      return { s: -s, c: -c };
+    default:
+      return { s: -c, c: s };
+  }
+};
+
+const roundAngleDeg = (deg: number): number => {
+  const z = 1 / 16;
+  const y = Math.abs(deg);
+  return copySign(y < z ? z - (z - y) : y, deg);
+};
+
+const reducedEndpoint = (latDeg: number): SinCos => {
+  const { s, c } = sinCosDeg(latDeg);
+  const beta = normalize(F1 * s, c);
+  return { s: beta.s, c: Math.max(TINY, beta.c) };
+};
+
+const reducedLengths = (
+  eps: number,
+  sig12: number,
+  sig1: SinCos,
+  sig2: SinCos,
+  dn1: number,
+  dn2: number
+): { s12b: number; m12b: number } => {
+  const c1a = c1(eps);
+  const c2a = c2(eps);
+  const a1 = 1 + a1m1(eps);
+  const a2 = 1 + a2m1(eps);
+  const b1 = sinSeries(sig2, c1a) - sinSeries(sig1, c1a);
+  const b2 = sinSeries(sig2, c2a) - sinSeries(sig1, c2a);
+  const j12 = (a1 - a2) * sig12 + (a1 * b1 - a2 * b2);
+  return {
+    s12b: a1 * (sig12 + b1),
+    m12b: dn2 * (sig1.c * sig2.s) - dn1 * (sig1.s * sig2.c) - sig1.c * sig2.c * j12
+  };
+};
+
+const astroid = (x: number, y: number): number => {
+  const p = x * x;
+  const q = y * y;
+  const r = (p + q - 1) / 6;
+  if (q === 0 && r <= 0) {
+    return 0;
+  }
+  const s = (p * q) / 4;
+  const r2 = r * r;
+  const r3 = r * r2;
+  const disc = s * (s + 2 * r3);
+  let u = r;
+  if (disc >= 0) {
+    const t3 = s + r3 + copySign(Math.sqrt(disc), s + r3);
+    const t = Math.cbrt(t3);
+    u += t + (t !== 0 ? r2 / t : 0);
+  } else {
+    u += 2 * r * Math.cos(Math.atan2(Math.sqrt(-disc), -(s + r3)) / 3);
+  }
+  const v = Math.sqrt(u * u + q);
+  const uv = u < 0 ? q / (v - u) : u + v;
+  const w = (uv - q) / (2 * v);
+  return uv / (Math.sqrt(uv + w * w) + w);
+};
+
+const lambda12 = (p: ReducedEndpoints, alp1: SinCos, lam12: SinCos, withSlope: boolean): LambdaStep => {
+  const salp1 = alp1.s;
+  const calp1 = p.sbet1 === 0 && alp1.c === 0 ? -TINY : alp1.c;
+  const salp0 = salp1 * p.cbet1;
+  const calp0 = Math.hypot(calp1, salp1 * p.sbet1);
+  const somg1 = salp0 * p.sbet1;
+  const comg1 = calp1 * p.cbet1;
+  const sig1 = normalize(p.sbet1, comg1);
+  const salp2 = p.cbet2 !== p.cbet1 ? salp0 / p.cbet2 : salp1;
+  const calp2 =
+    p.cbet2 !== p.cbet1 || Math.abs(p.sbet2) !== -p.sbet1
+      ? Math.sqrt(
+          (calp1 * p.cbet1) ** 2 +
+            (p.cbet1 < -p.sbet1 ? (p.cbet2 - p.cbet1) * (p.cbet1 + p.cbet2) : (p.sbet1 - p.sbet2) * (p.sbet1 + p.sbet2))
+        ) / p.cbet2
+      : Math.abs(calp1);
+  const somg2 = salp0 * p.sbet2;
+  const comg2 = calp2 * p.cbet2;
+  const sig2 = normalize(p.sbet2, comg2);
+  const sig12 = Math.atan2(Math.max(0, sig1.c * sig2.s - sig1.s * sig2.c), sig1.c * sig2.c + sig1.s * sig2.s);
+  const somg12 = Math.max(0, comg1 * somg2 - somg1 * comg2);
+  const comg12 = comg1 * comg2 + somg1 * somg2;
+  const eta = Math.atan2(somg12 * lam12.c - comg12 * lam12.s, comg12 * lam12.c + somg12 * lam12.s);
+  const k2 = calp0 * calp0 * SECOND_ECCENTRICITY_SQ;
+  const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+  const c3a = c3(eps);
+  const b312 = sinSeries(sig2, c3a) - sinSeries(sig1, c3a);
+  let slope = 0;
+  if (withSlope) {
+    slope =
+      calp2 === 0
+        ? (-2 * F1 * p.dn1) / p.sbet1
+        : (reducedLengths(eps, sig12, sig1, sig2, p.dn1, p.dn2).m12b * F1) / (calp2 * p.cbet2);
+  }
+  return {
+    residual: eta - WGS84_F * a3(eps) * salp0 * (sig12 + b312),
+    slope,
+    alp2: { s: salp2, c: calp2 },
+    sig1,
+    sig2,
+    sig12,
+    eps
+  };
+};
+
+const inverseStart = (
+  p: ReducedEndpoints,
+  lam12Rad: number,
+  lam12: SinCos
+): { alp1: SinCos; shortLine: { sig12: number; alp2: SinCos; dnm: number } | null } => {
+  const { sbet1, cbet1, sbet2, cbet2 } = p;
+  const sbet12 = sbet2 * cbet1 - cbet2 * sbet1;
+  const cbet12 = cbet2 * cbet1 + sbet2 * sbet1;
+  const sbet12a = sbet2 * cbet1 + cbet2 * sbet1;
+  const shortLine = cbet12 >= 0 && sbet12 < 0.5 && cbet2 * lam12Rad < 0.5;
+  let somg12 = lam12.s;
+  let comg12 = lam12.c;
+  let dnm = 1;
+  if (shortLine) {
+    const sbetm2 = (sbet1 + sbet2) ** 2 / ((sbet1 + sbet2) ** 2 + (cbet1 + cbet2) ** 2);
+    dnm = Math.sqrt(1 + SECOND_ECCENTRICITY_SQ * sbetm2);
+    const omg12 = lam12Rad / (F1 * dnm);
+    somg12 = Math.sin(omg12);
+    comg12 = Math.cos(omg12);
+  }
+  let salp1 = cbet2 * somg12;
+  let calp1 =
+    comg12 >= 0
+      ? sbet12 + (cbet2 * sbet1 * somg12 * somg12) / (1 + comg12)
+      : sbet12a - (cbet2 * sbet1 * somg12 * somg12) / (1 - comg12);
+  const ssig12 = Math.hypot(salp1, calp1);
+  const csig12 = sbet1 * sbet2 + cbet1 * cbet2 * comg12;
+  if (shortLine && ssig12 < ETOL2) {
+    const calp2 = sbet12 - cbet1 * sbet2 * (comg12 >= 0 ? (somg12 * somg12) / (1 + comg12) : 1 - comg12);
+    return {
+      alp1: normalize(salp1, calp1),
+      shortLine: { sig12: Math.atan2(ssig12, csig12), alp2: normalize(cbet1 * somg12, calp2), dnm }
+    };
+  }
+  if (csig12 < 0 && ssig12 < 6 * THIRD_FLATTENING * Math.PI * cbet1 * cbet1) {
+    const k2 = sbet1 * sbet1 * SECOND_ECCENTRICITY_SQ;
+    const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+    const lamScale = WGS84_F * cbet1 * a3(eps) * Math.PI;
+    const x = Math.atan2(-lam12.s, -lam12.c) / lamScale;
+    const y = sbet12a / (lamScale * cbet1);
+    if (y > -TOL1 && x > -1 - XTHRESH) {
+      salp1 = Math.min(1, -x);
+      calp1 = -Math.sqrt(1 - salp1 * salp1);
+    } else {
+      const k = astroid(x, y);
+      const omg12a = lamScale * ((-x * k) / (1 + k));
+      const somg12a = Math.sin(omg12a);
+      salp1 = cbet2 * somg12a;
+      calp1 = sbet12a - (cbet2 * sbet1 * somg12a * somg12a) / (1 + Math.cos(omg12a));
+    }
+  }
+  return { alp1: salp1 > 0 ? normalize(salp1, calp1) : { s: 1, c: 0 }, shortLine: null };
+};
+
+const solveAzimuth = (p: ReducedEndpoints, start: SinCos, lam12: SinCos): { alp1: SinCos; step: LambdaStep } => {
+  let alp1 = start;
+  let below: SinCos = { s: TINY, c: 1 };
+  let above: SinCos = { s: TINY, c: -1 };
+  let nearRoot = false;
+  let bracketCollapsed = false;
+  for (let iteration = 0; ; iteration += 1) {
+    const step = lambda12(p, alp1, lam12, iteration < NEWTON_ITERATIONS);
+    const v = step.residual;
+    if (bracketCollapsed || !(Math.abs(v) >= (nearRoot ? 8 : 1) * TOL0) || iteration === BISECTION_ITERATIONS) {
+      return { alp1, step };
+    }
+    if (v > 0 && (iteration < NEWTON_ITERATIONS || alp1.c / alp1.s > above.c / above.s)) {
+      above = alp1;
+    } else if (v < 0 && (iteration < NEWTON_ITERATIONS || alp1.c / alp1.s < below.c / below.s)) {
+      below = alp1;
+    }
+    if (iteration < NEWTON_ITERATIONS && step.slope > 0) {
+      const dalp1 = -v / step.slope;
+      const nsalp1 = alp1.s * Math.cos(dalp1) + alp1.c * Math.sin(dalp1);
+      if (Math.abs(dalp1) < Math.PI && nsalp1 > 0) {
+        alp1 = normalize(nsalp1, alp1.c * Math.cos(dalp1) - alp1.s * Math.sin(dalp1));
+        nearRoot = Math.abs(v) <= 16 * TOL0;
+        continue;
+      }
+    }
+    alp1 = normalize((below.s + above.s) / 2, (below.c + above.c) / 2);
+    nearRoot = false;
+    bracketCollapsed =
+      Math.abs(below.s - alp1.s) + (below.c - alp1.c) < TOLB || Math.abs(alp1.s - above.s) + (alp1.c - above.c) < TOLB;
+  }
+};
+
+export const geodesicInverse = (from: LlaDegM, to: LlaDegM): GeodesicInverse => {
+  const lon12Signed = wrapLongitudeDeg(to[1] - from[1]);
+  let lonSign = copySign(1, lon12Signed);
+  const lon12 = lon12Signed * lonSign;
+  const lam12Rad = lon12 * DEG2RAD;
+  const lam12 = sinCosDeg(lon12);
+  let lat1 = roundAngleDeg(from[0]);
+  let lat2 = roundAngleDeg(to[0]);
+  const swap = Math.abs(lat1) < Math.abs(lat2) ? -1 : 1;
+  if (swap < 0) {
+    lonSign *= -1;
+    [lat1, lat2] = [lat2, lat1];
+  }
+  const latSign = copySign(1, -lat1);
+  lat1 *= latSign;
+  lat2 *= latSign;
+  const bet1 = reducedEndpoint(lat1);
+  const bet2 = reducedEndpoint(lat2);
+  if (bet1.c < -bet1.s) {
+    if (bet2.c === bet1.c) {
+      bet2.s = copySign(bet1.s, bet2.s);
+    }
+  } else if (Math.abs(bet2.s) === -bet1.s) {
+    bet2.c = bet1.c;
+  }
+  const p: ReducedEndpoints = {
+    sbet1: bet1.s,
+    cbet1: bet1.c,
+    dn1: Math.sqrt(1 + SECOND_ECCENTRICITY_SQ * bet1.s * bet1.s),
+    sbet2: bet2.s,
+    cbet2: bet2.c,
+    dn2: Math.sqrt(1 + SECOND_ECCENTRICITY_SQ * bet2.s * bet2.s)
+  };
+
+  let alp1: SinCos = { s: 1, c: 0 };
+  let alp2: SinCos = { s: 1, c: 0 };
+  let distanceM = WGS84_A * lam12Rad;
+  let meridian = lat1 === -90 || lam12.s === 0;
+  if (meridian) {
+    alp1 = { s: lam12.s, c: lam12.c };
+    alp2 = { s: 0, c: 1 };
+    const sig1 = { s: p.sbet1, c: alp1.c * p.cbet1 };
+    const sig2 = { s: p.sbet2, c: p.cbet2 };
+    const sig12 = Math.atan2(Math.max(0, sig1.c * sig2.s - sig1.s * sig2.c), sig1.c * sig2.c + sig1.s * sig2.s);
+    const { s12b, m12b } = reducedLengths(THIRD_FLATTENING, sig12, sig1, sig2, p.dn1, p.dn2);
+    if (sig12 < 1 || m12b >= 0) {
+      distanceM = sig12 < 3 * TINY || (sig12 < TOL0 && (s12b < 0 || m12b < 0)) ? 0 : s12b * SEMI_MINOR_M;
+    } else {
+      meridian = false;
+    }
+  }
+  if (!meridian && !(p.sbet1 === 0 && 180 - lon12 >= WGS84_F * 180)) {
+    const start = inverseStart(p, lam12Rad, lam12);
+    if (start.shortLine) {
+      alp1 = start.alp1;
+      alp2 = start.shortLine.alp2;
+      distanceM = start.shortLine.sig12 * SEMI_MINOR_M * start.shortLine.dnm;
+    } else {
+      const solved = solveAzimuth(p, start.alp1, lam12);
+      const { eps, sig12, sig1, sig2 } = solved.step;
+      alp1 = solved.alp1;
+      alp2 = solved.step.alp2;
+      distanceM = reducedLengths(eps, sig12, sig1, sig2, p.dn1, p.dn2).s12b * SEMI_MINOR_M;
+    }
+  }
+  if (swap < 0) {
+    [alp1, alp2] = [alp2, alp1];
+  }
+  return {
+    distanceM,
+    initialAzimuthDeg: wrapAzimuthDeg(Math.atan2(alp1.s * swap * lonSign, alp1.c * swap * latSign)),
+    finalAzimuthDeg: wrapAzimuthDeg(Math.atan2(alp2.s * swap * lonSign, alp2.c * swap * latSign))
+  };
+};
+
+export const geodesicDirect = (from: LlaDegM, azimuthDeg: number, distanceM: number): GeodesicDirect => {
+  const alpha1 = azimuthDeg * DEG2RAD;
+  const sinAlpha1 = Math.sin(alpha1);
+  const cosAlpha1 = Math.cos(alpha1);
+  const { sinU: sinU1, cosU: cosU1 } = reducedLatitude(from[0]);
+  const sigma1 = Math.atan2(sinU1 / cosU1, cosAlpha1);
+  const sinAlpha = cosU1 * sinAlpha1;
+  const cosSqAlpha = 1 - sinAlpha * sinAlpha;
+  const { a, b } = seriesCoefficients(cosSqAlpha);
+  const sigma0 = distanceM / (WGS84_B * a);
+  let sigma = sigma0;
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let cos2SigmaM = 0;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration += 1) {
+    cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+    sinSigma = Math.sin(sigma);
+    cosSigma = Math.cos(sigma);
+    const previous = sigma;
+    sigma = sigma0 + deltaSigma(b, sinSigma, cosSigma, cos2SigmaM);
+    if (Math.abs(sigma - previous) < CONVERGENCE_RAD) {
+      break;
+    }
+  }
+  cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+  sinSigma = Math.sin(sigma);
+  cosSigma = Math.cos(sigma);
+  const x = sinU1 * sinSigma - cosU1 * cosSigma * cosAlpha1;
+  const lat = Math.atan2(sinU1 * cosSigma + cosU1 * sinSigma * cosAlpha1, (1 - WGS84_F) * Math.hypot(sinAlpha, x));
+  const lambda = Math.atan2(sinSigma * sinAlpha1, cosU1 * cosSigma - sinU1 * sinSigma * cosAlpha1);
+  const c = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+  const l =
+    lambda -
+    (1 - c) *
+      WGS84_F *
+      sinAlpha *
+      (sigma + c * sinSigma * (cos2SigmaM + c * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+  return {
+    lla: [lat * RAD2DEG, wrapLongitudeDeg(from[1] + l * RAD2DEG), from[2]],
+    finalAzimuthDeg: wrapAzimuthDeg(Math.atan2(sinAlpha, -x))
+  };
+};
@@ -1,6 +1,7 @@
 import { DEG2RAD, RAD2DEG, WGS84_A, WGS84_B, WGS84_E2, WGS84_EP2 } from "./constants";
 import { quatFromBasis, quatMultiply, quatNormalize } from "./quat";
 import type { NedBasis, Quat, Vec3 } from "./types";
+import { add3, dot3, scale3, sub3 } from "./vec3";
 
 export type LlaDegM = [latDeg: number, lonDeg: number, altM: number];
 export type LlaRadM = [latRad: number, lonRad: number, altM: number];
@@ -65,3 +66,46 @@ export const bodyFrdToEcefQuat = (bodyToNedQuat: Quat, llaDegM: LlaDegM): Quat =
 
 export const ecefToWorld = (ecef: Vec3): Vec3 => [ecef[0] / WGS84_A, ecef[1] / WGS84_A, ecef[2] / WGS84_B];
 
+export interface Aer {
+  azimuthDeg: number;
+  elevationDeg: number;
+  slantRangeM: number;
+}
+
+export const ecefToEnu = (ecef: Vec3, origin: LlaDegM): Vec3 => {
+  const { north, east, down } = nedBasisAtLla(origin);
+  const d = sub3(ecef, llaToEcef(origin));
+  return [dot3(d, east), dot3(d, north), -dot3(d, down)];
+};
+
+export const enuToEcef = ([e, n, u]: Vec3, origin: LlaDegM): Vec3 => {
+  const { north, east, down } = nedBasisAtLla(origin);
+  return add3(llaToEcef(origin), add3(add3(scale3(east, e), scale3(north, n)), scale3(down, -u)));
+};
+
+export const ecefToNed = (ecef: Vec3, origin: LlaDegM): Vec3 => {
+  const [e, n, u] = ecefToEnu(ecef, origin);
+  return [n, e, -u];
+};
+
+export const nedToEcef = ([n, e, d]: Vec3, origin: LlaDegM): Vec3 => enuToEcef([e, n, -d], origin);
+
+export const enuToAer = ([e, n, u]: Vec3): Aer => {
+  const horizontalM = Math.hypot(e, n);
+  return {
+    azimuthDeg: (((Math.atan2(e, n) * RAD2DEG) % 360) + 360) % 360,
+    elevationDeg: Math.atan2(u, horizontalM) * RAD2DEG,
+    slantRangeM: Math.hypot(horizontalM, u)
+  };
+};
+
+export const aerToEnu = ({ azimuthDeg, elevationDeg, slantRangeM }: Aer): Vec3 => {
+  const az = azimuthDeg * DEG2RAD;
+  const el = elevationDeg * DEG2RAD;
+  const horizontalM = slantRangeM * Math.cos(el);
+  return [horizontalM * Math.sin(az), horizontalM * Math.cos(az), slantRangeM * Math.sin(el)];
+};
+
+export const aerBetween = (from: LlaDegM, to: LlaDegM): Aer => enuToAer(ecefToEnu(llaToEcef(to), from));
+
+export const llaFromAer = (from: LlaDegM, aer: Aer): LlaDegM => ecefToLla(enuToEcef(aerToEnu(aer), from));
@@ -1,6 +1,10 @@
+export * from "./atmosphere";
 export * from "./constants";
+export * from "./frames";
+export * from "./geodesic";
 export * from "./geodesy";
 export * from "./mat4";
+export * from "./mgrs";
 export * from "./quat";
 export * from "./types";
 export * from "./vec3";
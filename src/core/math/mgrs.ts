@@ -0,0 +1,90 @@
+import { DEG2RAD, WGS84_A, WGS84_E2 } from "./constants";
+
+export interface UtmCoordinate {
+  zone: number;
+  band: string;
+  eastingM: number;
+  northingM: number;
+}
+
+const UTM_SCALE = 0.9996;
+const FALSE_EASTING_M = 500000;
+const FALSE_NORTHING_SOUTH_M = 10000000;
+const LAT_BANDS = "CDEFGHJKLMNPQRSTUVWX";
+const COLUMN_SETS = ["STUVWXYZ", "ABCDEFGH", "JKLMNPQR"];
+const ROW_LETTERS = "ABCDEFGHJKLMNPQRSTUV";
+
+const utmZone = (latDeg: number, lonDeg: number): number => {
+  const lon = ((((lonDeg + 180) % 360) + 360) % 360) - 180;
+  if (latDeg >= 56 && latDeg < 64 && lon >= 3 && lon < 12) {
+    return 32;
+  }
+  if (latDeg >= 72 && lon >= 0 && lon < 42) {
+    return lon < 9 ? 31 : lon < 21 ? 33 : lon < 33 ? 35 : 37;
+  }
+  return Math.min(60, Math.floor((lon + 180) / 6) + 1);
+};
+
+const latitudeBand = (latDeg: number): string => LAT_BANDS[Math.min(19, Math.floor((latDeg + 80) / 8))];
+
+const meridionalArc = (lat: number): number => {
+  const e2 = WGS84_E2;
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  return (
+    WGS84_A *
+    ((1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * lat -
+      ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * lat) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * lat) -
+      ((35 * e6) / 3072) * Math.sin(6 * lat))
+  );
+};
+
+export const llaToUtm = (latDeg: number, lonDeg: number): UtmCoordinate | null => {
+  if (!(latDeg >= -80 && latDeg <= 84) || !Number.isFinite(lonDeg)) {
+    return null;
+  }
+  const zone = utmZone(latDeg, lonDeg);
+  const lon0 = ((zone - 1) * 6 - 180 + 3) * DEG2RAD;
+  const lat = latDeg * DEG2RAD;
+  let dLon = lonDeg * DEG2RAD - lon0;
+  dLon = Math.atan2(Math.sin(dLon), Math.cos(dLon));
+  const ep2 = WGS84_E2 / (1 - WGS84_E2);
+  const sinLat = Math.sin(lat);
+  const cosLat = Math.cos(lat);
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+  const t = Math.tan(lat) ** 2;
+  const c = ep2 * cosLat * cosLat;
+  const a = cosLat * dLon;
+  const eastingM =
+    UTM_SCALE * n * (a + ((1 - t + c) * a ** 3) / 6 + ((5 - 18 * t + t * t + 72 * c - 58 * ep2) * a ** 5) / 120) +
+    FALSE_EASTING_M;
+  const northing =
+    UTM_SCALE *
+    (meridionalArc(lat) +
+      n *
+        Math.tan(lat) *
+        ((a * a) / 2 +
+          ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 +
+          ((61 - 58 * t + t * t + 600 * c - 330 * ep2) * a ** 6) / 720));
+  return {
+    zone,
+    band: latitudeBand(latDeg),
+    eastingM,
+    northingM: latDeg < 0 ? northing + FALSE_NORTHING_SOUTH_M : northing
+  };
+};
+
+export const llaToMgrs = (latDeg: number, lonDeg: number, digits = 5): string | null => {
+  const utm = llaToUtm(latDeg, lonDeg);
+  if (!utm) {
+    return null;
+  }
+  const { zone, band, eastingM, northingM } = utm;
+  const column = COLUMN_SETS[zone % 3][Math.floor(eastingM / 100000) - 1] ?? "?";
+  const row = ROW_LETTERS[(Math.floor(northingM / 100000) + (zone % 2 === 0 ? 5 : 0)) % 20];
+  const scale = 10 ** (5 - digits);
+  const pad = (value: number): string =>
+    String(Math.floor((value % 100000) / scale)).padStart(digits, "0");
+  return `${String(zone).padStart(2, "0")}${band} ${column}${row} ${pad(eastingM)} ${pad(northingM)}`;
+};
@@ -22,6 +22,14 @@ export const quatMultiply = (a: Quat, b: Quat): Quat => {
   ];
 };
 
+export const quatRotateVec3 = (q: Quat, v: Vec3): Vec3 => {
+  const [x, y, z, w] = quatNormalize(q);
+  const tx = 2 * (y * v[2] - z * v[1]);
+  const ty = 2 * (z * v[0] - x * v[2]);
+  const tz = 2 * (x * v[1] - y * v[0]);
+  return [v[0] + w * tx + (y * tz - z * ty), v[1] + w * ty + (z * tx - x * tz), v[2] + w * tz + (x * ty - y * tx)];
+};
+
 export const quatSlerp = (a: Quat, b: Quat, t: number): Quat => {
   let q1 = quatNormalize(a);
   let q2 = quatNormalize(b);
@@ -84,3 +92,27 @@ export const quatFromBasis = (xAxis: Vec3, yAxis: Vec3, zAxis: Vec3): Quat => {
   return quatNormalize(q);
 };
 
+export const quatFromYawPitchRoll = (yawRad: number, pitchRad: number, rollRad: number): Quat => {
+  const cy = Math.cos(yawRad / 2);
+  const sy = Math.sin(yawRad / 2);
+  const cp = Math.cos(pitchRad / 2);
+  const sp = Math.sin(pitchRad / 2);
+  const cr = Math.cos(rollRad / 2);
+  const sr = Math.sin(rollRad / 2);
+  return [
+    sr * cp * cy - cr * sp * sy,
+    cr * sp * cy + sr * cp * sy,
+    cr * cp * sy - sr * sp * cy,
+    cr * cp * cy + sr * sp * sy
+  ];
+};
+
+export const quatToYawPitchRoll = (q: Quat): Vec3 => {
+  const [x, y, z, w] = quatNormalize(q);
+  const sinPitch = Math.max(-1, Math.min(1, 2 * (w * y - z * x)));
+  return [
+    Math.atan2(2 * (w * z + x * y), 1 - 2 * (y * y + z * z)),
+    Math.asin(sinPitch),
+    Math.atan2(2 * (w * x + y * z), 1 - 2 * (x * x + y * y))
+  ];
+};
@@ -0,0 +1,3 @@
+export * from "./sgp4";
+export * from "./tle";
+export * from "./tleSource";
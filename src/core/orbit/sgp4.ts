@@ -0,0 +1,952 @@
+import { DEG2RAD, gmstFromJulianDateRad } from "../math";
+import type { Vec3 } from "../math";
+import type { TleRecord } from "./tle";
+
+export const SGP4_EARTH_RADIUS_KM = 6378.135;
+export const SGP4_MU_KM3_PER_SEC2 = 398600.8;
+
+const XKE = 60 / Math.sqrt((SGP4_EARTH_RADIUS_KM * SGP4_EARTH_RADIUS_KM * SGP4_EARTH_RADIUS_KM) / SGP4_MU_KM3_PER_SEC2);
+const VKM_PER_SEC = (SGP4_EARTH_RADIUS_KM * XKE) / 60;
+const J2 = 0.001082616;
+const J3 = -0.00000253881;
+const J4 = -0.00000165597;
+const J3OJ2 = J3 / J2;
+const TWO_PI = 2 * Math.PI;
+const X2O3 = 2 / 3;
+const TEMP4 = 1.5e-12;
+const MINUTES_PER_DAY = 1440;
+const XPDOTP = MINUTES_PER_DAY / TWO_PI;
+const JULIAN_DATE_1950 = 2433281.5;
+const DEEP_SPACE_PERIOD_MIN = 225;
+
+const ZES = 0.01675;
+const ZEL = 0.0549;
+const ZNS = 1.19459e-5;
+const ZNL = 1.5835218e-4;
+const RPTIM = 4.37526908801129966e-3;
+const STEPP = 720;
+const STEPN = -720;
+const STEP2 = 259200;
+
+export type Sgp4Method = "near" | "deep";
+
+export type Sgp4Error = "meanMotion" | "eccentricity" | "perturbedEccentricity" | "semiLatusRectum" | "decayed";
+
+export interface Sgp4State {
+  positionKm: Vec3;
+  velocityKmPerSec: Vec3;
+}
+
+export type Sgp4Result = ({ ok: true } & Sgp4State) | { ok: false; error: Sgp4Error };
+
+interface LunarSolarTerms {
+  e3: number;
+  ee2: number;
+  peo: number;
+  pgho: number;
+  pho: number;
+  pinco: number;
+  plo: number;
+  se2: number;
+  se3: number;
+  sgh2: number;
+  sgh3: number;
+  sgh4: number;
+  sh2: number;
+  sh3: number;
+  si2: number;
+  si3: number;
+  sl2: number;
+  sl3: number;
+  sl4: number;
+  xgh2: number;
+  xgh3: number;
+  xgh4: number;
+  xh2: number;
+  xh3: number;
+  xi2: number;
+  xi3: number;
+  xl2: number;
+  xl3: number;
+  xl4: number;
+  zmol: number;
+  zmos: number;
+}
+
+interface ResonanceTerms {
+  irez: number;
+  d2201: number;
+  d2211: number;
+  d3210: number;
+  d3222: number;
+  d4410: number;
+  d4422: number;
+  d5220: number;
+  d5232: number;
+  d5421: number;
+  d5433: number;
+  del1: number;
+  del2: number;
+  del3: number;
+  xfact: number;
+  xlamo: number;
+}
+
+interface DeepSpaceTerms {
+  periodics: LunarSolarTerms;
+  resonance: ResonanceTerms;
+  dedt: number;
+  didt: number;
+  dmdt: number;
+  dnodt: number;
+  domdt: number;
+}
+
+export interface Sgp4Satellite {
+  satnum: string;
+  epochUnixMs: number;
+  method: Sgp4Method;
+  ecco: number;
+  inclo: number;
+  nodeo: number;
+  argpo: number;
+  mo: number;
+  noUnkozai: number;
+  bstar: number;
+  gsto: number;
+  isimp: boolean;
+  aycof: number;
+  con41: number;
+  cc1: number;
+  cc4: number;
+  cc5: number;
+  d2: number;
+  d3: number;
+  d4: number;
+  delmo: number;
+  eta: number;
+  argpdot: number;
+  omgcof: number;
+  sinmao: number;
+  t2cof: number;
+  t3cof: number;
+  t4cof: number;
+  t5cof: number;
+  x1mth2: number;
+  x7thm1: number;
+  mdot: number;
+  nodedot: number;
+  xlcof: number;
+  xmcof: number;
+  nodecf: number;
+  deep: DeepSpaceTerms | null;
+}
+
+const fmod = (value: number, modulus: number): number => value % modulus;
+
+const longPeriodCoefficients = (sinI: number, cosI: number): { aycof: number; xlcof: number } => ({
+  aycof: -0.5 * J3OJ2 * sinI,
+  xlcof: (-0.25 * J3OJ2 * sinI * (3 + 5 * cosI)) / (Math.abs(cosI + 1) > TEMP4 ? 1 + cosI : TEMP4)
+});
+
+interface LunarSolarGeometry {
+  s1: number;
+  s2: number;
+  s3: number;
+  s4: number;
+  s5: number;
+  z1: number;
+  z3: number;
+  z11: number;
+  z13: number;
+  z21: number;
+  z23: number;
+  z31: number;
+  z33: number;
+}
+
+const dscom = (
+  epoch: number,
+  ep: number,
+  argpp: number,
+  inclp: number,
+  nodep: number,
+  np: number
+): { periodics: LunarSolarTerms; solar: LunarSolarGeometry; lunar: LunarSolarGeometry; emsq: number } => {
+  const c1ss = 2.9864797e-6;
+  const c1l = 4.7968065e-7;
+  const snodm = Math.sin(nodep);
+  const cnodm = Math.cos(nodep);
+  const sinomm = Math.sin(argpp);
+  const cosomm = Math.cos(argpp);
+  const sinim = Math.sin(inclp);
+  const cosim = Math.cos(inclp);
+  const emsq = ep * ep;
+  const betasq = 1 - emsq;
+  const rtemsq = Math.sqrt(betasq);
+
+  const day = epoch + 18261.5;
+  const xnodce = fmod(4.523602 - 9.2422029e-4 * day, TWO_PI);
+  const stem = Math.sin(xnodce);
+  const ctem = Math.cos(xnodce);
+  const zcosil = 0.91375164 - 0.03568096 * ctem;
+  const zsinil = Math.sqrt(1 - zcosil * zcosil);
+  const zsinhl = (0.089683511 * stem) / zsinil;
+  const zcoshl = Math.sqrt(1 - zsinhl * zsinhl);
+  const gam = 5.8351514 + 0.001944368 * day;
+  const zx = Math.atan2((0.39785416 * stem) / zsinil, zcoshl * ctem + 0.91744867 * zsinhl * stem) + gam - xnodce;
+  const zcosgl = Math.cos(zx);
+  const zsingl = Math.sin(zx);
+
+  const body = (
+    zcosg: number,
+    zsing: number,
+    zcosi: number,
+    zsini: number,
+    zcosh: number,
+    zsinh: number,
+    cc: number
+  ): LunarSolarGeometry & { s6: number; s7: number; z2: number; z12: number; z22: number; z32: number } => {
+    const a1 = zcosg * zcosh + zsing * zcosi * zsinh;
+    const a3 = -zsing * zcosh + zcosg * zcosi * zsinh;
+    const a7 = -zcosg * zsinh + zsing * zcosi * zcosh;
+    const a8 = zsing * zsini;
+    const a9 = zsing * zsinh + zcosg * zcosi * zcosh;
+    const a10 = zcosg * zsini;
+    const a2 = cosim * a7 + sinim * a8;
+    const a4 = cosim * a9 + sinim * a10;
+    const a5 = -sinim * a7 + cosim * a8;
+    const a6 = -sinim * a9 + cosim * a10;
+
+    const x1 = a1 * cosomm + a2 * sinomm;
+    const x2 = a3 * cosomm + a4 * sinomm;
+    const x3 = -a1 * sinomm + a2 * cosomm;
+    const x4 = -a3 * sinomm + a4 * cosomm;
+    const x5 = a5 * sinomm;
+    const x6 = a6 * sinomm;
+    const x7 = a5 * cosomm;
+    const x8 = a6 * cosomm;
+
+    const z31 = 12 * x1 * x1 - 3 * x3 * x3;
+    const z32 = 24 * x1 * x2 - 6 * x3 * x4;
+    const z33 = 12 * x2 * x2 - 3 * x4 * x4;
+    const z1 = 3 * (a1 * a1 + a2 * a2) + z31 * emsq;
+    const z2 = 6 * (a1 * a3 + a2 * a4) + z32 * emsq;
+    const z3 = 3 * (a3 * a3 + a4 * a4) + z33 * emsq;
+    const z11 = -6 * a1 * a5 + emsq * (-24 * x1 * x7 - 6 * x3 * x5);
+    const z12 = -6 * (a1 * a6 + a3 * a5) + emsq * (-24 * (x2 * x7 + x1 * x8) - 6 * (x3 * x6 + x4 * x5));
+    const z13 = -6 * a3 * a6 + emsq * (-24 * x2 * x8 - 6 * x4 * x6);
+    const z21 = 6 * a2 * a5 + emsq * (24 * x1 * x5 - 6 * x3 * x7);
+    const z22 = 6 * (a4 * a5 + a2 * a6) + emsq * (24 * (x2 * x5 + x1 * x6) - 6 * (x4 * x7 + x3 * x8));
+    const z23 = 6 * a4 * a6 + emsq * (24 * x2 * x6 - 6 * x4 * x8);
+    const s3 = cc / np;
+    const s4 = s3 * rtemsq;
+    return {
+      s1: -15 * ep * s4,
+      s2: (-0.5 * s3) / rtemsq,
+      s3,
+      s4,
+      s5: x1 * x3 + x2 * x4,
+      s6: x2 * x3 + x1 * x4,
+      s7: x2 * x4 - x1 * x3,
+      z1: z1 + z1 + betasq * z31,
+      z2: z2 + z2 + betasq * z32,
+      z3: z3 + z3 + betasq * z33,
+      z11,
+      z12,
+      z13,
+      z21,
+      z22,
+      z23,
+      z31,
+      z32,
+      z33
+    };
+  };
+
+  const sun = body(0.1945905, -0.98088458, 0.91744867, 0.39785416, cnodm, snodm, c1ss);
+  const moon = body(
+    zcosgl,
+    zsingl,
+    zcosil,
+    zsinil,
+    zcoshl * cnodm + zsinhl * snodm,
+    snodm * zcoshl - cnodm * zsinhl,
+    c1l
+  );
+
+  return {
+    periodics: {
+      se2: 2 * sun.s1 * sun.s6,
+      se3: 2 * sun.s1 * sun.s7,
+      si2: 2 * sun.s2 * sun.z12,
+      si3: 2 * sun.s2 * (sun.z13 - sun.z11),
+      sl2: -2 * sun.s3 * sun.z2,
+      sl3: -2 * sun.s3 * (sun.z3 - sun.z1),
+      sl4: -2 * sun.s3 * (-21 - 9 * emsq) * ZES,
+      sgh2: 2 * sun.s4 * sun.z32,
+      sgh3: 2 * sun.s4 * (sun.z33 - sun.z31),
+      sgh4: -18 * sun.s4 * ZES,
+      sh2: -2 * sun.s2 * sun.z22,
+      sh3: -2 * sun.s2 * (sun.z23 - sun.z21),
+      ee2: 2 * moon.s1 * moon.s6,
+      e3: 2 * moon.s1 * moon.s7,
+      xi2: 2 * moon.s2 * moon.z12,
+      xi3: 2 * moon.s2 * (moon.z13 - moon.z11),
+      xl2: -2 * moon.s3 * moon.z2,
+      xl3: -2 * moon.s3 * (moon.z3 - moon.z1),
+      xl4: -2 * moon.s3 * (-21 - 9 * emsq) * ZEL,
+      xgh2: 2 * moon.s4 * moon.z32,
+      xgh3: 2 * moon.s4 * (moon.z33 - moon.z31),
+      xgh4: -18 * moon.s4 * ZEL,
+      xh2: -2 * moon.s2 * moon.z22,
+      xh3: -2 * moon.s2 * (moon.z23 - moon.z21),
+      zmol: fmod(4.7199672 + 0.2299715 * day - gam, TWO_PI),
+      zmos: fmod(6.2565837 + 0.017201977 * day, TWO_PI),
+      peo: 0,
+      pinco: 0,
+      plo: 0,
+      pgho: 0,
+      pho: 0
+    },
+    solar: sun,
+    lunar: moon,
+    emsq
+  };
+};
+
+interface PeriodicElements {
+  ep: number;
+  inclp: number;
+  nodep: number;
+  argpp: number;
+  mp: number;
+}
+
+const dpper = (p: LunarSolarTerms, t: number, elements: PeriodicElements): PeriodicElements => {
+  const phase = (zm: number, ze: number): { f2: number; f3: number; sinzf: number } => {
+    const zf = zm + 2 * ze * Math.sin(zm);
+    const sinzf = Math.sin(zf);
+    return { f2: 0.5 * sinzf * sinzf - 0.25, f3: -0.5 * sinzf * Math.cos(zf), sinzf };
+  };
+  const sun = phase(p.zmos + ZNS * t, ZES);
+  const moon = phase(p.zmol + ZNL * t, ZEL);
+  const pe = p.se2 * sun.f2 + p.se3 * sun.f3 + p.ee2 * moon.f2 + p.e3 * moon.f3 - p.peo;
+  const pinc = p.si2 * sun.f2 + p.si3 * sun.f3 + p.xi2 * moon.f2 + p.xi3 * moon.f3 - p.pinco;
+  const pl =
+    p.sl2 * sun.f2 +
+    p.sl3 * sun.f3 +
+    p.sl4 * sun.sinzf +
+    p.xl2 * moon.f2 +
+    p.xl3 * moon.f3 +
+    p.xl4 * moon.sinzf -
+    p.plo;
+  let pgh =
+    p.sgh2 * sun.f2 +
+    p.sgh3 * sun.f3 +
+    p.sgh4 * sun.sinzf +
+    p.xgh2 * moon.f2 +
+    p.xgh3 * moon.f3 +
+    p.xgh4 * moon.sinzf -
+    p.pgho;
+  let ph = p.sh2 * sun.f2 + p.sh3 * sun.f3 + p.xh2 * moon.f2 + p.xh3 * moon.f3 - p.pho;
+
+  const inclp = elements.inclp + pinc;
+  const ep = elements.ep + pe;
+  const sinip = Math.sin(inclp);
+  const cosip = Math.cos(inclp);
+  let { nodep, argpp, mp } = elements;
+
+  if (inclp >= 0.2) {
+    ph /= sinip;
+    pgh -= cosip * ph;
+    argpp += pgh;
+    nodep += ph;
+    mp += pl;
+  } else {
+    const sinop = Math.sin(nodep);
+    const cosop = Math.cos(nodep);
+    const alfdp = sinip * sinop + ph * cosop + pinc * cosip * sinop;
+    const betdp = sinip * cosop - ph * sinop + pinc * cosip * cosop;
+    nodep = fmod(nodep, TWO_PI);
+    const xls = mp + argpp + cosip * nodep + pl + pgh - pinc * nodep * sinip;
+    const xnoh = nodep;
+    nodep = Math.atan2(alfdp, betdp);
+    if (Math.abs(xnoh - nodep) > Math.PI) {
+      nodep += nodep < xnoh ? TWO_PI : -TWO_PI;
+    }
+    mp += pl;
+    argpp = xls - mp - cosip * nodep;
+  }
+  return { ep, inclp, nodep, argpp, mp };
+};
+
+const resonanceTerms = (
+  sat: Pick<Sgp4Satellite, "ecco" | "inclo" | "nodeo" | "argpo" | "mo" | "mdot" | "nodedot" | "noUnkozai" | "gsto">,
+  xpidot: number,
+  dmdt: number,
+  domdt: number,
+  dnodt: number
+): ResonanceTerms => {
+  const nm = sat.noUnkozai;
+  const em = sat.ecco;
+  const none: ResonanceTerms = {
+    irez: 0,
+    d2201: 0,
+    d2211: 0,
+    d3210: 0,
+    d3222: 0,
+    d4410: 0,
+    d4422: 0,
+    d5220: 0,
+    d5232: 0,
+    d5421: 0,
+    d5433: 0,
+    del1: 0,
+    del2: 0,
+    del3: 0,
+    xfact: 0,
+    xlamo: 0
+  };
+  const synchronous = nm < 0.0052359877 && nm > 0.0034906585;
+  const halfDay = nm >= 8.26e-3 && nm <= 9.24e-3 && em >= 0.5;
+  if (!synchronous && !halfDay) {
+    return none;
+  }
+  const theta = fmod(sat.gsto, TWO_PI);
+  const aonv = Math.pow(nm / XKE, X2O3);
+  const sinim = Math.sin(sat.inclo);
+  const cosim = Math.cos(sat.inclo);
+  const emsq = em * em;
+
+  if (halfDay) {
+    const cosisq = cosim * cosim;
+    const eoc = em * emsq;
+    const g201 = -0.306 - (em - 0.64) * 0.44;
+    let g211: number;
+    let g310: number;
+    let g322: number;
+    let g410: number;
+    let g422: number;
+    let g520: number;
+    if (em <= 0.65) {
+      g211 = 3.616 - 13.247 * em + 16.29 * emsq;
+      g310 = -19.302 + 117.39 * em - 228.419 * emsq + 156.591 * eoc;
+      g322 = -18.9068 + 109.7927 * em - 214.6334 * emsq + 146.5816 * eoc;
+      g410 = -41.122 + 242.694 * em - 471.094 * emsq + 313.953 * eoc;
+      g422 = -146.407 + 841.88 * em - 1629.014 * emsq + 1083.435 * eoc;
+      g520 = -532.114 + 3017.977 * em - 5740.032 * emsq + 3708.276 * eoc;
+    } else {
+      g211 = -72.099 + 331.819 * em - 508.738 * emsq + 266.724 * eoc;
+      g310 = -346.844 + 1582.851 * em - 2415.925 * emsq + 1246.113 * eoc;
+      g322 = -342.585 + 1554.908 * em - 2366.899 * emsq + 1215.972 * eoc;
+      g410 = -1052.797 + 4758.686 * em - 7193.992 * emsq + 3651.957 * eoc;
+      g422 = -3581.69 + 16178.11 * em - 24462.77 * emsq + 12422.52 * eoc;
+      g520 =
+        em > 0.715
+          ? -5149.66 + 29936.92 * em - 54087.36 * emsq + 31324.56 * eoc
+          : 1464.74 - 4664.75 * em + 3763.64 * emsq;
+    }
+    let g533: number;
+    let g521: number;
+    let g532: number;
+    if (em < 0.7) {
+      g533 = -919.2277 + 4988.61 * em - 9064.77 * emsq + 5542.21 * eoc;
+      g521 = -822.71072 + 4568.6173 * em - 8491.4146 * emsq + 5337.524 * eoc;
+      g532 = -853.666 + 4690.25 * em - 8624.77 * emsq + 5341.4 * eoc;
+    } else {
+      g533 = -37995.78 + 161616.52 * em - 229838.2 * emsq + 109377.94 * eoc;
+      g521 = -51752.104 + 218913.95 * em - 309468.16 * emsq + 146349.42 * eoc;
+      g532 = -40023.88 + 170470.89 * em - 242699.48 * emsq + 115605.82 * eoc;
+    }
+    const sini2 = sinim * sinim;
+    const f220 = 0.75 * (1 + 2 * cosim + cosisq);
+    const f221 = 1.5 * sini2;
+    const f321 = 1.875 * sinim * (1 - 2 * cosim - 3 * cosisq);
+    const f322 = -1.875 * sinim * (1 + 2 * cosim - 3 * cosisq);
+    const f441 = 35 * sini2 * f220;
+    const f442 = 39.375 * sini2 * sini2;
+    const f522 =
+      9.84375 * sinim * (sini2 * (1 - 2 * cosim - 5 * cosisq) + 0.33333333 * (-2 + 4 * cosim + 6 * cosisq));
+    const f523 =
+      sinim * (4.92187512 * sini2 * (-2 - 4 * cosim + 10 * cosisq) + 6.56250012 * (1 + 2 * cosim - 3 * cosisq));
+    const f542 = 29.53125 * sinim * (2 - 8 * cosim + cosisq * (-12 + 8 * cosim + 10 * cosisq));
+    const f543 = 29.53125 * sinim * (-2 - 8 * cosim + cosisq * (12 + 8 * cosim - 10 * cosisq));
+    const xno2 = nm * nm;
+    const ainv2 = aonv * aonv;
+    let temp1 = 3 * xno2 * ainv2;
+    let temp = temp1 * 1.7891679e-6;
+    const d2201 = temp * f220 * g201;
+    const d2211 = temp * f221 * g211;
+    temp1 *= aonv;
+    temp = temp1 * 3.7393792e-7;
+    const d3210 = temp * f321 * g310;
+    const d3222 = temp * f322 * g322;
+    temp1 *= aonv;
+    temp = 2 * temp1 * 7.3636953e-9;
+    const d4410 = temp * f441 * g410;
+    const d4422 = temp * f442 * g422;
+    temp1 *= aonv;
+    temp = temp1 * 1.1428639e-7;
+    const d5220 = temp * f522 * g520;
+    const d5232 = temp * f523 * g532;
+    temp = 2 * temp1 * 2.1765803e-9;
+    return {
+      ...none,
+      irez: 2,
+      d2201,
+      d2211,
+      d3210,
+      d3222,
+      d4410,
+      d4422,
+      d5220,
+      d5232,
+      d5421: temp * f542 * g521,
+      d5433: temp * f543 * g533,
+      xlamo: fmod(sat.mo + sat.nodeo + sat.nodeo - theta - theta, TWO_PI),
+      xfact: sat.mdot + dmdt + 2 * (sat.nodedot + dnodt - RPTIM) - nm
+    };
+  }
+
+  const g200 = 1 + emsq * (-2.5 + 0.8125 * emsq);
+  const g310 = 1 + 2 * emsq;
+  const g300 = 1 + emsq * (-6 + 6.60937 * emsq);
+  const f220 = 0.75 * (1 + cosim) * (1 + cosim);
+  const f311 = 0.9375 * sinim * sinim * (1 + 3 * cosim) - 0.75 * (1 + cosim);
+  const f330 = 1.875 * (1 + cosim) ** 3;
+  const del1 = 3 * nm * nm * aonv * aonv;
+  return {
+    ...none,
+    irez: 1,
+    del1: del1 * f311 * g310 * 2.1460748e-6 * aonv,
+    del2: 2 * del1 * f220 * g200 * 1.7891679e-6,
+    del3: 3 * del1 * f330 * g300 * 2.2123015e-7 * aonv,
+    xlamo: fmod(sat.mo + sat.nodeo + sat.argpo - theta, TWO_PI),
+    xfact: sat.mdot + xpidot - RPTIM + dmdt + domdt + dnodt - nm
+  };
+};
+
+const dsinit = (
+  sat: Pick<Sgp4Satellite, "ecco" | "inclo" | "nodeo" | "argpo" | "mo" | "mdot" | "nodedot" | "noUnkozai" | "gsto">,
+  epoch: number,
+  xpidot: number
+): DeepSpaceTerms => {
+  const { periodics, solar, lunar, emsq } = dscom(epoch, sat.ecco, sat.argpo, sat.inclo, sat.nodeo, sat.noUnkozai);
+  const sinim = Math.sin(sat.inclo);
+  const cosim = Math.cos(sat.inclo);
+  const nearEquatorial = sat.inclo < 5.2359877e-2 || sat.inclo > Math.PI - 5.2359877e-2;
+
+  const ses = solar.s1 * ZNS * solar.s5;
+  const sis = solar.s2 * ZNS * (solar.z11 + solar.z13);
+  const sls = -ZNS * solar.s3 * (solar.z1 + solar.z3 - 14 - 6 * emsq);
+  const sghs = solar.s4 * ZNS * (solar.z31 + solar.z33 - 6);
+  let shs = nearEquatorial ? 0 : -ZNS * solar.s2 * (solar.z21 + solar.z23);
+  if (sinim !== 0) {
+    shs /= sinim;
+  }
+  const sgs = sghs - cosim * shs;
+
+  const dedt = ses + lunar.s1 * ZNL * lunar.s5;
+  const didt = sis + lunar.s2 * ZNL * (lunar.z11 + lunar.z13);
+  const dmdt = sls - ZNL * lunar.s3 * (lunar.z1 + lunar.z3 - 14 - 6 * emsq);
+  const sghl = lunar.s4 * ZNL * (lunar.z31 + lunar.z33 - 6);
+  const shll = nearEquatorial ? 0 : -ZNL * lunar.s2 * (lunar.z21 + lunar.z23);
+  let domdt = sgs + sghl;
+  let dnodt = shs;
+  if (sinim !== 0) {
+    domdt -= (cosim / sinim) * shll;
+    dnodt += shll / sinim;
+  }
+
+  return {
+    periodics,
+    resonance: resonanceTerms(sat, xpidot, dmdt, domdt, dnodt),
+    dedt,
+    didt,
+    dmdt,
+    dnodt,
+    domdt
+  };
+};
+
+const dspace = (
+  sat: Sgp4Satellite,
+  deep: DeepSpaceTerms,
+  t: number,
+  mean: { em: number; argpm: number; inclm: number; mm: number; nodem: number }
+): { em: number; argpm: number; inclm: number; mm: number; nodem: number; nm: number } => {
+  const em = mean.em + deep.dedt * t;
+  const inclm = mean.inclm + deep.didt * t;
+  const argpm = mean.argpm + deep.domdt * t;
+  const nodem = mean.nodem + deep.dnodt * t;
+  let mm = mean.mm + deep.dmdt * t;
+  let nm = sat.noUnkozai;
+
+  const r = deep.resonance;
+  if (r.irez !== 0) {
+    const theta = fmod(sat.gsto + t * RPTIM, TWO_PI);
+    const delt = t > 0 ? STEPP : STEPN;
+    let atime = 0;
+    let xni = sat.noUnkozai;
+    let xli = r.xlamo;
+    let xndt = 0;
+    let xldot = 0;
+    let xnddt = 0;
+    let ft = 0;
+    for (;;) {
+      if (r.irez !== 2) {
+        xndt =
+          r.del1 * Math.sin(xli - 0.13130908) +
+          r.del2 * Math.sin(2 * (xli - 2.8843198)) +
+          r.del3 * Math.sin(3 * (xli - 0.37448087));
+        xldot = xni + r.xfact;
+        xnddt =
+          (r.del1 * Math.cos(xli - 0.13130908) +
+            2 * r.del2 * Math.cos(2 * (xli - 2.8843198)) +
+            3 * r.del3 * Math.cos(3 * (xli - 0.37448087))) *
+          xldot;
+      } else {
+        const xomi = sat.argpo + sat.argpdot * atime;
+        const x2omi = xomi + xomi;
+        const x2li = xli + xli;
+        xndt =
+          r.d2201 * Math.sin(x2omi + xli - 5.7686396) +
+          r.d2211 * Math.sin(xli - 5.7686396) +
+          r.d3210 * Math.sin(xomi + xli - 0.95240898) +
+          r.d3222 * Math.sin(-xomi + xli - 0.95240898) +
+          r.d4410 * Math.sin(x2omi + x2li - 1.8014998) +
+          r.d4422 * Math.sin(x2li - 1.8014998) +
+          r.d5220 * Math.sin(xomi + xli - 1.050833) +
+          r.d5232 * Math.sin(-xomi + xli - 1.050833) +
+          r.d5421 * Math.sin(xomi + x2li - 4.4108898) +
+          r.d5433 * Math.sin(-xomi + x2li - 4.4108898);
+        xldot = xni + r.xfact;
+        xnddt =
+          (r.d2201 * Math.cos(x2omi + xli - 5.7686396) +
+            r.d2211 * Math.cos(xli - 5.7686396) +
+            r.d3210 * Math.cos(xomi + xli - 0.95240898) +
+            r.d3222 * Math.cos(-xomi + xli - 0.95240898) +
+            r.d5220 * Math.cos(xomi + xli - 1.050833) +
+            r.d5232 * Math.cos(-xomi + xli - 1.050833) +
+            2 *
+              (r.d4410 * Math.cos(x2omi + x2li - 1.8014998) +
+                r.d4422 * Math.cos(x2li - 1.8014998) +
+                r.d5421 * Math.cos(xomi + x2li - 4.4108898) +
+                r.d5433 * Math.cos(-xomi + x2li - 4.4108898))) *
+          xldot;
+      }
+      if (Math.abs(t - atime) < STEPP) {
+        ft = t - atime;
+        break;
+      }
+      xli += xldot * delt + xndt * STEP2;
+      xni += xndt * delt + xnddt * STEP2;
+      atime += delt;
+    }
+    nm = xni + xndt * ft + xnddt * ft * ft * 0.5;
+    const xl = xli + xldot * ft + xndt * ft * ft * 0.5;
+    mm = r.irez !== 1 ? xl - 2 * nodem + 2 * theta : xl - nodem - argpm + theta;
+  }
+  return { em, argpm, inclm, mm, nodem, nm };
+};
+
+export const createSgp4Satellite = (tle: TleRecord): Sgp4Satellite => {
+  const noKozai = tle.meanMotionRevPerDay / XPDOTP;
+  const ecco = tle.eccentricity;
+  const inclo = tle.inclinationDeg * DEG2RAD;
+  const argpo = tle.argPerigeeDeg * DEG2RAD;
+  const mo = tle.meanAnomalyDeg * DEG2RAD;
+  const nodeo = tle.raanDeg * DEG2RAD;
+  const bstar = tle.bstar;
+  const epoch = tle.epochDays1950;
+
+  const eccsq = ecco * ecco;
+  const omeosq = 1 - eccsq;
+  const rteosq = Math.sqrt(omeosq);
+  const cosio = Math.cos(inclo);
+  const cosio2 = cosio * cosio;
+  const ak = Math.pow(XKE / noKozai, X2O3);
+  const d1 = (0.75 * J2 * (3 * cosio2 - 1)) / (rteosq * omeosq);
+  let del = d1 / (ak * ak);
+  const adel = ak * (1 - del * del - del * (1 / 3 + (134 * del * del) / 81));
+  del = d1 / (adel * adel);
+  const noUnkozai = noKozai / (1 + del);
+  const ao = Math.pow(XKE / noUnkozai, X2O3);
+  const sinio = Math.sin(inclo);
+  const po = ao * omeosq;
+  const con42 = 1 - 5 * cosio2;
+  const con41 = -con42 - cosio2 - cosio2;
+  const posq = po * po;
+  const rp = ao * (1 - ecco);
+  const gsto = gmstFromJulianDateRad(epoch + JULIAN_DATE_1950);
+
+  const ss = 78 / SGP4_EARTH_RADIUS_KM + 1;
+  let sfour = ss;
+  let qzms24 = ((120 - 78) / SGP4_EARTH_RADIUS_KM) ** 4;
+  const perigeeKm = (rp - 1) * SGP4_EARTH_RADIUS_KM;
+  if (perigeeKm < 156) {
+    sfour = perigeeKm < 98 ? 20 : perigeeKm - 78;
+    qzms24 = ((120 - sfour) / SGP4_EARTH_RADIUS_KM) ** 4;
+    sfour = sfour / SGP4_EARTH_RADIUS_KM + 1;
+  }
+  const pinvsq = 1 / posq;
+  const tsi = 1 / (ao - sfour);
+  const eta = ao * ecco * tsi;
+  const etasq = eta * eta;
+  const eeta = ecco * eta;
+  const psisq = Math.abs(1 - etasq);
+  const coef = qzms24 * tsi ** 4;
+  const coef1 = coef / psisq ** 3.5;
+  const cc2 =
+    coef1 *
+    noUnkozai *
+    (ao * (1 + 1.5 * etasq + eeta * (4 + etasq)) +
+      ((0.375 * J2 * tsi) / psisq) * con41 * (8 + 3 * etasq * (8 + etasq)));
+  const cc1 = bstar * cc2;
+  const cc3 = ecco > 1e-4 ? (-2 * coef * tsi * J3OJ2 * noUnkozai * sinio) / ecco : 0;
+  const x1mth2 = 1 - cosio2;
+  const cc4 =
+    2 *
+    noUnkozai *
+    coef1 *
+    ao *
+    omeosq *
+    (eta * (2 + 0.5 * etasq) +
+      ecco * (0.5 + 2 * etasq) -
+      ((J2 * tsi) / (ao * psisq)) *
+        (-3 * con41 * (1 - 2 * eeta + etasq * (1.5 - 0.5 * eeta)) +
+          0.75 * x1mth2 * (2 * etasq - eeta * (1 + etasq)) * Math.cos(2 * argpo)));
+  const cc5 = 2 * coef1 * ao * omeosq * (1 + 2.75 * (etasq + eeta) + eeta * etasq);
+  const cosio4 = cosio2 * cosio2;
+  const temp1 = 1.5 * J2 * pinvsq * noUnkozai;
+  const temp2 = 0.5 * temp1 * J2 * pinvsq;
+  const temp3 = -0.46875 * J4 * pinvsq * pinvsq * noUnkozai;
+  const mdot =
+    noUnkozai + 0.5 * temp1 * rteosq * con41 + 0.0625 * temp2 * rteosq * (13 - 78 * cosio2 + 137 * cosio4);
+  const argpdot =
+    -0.5 * temp1 * con42 +
+    0.0625 * temp2 * (7 - 114 * cosio2 + 395 * cosio4) +
+    temp3 * (3 - 36 * cosio2 + 49 * cosio4);
+  const xhdot1 = -temp1 * cosio;
+  const nodedot = xhdot1 + (0.5 * temp2 * (4 - 19 * cosio2) + 2 * temp3 * (3 - 7 * cosio2)) * cosio;
+  const delmo = (1 + eta * Math.cos(mo)) ** 3;
+
+  const sat: Sgp4Satellite = {
+    satnum: tle.satnum,
+    epochUnixMs: tle.epochUnixMs,
+    method: TWO_PI / noUnkozai >= DEEP_SPACE_PERIOD_MIN ? "deep" : "near",
+    ecco,
+    inclo,
+    nodeo,
+    argpo,
+    mo,
+    noUnkozai,
+    bstar,
+    gsto,
+    isimp: rp < 220 / SGP4_EARTH_RADIUS_KM + 1,
+    ...longPeriodCoefficients(sinio, cosio),
+    con41,
+    cc1,
+    cc4,
+    cc5,
+    d2: 0,
+    d3: 0,
+    d4: 0,
+    delmo,
+    eta,
+    argpdot,
+    omgcof: bstar * cc3 * Math.cos(argpo),
+    sinmao: Math.sin(mo),
+    t2cof: 1.5 * cc1,
+    t3cof: 0,
+    t4cof: 0,
+    t5cof: 0,
+    x1mth2,
+    x7thm1: 7 * cosio2 - 1,
+    mdot,
+    nodedot,
+    xmcof: ecco > 1e-4 ? (-X2O3 * coef * bstar) / eeta : 0,
+    nodecf: 3.5 * omeosq * xhdot1 * cc1,
+    deep: null
+  };
+
+  if (sat.method === "deep") {
+    sat.isimp = true;
+    sat.deep = dsinit(sat, epoch, argpdot + nodedot);
+  }
+
+  if (!sat.isimp) {
+    const cc1sq = cc1 * cc1;
+    sat.d2 = 4 * ao * tsi * cc1sq;
+    const temp = (sat.d2 * tsi * cc1) / 3;
+    sat.d3 = (17 * ao + sfour) * temp;
+    sat.d4 = 0.5 * temp * ao * tsi * (221 * ao + 31 * sfour) * cc1;
+    sat.t3cof = sat.d2 + 2 * cc1sq;
+    sat.t4cof = 0.25 * (3 * sat.d3 + cc1 * (12 * sat.d2 + 10 * cc1sq));
+    sat.t5cof = 0.2 * (3 * sat.d4 + 12 * cc1 * sat.d3 + 6 * sat.d2 * sat.d2 + 15 * cc1sq * (2 * sat.d2 + cc1sq));
+  }
+  return sat;
+};
+
+export const sgp4OrbitalPeriodMin = (sat: Sgp4Satellite): number => TWO_PI / sat.noUnkozai;
+
+export const propagateSgp4 = (sat: Sgp4Satellite, tsinceMin: number): Sgp4Result => {
+  const t = tsinceMin;
+  const xmdf = sat.mo + sat.mdot * t;
+  const argpdf = sat.argpo + sat.argpdot * t;
+  const nodedf = sat.nodeo + sat.nodedot * t;
+  let argpm = argpdf;
+  let mm = xmdf;
+  const t2 = t * t;
+  let nodem = nodedf + sat.nodecf * t2;
+  let tempa = 1 - sat.cc1 * t;
+  let tempe = sat.bstar * sat.cc4 * t;
+  let templ = sat.t2cof * t2;
+
+  if (!sat.isimp) {
+    const delomg = sat.omgcof * t;
+    const delm = sat.xmcof * ((1 + sat.eta * Math.cos(xmdf)) ** 3 - sat.delmo);
+    const temp = delomg + delm;
+    mm = xmdf + temp;
+    argpm = argpdf - temp;
+    const t3 = t2 * t;
+    const t4 = t3 * t;
+    tempa = tempa - sat.d2 * t2 - sat.d3 * t3 - sat.d4 * t4;
+    tempe += sat.bstar * sat.cc5 * (Math.sin(mm) - sat.sinmao);
+    templ += sat.t3cof * t3 + t4 * (sat.t4cof + t * sat.t5cof);
+  }
+
+  let nm = sat.noUnkozai;
+  let em = sat.ecco;
+  let inclm = sat.inclo;
+  if (sat.deep) {
+    ({ em, argpm, inclm, mm, nodem, nm } = dspace(sat, sat.deep, t, { em, argpm, inclm, mm, nodem }));
+  }
+
+  if (nm <= 0) {
+    return { ok: false, error: "meanMotion" };
+  }
+  const am = Math.pow(XKE / nm, X2O3) * tempa * tempa;
+  nm = XKE / am ** 1.5;
+  em -= tempe;
+  if (em >= 1 || em < -0.001) {
+    return { ok: false, error: "eccentricity" };
+  }
+  em = Math.max(em, 1e-6);
+  mm += sat.noUnkozai * templ;
+  let xlm = mm + argpm + nodem;
+  nodem = fmod(nodem, TWO_PI);
+  argpm = fmod(argpm, TWO_PI);
+  xlm = fmod(xlm, TWO_PI);
+  mm = fmod(xlm - argpm - nodem, TWO_PI);
+
+  let ep = em;
+  let xincp = inclm;
+  let argpp = argpm;
+  let nodep = nodem;
+  let mp = mm;
+  let { aycof, xlcof, con41, x1mth2, x7thm1 } = sat;
+  if (sat.deep) {
+    ({ ep, inclp: xincp, nodep, argpp, mp } = dpper(sat.deep.periodics, t, {
+      ep,
+      inclp: xincp,
+      nodep,
+      argpp,
+      mp
+    }));
+    if (xincp < 0) {
+      xincp = -xincp;
+      nodep += Math.PI;
+      argpp -= Math.PI;
+    }
+    if (ep < 0 || ep > 1) {
+      return { ok: false, error: "perturbedEccentricity" };
+    }
+  }
+  const sinip = Math.sin(xincp);
+  const cosip = Math.cos(xincp);
+  if (sat.deep) {
+    ({ aycof, xlcof } = longPeriodCoefficients(sinip, cosip));
+    const cosisq = cosip * cosip;
+    con41 = 3 * cosisq - 1;
+    x1mth2 = 1 - cosisq;
+    x7thm1 = 7 * cosisq - 1;
+  }
+
+  const axnl = ep * Math.cos(argpp);
+  let temp = 1 / (am * (1 - ep * ep));
+  const aynl = ep * Math.sin(argpp) + temp * aycof;
+  const xl = mp + argpp + nodep + temp * xlcof * axnl;
+
+  const u = fmod(xl - nodep, TWO_PI);
+  let eo1 = u;
+  let tem5 = 9999.9;
+  let sineo1 = 0;
+  let coseo1 = 0;
+  for (let ktr = 1; Math.abs(tem5) >= 1e-12 && ktr <= 10; ktr += 1) {
+    sineo1 = Math.sin(eo1);
+    coseo1 = Math.cos(eo1);
+    tem5 = (u - aynl * coseo1 + axnl * sineo1 - eo1) / (1 - coseo1 * axnl - sineo1 * aynl);
+    if (Math.abs(tem5) >= 0.95) {
+      tem5 = tem5 > 0 ? 0.95 : -0.95;
+    }
+    eo1 += tem5;
+  }
+
+  const ecose = axnl * coseo1 + aynl * sineo1;
+  const esine = axnl * sineo1 - aynl * coseo1;
+  const el2 = axnl * axnl + aynl * aynl;
+  const pl = am * (1 - el2);
+  if (pl < 0) {
+    return { ok: false, error: "semiLatusRectum" };
+  }
+  const rl = am * (1 - ecose);
+  const rdotl = (Math.sqrt(am) * esine) / rl;
+  const rvdotl = Math.sqrt(pl) / rl;
+  const betal = Math.sqrt(1 - el2);
+  temp = esine / (1 + betal);
+  const sinu = (am / rl) * (sineo1 - aynl - axnl * temp);
+  const cosu = (am / rl) * (coseo1 - axnl + aynl * temp);
+  let su = Math.atan2(sinu, cosu);
+  const sin2u = (cosu + cosu) * sinu;
+  const cos2u = 1 - 2 * sinu * sinu;
+  temp = 1 / pl;
+  const temp1 = 0.5 * J2 * temp;
+  const temp2 = temp1 * temp;
+
+  const mrt = rl * (1 - 1.5 * temp2 * betal * con41) + 0.5 * temp1 * x1mth2 * cos2u;
+  su -= 0.25 * temp2 * x7thm1 * sin2u;
+  const xnode = nodep + 1.5 * temp2 * cosip * sin2u;
+  const xinc = xincp + 1.5 * temp2 * cosip * sinip * cos2u;
+  const mvt = rdotl - (nm * temp1 * x1mth2 * sin2u) / XKE;
+  const rvdot = rvdotl + (nm * temp1 * (x1mth2 * cos2u + 1.5 * con41)) / XKE;
+
+  const sinsu = Math.sin(su);
+  const cossu = Math.cos(su);
+  const snod = Math.sin(xnode);
+  const cnod = Math.cos(xnode);
+  const sini = Math.sin(xinc);
+  const cosi = Math.cos(xinc);
+  const xmx = -snod * cosi;
+  const xmy = cnod * cosi;
+  const ux = xmx * sinsu + cnod * cossu;
+  const uy = xmy * sinsu + snod * cossu;
+  const uz = sini * sinsu;
+  const vx = xmx * cossu - cnod * sinsu;
+  const vy = xmy * cossu - snod * sinsu;
+  const vz = sini * cossu;
+
+  if (mrt < 1) {
+    return { ok: false, error: "decayed" };
+  }
+  return {
+    ok: true,
+    positionKm: [mrt * ux * SGP4_EARTH_RADIUS_KM, mrt * uy * SGP4_EARTH_RADIUS_KM, mrt * uz * SGP4_EARTH_RADIUS_KM],
+    velocityKmPerSec: [
+      (mvt * ux + rvdot * vx) * VKM_PER_SEC,
+      (mvt * uy + rvdot * vy) * VKM_PER_SEC,
+      (mvt * uz + rvdot * vz) * VKM_PER_SEC
+    ]
+  };
+};
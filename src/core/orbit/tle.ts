@@ -0,0 +1,112 @@
+import { MS_PER_DAY } from "../math";
+
+export interface TleRecord {
+  name: string;
+  satnum: string;
+  line1: string;
+  line2: string;
+  epochUnixMs: number;
+  epochDays1950: number;
+  ndotRevPerDay2: number;
+  nddotRevPerDay3: number;
+  bstar: number;
+  inclinationDeg: number;
+  raanDeg: number;
+  eccentricity: number;
+  argPerigeeDeg: number;
+  meanAnomalyDeg: number;
+  meanMotionRevPerDay: number;
+}
+
+const LINE_LENGTH = 69;
+const TWO_DIGIT_YEAR_PIVOT = 57;
+const DAYS_1950_EPOCH_MS = Date.UTC(1949, 11, 31);
+
+export const tleChecksum = (line: string): number => {
+  let sum = 0;
+  for (const char of line.slice(0, LINE_LENGTH - 1)) {
+    if (char >= "0" && char <= "9") {
+      sum += Number(char);
+    } else if (char === "-") {
+      sum += 1;
+    }
+  }
+  return sum % 10;
+};
+
+const parseField = (line: string, start: number, end: number, label: string): number => {
+  const text = line.slice(start, end).trim();
+  const value = Number(text);
+  if (text === "" || !Number.isFinite(value)) {
+    throw new Error(`TLE ${label} "${text}" is not a number`);
+  }
+  return value;
+};
+
+const parseExponent = (line: string, start: number, end: number, label: string): number => {
+  const text = line.slice(start, end).trim();
+  const match = /^([+-]?)(\d+)([+-]\d)$/.exec(text);
+  if (!match) {
+    throw new Error(`TLE ${label} "${text}" is not an assumed-decimal exponent`);
+  }
+  const [, sign, mantissa, exponent] = match;
+  return (sign === "-" ? -1 : 1) * Number(`0.${mantissa}`) * 10 ** Number(exponent);
+};
+
+export const parseTleLines = (line1: string, line2: string, name = ""): TleRecord => {
+  const first = line1.trimEnd();
+  const second = line2.trimEnd();
+  if (first.length !== LINE_LENGTH || second.length !== LINE_LENGTH || first[0] !== "1" || second[0] !== "2") {
+    throw new Error("TLE lines must be 69-column element lines starting with 1 and 2");
+  }
+  const satnum = first.slice(2, 7).trim();
+  if (second.slice(2, 7).trim() !== satnum) {
+    throw new Error(`TLE line 2 belongs to ${second.slice(2, 7).trim()}, not ${satnum}`);
+  }
+  for (const [index, line] of [first, second].entries()) {
+    if (tleChecksum(line) !== Number(line[LINE_LENGTH - 1])) {
+      throw new Error(`TLE ${satnum} line ${index + 1} fails its checksum`);
+    }
+  }
+  const twoDigitYear = parseField(first, 18, 20, "epoch year");
+  const year = twoDigitYear < TWO_DIGIT_YEAR_PIVOT ? 2000 + twoDigitYear : 1900 + twoDigitYear;
+  const epochDay = parseField(first, 20, 32, "epoch day");
+  const yearStartMs = Date.UTC(year, 0, 1);
+  return {
+    name: name.trim() || satnum,
+    satnum,
+    line1: first,
+    line2: second,
+    epochUnixMs: yearStartMs + (epochDay - 1) * MS_PER_DAY,
+    epochDays1950: (yearStartMs - DAYS_1950_EPOCH_MS) / MS_PER_DAY + epochDay - 1,
+    ndotRevPerDay2: parseField(first, 33, 43, "first derivative of mean motion"),
+    nddotRevPerDay3: parseExponent(first, 44, 52, "second derivative of mean motion"),
+    bstar: parseExponent(first, 53, 61, "bstar"),
+    inclinationDeg: parseField(second, 8, 16, "inclination"),
+    raanDeg: parseField(second, 17, 25, "right ascension"),
+    eccentricity: Number(`0.${second.slice(26, 33).trim()}`),
+    argPerigeeDeg: parseField(second, 34, 42, "argument of perigee"),
+    meanAnomalyDeg: parseField(second, 43, 51, "mean anomaly"),
+    meanMotionRevPerDay: parseField(second, 52, 63, "mean motion")
+  };
+};
+
+export const parseTle = (text: string): TleRecord[] => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim() !== "");
+  const records: TleRecord[] = [];
+  let name = "";
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i];
+    if (line.startsWith("1 ") && lines[i + 1]?.startsWith("2 ")) {
+      records.push(parseTleLines(line, lines[i + 1], name));
+      name = "";
+      i += 1;
+    } else {
+      name = line.startsWith("0 ") ? line.slice(2) : line;
+    }
+  }
+  return records;
+};
@@ -0,0 +1,120 @@
+import { dot3, ecefToLla, gmstRad, llaToEcef, nedBasisAtLla, quatFromYawPitchRoll, scale3, temeToEcef } from "../math";
+import type { Vec3 } from "../math";
+import type { EntityState, FrameMessage } from "../schema";
+import { createSgp4Satellite, propagateSgp4, sgp4OrbitalPeriodMin } from "./sgp4";
+import type { Sgp4Satellite } from "./sgp4";
+import type { TleRecord } from "./tle";
+
+export const TLE_SAMPLE_STEP_SEC = 30;
+export const TLE_DEFAULT_SPAN_SEC = 6 * 3600;
+export const GROUND_TRACK_MIN_STEP_SEC = 20;
+export const GROUND_TRACK_MAX_POINTS = 1440;
+
+const MS_PER_MINUTE = 60_000;
+const KM_TO_M = 1000;
+
+export interface TleSatellite {
+  entityId: string;
+  tle: TleRecord;
+  sgp4: Sgp4Satellite;
+}
+
+export interface OrbitStateEcef {
+  positionEcefM: Vec3;
+  velocityEcefMps: Vec3;
+}
+
+export interface TleFrameOptions {
+  startUnixMs: number;
+  durationSec?: number;
+  stepSec?: number;
+}
+
+export const tleEntityId = (tle: TleRecord): string => `sat-${tle.satnum}`;
+
+export const createTleSatellites = (records: TleRecord[]): TleSatellite[] => {
+  const seen = new Set<string>();
+  const satellites: TleSatellite[] = [];
+  for (const tle of records) {
+    const entityId = tleEntityId(tle);
+    if (!seen.has(entityId)) {
+      seen.add(entityId);
+      satellites.push({ entityId, tle, sgp4: createSgp4Satellite(tle) });
+    }
+  }
+  return satellites;
+};
+
+export const tleSessionStartMs = (records: TleRecord[]): number =>
+  Math.floor(Math.max(...records.map((tle) => tle.epochUnixMs)) / MS_PER_MINUTE) * MS_PER_MINUTE;
+
+export const propagateEcef = (sat: Sgp4Satellite, unixMs: number): OrbitStateEcef | null => {
+  const result = propagateSgp4(sat, (unixMs - sat.epochUnixMs) / MS_PER_MINUTE);
+  if (!result.ok) {
+    return null;
+  }
+  const { position, velocity } = temeToEcef(result.positionKm, result.velocityKmPerSec, gmstRad(unixMs));
+  return { positionEcefM: scale3(position, KM_TO_M), velocityEcefMps: scale3(velocity, KM_TO_M) };
+};
+
+const satelliteEntity = (satellite: TleSatellite, state: OrbitStateEcef): EntityState => {
+  const lla = ecefToLla(state.positionEcefM);
+  const { north, east, down } = nedBasisAtLla(lla);
+  const vNorth = dot3(state.velocityEcefMps, north);
+  const vEast = dot3(state.velocityEcefMps, east);
+  const vDown = dot3(state.velocityEcefMps, down);
+  return {
+    id: satellite.entityId,
+    kind: "platform",
+    domain: "space",
+    modelId: "satellite_faceted",
+    affiliation: "unknown",
+    pose: {
+      positionLlaDegM: lla,
+      orientationBodyToNedQuat: quatFromYawPitchRoll(
+        Math.atan2(vEast, vNorth),
+        Math.atan2(-vDown, Math.hypot(vNorth, vEast)),
+        0
+      )
+    },
+    velocityEcef: state.velocityEcefMps,
+    metadata: { callsign: satellite.tle.name, noradId: satellite.tle.satnum, source: "tle" }
+  };
+};
+
+export const tleFrames = (satellites: TleSatellite[], options: TleFrameOptions): FrameMessage[] => {
+  const durationSec = options.durationSec ?? TLE_DEFAULT_SPAN_SEC;
+  const stepSec = options.stepSec ?? TLE_SAMPLE_STEP_SEC;
+  const frames: FrameMessage[] = [];
+  const alive = new Set<string>();
+  for (let t = 0; t <= durationSec + 1e-9; t += stepSec) {
+    const unixMs = options.startUnixMs + t * 1000;
+    const frame: FrameMessage = { t, entities: [] };
+    for (const satellite of satellites) {
+      const state = propagateEcef(satellite.sgp4, unixMs);
+      if (state) {
+        frame.entities.push(satelliteEntity(satellite, state));
+        alive.add(satellite.entityId);
+      } else if (alive.delete(satellite.entityId)) {
+        frame.removals = [...(frame.removals ?? []), { id: satellite.entityId, reason: "destroyed" }];
+      }
+    }
+    frames.push(frame);
+  }
+  return frames;
+};
+
+export const groundTrackEcef = (sat: Sgp4Satellite, centerUnixMs: number): Vec3[] => {
+  const periodSec = sgp4OrbitalPeriodMin(sat) * 60;
+  const points = Math.min(GROUND_TRACK_MAX_POINTS, Math.ceil(periodSec / GROUND_TRACK_MIN_STEP_SEC));
+  const stepMs = (periodSec * 1000) / points;
+  const track: Vec3[] = [];
+  for (let k = 0; k <= points; k += 1) {
+    const state = propagateEcef(sat, centerUnixMs + (k - points / 2) * stepMs);
+    if (state) {
+      const [lat, lon] = ecefToLla(state.positionEcefM);
+      track.push(llaToEcef([lat, lon, 0]));
+    }
+  }
+  return track;
+};
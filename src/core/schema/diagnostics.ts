@@ -0,0 +1,101 @@
+export type ValidationSeverity = "error" | "warning";
+
+export type ValidationIssueKind =
+  | "syntax"
+  | "missing"
+  | "type"
+  | "shape"
+  | "enum"
+  | "range"
+  | "format"
+  | "capability"
+  | "reference"
+  | "unknown";
+
+export interface ValidationIssue {
+  kind: ValidationIssueKind;
+  severity: ValidationSeverity;
+  path: string;
+  expected: string;
+  actual: string;
+  message: string;
+  line?: number;
+  index?: number;
+}
+
+export interface ValidationSummary {
+  errors: number;
+  warnings: number;
+  byKind: Partial<Record<ValidationIssueKind, number>>;
+}
+
+export class SchemaValidationError extends Error {
+  readonly issue: ValidationIssue;
+
+  constructor(issue: ValidationIssue) {
+    super(issue.message);
+    this.name = "SchemaValidationError";
+    this.issue = issue;
+  }
+}
+
+export const describeValue = (value: unknown): string => {
+  if (value === undefined) {
+    return "undefined";
+  }
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return `array(${value.length})`;
+  }
+  if (typeof value === "object") {
+    return "object";
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+  }
+  return String(value);
+};
+
+export const createIssue = (
+  kind: ValidationIssueKind,
+  path: string,
+  expected: string,
+  value: unknown,
+  message = `${path} must be ${expected}`
+): ValidationIssue => ({
+  kind: value === undefined && kind !== "capability" ? "missing" : kind,
+  severity: "error",
+  path,
+  expected,
+  actual: describeValue(value),
+  message
+});
+
+export const invalid = (
+  kind: ValidationIssueKind,
+  path: string,
+  expected: string,
+  value: unknown,
+  message?: string
+): SchemaValidationError => new SchemaValidationError(createIssue(kind, path, expected, value, message));
+
+export const summarizeIssues = (issues: readonly ValidationIssue[]): ValidationSummary => {
+  const summary: ValidationSummary = { errors: 0, warnings: 0, byKind: {} };
+  for (const issue of issues) {
+    if (issue.severity === "error") {
+      summary.errors += 1;
+    } else {
+      summary.warnings += 1;
+    }
+    summary.byKind[issue.kind] = (summary.byKind[issue.kind] ?? 0) + 1;
+  }
+  return summary;
+};
+
+export const formatIssue = (issue: ValidationIssue): string => {
+  const location =
+    issue.line !== undefined ? `line ${issue.line}: ` : issue.index !== undefined ? `record ${issue.index}: ` : "";
+  return `${location}${issue.message} (expected ${issue.expected}, got ${issue.actual})`;
+};
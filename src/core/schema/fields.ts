@@ -0,0 +1,251 @@
+import { invalid } from "./diagnostics";
+import type {
+  Affiliation,
+  CombatEventType,
+  Domain,
+  EntityKind,
+  ProtocolVersion,
+  RemovalReason,
+  SessionCapability
+} from "./types";
+import { SESSION_CAPABILITIES, SUPPORTED_PROTOCOL_VERSIONS } from "./versions";
+import {
+  AFFILIATIONS,
+  BASE_COMBAT_EVENT_TYPES,
+  DOMAINS,
+  ENTITY_KINDS,
+  EXTENDED_COMBAT_EVENT_TYPES,
+  ISO_TIMESTAMP_PATTERN,
+  REMOVAL_REASONS,
+  SIDC_PATTERN
+} from "./vocabulary";
+
+export type JsonSchemaNode = Record<string, unknown>;
+
+export interface Field<T> {
+  schema: JsonSchemaNode;
+  parse: (value: unknown, path: string) => T;
+}
+
+export type FieldTable = Record<string, Field<unknown>>;
+
+export type MetadataValue = string | number | boolean;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const ensureRecord = (value: unknown, path: string): Record<string, unknown> => {
+  if (!isRecord(value)) {
+    throw invalid("type", path, "an object", value);
+  }
+  return value;
+};
+
+export const ensureArray = (value: unknown, path: string, expected = "an array"): unknown[] => {
+  if (!Array.isArray(value)) {
+    throw invalid("type", path, expected, value);
+  }
+  return value;
+};
+
+export const ensureFiniteNumber = (value: unknown, path: string): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw invalid("type", path, "numeric", value);
+  }
+  return value;
+};
+
+export const ensureNonEmptyString = (value: unknown, path: string): string => {
+  if (typeof value !== "string" || value.length === 0) {
+    throw invalid("type", path, "a non-empty string", value);
+  }
+  return value;
+};
+
+export const ensureString = (value: unknown, path: string): string => {
+  if (typeof value !== "string") {
+    throw invalid("type", path, "a string", value);
+  }
+  return value;
+};
+
+export const ensurePositiveNumber = (value: unknown, path: string): number => {
+  const num = ensureFiniteNumber(value, path);
+  if (num <= 0) {
+    throw invalid("range", path, "positive", value);
+  }
+  return num;
+};
+
+export const ensureOneOf = <T>(value: unknown, allowed: readonly T[], path: string): T => {
+  const match = allowed.find((option) => option === value);
+  if (match === undefined) {
+    throw invalid("enum", path, allowed.join("|"), value);
+  }
+  return match;
+};
+
+const ensureNumberTuple = (value: unknown, length: number, path: string): number[] => {
+  if (!Array.isArray(value) || value.length !== length) {
+    throw invalid("shape", path, `a ${length}-tuple`, value);
+  }
+  return value.map((item, i) => ensureFiniteNumber(item, `${path}[${i}]`));
+};
+
+const numberTupleSchema = (labels: readonly string[], description: string): JsonSchemaNode => ({
+  type: "array",
+  description,
+  prefixItems: labels.map((label) => ({ type: "number", title: label })),
+  items: false,
+  minItems: labels.length
+});
+
+const withDescription = (schema: JsonSchemaNode, description?: string): JsonSchemaNode =>
+  description === undefined ? schema : { ...schema, description };
+
+const numberField: Field<number> = { schema: { type: "number" }, parse: ensureFiniteNumber };
+
+const positiveSecondsField: Field<number> = {
+  schema: { type: "number", exclusiveMinimum: 0 },
+  parse: ensurePositiveNumber
+};
+
+const stringField: Field<string> = { schema: { type: "string" }, parse: ensureString };
+
+const nonEmptyStringField = (description?: string): Field<string> => ({
+  schema: withDescription({ type: "string", minLength: 1 }, description),
+  parse: ensureNonEmptyString
+});
+
+const enumField = <T>(values: readonly T[]): Field<T> => ({
+  schema: { enum: [...values] },
+  parse: (value, path) => ensureOneOf(value, values, path)
+});
+
+const patternField = (pattern: string, expected: string, description?: string): Field<string> => {
+  const regex = new RegExp(pattern);
+  return {
+    schema: withDescription({ type: "string", pattern }, description),
+    parse: (value, path) => {
+      const text = ensureNonEmptyString(value, path);
+      if (!regex.test(text)) {
+        throw invalid("format", path, expected, value);
+      }
+      return text;
+    }
+  };
+};
+
+const isoTimestampField = patternField(ISO_TIMESTAMP_PATTERN, "an ISO-8601 timestamp");
+
+const timestampField: Field<string> = {
+  schema: { ...isoTimestampField.schema, format: "date-time" },
+  parse: (value, path) => {
+    const text = isoTimestampField.parse(value, path);
+    if (!Number.isFinite(Date.parse(text))) {
+      throw invalid("format", path, "an ISO-8601 timestamp", value);
+    }
+    return text;
+  }
+};
+
+const arrayField = <T>(item: Field<T>): Field<T[]> => ({
+  schema: { type: "array", items: item.schema },
+  parse: (value, path) => ensureArray(value, path).map((entry, i) => item.parse(entry, `${path}[${i}]`))
+});
+
+const vec3Field = (labels: readonly string[], description: string): Field<[number, number, number]> => ({
+  schema: numberTupleSchema(labels, description),
+  parse: (value, path) => {
+    const [a, b, c] = ensureNumberTuple(value, 3, path);
+    return [a, b, c];
+  }
+});
+
+const quatField = (labels: readonly string[], description: string): Field<[number, number, number, number]> => ({
+  schema: numberTupleSchema(labels, description),
+  parse: (value, path) => {
+    const [x, y, z, w] = ensureNumberTuple(value, 4, path);
+    return [x, y, z, w];
+  }
+});
+
+export const METADATA_VALUE_FIELD: Field<MetadataValue> = {
+  schema: { anyOf: [{ type: "string" }, { type: "number" }, { type: "boolean" }] },
+  parse: (value, path) => {
+    if (typeof value === "string" || typeof value === "boolean") {
+      return value;
+    }
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return value;
+    }
+    throw invalid("type", path, "string|number|boolean", value);
+  }
+};
+
+export const METADATA_FIELD: Field<Record<string, MetadataValue>> = {
+  schema: { type: "object", additionalProperties: METADATA_VALUE_FIELD.schema },
+  parse: (value, path) => {
+    const obj = ensureRecord(value, path);
+    return Object.fromEntries(Object.entries(obj).map(([k, v]) => [k, METADATA_VALUE_FIELD.parse(v, `${path}.${k}`)]));
+  }
+};
+
+export const CAPABILITY_FIELD = enumField<SessionCapability>(SESSION_CAPABILITIES);
+
+export const HEADER_FIELDS = {
+  protocolVersion: enumField<ProtocolVersion>(SUPPORTED_PROTOCOL_VERSIONS),
+  scenarioId: stringField,
+  staleAfterSec: positiveSecondsField,
+  epochUtc: timestampField,
+  capabilities: arrayField(CAPABILITY_FIELD)
+};
+
+export const POSE_FIELDS = {
+  positionLlaDegM: vec3Field(["latDeg", "lonDeg", "altM"], "WGS84 geodetic position"),
+  positionEcefM: vec3Field(["x", "y", "z"], "ECEF position in meters (requires ecefPositions)"),
+  orientationBodyToNedQuat: quatField(["x", "y", "z", "w"], "Body FRD to local NED rotation")
+};
+
+export const ENTITY_FIELDS = {
+  id: nonEmptyStringField(),
+  kind: enumField<EntityKind>(ENTITY_KINDS),
+  domain: enumField<Domain>(DOMAINS),
+  modelId: nonEmptyStringField(),
+  affiliation: enumField<Affiliation>(AFFILIATIONS),
+  sidc: patternField(
+    SIDC_PATTERN,
+    "a 15-character 2525C or 20/30-digit 2525D SIDC",
+    "MIL-STD-2525C letter code or 2525D/E numeric code"
+  ),
+  velocityEcef: vec3Field(["x", "y", "z"], "ECEF velocity in meters per second"),
+  staleAfterSec: positiveSecondsField,
+  metadata: METADATA_FIELD
+};
+
+export const ENTITY_REQUIRED_FIELDS = ["id", "kind", "domain", "modelId", "pose"] as const;
+
+export const EVENT_FIELDS = {
+  id: nonEmptyStringField(),
+  type: enumField<CombatEventType>([...BASE_COMBAT_EVENT_TYPES, ...EXTENDED_COMBAT_EVENT_TYPES]),
+  sourceId: stringField,
+  targetId: stringField,
+  positionLlaDegM: POSE_FIELDS.positionLlaDegM,
+  t: numberField
+};
+
+export const EVENT_REQUIRED_FIELDS = ["id", "type", "positionLlaDegM", "t"] as const;
+
+export const REMOVAL_FIELDS = {
+  id: nonEmptyStringField(),
+  reason: enumField<RemovalReason>(REMOVAL_REASONS)
+};
+
+export const FRAME_FIELDS = {
+  t: numberField,
+  keyframeId: nonEmptyStringField("Marks a keyframe that delta frames may reference"),
+  baseKeyframeId: nonEmptyStringField()
+};
+
+export const fieldSchemas = (fields: FieldTable): Record<string, JsonSchemaNode> =>
+  Object.fromEntries(Object.entries(fields).map(([key, field]) => [key, field.schema]));
@@ -1,3 +1,7 @@
+export * from "./diagnostics";
+export * from "./jsonSchema";
 export * from "./parser";
+export * from "./sidc";
 export * from "./types";
-
+export * from "./versions";
+export * from "./vocabulary";
@@ -0,0 +1,111 @@
+import {
+  ENTITY_FIELDS,
+  ENTITY_REQUIRED_FIELDS,
+  EVENT_FIELDS,
+  EVENT_REQUIRED_FIELDS,
+  fieldSchemas,
+  FRAME_FIELDS,
+  HEADER_FIELDS,
+  POSE_FIELDS,
+  REMOVAL_FIELDS
+} from "./fields";
+
+export const FRAME_PROTOCOL_SCHEMA_ID = "urn:threat-vector:frame-protocol";
+
+const ref = (name: string) => ({ $ref: `#/$defs/${name}` });
+
+const { protocolVersion, scenarioId, staleAfterSec, epochUtc, capabilities } = HEADER_FIELDS;
+
+const { t, keyframeId, baseKeyframeId } = FRAME_FIELDS;
+
+const entityProperties = { ...fieldSchemas(ENTITY_FIELDS), pose: ref("PoseSample") };
+
+const frameBodyProperties = {
+  t: t.schema,
+  events: { type: "array", items: ref("CombatEvent") },
+  removals: { type: "array", items: ref("EntityRemoval") }
+};
+
+export const FRAME_PROTOCOL_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: FRAME_PROTOCOL_SCHEMA_ID,
+  title: "Threat Vector frame protocol",
+  description:
+    "One stream message: a SessionHeader first, then FrameMessages or DeltaFrameMessages. Capability gating " +
+    "and delta references to known entities depend on session state and are enforced by the runtime parser.",
+  oneOf: [ref("SessionHeader"), ref("FrameMessage"), ref("DeltaFrameMessage")],
+  $defs: {
+    SessionHeader: {
+      type: "object",
+      required: ["protocolVersion"],
+      properties: {
+        protocolVersion: protocolVersion.schema,
+        scenarioId: scenarioId.schema,
+        staleAfterSec: staleAfterSec.schema
+      },
+      if: { properties: { protocolVersion: { const: "1.0" } } },
+      else: {
+        properties: {
+          epochUtc: epochUtc.schema,
+          capabilities: capabilities.schema
+        },
+        if: {
+          required: ["capabilities"],
+          properties: { capabilities: { type: "array", contains: { const: "epochTime" } } }
+        },
+        then: { required: ["epochUtc"] }
+      }
+    },
+    PoseSample: {
+      type: "object",
+      required: ["orientationBodyToNedQuat"],
+      anyOf: [{ required: ["positionLlaDegM"] }, { required: ["positionEcefM"] }],
+      properties: fieldSchemas(POSE_FIELDS)
+    },
+    PartialPoseSample: {
+      type: "object",
+      properties: fieldSchemas(POSE_FIELDS)
+    },
+    EntityState: {
+      type: "object",
+      required: [...ENTITY_REQUIRED_FIELDS],
+      properties: entityProperties
+    },
+    EntityDelta: {
+      type: "object",
+      description: "Changed fields of an entity in the base keyframe, or full state for a new entity",
+      required: ["id"],
+      properties: { ...entityProperties, pose: ref("PartialPoseSample") }
+    },
+    CombatEvent: {
+      type: "object",
+      required: [...EVENT_REQUIRED_FIELDS],
+      properties: fieldSchemas(EVENT_FIELDS)
+    },
+    EntityRemoval: {
+      type: "object",
+      required: ["id", "reason"],
+      properties: fieldSchemas(REMOVAL_FIELDS)
+    },
+    FrameMessage: {
+      type: "object",
+      required: ["t", "entities"],
+      not: { required: ["baseKeyframeId"] },
+      properties: {
+        ...frameBodyProperties,
+        keyframeId: keyframeId.schema,
+        entities: { type: "array", items: ref("EntityState") }
+      }
+    },
+    DeltaFrameMessage: {
+      type: "object",
+      required: ["t", "baseKeyframeId", "entities"],
+      not: { required: ["keyframeId"] },
+      properties: {
+        ...frameBodyProperties,
+        baseKeyframeId: baseKeyframeId.schema,
+        entities: { type: "array", items: ref("EntityDelta") }
+      }
+    }
+  }
+};
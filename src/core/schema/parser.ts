@@ -1,178 +1,526 @@
+import { ecefToLla } from "../math";
 import type {
   CombatEvent,
   CombatEventType,
-  Domain,
-  EntityKind,
+  DeltaFrameMessage,
+  EntityDelta,
+  EntityRemoval,
   EntityState,
   FrameMessage,
   PoseSample,
-  SessionHeader
+  SessionCapability,
+  SessionHeader,
+  StreamFrame
 } from "./types";
+import { createIssue, invalid, SchemaValidationError } from "./diagnostics";
+import type { ValidationIssue, ValidationIssueKind } from "./diagnostics";
+import {
+  CAPABILITY_FIELD,
+  ENTITY_FIELDS,
+  ENTITY_REQUIRED_FIELDS,
+  ensureArray,
+  ensureRecord,
+  EVENT_FIELDS,
+  FRAME_FIELDS,
+  HEADER_FIELDS,
+  isRecord,
+  METADATA_VALUE_FIELD,
+  POSE_FIELDS,
+  REMOVAL_FIELDS
+} from "./fields";
+import type { Field, MetadataValue } from "./fields";
+import { BASE_COMBAT_EVENT_TYPES, EXTENDED_COMBAT_EVENT_TYPES } from "./vocabulary";
+import { CURRENT_PROTOCOL_VERSION, SESSION_CAPABILITIES, negotiateProtocolVersion, upgradeRawHeader } from "./versions";
 
-const isRecord = (value: unknown): value is Record<string, unknown> =>
-  typeof value === "object" && value !== null;
+export interface ProtocolContext {
+  header: SessionHeader;
+  lenient: boolean;
+  warnings: string[];
+  keyframes: Map<string, Set<string>>;
+}
 
-const ensureRecord = (value: unknown, path: string): Record<string, unknown> => {
-  if (!isRecord(value)) {
-    throw new Error(`${path} must be an object`);
-  }
-  return value;
-};
+export type InvalidRecordPolicy = "frame" | "entity";
 
-const ensureFiniteNumber = (value: unknown, path: string): number => {
-  if (typeof value !== "number" || !Number.isFinite(value)) {
-    throw new Error(`${path} must be numeric`);
-  }
-  return value;
-};
+export interface FrameDiagnosticsOptions {
+  protocol?: ProtocolContext;
+  skipInvalid?: InvalidRecordPolicy;
+}
+
+export interface FrameDiagnostics {
+  frame: StreamFrame | null;
+  issues: ValidationIssue[];
+  skippedEntities: number;
+}
+
+interface ParseContext {
+  capabilities: ReadonlySet<SessionCapability>;
+  lenient: boolean;
+  warnings: string[];
+  keyframes: Map<string, Set<string>>;
+  issues: ValidationIssue[] | null;
+  errorCount: number;
+  skippedEntities: number;
+}
 
-const ensureNonEmptyString = (value: unknown, path: string): string => {
-  if (typeof value !== "string" || value.length === 0) {
-    throw new Error(`${path} must be a non-empty string`);
+const MAX_TRACKED_KEYFRAMES = 16;
+
+const FULL_STATE_FIELDS = ENTITY_REQUIRED_FIELDS.filter((key) => key !== "id");
+
+const KNOWN_HEADER_FIELDS = new Set(Object.keys(HEADER_FIELDS));
+
+const toParseContext = (
+  protocol: ProtocolContext | undefined,
+  issues: ValidationIssue[] | null = null
+): ParseContext => ({
+  capabilities: new Set(protocol?.header.capabilities ?? []),
+  lenient: protocol?.lenient ?? false,
+  warnings: protocol?.warnings ?? [],
+  keyframes: protocol?.keyframes ?? new Map(),
+  issues,
+  errorCount: 0,
+  skippedEntities: 0
+});
+
+const read = <T>(ctx: ParseContext, parse: () => T): T | undefined => {
+  if (!ctx.issues) {
+    return parse();
+  }
+  try {
+    return parse();
+  } catch (error) {
+    if (!(error instanceof SchemaValidationError)) {
+      throw error;
+    }
+    ctx.issues.push(error.issue);
+    ctx.errorCount += 1;
+    return undefined;
   }
-  return value;
 };
 
-const ensureString = (value: unknown, path: string): string => {
-  if (typeof value !== "string") {
-    throw new Error(`${path} must be a string`);
-  }
-  return value;
+const readField = <T>(
+  ctx: ParseContext,
+  field: Field<T>,
+  obj: Record<string, unknown>,
+  key: string,
+  path: string
+): T | undefined => read(ctx, () => field.parse(obj[key], `${path}.${key}`));
+
+const readOptionalField = <T>(
+  ctx: ParseContext,
+  field: Field<T>,
+  obj: Record<string, unknown>,
+  key: string,
+  path: string
+): T | undefined => (obj[key] === undefined ? undefined : readField(ctx, field, obj, key, path));
+
+const warn = (
+  ctx: ParseContext,
+  kind: ValidationIssueKind,
+  path: string,
+  expected: string,
+  value: unknown,
+  message: string
+): void => {
+  ctx.warnings.push(message);
+  ctx.issues?.push({ ...createIssue(kind, path, expected, value, message), severity: "warning" });
 };
 
-const ensureTuple3 = (value: unknown, path: string): [number, number, number] => {
-  if (!Array.isArray(value) || value.length !== 3) {
-    throw new Error(`${path} must be a 3-tuple`);
+const requireCapability = (ctx: ParseContext, capability: SessionCapability, path: string): void => {
+  if (ctx.capabilities.has(capability)) {
+    return;
   }
-  const a = ensureFiniteNumber(value[0], `${path}[0]`);
-  const b = ensureFiniteNumber(value[1], `${path}[1]`);
-  const c = ensureFiniteNumber(value[2], `${path}[2]`);
-  return [a, b, c];
+  const expected = `the ${capability} capability`;
+  if (!ctx.lenient) {
+    throw invalid("capability", path, expected, "undeclared", `${path} requires the ${capability} capability`);
+  }
+  warn(ctx, "capability", path, expected, "undeclared", `${path} used without declaring the ${capability} capability`);
 };
 
-const ensureTuple4 = (value: unknown, path: string): [number, number, number, number] => {
-  if (!Array.isArray(value) || value.length !== 4) {
-    throw new Error(`${path} must be a 4-tuple`);
+const ensureCombatEventType = (value: unknown, path: string, ctx: ParseContext): CombatEventType | null => {
+  const base = BASE_COMBAT_EVENT_TYPES.find((type) => type === value);
+  if (base) {
+    return base;
+  }
+  const extended = EXTENDED_COMBAT_EVENT_TYPES.find((type) => type === value);
+  if (extended) {
+    requireCapability(ctx, "extendedEvents", path);
+    return extended;
+  }
+  const allowed = (
+    ctx.capabilities.has("extendedEvents")
+      ? [...BASE_COMBAT_EVENT_TYPES, ...EXTENDED_COMBAT_EVENT_TYPES]
+      : BASE_COMBAT_EVENT_TYPES
+  ).join("|");
+  if (ctx.lenient) {
+    const message = `${path} has unknown event type ${JSON.stringify(value)} (event dropped)`;
+    warn(ctx, "unknown", path, allowed, value, message);
+    return null;
   }
-  const a = ensureFiniteNumber(value[0], `${path}[0]`);
-  const b = ensureFiniteNumber(value[1], `${path}[1]`);
-  const c = ensureFiniteNumber(value[2], `${path}[2]`);
-  const d = ensureFiniteNumber(value[3], `${path}[3]`);
-  return [a, b, c, d];
+  throw invalid("enum", path, allowed, value);
 };
 
-const ensureEntityKind = (value: unknown, path: string): EntityKind => {
-  if (value === "platform" || value === "weapon") {
-    return value;
-  }
-  throw new Error(`${path} must be platform|weapon`);
+const parseCapabilities = (value: unknown, ctx: ParseContext): SessionCapability[] => {
+  const items = ensureArray(value, "header.capabilities");
+  const out: SessionCapability[] = [];
+  items.forEach((item, i) => {
+    const path = `header.capabilities[${i}]`;
+    if (ctx.lenient && !SESSION_CAPABILITIES.some((known) => known === item)) {
+      const expected = SESSION_CAPABILITIES.join("|");
+      warn(ctx, "unknown", path, expected, item, `${path} ${JSON.stringify(item)} is not recognized (ignored)`);
+      return;
+    }
+    const capability = CAPABILITY_FIELD.parse(item, path);
+    if (!out.includes(capability)) {
+      out.push(capability);
+    }
+  });
+  return out;
 };
 
-const ensureDomain = (value: unknown, path: string): Domain => {
-  if (value === "air" || value === "ground" || value === "sea" || value === "space") {
-    return value;
+const parsePosition = (
+  obj: Record<string, unknown>,
+  path: string,
+  ctx: ParseContext
+): PoseSample["positionLlaDegM"] | undefined => {
+  if (obj.positionLlaDegM === undefined && obj.positionEcefM !== undefined) {
+    requireCapability(ctx, "ecefPositions", `${path}.positionEcefM`);
+    const positionEcefM = readField(ctx, POSE_FIELDS.positionEcefM, obj, "positionEcefM", path);
+    return positionEcefM && ecefToLla(positionEcefM);
   }
-  throw new Error(`${path} must be air|ground|sea|space`);
+  return readField(ctx, POSE_FIELDS.positionLlaDegM, obj, "positionLlaDegM", path);
 };
 
-const ensureCombatEventType = (value: unknown, path: string): CombatEventType => {
-  if (value === "launch" || value === "impact" || value === "intercept") {
-    return value;
+const parsePose = (raw: unknown, path: string, ctx: ParseContext): PoseSample | undefined => {
+  const obj = ensureRecord(raw, path);
+  const orientationBodyToNedQuat = readField(
+    ctx,
+    POSE_FIELDS.orientationBodyToNedQuat,
+    obj,
+    "orientationBodyToNedQuat",
+    path
+  );
+  const positionLlaDegM = parsePosition(obj, path, ctx);
+  if (positionLlaDegM === undefined || orientationBodyToNedQuat === undefined) {
+    return undefined;
   }
-  throw new Error(`${path} must be launch|impact|intercept`);
+  return { positionLlaDegM, orientationBodyToNedQuat };
 };
 
-const parsePose = (raw: unknown, path: string): PoseSample => {
+const parsePartialPose = (raw: unknown, path: string, ctx: ParseContext): Partial<PoseSample> => {
   const obj = ensureRecord(raw, path);
-  return {
-    positionLlaDegM: ensureTuple3(obj.positionLlaDegM, `${path}.positionLlaDegM`),
-    orientationBodyToNedQuat: ensureTuple4(obj.orientationBodyToNedQuat, `${path}.orientationBodyToNedQuat`)
-  };
+  const pose: Partial<PoseSample> = {};
+  if (obj.orientationBodyToNedQuat !== undefined) {
+    pose.orientationBodyToNedQuat = readField(
+      ctx,
+      POSE_FIELDS.orientationBodyToNedQuat,
+      obj,
+      "orientationBodyToNedQuat",
+      path
+    );
+  }
+  if (obj.positionLlaDegM !== undefined || obj.positionEcefM !== undefined) {
+    pose.positionLlaDegM = parsePosition(obj, path, ctx);
+  }
+  return pose;
 };
 
-const parseMetadata = (value: unknown, path: string): Record<string, string | number | boolean> => {
+const parseMetadata = (value: unknown, path: string, ctx: ParseContext): Record<string, MetadataValue> => {
   const obj = ensureRecord(value, path);
-  const out: Record<string, string | number | boolean> = {};
-  for (const [k, v] of Object.entries(obj)) {
-    if (typeof v === "string" || typeof v === "boolean") {
-      out[k] = v;
-      continue;
-    }
-    if (typeof v === "number" && Number.isFinite(v)) {
-      out[k] = v;
-      continue;
+  const out: Record<string, MetadataValue> = {};
+  for (const k of Object.keys(obj)) {
+    const entry = readField(ctx, METADATA_VALUE_FIELD, obj, k, path);
+    if (entry !== undefined) {
+      out[k] = entry;
     }
-    throw new Error(`${path}.${k} must be string|number|boolean`);
   }
   return out;
 };
 
-const parseEntity = (raw: unknown, path: string): EntityState => {
+const parseEntity = (raw: unknown, path: string, ctx: ParseContext): EntityState | null => {
   const obj = ensureRecord(raw, path);
-  const velocity = obj.velocityEcef === undefined ? undefined : ensureTuple3(obj.velocityEcef, `${path}.velocityEcef`);
-  const metadata = obj.metadata === undefined ? undefined : parseMetadata(obj.metadata, `${path}.metadata`);
+  const optional = <T>(field: Field<T>, key: string): T | undefined => readOptionalField(ctx, field, obj, key, path);
+  const id = readField(ctx, ENTITY_FIELDS.id, obj, "id", path);
+  const kind = readField(ctx, ENTITY_FIELDS.kind, obj, "kind", path);
+  const domain = readField(ctx, ENTITY_FIELDS.domain, obj, "domain", path);
+  const modelId = readField(ctx, ENTITY_FIELDS.modelId, obj, "modelId", path);
+  const affiliation = optional(ENTITY_FIELDS.affiliation, "affiliation");
+  const sidc = optional(ENTITY_FIELDS.sidc, "sidc");
+  const pose = read(ctx, () => parsePose(obj.pose, `${path}.pose`, ctx));
+  const velocityEcef = optional(ENTITY_FIELDS.velocityEcef, "velocityEcef");
+  const staleAfterSec = optional(ENTITY_FIELDS.staleAfterSec, "staleAfterSec");
+  const metadata =
+    obj.metadata === undefined ? undefined : read(ctx, () => parseMetadata(obj.metadata, `${path}.metadata`, ctx));
+  if (id === undefined || kind === undefined || domain === undefined || modelId === undefined || pose === undefined) {
+    return null;
+  }
+  return { id, kind, domain, modelId, affiliation, sidc, pose, velocityEcef, staleAfterSec, metadata };
+};
 
-  return {
-    id: ensureNonEmptyString(obj.id, `${path}.id`),
-    kind: ensureEntityKind(obj.kind, `${path}.kind`),
-    domain: ensureDomain(obj.domain, `${path}.domain`),
-    modelId: ensureNonEmptyString(obj.modelId, `${path}.modelId`),
-    pose: parsePose(obj.pose, `${path}.pose`),
-    velocityEcef: velocity,
-    metadata
-  };
+const notInKeyframe = (path: string, id: string, keyframeId: string): SchemaValidationError => {
+  const expected = `an entity in keyframe ${keyframeId}`;
+  const message = `${path}.id ${JSON.stringify(id)} is not in keyframe ${keyframeId} and has no full state`;
+  return invalid("reference", `${path}.id`, expected, id, message);
 };
 
-const parseEvent = (raw: unknown, path: string): CombatEvent => {
+const parseEntityDelta = (
+  raw: unknown,
+  path: string,
+  ctx: ParseContext,
+  known: ReadonlySet<string>,
+  keyframeId: string
+): EntityDelta | null => {
   const obj = ensureRecord(raw, path);
+  const id = ENTITY_FIELDS.id.parse(obj.id, `${path}.id`);
+  if (!known.has(id)) {
+    if (FULL_STATE_FIELDS.some((key) => obj[key] === undefined)) {
+      throw notInKeyframe(path, id, keyframeId);
+    }
+    return parseEntity(raw, path, ctx);
+  }
+  const optional = <T>(field: Field<T>, key: string): T | undefined => readOptionalField(ctx, field, obj, key, path);
   return {
-    id: ensureNonEmptyString(obj.id, `${path}.id`),
-    type: ensureCombatEventType(obj.type, `${path}.type`),
-    sourceId: obj.sourceId === undefined ? undefined : ensureString(obj.sourceId, `${path}.sourceId`),
-    targetId: obj.targetId === undefined ? undefined : ensureString(obj.targetId, `${path}.targetId`),
-    positionLlaDegM: ensureTuple3(obj.positionLlaDegM, `${path}.positionLlaDegM`),
-    t: ensureFiniteNumber(obj.t, `${path}.t`)
+    id,
+    kind: optional(ENTITY_FIELDS.kind, "kind"),
+    domain: optional(ENTITY_FIELDS.domain, "domain"),
+    modelId: optional(ENTITY_FIELDS.modelId, "modelId"),
+    affiliation: optional(ENTITY_FIELDS.affiliation, "affiliation"),
+    sidc: optional(ENTITY_FIELDS.sidc, "sidc"),
+    pose: obj.pose === undefined ? undefined : read(ctx, () => parsePartialPose(obj.pose, `${path}.pose`, ctx)),
+    velocityEcef: optional(ENTITY_FIELDS.velocityEcef, "velocityEcef"),
+    staleAfterSec: optional(ENTITY_FIELDS.staleAfterSec, "staleAfterSec"),
+    metadata:
+      obj.metadata === undefined ? undefined : read(ctx, () => parseMetadata(obj.metadata, `${path}.metadata`, ctx))
   };
 };
 
-export const parseSessionHeader = (raw: unknown): SessionHeader => {
-  const obj = ensureRecord(raw, "header");
-  if (obj.protocolVersion !== "1.0") {
-    throw new Error('header.protocolVersion must be "1.0"');
+const parseEvent = (raw: unknown, path: string, ctx: ParseContext): CombatEvent | null => {
+  const obj = ensureRecord(raw, path);
+  const type = read(ctx, () => ensureCombatEventType(obj.type, `${path}.type`, ctx));
+  if (type === null) {
+    return null;
   }
-  if (obj.scenarioId !== undefined && typeof obj.scenarioId !== "string") {
-    throw new Error("header.scenarioId must be string");
+  const id = readField(ctx, EVENT_FIELDS.id, obj, "id", path);
+  const sourceId = readOptionalField(ctx, EVENT_FIELDS.sourceId, obj, "sourceId", path);
+  const targetId = readOptionalField(ctx, EVENT_FIELDS.targetId, obj, "targetId", path);
+  const positionLlaDegM = readField(ctx, EVENT_FIELDS.positionLlaDegM, obj, "positionLlaDegM", path);
+  const t = readField(ctx, EVENT_FIELDS.t, obj, "t", path);
+  if (type === undefined || id === undefined || positionLlaDegM === undefined || t === undefined) {
+    return null;
   }
-  return {
-    protocolVersion: "1.0",
-    scenarioId: obj.scenarioId as string | undefined
-  };
+  return { id, type, sourceId, targetId, positionLlaDegM, t };
 };
 
-export const parseFrameMessage = (raw: unknown): FrameMessage => {
-  const obj = ensureRecord(raw, "frame");
-  if (!Array.isArray(obj.entities)) {
-    throw new Error("frame.entities must be an array");
+const parseRemoval = (raw: unknown, path: string, ctx: ParseContext): EntityRemoval | null => {
+  const obj = ensureRecord(raw, path);
+  const id = readField(ctx, REMOVAL_FIELDS.id, obj, "id", path);
+  const reason = readField(ctx, REMOVAL_FIELDS.reason, obj, "reason", path);
+  return id === undefined || reason === undefined ? null : { id, reason };
+};
+
+const parseRecords = <T>(
+  items: unknown[],
+  path: string,
+  ctx: ParseContext,
+  parse: (raw: unknown, path: string, ctx: ParseContext) => T | null
+): T[] => {
+  const out: T[] = [];
+  items.forEach((item, i) => {
+    const errorsBefore = ctx.errorCount;
+    const value = read(ctx, () => parse(item, `${path}[${i}]`, ctx));
+    if (value !== null && value !== undefined && ctx.errorCount === errorsBefore) {
+      out.push(value);
+    }
+  });
+  return out;
+};
+
+const ensureKeyframeReference = (value: unknown, path: string, ctx: ParseContext): string => {
+  requireCapability(ctx, "deltaFrames", path);
+  const id = FRAME_FIELDS.baseKeyframeId.parse(value, path);
+  if (!ctx.keyframes.has(id)) {
+    throw invalid("reference", path, "a previously received keyframeId", value);
+  }
+  return id;
+};
+
+const registerKeyframe = (ctx: ParseContext, keyframeId: string, entityIds: string[]): void => {
+  ctx.keyframes.delete(keyframeId);
+  ctx.keyframes.set(keyframeId, new Set(entityIds));
+  for (const oldest of ctx.keyframes.keys()) {
+    if (ctx.keyframes.size <= MAX_TRACKED_KEYFRAMES) {
+      break;
+    }
+    ctx.keyframes.delete(oldest);
+  }
+};
+
+const trackDeltaMembers = (known: Set<string>, entities: EntityDelta[], removals?: EntityRemoval[]): void => {
+  for (const entity of entities) {
+    known.add(entity.id);
+  }
+  for (const removal of removals ?? []) {
+    known.delete(removal.id);
   }
-  if (obj.events !== undefined && !Array.isArray(obj.events)) {
-    throw new Error("frame.events must be an array when provided");
+};
+
+const hasFullState = (entity: EntityDelta): boolean =>
+  FULL_STATE_FIELDS.every((key) => entity[key] !== undefined) &&
+  entity.pose?.positionLlaDegM !== undefined &&
+  entity.pose.orientationBodyToNedQuat !== undefined;
+
+const parseFrame = (raw: unknown, ctx: ParseContext, skipInvalid: InvalidRecordPolicy): StreamFrame | null => {
+  const obj = read(ctx, () => ensureRecord(raw, "frame"));
+  if (!obj) {
+    return null;
   }
-  const entities = (obj.entities as unknown[]).map((entity, i) => parseEntity(entity, `frame.entities[${i}]`));
-  const events =
+  const isDelta = obj.baseKeyframeId !== undefined;
+  const baseKeyframeId = isDelta
+    ? read(ctx, () => ensureKeyframeReference(obj.baseKeyframeId, "frame.baseKeyframeId", ctx))
+    : undefined;
+  const keyframeId =
+    obj.keyframeId === undefined
+      ? undefined
+      : read(ctx, () => {
+          if (isDelta) {
+            throw invalid("type", "frame.keyframeId", "absent on delta frames", obj.keyframeId);
+          }
+          requireCapability(ctx, "deltaFrames", "frame.keyframeId");
+          return FRAME_FIELDS.keyframeId.parse(obj.keyframeId, "frame.keyframeId");
+        });
+  const t = readField(ctx, FRAME_FIELDS.t, obj, "t", "frame");
+  const entityItems = read(ctx, () => ensureArray(obj.entities, "frame.entities"));
+  const eventItems =
     obj.events === undefined
       ? undefined
-      : (obj.events as unknown[]).map((event, i) => parseEvent(event, `frame.events[${i}]`));
+      : read(ctx, () => ensureArray(obj.events, "frame.events", "an array when provided"));
+  const removalItems =
+    obj.removals === undefined
+      ? undefined
+      : read(ctx, () => ensureArray(obj.removals, "frame.removals", "an array when provided"));
+  const frameValid = ctx.errorCount === 0;
 
-  return {
-    t: ensureFiniteNumber(obj.t, "frame.t"),
-    entities,
-    events
+  const known = (baseKeyframeId !== undefined && ctx.keyframes.get(baseKeyframeId)) || new Set<string>();
+  const deltas = isDelta
+    ? parseRecords(entityItems ?? [], "frame.entities", ctx, (item, path) =>
+        parseEntityDelta(item, path, ctx, known, baseKeyframeId ?? "")
+      )
+    : undefined;
+  const entities = isDelta ? undefined : parseRecords(entityItems ?? [], "frame.entities", ctx, parseEntity);
+  const events = eventItems && parseRecords(eventItems, "frame.events", ctx, parseEvent);
+  const removals = removalItems && parseRecords(removalItems, "frame.removals", ctx, parseRemoval);
+  ctx.skippedEntities += (entityItems?.length ?? 0) - (deltas ?? entities ?? []).length;
+
+  if (t === undefined || !frameValid || (skipInvalid === "frame" && ctx.errorCount > 0)) {
+    return null;
+  }
+  if (deltas && baseKeyframeId !== undefined) {
+    trackDeltaMembers(known, deltas, removals);
+    return { t, baseKeyframeId, entities: deltas, events, removals };
+  }
+  if (!entities) {
+    return null;
+  }
+  if (keyframeId !== undefined) {
+    registerKeyframe(ctx, keyframeId, entities.map((entity) => entity.id));
+    return { t, keyframeId, entities, events, removals };
+  }
+  return { t, entities, events, removals };
+};
+
+export const isDeltaFrame = (frame: StreamFrame): frame is DeltaFrameMessage => "baseKeyframeId" in frame;
+
+export const isSessionHeaderMessage = (raw: unknown): boolean => isRecord(raw) && "protocolVersion" in raw;
+
+export const negotiateSessionHeader = (raw: unknown): ProtocolContext => {
+  const obj = ensureRecord(raw, "header");
+  const negotiated = negotiateProtocolVersion(obj.protocolVersion);
+  const ctx: ParseContext = { ...toParseContext(undefined), lenient: negotiated.lenient };
+  if (negotiated.lenient) {
+    ctx.warnings.push(
+      `header.protocolVersion "${negotiated.declared}" is newer than ${CURRENT_PROTOCOL_VERSION}; parsing leniently`
+    );
+    for (const key of Object.keys(obj)) {
+      if (!KNOWN_HEADER_FIELDS.has(key)) {
+        ctx.warnings.push(`header.${key} is not part of protocol ${CURRENT_PROTOCOL_VERSION} (ignored)`);
+      }
+    }
+  }
+  const upgraded = upgradeRawHeader(obj, negotiated.version);
+  const capabilities = upgraded.capabilities === undefined ? [] : parseCapabilities(upgraded.capabilities, ctx);
+  const epochUtc = readOptionalField(ctx, HEADER_FIELDS.epochUtc, upgraded, "epochUtc", "header");
+  if (capabilities.includes("epochTime") && epochUtc === undefined) {
+    const message = "header.epochUtc is required by the epochTime capability";
+    throw invalid("missing", "header.epochUtc", "an ISO-8601 timestamp", undefined, message);
+  }
+  const header: SessionHeader = {
+    protocolVersion: negotiated.version,
+    scenarioId: readOptionalField(ctx, HEADER_FIELDS.scenarioId, upgraded, "scenarioId", "header"),
+    staleAfterSec: readOptionalField(ctx, HEADER_FIELDS.staleAfterSec, upgraded, "staleAfterSec", "header"),
+    epochUtc,
+    capabilities
   };
+  return { header, lenient: negotiated.lenient, warnings: ctx.warnings, keyframes: new Map() };
+};
+
+export const parseSessionHeader = (raw: unknown): SessionHeader => negotiateSessionHeader(raw).header;
+
+export const parseStreamFrame = (raw: unknown, protocol?: ProtocolContext): StreamFrame => {
+  const frame = parseFrame(raw, toParseContext(protocol), "frame");
+  if (!frame) {
+    throw invalid("shape", "frame", "a frame message", raw);
+  }
+  return frame;
+};
+
+export const parseDecodedFrame = (frame: StreamFrame, protocol?: ProtocolContext): StreamFrame => {
+  const ctx = toParseContext(protocol);
+  const events = frame.events && parseRecords(frame.events, "frame.events", ctx, parseEvent);
+  const removals = frame.removals && parseRecords(frame.removals, "frame.removals", ctx, parseRemoval);
+  const withMetadata = <T extends EntityDelta>(entity: T, i: number): T =>
+    entity.metadata === undefined
+      ? entity
+      : { ...entity, metadata: parseMetadata(entity.metadata, `frame.entities[${i}].metadata`, ctx) };
+  if (isDeltaFrame(frame)) {
+    const baseKeyframeId = ensureKeyframeReference(frame.baseKeyframeId, "frame.baseKeyframeId", ctx);
+    const known = ctx.keyframes.get(baseKeyframeId) ?? new Set<string>();
+    frame.entities.forEach((entity, i) => {
+      if (!known.has(entity.id) && !hasFullState(entity)) {
+        throw notInKeyframe(`frame.entities[${i}]`, entity.id, baseKeyframeId);
+      }
+    });
+    const entities = frame.entities.map(withMetadata);
+    trackDeltaMembers(known, entities, removals);
+    return { t: frame.t, baseKeyframeId, entities, events, removals };
+  }
+  const entities = frame.entities.map(withMetadata);
+  if (frame.keyframeId === undefined) {
+    return { t: frame.t, entities, events, removals };
+  }
+  requireCapability(ctx, "deltaFrames", "frame.keyframeId");
+  registerKeyframe(ctx, frame.keyframeId, entities.map((entity) => entity.id));
+  return { t: frame.t, keyframeId: frame.keyframeId, entities, events, removals };
+};
+
+export const parseFrameMessage = (raw: unknown, protocol?: ProtocolContext): FrameMessage => {
+  const frame = parseStreamFrame(raw, protocol);
+  if (isDeltaFrame(frame)) {
+    throw invalid("type", "frame.baseKeyframeId", "absent on full frames", frame.baseKeyframeId);
+  }
+  return frame;
+};
+
+export const diagnoseFrameMessage = (raw: unknown, options: FrameDiagnosticsOptions = {}): FrameDiagnostics => {
+  const ctx = toParseContext(options.protocol, []);
+  const frame = parseFrame(raw, ctx, options.skipInvalid ?? "entity");
+  return { frame, issues: ctx.issues ?? [], skippedEntities: frame ? ctx.skippedEntities : 0 };
 };
 
-export const tryParseFrameMessage = (raw: unknown): { ok: true; value: FrameMessage } | { ok: false; error: Error } => {
+export const tryParseFrameMessage = (
+  raw: unknown,
+  protocol?: ProtocolContext
+): { ok: true; value: FrameMessage } | { ok: false; error: Error } => {
   try {
-    return { ok: true, value: parseFrameMessage(raw) };
+    return { ok: true, value: parseFrameMessage(raw, protocol) };
   } catch (error) {
     return { ok: false, error: error instanceof Error ? error : new Error(String(error)) };
   }
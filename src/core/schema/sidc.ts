@@ -0,0 +1,89 @@
+import type { Affiliation, EntityState } from "./types";
+
+export type SymbolDimension = "air" | "space" | "land" | "seaSurface" | "subsurface";
+
+export interface DecodedSidc {
+  standard: "2525C" | "2525D";
+  affiliation?: Affiliation;
+  dimension?: SymbolDimension;
+}
+
+const LETTER_IDENTITIES: Record<string, Affiliation> = {
+  P: "pending",
+  U: "unknown",
+  A: "friend",
+  F: "friend",
+  N: "neutral",
+  S: "hostile",
+  H: "hostile",
+  G: "pending",
+  W: "unknown",
+  M: "friend",
+  D: "friend",
+  L: "neutral",
+  J: "hostile",
+  K: "hostile"
+};
+
+const LETTER_DIMENSIONS: Record<string, SymbolDimension> = {
+  P: "space",
+  A: "air",
+  G: "land",
+  F: "land",
+  S: "seaSurface",
+  U: "subsurface"
+};
+
+const NUMERIC_IDENTITIES: Affiliation[] = ["pending", "unknown", "friend", "friend", "neutral", "hostile", "hostile"];
+
+const NUMERIC_SYMBOL_SETS: Record<string, SymbolDimension> = {
+  "01": "air",
+  "02": "air",
+  "05": "space",
+  "06": "space",
+  "10": "land",
+  "11": "land",
+  "15": "land",
+  "20": "land",
+  "30": "seaSurface",
+  "35": "subsurface",
+  "36": "subsurface"
+};
+
+export const decodeSidc = (sidc: string): DecodedSidc | null => {
+  if (/^\d{20}(\d{10})?$/.test(sidc)) {
+    return {
+      standard: "2525D",
+      affiliation: NUMERIC_IDENTITIES[Number(sidc[3])],
+      dimension: NUMERIC_SYMBOL_SETS[sidc.slice(4, 6)]
+    };
+  }
+  if (/^[A-Z][A-Z*-]{2}[A-Z0-9*-]{12}$/.test(sidc)) {
+    return {
+      standard: "2525C",
+      affiliation: LETTER_IDENTITIES[sidc[1]],
+      dimension: LETTER_DIMENSIONS[sidc[2]]
+    };
+  }
+  return null;
+};
+
+export const resolveAffiliation = (entity: Pick<EntityState, "affiliation" | "sidc">): Affiliation =>
+  entity.affiliation ?? (entity.sidc !== undefined ? decodeSidc(entity.sidc)?.affiliation : undefined) ?? "unknown";
+
+export const resolveDimension = (entity: Pick<EntityState, "domain" | "sidc" | "pose">): SymbolDimension => {
+  const fromSidc = entity.sidc !== undefined ? decodeSidc(entity.sidc)?.dimension : undefined;
+  if (fromSidc) {
+    return fromSidc;
+  }
+  switch (entity.domain) {
+    case "air":
+      return "air";
+    case "space":
+      return "space";
+    case "ground":
+      return "land";
+    case "sea":
+      return entity.pose.positionLlaDegM[2] < 0 ? "subsurface" : "seaSurface";
+  }
+};
@@ -1,12 +1,22 @@
 export type Domain = "air" | "ground" | "sea" | "space";
 export type EntityKind = "platform" | "weapon";
-export type CombatEventType = "launch" | "impact" | "intercept";
+export type Affiliation = "friend" | "hostile" | "neutral" | "unknown" | "pending";
+export type BaseCombatEventType = "launch" | "impact" | "intercept";
+export type ExtendedCombatEventType = "detection" | "miss";
+export type CombatEventType = BaseCombatEventType | ExtendedCombatEventType;
+export type RemovalReason = "removed" | "destroyed";
 
 export type TimeSeconds = number;
 
+export type ProtocolVersion = "1.0" | "1.1";
+export type SessionCapability = "epochTime" | "ecefPositions" | "deltaFrames" | "extendedEvents";
+
 export interface SessionHeader {
-  protocolVersion: "1.0";
+  protocolVersion: ProtocolVersion;
   scenarioId?: string;
+  staleAfterSec?: number;
+  epochUtc?: string;
+  capabilities: SessionCapability[];
 }
 
 export interface PoseSample {
@@ -19,8 +29,11 @@ export interface EntityState {
   kind: EntityKind;
   domain: Domain;
   modelId: string;
+  affiliation?: Affiliation;
+  sidc?: string;
   pose: PoseSample;
   velocityEcef?: [number, number, number];
+  staleAfterSec?: number;
   metadata?: Record<string, string | number | boolean>;
 }
 
@@ -33,8 +46,38 @@ export interface CombatEvent {
   t: TimeSeconds;
 }
 
+export interface EntityRemoval {
+  id: string;
+  reason: RemovalReason;
+}
+
 export interface FrameMessage {
   t: TimeSeconds;
+  keyframeId?: string;
   entities: EntityState[];
   events?: CombatEvent[];
+  removals?: EntityRemoval[];
+}
+
+export interface EntityDelta {
+  id: string;
+  kind?: EntityKind;
+  domain?: Domain;
+  modelId?: string;
+  affiliation?: Affiliation;
+  sidc?: string;
+  pose?: Partial<PoseSample>;
+  velocityEcef?: [number, number, number];
+  staleAfterSec?: number;
+  metadata?: Record<string, string | number | boolean>;
+}
+
+export interface DeltaFrameMessage {
+  t: TimeSeconds;
+  baseKeyframeId: string;
+  entities: EntityDelta[];
+  events?: CombatEvent[];
+  removals?: EntityRemoval[];
 }
+
+export type StreamFrame = FrameMessage | DeltaFrameMessage;
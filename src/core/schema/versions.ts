@@ -0,0 +1,102 @@
+import { invalid } from "./diagnostics";
+import type { ProtocolVersion, SessionCapability, SessionHeader } from "./types";
+
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly ProtocolVersion[] = ["1.0", "1.1"];
+
+export const CURRENT_PROTOCOL_VERSION: ProtocolVersion = "1.1";
+
+export const SESSION_CAPABILITIES: readonly SessionCapability[] = [
+  "epochTime",
+  "ecefPositions",
+  "deltaFrames",
+  "extendedEvents"
+];
+
+export interface NegotiatedVersion {
+  version: ProtocolVersion;
+  declared: string;
+  lenient: boolean;
+}
+
+type RawHeader = Record<string, unknown>;
+
+interface HeaderUpgrader {
+  from: ProtocolVersion;
+  to: ProtocolVersion;
+  upgrade: (raw: RawHeader) => RawHeader;
+}
+
+const HEADER_UPGRADERS: HeaderUpgrader[] = [
+  {
+    from: "1.0",
+    to: "1.1",
+    upgrade: (raw) => ({
+      protocolVersion: raw.protocolVersion,
+      scenarioId: raw.scenarioId,
+      staleAfterSec: raw.staleAfterSec,
+      capabilities: []
+    })
+  }
+];
+
+const isSupportedVersion = (value: string): value is ProtocolVersion =>
+  (SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(value);
+
+const splitVersion = (value: string): [major: number, minor: number] | null => {
+  const match = /^(\d+)\.(\d+)$/.exec(value);
+  return match ? [Number(match[1]), Number(match[2])] : null;
+};
+
+export const negotiateProtocolVersion = (declared: unknown): NegotiatedVersion => {
+  if (typeof declared !== "string") {
+    throw invalid("type", "header.protocolVersion", "a string", declared);
+  }
+  if (isSupportedVersion(declared)) {
+    return { version: declared, declared, lenient: false };
+  }
+  const parsed = splitVersion(declared);
+  const [currentMajor, currentMinor] = splitVersion(CURRENT_PROTOCOL_VERSION)!;
+  if (parsed && parsed[0] === currentMajor && parsed[1] > currentMinor) {
+    return { version: CURRENT_PROTOCOL_VERSION, declared, lenient: true };
+  }
+  const expected = `one of ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")}`;
+  const message = `header.protocolVersion must be ${expected} (got "${declared}")`;
+  throw invalid("enum", "header.protocolVersion", expected, declared, message);
+};
+
+export const upgradeRawHeader = (raw: RawHeader, from: ProtocolVersion): RawHeader => {
+  let current = raw;
+  let version = from;
+  while (version !== CURRENT_PROTOCOL_VERSION) {
+    const step = HEADER_UPGRADERS.find((upgrader) => upgrader.from === version);
+    if (!step) {
+      throw new Error(`No upgrade path from protocol ${version}`);
+    }
+    current = step.upgrade(current);
+    version = step.to;
+  }
+  return current;
+};
+
+export const encodeSessionHeader = (header: SessionHeader): Record<string, unknown> => {
+  const out: Record<string, unknown> = { protocolVersion: header.protocolVersion };
+  if (header.scenarioId !== undefined) {
+    out.scenarioId = header.scenarioId;
+  }
+  if (header.staleAfterSec !== undefined) {
+    out.staleAfterSec = header.staleAfterSec;
+  }
+  if (header.protocolVersion === "1.0") {
+    return out;
+  }
+  if (header.epochUtc !== undefined) {
+    out.epochUtc = header.epochUtc;
+  }
+  if (header.capabilities.length > 0) {
+    out.capabilities = [...header.capabilities];
+  }
+  return out;
+};
+
+export const hasCapability = (header: SessionHeader | undefined, capability: SessionCapability): boolean =>
+  Boolean(header?.capabilities.includes(capability));
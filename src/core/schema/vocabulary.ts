@@ -0,0 +1,24 @@
+import type {
+  Affiliation,
+  BaseCombatEventType,
+  Domain,
+  EntityKind,
+  ExtendedCombatEventType,
+  RemovalReason
+} from "./types";
+
+export const DOMAINS: readonly Domain[] = ["air", "ground", "sea", "space"];
+
+export const ENTITY_KINDS: readonly EntityKind[] = ["platform", "weapon"];
+
+export const AFFILIATIONS: readonly Affiliation[] = ["friend", "hostile", "neutral", "unknown", "pending"];
+
+export const BASE_COMBAT_EVENT_TYPES: readonly BaseCombatEventType[] = ["launch", "impact", "intercept"];
+
+export const EXTENDED_COMBAT_EVENT_TYPES: readonly ExtendedCombatEventType[] = ["detection", "miss"];
+
+export const REMOVAL_REASONS: readonly RemovalReason[] = ["removed", "destroyed"];
+
+export const ISO_TIMESTAMP_PATTERN = "^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2})$";
+
+export const SIDC_PATTERN = "^([A-Z][A-Z*-]{2}[A-Z0-9*-]{12}|\\d{20}|\\d{30})$";
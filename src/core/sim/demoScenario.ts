@@ -1,10 +1,12 @@
-import type { CombatEvent, EntityState, FrameMessage } from "../schema";
+import type { Affiliation, CombatEvent, EntityRemoval, EntityState, FrameMessage } from "../schema";
 
 interface TrackDef {
   id: string;
   kind: EntityState["kind"];
   domain: EntityState["domain"];
   modelId: string;
+  affiliation: Affiliation;
+  sidc?: string;
   baseLat: number;
   baseLon: number;
   baseAlt: number;
@@ -26,6 +28,7 @@ const trackDefs: TrackDef[] = [
     kind: "platform",
     domain: "air",
     modelId: "f16_faceted",
+    affiliation: "friend",
     baseLat: 34.2,
     baseLon: -116.3,
     baseAlt: 10000,
@@ -40,6 +43,7 @@ const trackDefs: TrackDef[] = [
     kind: "platform",
     domain: "air",
     modelId: "kc135_faceted",
+    affiliation: "friend",
     baseLat: 35.4,
     baseLon: -118.0,
     baseAlt: 11000,
@@ -54,6 +58,8 @@ const trackDefs: TrackDef[] = [
     kind: "platform",
     domain: "sea",
     modelId: "frigate_faceted",
+    affiliation: "hostile",
+    sidc: "SHSPCLFF-------",
     baseLat: 22.8,
     baseLon: -158.5,
     baseAlt: 0,
@@ -68,6 +74,7 @@ const trackDefs: TrackDef[] = [
     kind: "platform",
     domain: "ground",
     modelId: "convoy_faceted",
+    affiliation: "unknown",
     baseLat: 36.1,
     baseLon: -115.2,
     baseAlt: 900,
@@ -82,6 +89,7 @@ const trackDefs: TrackDef[] = [
     kind: "platform",
     domain: "space",
     modelId: "satellite_faceted",
+    affiliation: "neutral",
     baseLat: 0,
     baseLon: -30,
     baseAlt: 410000,
@@ -105,6 +113,8 @@ const buildTrackEntity = (track: TrackDef, t: number): EntityState => {
     kind: track.kind,
     domain: track.domain,
     modelId: track.modelId,
+    affiliation: track.affiliation,
+    sidc: track.sidc,
     pose: {
       positionLlaDegM: [lat, lon, Math.max(0, alt)],
       orientationBodyToNedQuat: yawQuat(yaw)
@@ -130,6 +140,7 @@ const missileState = (t: number): EntityState | null => {
     kind: "weapon",
     domain: "air",
     modelId: "aam_faceted",
+    affiliation: "friend",
     pose: {
       positionLlaDegM: [lat, lon, alt],
       orientationBodyToNedQuat: yawQuat(yaw)
@@ -146,6 +157,7 @@ export const generateDemoScenario = (durationSec = 240, stepSec = 0.2): FrameMes
       entities.push(missile);
     }
     const events: CombatEvent[] = [];
+    const removals: EntityRemoval[] = [];
     if (Math.abs(t - 40) < stepSec * 0.5) {
       events.push({
         id: "launch-weapon-missile-01",
@@ -164,11 +176,13 @@ export const generateDemoScenario = (durationSec = 240, stepSec = 0.2): FrameMes
         positionLlaDegM: [23.1, -157.6, 0] as [number, number, number],
         t
       });
+      removals.push({ id: "weapon-missile-01", reason: "destroyed" });
     }
     frames.push({
       t,
       entities,
-      events
+      events,
+      removals
     });
   }
   return frames;
@@ -0,0 +1,141 @@
+import type { CombatEvent, CombatEventType } from "../schema";
+import { insertByTime, lowerBoundByTime, upperBoundByTime } from "./timeSearch";
+
+export interface EventQuery {
+  startT?: number;
+  endT?: number;
+  sourceId?: string;
+  targetId?: string;
+  types?: CombatEventType[];
+}
+
+export type EventPersistence = Record<CombatEventType, number>;
+
+export const DEFAULT_EVENT_PERSISTENCE_SEC: EventPersistence = {
+  launch: 0.5,
+  impact: 4,
+  intercept: 2,
+  detection: 1,
+  miss: 2
+};
+
+const insertKeyed = <K>(index: Map<K, CombatEvent[]>, key: K, event: CombatEvent): void => {
+  const list = index.get(key);
+  if (!list) {
+    index.set(key, [event]);
+  } else {
+    insertByTime(list, event);
+  }
+};
+
+const evictKeyed = <K>(index: Map<K, CombatEvent[]>, cutoff: number): void => {
+  for (const [key, list] of index) {
+    list.splice(0, lowerBoundByTime(list, cutoff));
+    if (list.length === 0) {
+      index.delete(key);
+    }
+  }
+};
+
+const matches = (event: CombatEvent, query: EventQuery): boolean =>
+  (query.sourceId === undefined || event.sourceId === query.sourceId) &&
+  (query.targetId === undefined || event.targetId === query.targetId) &&
+  (query.types === undefined || query.types.includes(event.type));
+
+export class EventIndex {
+  private all: CombatEvent[] = [];
+
+  private bySource = new Map<string, CombatEvent[]>();
+
+  private byTarget = new Map<string, CombatEvent[]>();
+
+  private byType = new Map<CombatEventType, CombatEvent[]>();
+
+  private persistence: EventPersistence = { ...DEFAULT_EVENT_PERSISTENCE_SEC };
+
+  get size(): number {
+    return this.all.length;
+  }
+
+  clear(): void {
+    this.all = [];
+    this.bySource = new Map();
+    this.byTarget = new Map();
+    this.byType = new Map();
+  }
+
+  setPersistence(persistence: Partial<EventPersistence>): void {
+    this.persistence = { ...DEFAULT_EVENT_PERSISTENCE_SEC, ...persistence };
+  }
+
+  insert(event: CombatEvent): void {
+    insertByTime(this.all, event);
+    insertKeyed(this.byType, event.type, event);
+    if (event.sourceId !== undefined) {
+      insertKeyed(this.bySource, event.sourceId, event);
+    }
+    if (event.targetId !== undefined) {
+      insertKeyed(this.byTarget, event.targetId, event);
+    }
+  }
+
+  evictBefore(cutoff: number): void {
+    this.all.splice(0, lowerBoundByTime(this.all, cutoff));
+    evictKeyed(this.bySource, cutoff);
+    evictKeyed(this.byTarget, cutoff);
+    evictKeyed(this.byType, cutoff);
+  }
+
+  query(query: EventQuery = {}): CombatEvent[] {
+    const base = this.baseList(query);
+    const start = query.startT === undefined ? 0 : lowerBoundByTime(base, query.startT);
+    const end = query.endT === undefined ? base.length : upperBoundByTime(base, query.endT);
+    const out: CombatEvent[] = [];
+    for (let i = start; i < end; i += 1) {
+      if (matches(base[i], query)) {
+        out.push(base[i]);
+      }
+    }
+    return out;
+  }
+
+  next(t: number, query: EventQuery = {}): CombatEvent | null {
+    const base = this.baseList(query);
+    for (let i = upperBoundByTime(base, t); i < base.length; i += 1) {
+      if (matches(base[i], query)) {
+        return base[i];
+      }
+    }
+    return null;
+  }
+
+  previous(t: number, query: EventQuery = {}): CombatEvent | null {
+    const base = this.baseList(query);
+    for (let i = lowerBoundByTime(base, t) - 1; i >= 0; i -= 1) {
+      if (matches(base[i], query)) {
+        return base[i];
+      }
+    }
+    return null;
+  }
+
+  activeAt(t: number): CombatEvent[] {
+    const longest = Math.max(...Object.values(this.persistence));
+    return this.query({ startT: t - longest, endT: t }).filter(
+      (event) => t - event.t <= this.persistence[event.type]
+    );
+  }
+
+  private baseList(query: EventQuery): CombatEvent[] {
+    if (query.sourceId !== undefined) {
+      return this.bySource.get(query.sourceId) ?? [];
+    }
+    if (query.targetId !== undefined) {
+      return this.byTarget.get(query.targetId) ?? [];
+    }
+    if (query.types?.length === 1) {
+      return this.byType.get(query.types[0]) ?? [];
+    }
+    return this.all;
+  }
+}
@@ -1,2 +1,5 @@
 export * from "./timeline";
+export * from "./eventIndex";
+export * from "./interpolation";
 export * from "./demoScenario";
+export * from "./telemetry";
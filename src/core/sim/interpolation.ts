@@ -0,0 +1,47 @@
+import { add3, scale3, sub3 } from "../math";
+import type { Vec3 } from "../math";
+
+export type InterpolationMode = "linear" | "hermite" | "finiteDifference";
+
+export interface TimedPosition {
+  t: number;
+  positionEcefM: Vec3;
+}
+
+export const hermite3 = (p0: Vec3, v0: Vec3, p1: Vec3, v1: Vec3, dtSec: number, s: number): Vec3 => {
+  const s2 = s * s;
+  const s3 = s2 * s;
+  const h00 = 2 * s3 - 3 * s2 + 1;
+  const h10 = s3 - 2 * s2 + s;
+  const h01 = -2 * s3 + 3 * s2;
+  const h11 = s3 - s2;
+  return add3(
+    add3(scale3(p0, h00), scale3(v0, h10 * dtSec)),
+    add3(scale3(p1, h01), scale3(v1, h11 * dtSec))
+  );
+};
+
+export const hermiteVelocity3 = (p0: Vec3, v0: Vec3, p1: Vec3, v1: Vec3, dtSec: number, s: number): Vec3 => {
+  const s2 = s * s;
+  const d00 = 6 * s2 - 6 * s;
+  const d10 = 3 * s2 - 4 * s + 1;
+  const d01 = -6 * s2 + 6 * s;
+  const d11 = 3 * s2 - 2 * s;
+  return add3(
+    add3(scale3(p0, d00 / dtSec), scale3(v0, d10)),
+    add3(scale3(p1, d01 / dtSec), scale3(v1, d11))
+  );
+};
+
+export const finiteDifferenceVelocity = (samples: TimedPosition[], index: number): Vec3 => {
+  const lo = samples[Math.max(0, index - 1)];
+  const hi = samples[Math.min(samples.length - 1, index + 1)];
+  const dtSec = hi.t - lo.t;
+  if (dtSec <= 0) {
+    return [0, 0, 0];
+  }
+  return scale3(sub3(hi.positionEcefM, lo.positionEcefM), 1 / dtSec);
+};
+
+export const deadReckon3 = (position: Vec3, velocity: Vec3, dtSec: number): Vec3 =>
+  add3(position, scale3(velocity, dtSec));
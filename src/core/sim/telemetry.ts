@@ -0,0 +1,55 @@
+import { ecefToLla, llaToMgrs, nedBasisAtLla, quatToYawPitchRoll, RAD2DEG, speedOfSoundMps } from "../math";
+import type { LlaDegM, Vec3 } from "../math";
+import { resolveAffiliation } from "../schema";
+import type { Affiliation, EntityState } from "../schema";
+import type { RuntimeEntityState } from "./timeline";
+
+export interface EntityTelemetry {
+  id: string;
+  kind: EntityState["kind"];
+  domain: EntityState["domain"];
+  modelId: string;
+  affiliation: Affiliation;
+  coasting: boolean;
+  positionLlaDegM: LlaDegM;
+  positionEcefM: Vec3;
+  mgrs: string | null;
+  headingDeg: number;
+  pitchDeg: number;
+  rollDeg: number;
+  groundSpeedMps: number | null;
+  verticalSpeedMps: number | null;
+  mach: number | null;
+  metadata: Array<[string, string | number | boolean]>;
+}
+
+const dot = (a: Vec3, b: Vec3): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+export const computeTelemetry = (entity: RuntimeEntityState, velocityEcefMps: Vec3 | null): EntityTelemetry => {
+  const lla = ecefToLla(entity.positionEcefM);
+  const [yaw, pitch, roll] = quatToYawPitchRoll(entity.pose.orientationBodyToNedQuat);
+  const basis = nedBasisAtLla(lla);
+  const velocity = velocityEcefMps ?? entity.velocityEcef ?? null;
+  const north = velocity ? dot(velocity, basis.north) : 0;
+  const east = velocity ? dot(velocity, basis.east) : 0;
+  const down = velocity ? dot(velocity, basis.down) : 0;
+  const speed = Math.hypot(north, east, down);
+  return {
+    id: entity.id,
+    kind: entity.kind,
+    domain: entity.domain,
+    modelId: entity.modelId,
+    affiliation: resolveAffiliation(entity),
+    coasting: entity.coasting,
+    positionLlaDegM: lla,
+    positionEcefM: [...entity.positionEcefM],
+    mgrs: llaToMgrs(lla[0], lla[1]),
+    headingDeg: (yaw * RAD2DEG + 360) % 360,
+    pitchDeg: pitch * RAD2DEG,
+    rollDeg: roll * RAD2DEG,
+    groundSpeedMps: velocity ? Math.hypot(north, east) : null,
+    verticalSpeedMps: velocity ? -down : null,
+    mach: velocity ? speed / speedOfSoundMps(lla[2]) : null,
+    metadata: Object.entries(entity.metadata ?? {}).sort(([a], [b]) => a.localeCompare(b))
+  };
+};
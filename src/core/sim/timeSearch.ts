@@ -0,0 +1,35 @@
+export const lowerBoundByTime = <T extends { t: number }>(samples: T[], t: number): number => {
+  let low = 0;
+  let high = samples.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (samples[mid].t < t) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+export const upperBoundByTime = <T extends { t: number }>(samples: T[], t: number): number => {
+  let low = 0;
+  let high = samples.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (samples[mid].t <= t) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+export const insertByTime = <T extends { t: number }>(items: T[], item: T): void => {
+  if (items.length === 0 || items[items.length - 1].t <= item.t) {
+    items.push(item);
+    return;
+  }
+  items.splice(upperBoundByTime(items, item.t), 0, item);
+};
@@ -1,9 +1,38 @@
-import { ecefToLla, llaToEcef, lerp3, quatNormalize, quatSlerp } from "../math";
-import type { FrameMessage, EntityState } from "../schema";
+import { ecefToLla, llaToEcef, lerp3, quatNormalize, quatSlerp, scale3, sub3 } from "../math";
+import type { Vec3 } from "../math";
+import { createIssue, isDeltaFrame } from "../schema";
+import type {
+  CombatEvent,
+  DeltaFrameMessage,
+  EntityDelta,
+  EntityState,
+  FrameMessage,
+  RemovalReason,
+  StreamFrame,
+  ValidationIssue
+} from "../schema";
+import { EventIndex } from "./eventIndex";
+import type { EventPersistence, EventQuery } from "./eventIndex";
+import { deadReckon3, finiteDifferenceVelocity, hermite3, hermiteVelocity3 } from "./interpolation";
+import type { InterpolationMode } from "./interpolation";
+import { insertByTime, lowerBoundByTime, upperBoundByTime } from "./timeSearch";
 
 interface EntitySample {
   t: number;
   state: EntityState;
+  positionEcefM: Vec3;
+}
+
+interface RemovalMark {
+  t: number;
+  reason: RemovalReason;
+}
+
+interface KeyframeRecord {
+  t: number;
+  id: string;
+  members: Set<string>;
+  referencedAt: Array<{ t: number }>;
 }
 
 interface Range {
@@ -12,8 +41,42 @@ interface Range {
   duration: number;
 }
 
+export interface TimelineRetentionPolicy {
+  maxDurationSec?: number;
+  maxSamples?: number;
+  maxApproxBytes?: number;
+  archiveIntervalSec?: number;
+}
+
+export interface TimelineLifecyclePolicy {
+  staleAfterSec?: number;
+  coastAfterSec?: number;
+}
+
+export interface TimelineMotionPolicy {
+  interpolation?: InterpolationMode;
+  extrapolationHorizonSec?: number;
+}
+
+export interface TimelineStoreOptions {
+  retention?: TimelineRetentionPolicy;
+  lifecycle?: TimelineLifecyclePolicy;
+  motion?: TimelineMotionPolicy;
+  eventPersistenceSec?: Partial<EventPersistence>;
+  onIssue?: (issue: ValidationIssue) => void;
+}
+
+const DEFAULT_COAST_AFTER_SEC = 1;
+const EVICTION_SLACK = 0.1;
+const FRAME_OVERHEAD_BYTES = 64;
+const ENTITY_SAMPLE_BYTES = 320;
+const METADATA_ENTRY_BYTES = 64;
+const EVENT_BYTES = 160;
+const DEFAULT_TRAIL_MAX_POINTS = 512;
+
 export interface RuntimeEntityState extends EntityState {
   positionEcefM: [number, number, number];
+  coasting: boolean;
 }
 
 export interface RuntimeFrameMessage {
@@ -22,6 +85,21 @@ export interface RuntimeFrameMessage {
   events?: NonNullable<FrameMessage["events"]>;
 }
 
+export interface TrailPoint {
+  t: number;
+  positionEcefM: Vec3;
+}
+
+export interface EntityTrail {
+  id: string;
+  points: TrailPoint[];
+}
+
+export interface TrailQuery {
+  windowSec: number | null;
+  maxPoints?: number;
+}
+
 const cloneEntity = (state: EntityState): EntityState => ({
   ...state,
   pose: {
@@ -32,33 +110,73 @@ const cloneEntity = (state: EntityState): EntityState => ({
   metadata: state.metadata ? { ...state.metadata } : undefined
 });
 
-const upperBoundByTime = (samples: EntitySample[], t: number): number => {
-  let low = 0;
-  let high = samples.length;
-  while (low < high) {
-    const mid = Math.floor((low + high) / 2);
-    if (samples[mid].t <= t) {
-      low = mid + 1;
-    } else {
-      high = mid;
-    }
+const mergeEntityDelta = (base: EntityState, delta: EntityDelta): EntityState => ({
+  id: base.id,
+  kind: delta.kind ?? base.kind,
+  domain: delta.domain ?? base.domain,
+  modelId: delta.modelId ?? base.modelId,
+  affiliation: delta.affiliation ?? base.affiliation,
+  sidc: delta.sidc ?? base.sidc,
+  pose: {
+    positionLlaDegM: delta.pose?.positionLlaDegM ?? base.pose.positionLlaDegM,
+    orientationBodyToNedQuat: delta.pose?.orientationBodyToNedQuat ?? base.pose.orientationBodyToNedQuat
+  },
+  velocityEcef: delta.velocityEcef ?? base.velocityEcef,
+  staleAfterSec: delta.staleAfterSec ?? base.staleAfterSec,
+  metadata: delta.metadata ? { ...base.metadata, ...delta.metadata } : base.metadata
+});
+
+const toCompleteEntity = (delta: EntityDelta): EntityState | null => {
+  const { kind, domain, modelId, pose } = delta;
+  if (!kind || !domain || !modelId || !pose?.positionLlaDegM || !pose.orientationBodyToNedQuat) {
+    return null;
+  }
+  const { positionLlaDegM, orientationBodyToNedQuat } = pose;
+  return { ...delta, kind, domain, modelId, pose: { positionLlaDegM, orientationBodyToNedQuat } };
+};
+
+const estimateFrameBytes = (frame: FrameMessage): number => {
+  let bytes = FRAME_OVERHEAD_BYTES + (frame.events?.length ?? 0) * EVENT_BYTES;
+  for (const entity of frame.entities) {
+    bytes += ENTITY_SAMPLE_BYTES + Object.keys(entity.metadata ?? {}).length * METADATA_ENTRY_BYTES;
   }
-  return low;
+  return bytes;
 };
 
-const cloneRuntimeEntity = (state: EntityState): RuntimeEntityState => ({
-  ...cloneEntity(state),
-  positionEcefM: llaToEcef(state.pose.positionLlaDegM)
+const cloneRuntimeEntity = (sample: EntitySample): RuntimeEntityState => ({
+  ...cloneEntity(sample.state),
+  positionEcefM: [...sample.positionEcefM],
+  coasting: false
 });
 
-const interpolateEntityRuntime = (a: EntitySample, b: EntitySample, t: number): RuntimeEntityState => {
+const sampleVelocity = (samples: EntitySample[], index: number, mode: InterpolationMode): Vec3 => {
+  const reported = samples[index].state.velocityEcef;
+  return mode !== "finiteDifference" && reported ? reported : finiteDifferenceVelocity(samples, index);
+};
+
+const interpolateEntityRuntime = (
+  samples: EntitySample[],
+  right: number,
+  t: number,
+  mode: InterpolationMode
+): RuntimeEntityState => {
+  const a = samples[right - 1];
+  const b = samples[right];
   if (a.t === b.t) {
-    return cloneRuntimeEntity(a.state);
+    return cloneRuntimeEntity(a);
+  }
+  const dtSec = b.t - a.t;
+  const alpha = Math.min(1, Math.max(0, (t - a.t) / dtSec));
+  let posEcef: Vec3;
+  let velocityEcef = b.state.velocityEcef;
+  if (mode === "linear") {
+    posEcef = lerp3(a.positionEcefM, b.positionEcefM, alpha);
+  } else {
+    const va = sampleVelocity(samples, right - 1, mode);
+    const vb = sampleVelocity(samples, right, mode);
+    posEcef = hermite3(a.positionEcefM, va, b.positionEcefM, vb, dtSec, alpha);
+    velocityEcef = hermiteVelocity3(a.positionEcefM, va, b.positionEcefM, vb, dtSec, alpha);
   }
-  const alpha = Math.min(1, Math.max(0, (t - a.t) / (b.t - a.t)));
-  const posAEcef = llaToEcef(a.state.pose.positionLlaDegM);
-  const posBEcef = llaToEcef(b.state.pose.positionLlaDegM);
-  const posEcef = lerp3(posAEcef, posBEcef, alpha);
   const rot = quatSlerp(
     quatNormalize(a.state.pose.orientationBodyToNedQuat),
     quatNormalize(b.state.pose.orientationBodyToNedQuat),
@@ -70,33 +188,154 @@ const interpolateEntityRuntime = (a: EntitySample, b: EntitySample, t: number):
       ...b.state.pose,
       orientationBodyToNedQuat: rot
     },
-    positionEcefM: posEcef
+    velocityEcef,
+    positionEcefM: posEcef,
+    coasting: false
   };
 };
 
+const extrapolateEntityRuntime = (
+  samples: EntitySample[],
+  t: number,
+  horizonSec: number,
+  mode: InterpolationMode
+): RuntimeEntityState => {
+  const last = samples.length - 1;
+  const entity = cloneRuntimeEntity(samples[last]);
+  const dtSec = Math.min(horizonSec, t - samples[last].t);
+  if (dtSec <= 0) {
+    return entity;
+  }
+  const velocity = sampleVelocity(samples, last, mode);
+  entity.positionEcefM = deadReckon3(samples[last].positionEcefM, velocity, dtSec);
+  entity.velocityEcef = [...velocity];
+  return entity;
+};
+
 export class TimelineStore {
   private frames: FrameMessage[] = [];
 
   private entityIndex = new Map<string, EntitySample[]>();
 
-  private eventIndex: NonNullable<FrameMessage["events"]> = [];
+  private readonly eventIndex = new EventIndex();
+
+  private removalIndex = new Map<string, RemovalMark[]>();
+
+  private keyframes: KeyframeRecord[] = [];
+
+  private keyframesById = new Map<string, KeyframeRecord>();
+
+  private retention: TimelineRetentionPolicy | null;
+
+  private lifecycle: TimelineLifecyclePolicy;
+
+  private motion: TimelineMotionPolicy;
+
+  private archivedCounts = new Map<string, number>();
+
+  private archiveStart: number | null = null;
+
+  private evictedBefore: number | null = null;
+
+  private retainedSamples = 0;
+
+  private retainedBytes = 0;
+
+  private readonly onIssue: (issue: ValidationIssue) => void;
+
+  constructor(options: TimelineStoreOptions = {}) {
+    this.onIssue = options.onIssue ?? (() => undefined);
+    this.retention = options.retention ?? null;
+    this.lifecycle = options.lifecycle ?? {};
+    this.motion = options.motion ?? {};
+    this.eventIndex.setPersistence(options.eventPersistenceSec ?? {});
+  }
 
-  setFrames(frames: FrameMessage[]): void {
-    this.frames = [...frames].sort((a, b) => a.t - b.t);
-    this.rebuildIndices();
+  setEventPersistence(persistenceSec: Partial<EventPersistence>): void {
+    this.eventIndex.setPersistence(persistenceSec);
+  }
+
+  setMotion(policy: TimelineMotionPolicy): void {
+    this.motion = policy;
+  }
+
+  setLifecycle(policy: TimelineLifecyclePolicy): void {
+    this.lifecycle = policy;
+  }
+
+  setRetention(policy: TimelineRetentionPolicy | null): void {
+    this.retention = policy;
+    this.enforceRetention();
+  }
+
+  setFrames(frames: StreamFrame[]): void {
+    this.frames = [];
+    this.entityIndex = new Map();
+    this.eventIndex.clear();
+    this.removalIndex = new Map();
+    this.keyframes = [];
+    this.keyframesById = new Map();
+    this.archivedCounts = new Map();
+    this.archiveStart = null;
+    this.evictedBefore = null;
+    this.retainedSamples = 0;
+    this.retainedBytes = 0;
+    this.appendFrames(frames);
+  }
+
+  appendFrame(message: StreamFrame): void {
+    if (this.evictedBefore !== null && message.t < this.evictedBefore) {
+      return;
+    }
+    const frame = isDeltaFrame(message) ? this.resolveDelta(message) : message;
+    insertByTime(this.frames, frame);
+    this.retainedSamples += frame.entities.length;
+    this.retainedBytes += estimateFrameBytes(frame);
+    for (const entity of frame.entities) {
+      const sample = {
+        t: frame.t,
+        state: cloneEntity(entity),
+        positionEcefM: llaToEcef(entity.pose.positionLlaDegM)
+      };
+      const list = this.entityIndex.get(entity.id);
+      if (!list) {
+        this.entityIndex.set(entity.id, [sample]);
+      } else {
+        insertByTime(list, sample);
+      }
+    }
+    for (const event of frame.events ?? []) {
+      this.eventIndex.insert(event);
+    }
+    for (const removal of frame.removals ?? []) {
+      const mark = { t: frame.t, reason: removal.reason };
+      const marks = this.removalIndex.get(removal.id);
+      if (!marks) {
+        this.removalIndex.set(removal.id, [mark]);
+      } else {
+        insertByTime(marks, mark);
+      }
+    }
+    if (isDeltaFrame(message)) {
+      this.indexDeltaReference(message, frame);
+    } else if (message.keyframeId !== undefined) {
+      this.indexKeyframe(message.keyframeId, frame);
+    }
+    this.enforceRetention();
   }
 
-  appendFrame(frame: FrameMessage): void {
-    this.frames.push(frame);
-    this.frames.sort((a, b) => a.t - b.t);
-    this.rebuildIndices();
+  appendFrames(frames: StreamFrame[]): void {
+    const ordered = [...frames].sort((a, b) => a.t - b.t);
+    for (const frame of ordered) {
+      this.appendFrame(frame);
+    }
   }
 
   getRange(): Range {
     if (this.frames.length === 0) {
       return { start: 0, end: 0, duration: 0 };
     }
-    const start = this.frames[0].t;
+    const start = this.archiveStart ?? this.frames[0].t;
     const end = this.frames[this.frames.length - 1].t;
     return { start, end, duration: end - start };
   }
@@ -113,63 +352,271 @@ export class TimelineStore {
     return {
       t,
       entities,
-      events: this.eventsNear(t, 0.15)
+      events: this.activeEventsAt(t)
     };
   }
 
   sampleAtRuntime(t: number): RuntimeFrameMessage {
+    const coastAfterSec = this.lifecycle.coastAfterSec ?? DEFAULT_COAST_AFTER_SEC;
+    const mode = this.motion.interpolation ?? "linear";
+    const horizonSec = this.motion.extrapolationHorizonSec ?? 0;
+    const keyframe = this.keyframeCoverageAt(t);
     const entities: RuntimeEntityState[] = [];
-    for (const samples of this.entityIndex.values()) {
-      if (samples.length === 0) {
-        continue;
-      }
+    for (const [id, samples] of this.entityIndex) {
       const right = upperBoundByTime(samples, t);
       if (right <= 0) {
-        entities.push(cloneRuntimeEntity(samples[0].state));
         continue;
       }
-      if (right >= samples.length) {
-        entities.push(cloneRuntimeEntity(samples[samples.length - 1].state));
+      const prev = samples[right - 1];
+      if (this.isRemovedBetween(id, prev.t, t)) {
+        continue;
+      }
+      const hasNext = right < samples.length;
+      const inArchive = hasNext && right - 1 < (this.archivedCounts.get(id) ?? 0);
+      const keyframeMember = keyframe?.members.has(id) ?? false;
+      const impliedT = keyframeMember ? keyframe!.lastT : Number.NEGATIVE_INFINITY;
+      const held = !hasNext && impliedT > prev.t;
+      const sinceReportSec = t - Math.max(prev.t, impliedT);
+      const staleAfterSec = prev.state.staleAfterSec ?? this.lifecycle.staleAfterSec;
+      const expired =
+        staleAfterSec === undefined
+          ? !hasNext && !keyframeMember && sinceReportSec > horizonSec
+          : sinceReportSec > staleAfterSec;
+      if (expired && !inArchive) {
         continue;
       }
-      entities.push(interpolateEntityRuntime(samples[right - 1], samples[right], t));
+      const entity = hasNext
+        ? interpolateEntityRuntime(samples, right, t, mode)
+        : held
+          ? cloneRuntimeEntity(prev)
+          : extrapolateEntityRuntime(samples, t, horizonSec, mode);
+      entity.coasting = !inArchive && sinceReportSec > coastAfterSec;
+      entities.push(entity);
     }
     return {
       t,
       entities,
-      events: this.eventsNear(t, 0.15)
+      events: this.activeEventsAt(t)
     };
   }
 
-  eventsNear(t: number, halfWindowSec: number): NonNullable<FrameMessage["events"]> {
-    if (this.eventIndex.length === 0) {
-      return [];
+  velocityAt(id: string, t: number): Vec3 | null {
+    const samples = this.entityIndex.get(id);
+    const right = samples ? upperBoundByTime(samples, t) : 0;
+    if (!samples || right <= 0) {
+      return null;
+    }
+    const mode = this.motion.interpolation ?? "linear";
+    if (right >= samples.length) {
+      const last = samples[right - 1];
+      return samples.length > 1 || last.state.velocityEcef ? sampleVelocity(samples, right - 1, mode) : null;
     }
-    const start = t - halfWindowSec;
-    const end = t + halfWindowSec;
-    return this.eventIndex.filter((event) => event.t >= start && event.t <= end);
+    const a = samples[right - 1];
+    const b = samples[right];
+    const dtSec = b.t - a.t;
+    if (dtSec <= 0) {
+      return sampleVelocity(samples, right, mode);
+    }
+    if (mode === "linear") {
+      return scale3(sub3(b.positionEcefM, a.positionEcefM), 1 / dtSec);
+    }
+    const va = sampleVelocity(samples, right - 1, mode);
+    const vb = sampleVelocity(samples, right, mode);
+    return hermiteVelocity3(a.positionEcefM, va, b.positionEcefM, vb, dtSec, (t - a.t) / dtSec);
   }
 
-  private rebuildIndices(): void {
-    this.entityIndex = new Map();
-    this.eventIndex = [];
-    for (const frame of this.frames) {
-      for (const entity of frame.entities) {
-        const list = this.entityIndex.get(entity.id);
-        const sample = { t: frame.t, state: cloneEntity(entity) };
-        if (!list) {
-          this.entityIndex.set(entity.id, [sample]);
-        } else {
-          list.push(sample);
-        }
+  trailsAt(frame: RuntimeFrameMessage, query: TrailQuery): EntityTrail[] {
+    const windowStart = query.windowSec === null ? Number.NEGATIVE_INFINITY : frame.t - Math.max(0, query.windowSec);
+    const maxPoints = Math.max(3, query.maxPoints ?? DEFAULT_TRAIL_MAX_POINTS);
+    const trails: EntityTrail[] = [];
+    for (const entity of frame.entities) {
+      const samples = this.entityIndex.get(entity.id) ?? [];
+      const respawnT = this.lastRemovalAt(entity.id, frame.t);
+      const first =
+        respawnT !== null && respawnT >= windowStart
+          ? upperBoundByTime(samples, respawnT)
+          : lowerBoundByTime(samples, windowStart);
+      const last = upperBoundByTime(samples, frame.t);
+      const stride = Math.max(1, Math.ceil((last - first) / (maxPoints - 2)));
+      const points: TrailPoint[] = [];
+      for (let i = last - 1; i >= first; i -= stride) {
+        points.push({ t: samples[i].t, positionEcefM: samples[i].positionEcefM });
       }
-      if (frame.events) {
-        this.eventIndex.push(...frame.events);
+      if (stride > 1 && points.length > 0 && points[points.length - 1].t > samples[first].t) {
+        points.push({ t: samples[first].t, positionEcefM: samples[first].positionEcefM });
       }
+      points.reverse();
+      if (points.length === 0 || points[points.length - 1].t < frame.t) {
+        points.push({ t: frame.t, positionEcefM: entity.positionEcefM });
+      }
+      trails.push({ id: entity.id, points });
+    }
+    return trails;
+  }
+
+  eventsNear(t: number, halfWindowSec: number): CombatEvent[] {
+    return this.eventIndex.query({ startT: t - halfWindowSec, endT: t + halfWindowSec });
+  }
+
+  eventsInRange(startT: number, endT: number, query: Omit<EventQuery, "startT" | "endT"> = {}): CombatEvent[] {
+    return this.eventIndex.query({ ...query, startT, endT });
+  }
+
+  queryEvents(query: EventQuery = {}): CombatEvent[] {
+    return this.eventIndex.query(query);
+  }
+
+  nextEvent(t: number, query: EventQuery = {}): CombatEvent | null {
+    return this.eventIndex.next(t, query);
+  }
+
+  previousEvent(t: number, query: EventQuery = {}): CombatEvent | null {
+    return this.eventIndex.previous(t, query);
+  }
+
+  activeEventsAt(t: number): CombatEvent[] {
+    return this.eventIndex.activeAt(t);
+  }
+
+  private resolveDelta(delta: DeltaFrameMessage): FrameMessage {
+    const entities: EntityState[] = [];
+    delta.entities.forEach((change, i) => {
+      const samples = this.entityIndex.get(change.id);
+      const base = samples ? upperBoundByTime(samples, delta.t) - 1 : -1;
+      const entity = samples && base >= 0 ? mergeEntityDelta(samples[base].state, change) : toCompleteEntity(change);
+      if (entity) {
+        entities.push(entity);
+        return;
+      }
+      const message = `delta at t=${delta.t} for ${change.id} has no retained base sample and no full state; dropped`;
+      this.onIssue(createIssue("reference", `frame.entities[${i}]`, "a retained base sample", change, message));
+    });
+    return { t: delta.t, entities, events: delta.events, removals: delta.removals };
+  }
+
+  private indexKeyframe(id: string, frame: FrameMessage): void {
+    const record: KeyframeRecord = {
+      t: frame.t,
+      id,
+      members: new Set(frame.entities.map((entity) => entity.id)),
+      referencedAt: []
+    };
+    this.keyframesById.set(id, record);
+    insertByTime(this.keyframes, record);
+  }
+
+  private indexDeltaReference(delta: DeltaFrameMessage, frame: FrameMessage): void {
+    const keyframe = this.keyframesById.get(delta.baseKeyframeId);
+    if (!keyframe) {
+      return;
+    }
+    insertByTime(keyframe.referencedAt, { t: delta.t });
+    for (const entity of frame.entities) {
+      keyframe.members.add(entity.id);
+    }
+  }
+
+  private keyframeCoverageAt(t: number): { members: ReadonlySet<string>; lastT: number } | null {
+    const index = upperBoundByTime(this.keyframes, t) - 1;
+    if (index < 0) {
+      return null;
+    }
+    const keyframe = this.keyframes[index];
+    const lastRef = upperBoundByTime(keyframe.referencedAt, t) - 1;
+    return { members: keyframe.members, lastT: lastRef >= 0 ? keyframe.referencedAt[lastRef].t : keyframe.t };
+  }
+
+  private isRemovedBetween(id: string, fromT: number, toT: number): boolean {
+    const removedAt = this.lastRemovalAt(id, toT);
+    return removedAt !== null && removedAt >= fromT;
+  }
+
+  private lastRemovalAt(id: string, t: number): number | null {
+    const marks = this.removalIndex.get(id);
+    const latest = marks ? upperBoundByTime(marks, t) - 1 : -1;
+    return latest >= 0 ? marks![latest].t : null;
+  }
+
+  private exceedsRetention(scale: number, startT: number, samples: number, bytes: number): boolean {
+    const policy = this.retention;
+    if (!policy) {
+      return false;
+    }
+    const end = this.frames[this.frames.length - 1].t;
+    return (
+      (policy.maxDurationSec !== undefined && end - startT > policy.maxDurationSec * scale) ||
+      (policy.maxSamples !== undefined && samples > policy.maxSamples * scale) ||
+      (policy.maxApproxBytes !== undefined && bytes > policy.maxApproxBytes * scale)
+    );
+  }
+
+  private enforceRetention(): void {
+    if (this.frames.length < 2) {
+      return;
     }
-    for (const samples of this.entityIndex.values()) {
-      samples.sort((a, b) => a.t - b.t);
+    if (!this.exceedsRetention(1, this.frames[0].t, this.retainedSamples, this.retainedBytes)) {
+      return;
+    }
+    let drop = 0;
+    let samples = this.retainedSamples;
+    let bytes = this.retainedBytes;
+    while (
+      drop < this.frames.length - 1 &&
+      this.exceedsRetention(1 - EVICTION_SLACK, this.frames[drop].t, samples, bytes)
+    ) {
+      samples -= this.frames[drop].entities.length;
+      bytes -= estimateFrameBytes(this.frames[drop]);
+      drop += 1;
+    }
+    if (drop === 0) {
+      return;
+    }
+    if (this.retention?.archiveIntervalSec !== undefined && this.archiveStart === null) {
+      this.archiveStart = this.frames[0].t;
+    }
+    const cutoff = this.frames[drop].t;
+    this.frames.splice(0, drop);
+    this.retainedSamples = samples;
+    this.retainedBytes = bytes;
+    this.evictedBefore = cutoff;
+    this.eventIndex.evictBefore(cutoff);
+    this.evictSamplesBefore(cutoff);
+    this.evictKeyframesBefore(cutoff);
+  }
+
+  private evictKeyframesBefore(cutoff: number): void {
+    const superseded = upperBoundByTime(this.keyframes, cutoff) - 1;
+    for (const keyframe of this.keyframes.splice(0, Math.max(0, superseded))) {
+      this.keyframesById.delete(keyframe.id);
+    }
+  }
+
+  private evictSamplesBefore(cutoff: number): void {
+    const interval = this.retention?.archiveIntervalSec;
+    for (const [id, samples] of this.entityIndex) {
+      const archived = this.archivedCounts.get(id) ?? 0;
+      const stale = lowerBoundByTime(samples, cutoff);
+      if (stale <= archived) {
+        continue;
+      }
+      const kept: EntitySample[] = [];
+      if (interval !== undefined) {
+        let lastT = archived > 0 ? samples[archived - 1].t : Number.NEGATIVE_INFINITY;
+        for (let i = archived; i < stale; i += 1) {
+          if (samples[i].t - lastT >= interval) {
+            kept.push(samples[i]);
+            lastT = samples[i].t;
+          }
+        }
+      }
+      samples.splice(archived, stale - archived, ...kept);
+      if (samples.length === 0) {
+        this.entityIndex.delete(id);
+        this.archivedCounts.delete(id);
+        this.removalIndex.delete(id);
+        continue;
+      }
+      this.archivedCounts.set(id, archived + kept.length);
     }
-    this.eventIndex.sort((a, b) => a.t - b.t);
   }
 }
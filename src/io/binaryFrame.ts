@@ -0,0 +1,325 @@
+import { AFFILIATIONS, DOMAINS, ENTITY_KINDS, isDeltaFrame } from "../core/schema";
+import type { CombatEvent, EntityDelta, EntityRemoval, EntityState, StreamFrame } from "../core/schema";
+
+export const BINARY_FRAME_MAGIC = 0x31425654;
+export const BINARY_FRAME_VERSION = 1;
+
+const PREFIX_BYTES = 8;
+const HEADER_BYTES = 32;
+const NO_STRING = 0xffffffff;
+
+const FRAME_FULL = 0;
+const FRAME_KEY = 1;
+const FRAME_DELTA = 2;
+
+const FIELD_KIND = 1 << 0;
+const FIELD_DOMAIN = 1 << 1;
+const FIELD_MODEL = 1 << 2;
+const FIELD_POSITION = 1 << 3;
+const FIELD_ORIENTATION = 1 << 4;
+const FIELD_VELOCITY = 1 << 5;
+const FIELD_STALE = 1 << 6;
+const FIELD_SIDC = 1 << 7;
+
+interface BinaryFrameExtras {
+  events?: CombatEvent[];
+  removals?: EntityRemoval[];
+  metadata?: Record<number, Record<string, string | number | boolean>>;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const fieldMask = (entity: EntityDelta): number =>
+  (entity.kind !== undefined ? FIELD_KIND : 0) |
+  (entity.domain !== undefined ? FIELD_DOMAIN : 0) |
+  (entity.modelId !== undefined ? FIELD_MODEL : 0) |
+  (entity.pose?.positionLlaDegM !== undefined ? FIELD_POSITION : 0) |
+  (entity.pose?.orientationBodyToNedQuat !== undefined ? FIELD_ORIENTATION : 0) |
+  (entity.velocityEcef !== undefined ? FIELD_VELOCITY : 0) |
+  (entity.staleAfterSec !== undefined ? FIELD_STALE : 0) |
+  (entity.sidc !== undefined ? FIELD_SIDC : 0);
+
+const entityRecordBytes = (mask: number): number =>
+  8 +
+  (mask & FIELD_MODEL ? 4 : 0) +
+  (mask & FIELD_POSITION ? 24 : 0) +
+  (mask & FIELD_ORIENTATION ? 16 : 0) +
+  (mask & FIELD_VELOCITY ? 24 : 0) +
+  (mask & FIELD_STALE ? 8 : 0) +
+  (mask & FIELD_SIDC ? 4 : 0);
+
+class StringTable {
+  readonly strings: string[] = [];
+
+  readonly encoded: Uint8Array[] = [];
+
+  byteLength = 0;
+
+  private readonly indices = new Map<string, number>();
+
+  intern(value: string): number {
+    const existing = this.indices.get(value);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const bytes = textEncoder.encode(value);
+    if (bytes.length > 0xffff) {
+      throw new Error(`Binary frame string is too long (${bytes.length} bytes)`);
+    }
+    const index = this.strings.length;
+    this.indices.set(value, index);
+    this.strings.push(value);
+    this.encoded.push(bytes);
+    this.byteLength += 2 + bytes.length;
+    return index;
+  }
+}
+
+export const encodeBinaryFrame = (frame: StreamFrame): ArrayBuffer => {
+  const strings = new StringTable();
+  const delta = isDeltaFrame(frame);
+  const frameKind = delta ? FRAME_DELTA : frame.keyframeId !== undefined ? FRAME_KEY : FRAME_FULL;
+  const keyframeString = delta
+    ? strings.intern(frame.baseKeyframeId)
+    : frame.keyframeId !== undefined
+      ? strings.intern(frame.keyframeId)
+      : NO_STRING;
+
+  const entities: EntityDelta[] = frame.entities;
+  const masks = entities.map(fieldMask);
+  let entityBytes = 0;
+  entities.forEach((entity, i) => {
+    strings.intern(entity.id);
+    if (entity.modelId !== undefined) {
+      strings.intern(entity.modelId);
+    }
+    if (entity.sidc !== undefined) {
+      strings.intern(entity.sidc);
+    }
+    entityBytes += entityRecordBytes(masks[i]);
+  });
+
+  const extras: BinaryFrameExtras = {};
+  if (frame.events !== undefined) {
+    extras.events = frame.events;
+  }
+  if (frame.removals !== undefined) {
+    extras.removals = frame.removals;
+  }
+  entities.forEach((entity, i) => {
+    if (entity.metadata !== undefined) {
+      extras.metadata = { ...extras.metadata, [i]: entity.metadata };
+    }
+  });
+  const extrasBytes = Object.keys(extras).length > 0 ? textEncoder.encode(JSON.stringify(extras)) : new Uint8Array();
+
+  const totalBytes = PREFIX_BYTES + HEADER_BYTES + strings.byteLength + entityBytes + extrasBytes.length;
+  const buffer = new ArrayBuffer(totalBytes);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint32(0, BINARY_FRAME_MAGIC, true);
+  view.setUint16(4, BINARY_FRAME_VERSION, true);
+  view.setUint16(6, HEADER_BYTES, true);
+  view.setFloat64(8, frame.t, true);
+  view.setUint8(16, frameKind);
+  view.setUint32(20, keyframeString, true);
+  view.setUint32(24, entities.length, true);
+  view.setUint32(28, strings.strings.length, true);
+  view.setUint32(32, strings.byteLength, true);
+  view.setUint32(36, extrasBytes.length, true);
+
+  let offset = PREFIX_BYTES + HEADER_BYTES;
+  for (const encoded of strings.encoded) {
+    view.setUint16(offset, encoded.length, true);
+    bytes.set(encoded, offset + 2);
+    offset += 2 + encoded.length;
+  }
+
+  entities.forEach((entity, i) => {
+    const mask = masks[i];
+    view.setUint32(offset, strings.intern(entity.id), true);
+    view.setUint8(offset + 4, mask);
+    view.setUint8(offset + 5, entity.kind !== undefined ? ENTITY_KINDS.indexOf(entity.kind) : 0);
+    view.setUint8(offset + 6, entity.domain !== undefined ? DOMAINS.indexOf(entity.domain) : 0);
+    view.setUint8(offset + 7, entity.affiliation !== undefined ? AFFILIATIONS.indexOf(entity.affiliation) + 1 : 0);
+    offset += 8;
+    if (entity.modelId !== undefined) {
+      view.setUint32(offset, strings.intern(entity.modelId), true);
+      offset += 4;
+    }
+    for (const value of entity.pose?.positionLlaDegM ?? []) {
+      view.setFloat64(offset, value, true);
+      offset += 8;
+    }
+    for (const value of entity.pose?.orientationBodyToNedQuat ?? []) {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    }
+    for (const value of entity.velocityEcef ?? []) {
+      view.setFloat64(offset, value, true);
+      offset += 8;
+    }
+    if (entity.staleAfterSec !== undefined) {
+      view.setFloat64(offset, entity.staleAfterSec, true);
+      offset += 8;
+    }
+    if (entity.sidc !== undefined) {
+      view.setUint32(offset, strings.intern(entity.sidc), true);
+      offset += 4;
+    }
+  });
+
+  bytes.set(extrasBytes, offset);
+  return buffer;
+};
+
+export const isBinaryFrame = (data: ArrayBuffer): boolean =>
+  data.byteLength >= PREFIX_BYTES && new DataView(data).getUint32(0, true) === BINARY_FRAME_MAGIC;
+
+const lookup = <T>(table: readonly T[], index: number, label: string): T => {
+  if (index >= table.length) {
+    throw new Error(`Binary frame ${label} index ${index} is out of range`);
+  }
+  return table[index];
+};
+
+const readVec3 = (view: DataView, offset: number): [number, number, number] => [
+  view.getFloat64(offset, true),
+  view.getFloat64(offset + 8, true),
+  view.getFloat64(offset + 16, true)
+];
+
+const readQuat = (view: DataView, offset: number): [number, number, number, number] => [
+  view.getFloat32(offset, true),
+  view.getFloat32(offset + 4, true),
+  view.getFloat32(offset + 8, true),
+  view.getFloat32(offset + 12, true)
+];
+
+const toFullEntity = (entity: EntityDelta, index: number): EntityState => {
+  const { kind, domain, modelId, pose } = entity;
+  const positionLlaDegM = pose?.positionLlaDegM;
+  const orientationBodyToNedQuat = pose?.orientationBodyToNedQuat;
+  if (!kind || !domain || !modelId || !positionLlaDegM || !orientationBodyToNedQuat) {
+    throw new Error(`Binary frame entity ${index} (${entity.id}) is missing full state`);
+  }
+  return { ...entity, kind, domain, modelId, pose: { positionLlaDegM, orientationBodyToNedQuat } };
+};
+
+const decodeFrame = (view: DataView): StreamFrame => {
+  if (view.getUint32(0, true) !== BINARY_FRAME_MAGIC) {
+    throw new Error("Binary frame has an unknown magic number");
+  }
+  const version = view.getUint16(4, true);
+  if (version !== BINARY_FRAME_VERSION) {
+    throw new Error(`Binary frame version ${version} is not supported`);
+  }
+  const headerBytes = view.getUint16(6, true);
+  if (headerBytes < HEADER_BYTES) {
+    throw new Error(`Binary frame header is too short (${headerBytes} bytes)`);
+  }
+  const t = view.getFloat64(8, true);
+  const frameKind = view.getUint8(16);
+  const keyframeString = view.getUint32(20, true);
+  const entityCount = view.getUint32(24, true);
+  const stringCount = view.getUint32(28, true);
+  const stringTableBytes = view.getUint32(32, true);
+  const extrasBytes = view.getUint32(36, true);
+
+  let offset = PREFIX_BYTES + headerBytes;
+  const entitiesStart = offset + stringTableBytes;
+  const strings: string[] = [];
+  for (let i = 0; i < stringCount; i += 1) {
+    const length = view.getUint16(offset, true);
+    strings.push(textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 2, length)));
+    offset += 2 + length;
+  }
+  if (offset !== entitiesStart) {
+    throw new Error("Binary frame string table length does not match its contents");
+  }
+
+  const entities: EntityDelta[] = [];
+  for (let i = 0; i < entityCount; i += 1) {
+    const mask = view.getUint8(offset + 4);
+    const entity: EntityDelta = { id: lookup(strings, view.getUint32(offset, true), "string") };
+    if (mask & FIELD_KIND) {
+      entity.kind = lookup(ENTITY_KINDS, view.getUint8(offset + 5), "kind");
+    }
+    if (mask & FIELD_DOMAIN) {
+      entity.domain = lookup(DOMAINS, view.getUint8(offset + 6), "domain");
+    }
+    const affiliation = view.getUint8(offset + 7);
+    if (affiliation > 0) {
+      entity.affiliation = lookup(AFFILIATIONS, affiliation - 1, "affiliation");
+    }
+    offset += 8;
+    if (mask & FIELD_MODEL) {
+      entity.modelId = lookup(strings, view.getUint32(offset, true), "string");
+      offset += 4;
+    }
+    const pose: EntityDelta["pose"] = {};
+    if (mask & FIELD_POSITION) {
+      pose.positionLlaDegM = readVec3(view, offset);
+      offset += 24;
+    }
+    if (mask & FIELD_ORIENTATION) {
+      pose.orientationBodyToNedQuat = readQuat(view, offset);
+      offset += 16;
+    }
+    if (mask & (FIELD_POSITION | FIELD_ORIENTATION)) {
+      entity.pose = pose;
+    }
+    if (mask & FIELD_VELOCITY) {
+      entity.velocityEcef = readVec3(view, offset);
+      offset += 24;
+    }
+    if (mask & FIELD_STALE) {
+      entity.staleAfterSec = view.getFloat64(offset, true);
+      offset += 8;
+    }
+    if (mask & FIELD_SIDC) {
+      entity.sidc = lookup(strings, view.getUint32(offset, true), "string");
+      offset += 4;
+    }
+    entities.push(entity);
+  }
+
+  const extrasText =
+    extrasBytes > 0 ? textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset, extrasBytes)) : "{}";
+  const extras = JSON.parse(extrasText) as BinaryFrameExtras;
+  for (const [index, metadata] of Object.entries(extras.metadata ?? {})) {
+    lookup(entities, Number(index), "metadata entity").metadata = metadata;
+  }
+
+  const records = {
+    ...(extras.events !== undefined ? { events: extras.events } : {}),
+    ...(extras.removals !== undefined ? { removals: extras.removals } : {})
+  };
+  switch (frameKind) {
+    case FRAME_FULL:
+      return { t, entities: entities.map(toFullEntity), ...records };
+    case FRAME_KEY: {
+      const keyframeId = lookup(strings, keyframeString, "string");
+      return { t, keyframeId, entities: entities.map(toFullEntity), ...records };
+    }
+    case FRAME_DELTA:
+      return { t, baseKeyframeId: lookup(strings, keyframeString, "string"), entities, ...records };
+    default:
+      throw new Error(`Binary frame kind ${frameKind} is not supported`);
+  }
+};
+
+export const decodeBinaryFrame = (data: ArrayBuffer | ArrayBufferView): StreamFrame => {
+  const view =
+    data instanceof ArrayBuffer ? new DataView(data) : new DataView(data.buffer, data.byteOffset, data.byteLength);
+  try {
+    return decodeFrame(view);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(`Binary frame is truncated (${view.byteLength} bytes)`);
+    }
+    throw error;
+  }
+};
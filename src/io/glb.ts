@@ -0,0 +1,300 @@
+import { mat4Identity, mat4Multiply } from "../core/math";
+import type { Mat4, Vec3 } from "../core/math";
+
+export const GLB_MAGIC = 0x46546c67;
+
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+const MODE_TRIANGLES = 4;
+const COMPONENT_FLOAT = 5126;
+const FEATURE_EDGE_COS = Math.cos((25 * Math.PI) / 180);
+const WELD_PRECISION_M = 1e-5;
+
+const INDEX_READERS: Record<number, (view: DataView, offset: number) => number> = {
+  5121: (view, offset) => view.getUint8(offset),
+  5123: (view, offset) => view.getUint16(offset, true),
+  5125: (view, offset) => view.getUint32(offset, true)
+};
+
+const INDEX_BYTES: Record<number, number> = { 5121: 1, 5123: 2, 5125: 4 };
+
+export interface MeshModel {
+  positions: Float32Array;
+  normals: Float32Array;
+  edges: Float32Array;
+  radiusM: number;
+}
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  count: number;
+  type: string;
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  mode?: number;
+}
+
+interface GltfNode {
+  mesh?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+interface GltfDocument {
+  asset?: { version?: string };
+  scene?: number;
+  scenes?: Array<{ nodes?: number[] }>;
+  nodes?: GltfNode[];
+  meshes?: Array<{ primitives: GltfPrimitive[] }>;
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: Array<{ byteLength: number; uri?: string }>;
+}
+
+const at = <T>(items: T[] | undefined, index: number, label: string): T => {
+  const item = items?.[index];
+  if (item === undefined) {
+    throw new Error(`GLB references missing ${label} ${index}`);
+  }
+  return item;
+};
+
+const nodeMatrix = (node: GltfNode): Mat4 => {
+  if (node.matrix) {
+    return new Float32Array(node.matrix);
+  }
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [x, y, z, w] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+  return new Float32Array([
+    (1 - 2 * (y * y + z * z)) * sx,
+    2 * (x * y + z * w) * sx,
+    2 * (x * z - y * w) * sx,
+    0,
+    2 * (x * y - z * w) * sy,
+    (1 - 2 * (x * x + z * z)) * sy,
+    2 * (y * z + x * w) * sy,
+    0,
+    2 * (x * z + y * w) * sz,
+    2 * (y * z - x * w) * sz,
+    (1 - 2 * (x * x + y * y)) * sz,
+    0,
+    tx,
+    ty,
+    tz,
+    1
+  ]);
+};
+
+const transformPoint = (m: Mat4, p: Vec3): Vec3 => [
+  m[0] * p[0] + m[4] * p[1] + m[8] * p[2] + m[12],
+  m[1] * p[0] + m[5] * p[1] + m[9] * p[2] + m[13],
+  m[2] * p[0] + m[6] * p[1] + m[10] * p[2] + m[14]
+];
+
+const gltfToBodyFrd = ([x, y, z]: Vec3): Vec3 => [z, -x, -y];
+
+const faceNormal = (a: Vec3, b: Vec3, c: Vec3): Vec3 | null => {
+  const u: Vec3 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const v: Vec3 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  const n: Vec3 = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+  const length = Math.hypot(n[0], n[1], n[2]);
+  return length < 1e-12 ? null : [n[0] / length, n[1] / length, n[2] / length];
+};
+
+const parseChunks = (view: DataView): { json: GltfDocument; bin: DataView | null } => {
+  if (view.byteLength < 12 || view.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error("GLB has an unknown magic number");
+  }
+  const version = view.getUint32(4, true);
+  if (version !== 2) {
+    throw new Error(`GLB version ${version} is not supported`);
+  }
+  const length = Math.min(view.getUint32(8, true), view.byteLength);
+  let json: GltfDocument | null = null;
+  let bin: DataView | null = null;
+  let offset = 12;
+  while (offset + 8 <= length) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    if (start + chunkLength > length) {
+      throw new Error("GLB chunk runs past the end of the file");
+    }
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + start, chunkLength);
+    if (chunkType === CHUNK_JSON && json === null) {
+      json = JSON.parse(new TextDecoder().decode(bytes)) as GltfDocument;
+    } else if (chunkType === CHUNK_BIN && bin === null) {
+      bin = new DataView(view.buffer, view.byteOffset + start, chunkLength);
+    }
+    offset = start + chunkLength;
+  }
+  if (!json) {
+    throw new Error("GLB has no JSON chunk");
+  }
+  return { json, bin };
+};
+
+const accessorView = (doc: GltfDocument, bin: DataView | null, index: number) => {
+  const accessor = at(doc.accessors, index, "accessor");
+  const bufferView = at(doc.bufferViews, accessor.bufferView ?? -1, "bufferView");
+  const buffer = at(doc.buffers, bufferView.buffer, "buffer");
+  if (buffer.uri !== undefined || bufferView.buffer !== 0 || !bin) {
+    throw new Error("GLB buffers must be embedded in the BIN chunk");
+  }
+  return { accessor, start: (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0), stride: bufferView.byteStride };
+};
+
+const readPositions = (doc: GltfDocument, bin: DataView | null, index: number): Vec3[] => {
+  const { accessor, start, stride } = accessorView(doc, bin, index);
+  if (accessor.componentType !== COMPONENT_FLOAT || accessor.type !== "VEC3") {
+    throw new Error(`GLB accessor ${index} must be float VEC3 positions`);
+  }
+  const step = stride ?? 12;
+  const out: Vec3[] = [];
+  for (let i = 0; i < accessor.count; i += 1) {
+    const offset = start + i * step;
+    out.push([bin!.getFloat32(offset, true), bin!.getFloat32(offset + 4, true), bin!.getFloat32(offset + 8, true)]);
+  }
+  return out;
+};
+
+const readIndices = (doc: GltfDocument, bin: DataView | null, index: number): number[] => {
+  const { accessor, start, stride } = accessorView(doc, bin, index);
+  const reader = INDEX_READERS[accessor.componentType];
+  if (!reader || accessor.type !== "SCALAR") {
+    throw new Error(`GLB accessor ${index} must be unsigned integer indices`);
+  }
+  const step = stride ?? INDEX_BYTES[accessor.componentType];
+  return Array.from({ length: accessor.count }, (_, i) => reader(bin!, start + i * step));
+};
+
+const sceneRoots = (doc: GltfDocument): number[] => {
+  const scene = doc.scenes?.[doc.scene ?? 0];
+  if (scene?.nodes) {
+    return scene.nodes;
+  }
+  const children = new Set((doc.nodes ?? []).flatMap((node) => node.children ?? []));
+  return (doc.nodes ?? []).map((_, i) => i).filter((i) => !children.has(i));
+};
+
+const collectTriangles = (doc: GltfDocument, bin: DataView | null): Vec3[] => {
+  const triangles: Vec3[] = [];
+  const emitMesh = (meshIndex: number, transform: Mat4): void => {
+    for (const primitive of at(doc.meshes, meshIndex, "mesh").primitives) {
+      if ((primitive.mode ?? MODE_TRIANGLES) !== MODE_TRIANGLES || primitive.attributes.POSITION === undefined) {
+        continue;
+      }
+      const positions = readPositions(doc, bin, primitive.attributes.POSITION);
+      const indices =
+        primitive.indices === undefined ? positions.map((_, i) => i) : readIndices(doc, bin, primitive.indices);
+      for (let i = 0; i + 2 < indices.length; i += 3) {
+        for (let k = 0; k < 3; k += 1) {
+          triangles.push(gltfToBodyFrd(transformPoint(transform, at(positions, indices[i + k], "vertex"))));
+        }
+      }
+    }
+  };
+  const visit = (nodeIndex: number, parent: Mat4, depth: number): void => {
+    if (depth > 64) {
+      throw new Error("GLB node hierarchy is too deep");
+    }
+    const node = at(doc.nodes, nodeIndex, "node");
+    const transform = mat4Multiply(parent, nodeMatrix(node));
+    if (node.mesh !== undefined) {
+      emitMesh(node.mesh, transform);
+    }
+    for (const child of node.children ?? []) {
+      visit(child, transform, depth + 1);
+    }
+  };
+  const roots = sceneRoots(doc);
+  if (roots.length === 0) {
+    (doc.meshes ?? []).forEach((_, i) => emitMesh(i, mat4Identity()));
+  }
+  for (const root of roots) {
+    visit(root, mat4Identity(), 0);
+  }
+  return triangles;
+};
+
+const weldKey = (p: Vec3): string => p.map((value) => Math.round(value / WELD_PRECISION_M)).join(",");
+
+export const extractFeatureEdges = (positions: Float32Array, normals: Float32Array): Float32Array => {
+  const edges = new Map<string, { a: Vec3; b: Vec3; normals: Vec3[] }>();
+  const vertex = (i: number): Vec3 => [positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]];
+  for (let tri = 0; tri < positions.length / 9; tri += 1) {
+    const normal: Vec3 = [normals[tri * 9], normals[tri * 9 + 1], normals[tri * 9 + 2]];
+    for (let k = 0; k < 3; k += 1) {
+      const a = vertex(tri * 3 + k);
+      const b = vertex(tri * 3 + ((k + 1) % 3));
+      const keyA = weldKey(a);
+      const keyB = weldKey(b);
+      const key = keyA < keyB ? `${keyA}|${keyB}` : `${keyB}|${keyA}`;
+      const edge = edges.get(key) ?? { a, b, normals: [] };
+      edge.normals.push(normal);
+      edges.set(key, edge);
+    }
+  }
+  const out: number[] = [];
+  for (const { a, b, normals: faces } of edges.values()) {
+    const smooth =
+      faces.length === 2 &&
+      faces[0][0] * faces[1][0] + faces[0][1] * faces[1][1] + faces[0][2] * faces[1][2] >= FEATURE_EDGE_COS;
+    if (!smooth) {
+      out.push(a[0], a[1], a[2], b[0], b[1], b[2]);
+    }
+  }
+  return new Float32Array(out);
+};
+
+export const parseGlb = (data: ArrayBuffer | ArrayBufferView): MeshModel => {
+  const view =
+    data instanceof ArrayBuffer ? new DataView(data) : new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const { json, bin } = parseChunks(view);
+  if (json.asset?.version !== undefined && !json.asset.version.startsWith("2.")) {
+    throw new Error(`glTF asset version ${json.asset.version} is not supported`);
+  }
+  const vertices = collectTriangles(json, bin);
+  const positions: number[] = [];
+  const normals: number[] = [];
+  let radiusM = 0;
+  for (let i = 0; i < vertices.length; i += 3) {
+    const normal = faceNormal(vertices[i], vertices[i + 1], vertices[i + 2]);
+    if (!normal) {
+      continue;
+    }
+    for (let k = 0; k < 3; k += 1) {
+      const p = vertices[i + k];
+      positions.push(p[0], p[1], p[2]);
+      normals.push(normal[0], normal[1], normal[2]);
+      radiusM = Math.max(radiusM, Math.hypot(p[0], p[1], p[2]));
+    }
+  }
+  if (positions.length === 0) {
+    throw new Error("GLB contains no triangle meshes");
+  }
+  const positionArray = new Float32Array(positions);
+  const normalArray = new Float32Array(normals);
+  return {
+    positions: positionArray,
+    normals: normalArray,
+    edges: extractFeatureEdges(positionArray, normalArray),
+    radiusM
+  };
+};
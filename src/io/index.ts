@@ -1,2 +1,6 @@
+export * from "./binaryFrame";
+export * from "./glb";
 export * from "./jsonStream";
-
+export * from "./modelAssets";
+export * from "./recording";
+export * from "./vectorMap";
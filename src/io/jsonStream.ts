@@ -1,5 +1,12 @@
-import { parseFrameMessage } from "../core/schema";
-import type { FrameMessage } from "../core/schema";
+import {
+  isSessionHeaderMessage,
+  negotiateSessionHeader,
+  parseDecodedFrame,
+  parseFrameMessage,
+  parseStreamFrame
+} from "../core/schema";
+import { decodeBinaryFrame } from "./binaryFrame";
+import type { FrameMessage, ProtocolContext, SessionHeader, StreamFrame } from "../core/schema";
 
 export const parseNdjsonFrames = (raw: string): FrameMessage[] =>
   raw
@@ -28,31 +35,146 @@ export const parseJsonFrames = (raw: string): FrameMessage[] => {
   });
 };
 
+export type StreamConnectionState = "connecting" | "open" | "reconnecting" | "closed";
+
+export interface StreamStateDetail {
+  url: string;
+  attempt: number;
+  retryInMs?: number;
+}
+
+export interface ReconnectPolicy {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 500,
+  maxDelayMs: 15_000,
+  multiplier: 2
+};
+
+export const reconnectDelayMs = (attempt: number, policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY): number =>
+  Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.multiplier ** Math.max(0, attempt));
+
+export interface JsonStreamHandlers {
+  onFrame: (frame: StreamFrame) => void;
+  onHeader?: (header: SessionHeader) => void;
+  onError?: (error: Error) => void;
+  onWarning?: (message: string) => void;
+  onStateChange?: (state: StreamConnectionState, detail: StreamStateDetail) => void;
+}
+
+export interface JsonStreamOptions {
+  reconnect?: ReconnectPolicy | false;
+  createSocket?: (url: string) => WebSocket;
+}
+
+const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)));
+
 export class JsonStreamClient {
   private socket: WebSocket | null = null;
 
-  connect(url: string, onFrame: (frame: FrameMessage) => void, onError?: (error: Error) => void): void {
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private attempt = 0;
+
+  private readonly reconnectPolicy: ReconnectPolicy | false;
+
+  private readonly createSocket: (url: string) => WebSocket;
+
+  constructor(options: JsonStreamOptions = {}) {
+    this.reconnectPolicy = options.reconnect ?? DEFAULT_RECONNECT_POLICY;
+    this.createSocket = options.createSocket ?? ((url) => new WebSocket(url));
+  }
+
+  connect(url: string, handlers: JsonStreamHandlers): void {
     this.disconnect();
-    const socket = new WebSocket(url);
+    this.attempt = 0;
+    this.open(url, handlers);
+  }
+
+  disconnect(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  private open(url: string, handlers: JsonStreamHandlers): void {
+    handlers.onStateChange?.("connecting", { url, attempt: this.attempt });
+    const socket = this.createSocket(url);
+    socket.binaryType = "arraybuffer";
+    let protocol: ProtocolContext | null = null;
+    const flushWarnings = (): void => {
+      if (protocol && protocol.warnings.length > 0) {
+        for (const warning of protocol.warnings.splice(0)) {
+          handlers.onWarning?.(warning);
+        }
+      }
+    };
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      handlers.onStateChange?.("open", { url, attempt: 0 });
+    };
+    const requireProtocol = (): ProtocolContext => {
+      if (!protocol) {
+        throw new Error("Frame received before session header");
+      }
+      return protocol;
+    };
+
     socket.onmessage = (event) => {
       try {
-        const frame = parseFrameMessage(JSON.parse(String(event.data)));
-        onFrame(frame);
+        if (event.data instanceof ArrayBuffer) {
+          handlers.onFrame(parseDecodedFrame(decodeBinaryFrame(event.data), requireProtocol()));
+          return;
+        }
+        const raw: unknown = JSON.parse(String(event.data));
+        if (isSessionHeaderMessage(raw)) {
+          protocol = negotiateSessionHeader(raw);
+          handlers.onHeader?.(protocol.header);
+          return;
+        }
+        handlers.onFrame(parseStreamFrame(raw, requireProtocol()));
       } catch (error) {
-        onError?.(error instanceof Error ? error : new Error(String(error)));
+        handlers.onError?.(toError(error));
+      } finally {
+        flushWarnings();
       }
     };
     socket.onerror = () => {
-      onError?.(new Error(`WebSocket error: ${url}`));
+      handlers.onError?.(new Error(`WebSocket error: ${url}`));
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+      this.scheduleReconnect(url, handlers);
     };
     this.socket = socket;
   }
 
-  disconnect(): void {
-    if (this.socket) {
-      this.socket.close();
-      this.socket = null;
+  private scheduleReconnect(url: string, handlers: JsonStreamHandlers): void {
+    if (!this.reconnectPolicy) {
+      handlers.onStateChange?.("closed", { url, attempt: this.attempt });
+      return;
     }
+    const retryInMs = reconnectDelayMs(this.attempt, this.reconnectPolicy);
+    this.attempt += 1;
+    handlers.onStateChange?.("reconnecting", { url, attempt: this.attempt, retryInMs });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open(url, handlers);
+    }, retryInMs);
   }
 }
-
@@ -0,0 +1,134 @@
+import { DOMAINS } from "../core/schema";
+import type { Domain } from "../core/schema";
+import { parseGlb } from "./glb";
+import type { MeshModel } from "./glb";
+
+export const MODEL_MANIFEST_URL = "/assets/models/manifest.json";
+
+export interface ModelManifestEntry {
+  id: string;
+  path: string;
+  domain?: Domain;
+}
+
+export interface ModelManifest {
+  version: number;
+  models: ModelManifestEntry[];
+}
+
+export type ModelStatus = "pending" | "loading" | "ready" | "missing";
+
+export interface ModelCatalogOptions {
+  manifestUrl?: string;
+  origin?: string;
+  fetch?: (url: string) => Promise<Response>;
+  onWarning?: (message: string) => void;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const parseModelManifest = (raw: unknown): ModelManifest => {
+  if (!isRecord(raw) || !Array.isArray(raw.models)) {
+    throw new Error("Model manifest must be an object with a models array");
+  }
+  if (raw.version !== 1) {
+    throw new Error(`Model manifest version ${String(raw.version)} is not supported`);
+  }
+  const models = raw.models.map((item, i): ModelManifestEntry => {
+    if (!isRecord(item) || typeof item.id !== "string" || item.id.length === 0 || typeof item.path !== "string") {
+      throw new Error(`Model manifest entry ${i} must have a string id and path`);
+    }
+    const domain = DOMAINS.find((known) => known === item.domain);
+    if (item.domain !== undefined && !domain) {
+      throw new Error(`Model manifest entry ${i} has unknown domain ${JSON.stringify(item.domain)}`);
+    }
+    return { id: item.id, path: item.path, domain };
+  });
+  return { version: raw.version, models };
+};
+
+export const resolveAssetUrl = (path: string, origin: string): string => {
+  const url = new URL(path, origin);
+  if (url.origin !== new URL(origin).origin) {
+    throw new Error(`Model asset ${path} is not same-origin`);
+  }
+  return url.href;
+};
+
+export class ModelCatalog {
+  private readonly manifestUrl: string;
+
+  private readonly origin: string;
+
+  private readonly fetchAsset: (url: string) => Promise<Response>;
+
+  private readonly onWarning: (message: string) => void;
+
+  private manifest: Map<string, ModelManifestEntry> | null = null;
+
+  private manifestLoad: Promise<void> | null = null;
+
+  private readonly statuses = new Map<string, ModelStatus>();
+
+  private readonly models = new Map<string, MeshModel>();
+
+  constructor(options: ModelCatalogOptions = {}) {
+    this.manifestUrl = options.manifestUrl ?? MODEL_MANIFEST_URL;
+    this.origin = options.origin ?? globalThis.location?.origin ?? "http://localhost";
+    this.fetchAsset = options.fetch ?? ((url) => fetch(url));
+    this.onWarning = options.onWarning ?? (() => undefined);
+  }
+
+  loadManifest(): Promise<void> {
+    this.manifestLoad ??= this.fetchManifest();
+    return this.manifestLoad;
+  }
+
+  status(modelId: string): ModelStatus {
+    if (!this.manifest) {
+      return "pending";
+    }
+    return this.statuses.get(modelId) ?? (this.manifest.has(modelId) ? "pending" : "missing");
+  }
+
+  get(modelId: string): MeshModel | null {
+    const model = this.models.get(modelId);
+    if (model) {
+      return model;
+    }
+    if (this.status(modelId) === "pending" && this.manifest) {
+      void this.loadModel(this.manifest.get(modelId)!);
+    }
+    return null;
+  }
+
+  private async fetchManifest(): Promise<void> {
+    try {
+      const response = await this.fetchAsset(resolveAssetUrl(this.manifestUrl, this.origin));
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const manifest = parseModelManifest(await response.json());
+      this.manifest = new Map(manifest.models.map((entry) => [entry.id, entry]));
+    } catch (error) {
+      this.manifest = new Map();
+      this.onWarning(`manifest ${this.manifestUrl} unavailable, drawing sprites only (${String(error)})`);
+    }
+  }
+
+  private async loadModel(entry: ModelManifestEntry): Promise<void> {
+    this.statuses.set(entry.id, "loading");
+    try {
+      const response = await this.fetchAsset(resolveAssetUrl(entry.path, this.origin));
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      this.models.set(entry.id, parseGlb(await response.arrayBuffer()));
+      this.statuses.set(entry.id, "ready");
+    } catch (error) {
+      this.statuses.set(entry.id, "missing");
+      this.onWarning(`model ${entry.id} (${entry.path}) failed to load, drawing a sprite (${String(error)})`);
+    }
+  }
+}
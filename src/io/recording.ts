@@ -0,0 +1,139 @@
+import {
+  diagnoseFrameMessage,
+  isSessionHeaderMessage,
+  negotiateSessionHeader,
+  SchemaValidationError,
+  summarizeIssues
+} from "../core/schema";
+import type {
+  InvalidRecordPolicy,
+  ProtocolContext,
+  SessionHeader,
+  StreamFrame,
+  ValidationIssue,
+  ValidationSummary
+} from "../core/schema";
+
+export interface RecordingLoadOptions {
+  skipInvalid?: InvalidRecordPolicy;
+}
+
+export interface RecordingLoadReport {
+  header: SessionHeader | null;
+  frames: StreamFrame[];
+  issues: ValidationIssue[];
+  totalFrames: number;
+  skippedFrames: number;
+  skippedEntities: number;
+  summary: ValidationSummary;
+}
+
+interface RecordingEntry {
+  raw: unknown;
+  index: number;
+  line?: number;
+}
+
+const syntaxIssue = (
+  error: unknown,
+  path: string,
+  location: Pick<ValidationIssue, "index" | "line">
+): ValidationIssue => ({
+  kind: "syntax",
+  severity: "error",
+  path,
+  expected: "valid JSON",
+  actual: error instanceof Error ? error.message : String(error),
+  message: `${path} is not valid JSON`,
+  ...location
+});
+
+const negotiateRecordedHeader = (entry: RecordingEntry, issues: ValidationIssue[]): ProtocolContext | undefined => {
+  try {
+    return negotiateSessionHeader(entry.raw);
+  } catch (error) {
+    if (!(error instanceof SchemaValidationError)) {
+      throw error;
+    }
+    issues.push({ ...error.issue, index: entry.index, line: entry.line });
+    return undefined;
+  }
+};
+
+const buildReport = (
+  entries: RecordingEntry[],
+  issues: ValidationIssue[],
+  skippedFrames: number,
+  options: RecordingLoadOptions
+): RecordingLoadReport => {
+  let protocol: ProtocolContext | undefined;
+  let header: SessionHeader | null = null;
+  const frames: StreamFrame[] = [];
+  let totalFrames = skippedFrames;
+  let skippedEntities = 0;
+
+  entries.forEach((entry, i) => {
+    if (i === 0 && isSessionHeaderMessage(entry.raw)) {
+      protocol = negotiateRecordedHeader(entry, issues);
+      header = protocol?.header ?? null;
+      return;
+    }
+    totalFrames += 1;
+    const result = diagnoseFrameMessage(entry.raw, { protocol, skipInvalid: options.skipInvalid });
+    for (const issue of result.issues) {
+      issues.push({ ...issue, index: entry.index, line: entry.line });
+    }
+    if (result.frame) {
+      frames.push(result.frame);
+      skippedEntities += result.skippedEntities;
+    } else {
+      skippedFrames += 1;
+    }
+  });
+
+  return { header, frames, issues, totalFrames, skippedFrames, skippedEntities, summary: summarizeIssues(issues) };
+};
+
+export const loadNdjsonRecording = (raw: string, options: RecordingLoadOptions = {}): RecordingLoadReport => {
+  const entries: RecordingEntry[] = [];
+  const issues: ValidationIssue[] = [];
+  let skippedFrames = 0;
+  raw.split("\n").forEach((text, lineIndex) => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return;
+    }
+    const location = { index: entries.length + skippedFrames, line: lineIndex + 1 };
+    try {
+      entries.push({ raw: JSON.parse(trimmed) as unknown, ...location });
+    } catch (error) {
+      issues.push(syntaxIssue(error, "frame", location));
+      skippedFrames += 1;
+    }
+  });
+  return buildReport(entries, issues, skippedFrames, options);
+};
+
+export const loadJsonRecording = (raw: string, options: RecordingLoadOptions = {}): RecordingLoadReport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    return buildReport([], [syntaxIssue(error, "recording", {})], 0, options);
+  }
+  if (!Array.isArray(parsed)) {
+    const issue: ValidationIssue = {
+      kind: "type",
+      severity: "error",
+      path: "recording",
+      expected: "an array of frame messages",
+      actual: parsed === null ? "null" : typeof parsed,
+      message: "recording must be an array of frame messages"
+    };
+    return buildReport([], [issue], 0, options);
+  }
+  return buildReport(parsed.map((item, index) => ({ raw: item, index })), [], 0, options);
+};
+
+export const loadRecording = (raw: string, options: RecordingLoadOptions = {}): RecordingLoadReport =>
+  raw.trimStart().startsWith("[") ? loadJsonRecording(raw, options) : loadNdjsonRecording(raw, options);
@@ -0,0 +1,185 @@
+export const VECTOR_MAP_MAGIC = 0x314d5654;
+export const VECTOR_MAP_VERSION = 1;
+export const VECTOR_MAP_URL = "/assets/map/naturalearth.bin";
+export const VECTOR_MAP_UNITS_PER_DEG = 1000;
+
+const HEADER_BYTES = 8;
+const LAYER_HEADER_BYTES = 12;
+const LINE_HEADER_BYTES = 12;
+const DELTA_BYTES = 4;
+const MAX_DELTA_UNITS = 0x7fff;
+
+export type VectorMapLayerKind = "coastline" | "border";
+
+export const VECTOR_MAP_LAYER_KINDS: readonly VectorMapLayerKind[] = ["coastline", "border"];
+
+export type LatLonDeg = [latDeg: number, lonDeg: number];
+
+export interface VectorMapLayer {
+  kind: VectorMapLayerKind;
+  lod: number;
+  lines: LatLonDeg[][];
+}
+
+const quantize = (line: LatLonDeg[]): Array<[number, number]> => {
+  const out: Array<[number, number]> = [];
+  for (const [lat, lon] of line) {
+    const next: [number, number] = [
+      Math.round(lat * VECTOR_MAP_UNITS_PER_DEG),
+      Math.round(lon * VECTOR_MAP_UNITS_PER_DEG)
+    ];
+    const prev = out[out.length - 1];
+    if (prev && prev[0] === next[0] && prev[1] === next[1]) {
+      continue;
+    }
+    if (prev) {
+      const steps = Math.ceil(Math.max(Math.abs(next[0] - prev[0]), Math.abs(next[1] - prev[1])) / MAX_DELTA_UNITS);
+      for (let k = 1; k < steps; k += 1) {
+        out.push([
+          prev[0] + Math.round(((next[0] - prev[0]) * k) / steps),
+          prev[1] + Math.round(((next[1] - prev[1]) * k) / steps)
+        ]);
+      }
+    }
+    out.push(next);
+  }
+  return out;
+};
+
+export const encodeVectorMap = (layers: VectorMapLayer[]): ArrayBuffer => {
+  const encoded = layers.map((layer) => ({
+    layer,
+    lines: layer.lines.map(quantize).filter((line) => line.length >= 2)
+  }));
+  const layerBytes = encoded.map(({ lines }) =>
+    lines.reduce((sum, line) => sum + LINE_HEADER_BYTES + (line.length - 1) * DELTA_BYTES, 0)
+  );
+  const total = HEADER_BYTES + layerBytes.reduce((sum, bytes) => sum + LAYER_HEADER_BYTES + bytes, 0);
+  const buffer = new ArrayBuffer(total);
+  const view = new DataView(buffer);
+  view.setUint32(0, VECTOR_MAP_MAGIC, true);
+  view.setUint16(4, VECTOR_MAP_VERSION, true);
+  view.setUint16(6, layers.length, true);
+  let offset = HEADER_BYTES;
+  encoded.forEach(({ layer, lines }, i) => {
+    view.setUint8(offset, VECTOR_MAP_LAYER_KINDS.indexOf(layer.kind));
+    view.setUint8(offset + 1, layer.lod);
+    view.setUint32(offset + 4, lines.length, true);
+    view.setUint32(offset + 8, layerBytes[i], true);
+    offset += LAYER_HEADER_BYTES;
+    for (const line of lines) {
+      view.setUint32(offset, line.length, true);
+      view.setInt32(offset + 4, line[0][0], true);
+      view.setInt32(offset + 8, line[0][1], true);
+      offset += LINE_HEADER_BYTES;
+      for (let k = 1; k < line.length; k += 1) {
+        view.setInt16(offset, line[k][0] - line[k - 1][0], true);
+        view.setInt16(offset + 2, line[k][1] - line[k - 1][1], true);
+        offset += DELTA_BYTES;
+      }
+    }
+  });
+  return buffer;
+};
+
+export const decodeVectorMap = (buffer: ArrayBuffer): VectorMapLayer[] => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < HEADER_BYTES || view.getUint32(0, true) !== VECTOR_MAP_MAGIC) {
+    throw new Error("Vector map asset has a bad magic number");
+  }
+  const version = view.getUint16(4, true);
+  if (version !== VECTOR_MAP_VERSION) {
+    throw new Error(`Vector map version ${version} is not supported`);
+  }
+  const layerCount = view.getUint16(6, true);
+  const layers: VectorMapLayer[] = [];
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < layerCount; i += 1) {
+    if (offset + LAYER_HEADER_BYTES > buffer.byteLength) {
+      throw new Error(`Vector map layer ${i} is truncated`);
+    }
+    const kind = VECTOR_MAP_LAYER_KINDS[view.getUint8(offset)];
+    const lod = view.getUint8(offset + 1);
+    const lineCount = view.getUint32(offset + 4, true);
+    const end = offset + LAYER_HEADER_BYTES + view.getUint32(offset + 8, true);
+    if (!kind || end > buffer.byteLength) {
+      throw new Error(`Vector map layer ${i} is malformed`);
+    }
+    offset += LAYER_HEADER_BYTES;
+    const lines: LatLonDeg[][] = [];
+    for (let l = 0; l < lineCount; l += 1) {
+      const count = view.getUint32(offset, true);
+      if (count < 2 || offset + LINE_HEADER_BYTES + (count - 1) * DELTA_BYTES > end) {
+        throw new Error(`Vector map layer ${i} line ${l} is malformed`);
+      }
+      let lat = view.getInt32(offset + 4, true);
+      let lon = view.getInt32(offset + 8, true);
+      offset += LINE_HEADER_BYTES;
+      const line: LatLonDeg[] = [[lat / VECTOR_MAP_UNITS_PER_DEG, lon / VECTOR_MAP_UNITS_PER_DEG]];
+      for (let k = 1; k < count; k += 1) {
+        lat += view.getInt16(offset, true);
+        lon += view.getInt16(offset + 2, true);
+        offset += DELTA_BYTES;
+        line.push([lat / VECTOR_MAP_UNITS_PER_DEG, lon / VECTOR_MAP_UNITS_PER_DEG]);
+      }
+      lines.push(line);
+    }
+    if (offset !== end) {
+      throw new Error(`Vector map layer ${i} length does not match its lines`);
+    }
+    layers.push({ kind, lod, lines });
+  }
+  return layers;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toLine = (coordinates: unknown): LatLonDeg[] =>
+  Array.isArray(coordinates)
+    ? coordinates
+        .filter((point): point is number[] => Array.isArray(point) && point.length >= 2)
+        .map(([lon, lat]): LatLonDeg => [lat, lon])
+    : [];
+
+const geometryLines = (geometry: unknown): LatLonDeg[][] => {
+  if (!isRecord(geometry) || !Array.isArray(geometry.coordinates)) {
+    return isRecord(geometry) && Array.isArray(geometry.geometries) ? geometry.geometries.flatMap(geometryLines) : [];
+  }
+  const coordinates = geometry.coordinates as unknown[];
+  switch (geometry.type) {
+    case "LineString":
+      return [toLine(coordinates)];
+    case "MultiLineString":
+    case "Polygon":
+      return coordinates.map(toLine);
+    case "MultiPolygon":
+      return coordinates.flatMap((polygon) => (Array.isArray(polygon) ? polygon.map(toLine) : []));
+    default:
+      return [];
+  }
+};
+
+export const geoJsonToLines = (geojson: unknown): LatLonDeg[][] => {
+  if (!isRecord(geojson)) {
+    return [];
+  }
+  const lines =
+    geojson.type === "FeatureCollection" && Array.isArray(geojson.features)
+      ? geojson.features.flatMap((feature) => (isRecord(feature) ? geometryLines(feature.geometry) : []))
+      : geojson.type === "Feature"
+        ? geometryLines(geojson.geometry)
+        : geometryLines(geojson);
+  return lines.filter((line) => line.length >= 2);
+};
+
+export const loadVectorMap = async (
+  url = VECTOR_MAP_URL,
+  fetchAsset: (url: string) => Promise<Response> = (target) => fetch(target)
+): Promise<VectorMapLayer[]> => {
+  const response = await fetchAsset(url);
+  if (!response.ok) {
+    throw new Error(`Vector map ${url} failed to load (HTTP ${response.status})`);
+  }
+  return decodeVectorMap(await response.arrayBuffer());
+};
@@ -7,6 +7,14 @@ if (!canvas) {
   throw new Error("Missing #scene canvas");
 }
 
-const app = new ThreatVectorApp(canvas);
+const params = new URLSearchParams(window.location.search);
+const liveUrl = params.get("live");
+const latencyParam = params.get("latency");
+const recordingUrl = params.get("recording");
+
+const app = new ThreatVectorApp(canvas, {
+  liveFeed: liveUrl ? { url: liveUrl, latencySec: latencyParam ? Number(latencyParam) : undefined } : undefined,
+  recordingUrl: recordingUrl ?? undefined
+});
 void app.start();
 
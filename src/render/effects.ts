@@ -0,0 +1,240 @@
+import { llaToEcef, nedBasisAtLla } from "../core/math";
+import type { Vec3 } from "../core/math";
+import type { CombatEvent, CombatEventType } from "../core/schema";
+import type { Rgba } from "./symbology";
+
+export type EventEffectDurations = Record<CombatEventType, number>;
+
+export type EffectSizeMode = "world" | "screen";
+
+export interface EffectSprite {
+  positionEcefM: Vec3;
+  size: number;
+  sizeMode: EffectSizeMode;
+  color: Rgba;
+}
+
+export interface EffectLine {
+  pointsEcefM: Vec3[];
+  color: Rgba;
+}
+
+export interface EventEffect {
+  sprites: EffectSprite[];
+  lines: EffectLine[];
+}
+
+export const DEFAULT_EVENT_EFFECT_DURATIONS_SEC: EventEffectDurations = {
+  launch: 3,
+  impact: 5,
+  intercept: 3,
+  detection: 1.5,
+  miss: 2
+};
+
+export const EVENT_EFFECT_COLORS: Record<CombatEventType, Rgba> = {
+  launch: [1.0, 0.78, 0.22, 0.95],
+  impact: [1.0, 0.52, 0.28, 0.95],
+  intercept: [1.0, 0.2, 0.2, 0.95],
+  detection: [0.5, 0.88, 1.0, 0.95],
+  miss: [0.75, 0.75, 0.7, 0.95]
+};
+
+const FLASH_COLOR: Rgba = [1.0, 0.95, 0.75, 1.0];
+const SMOKE_COLOR: Rgba = [0.7, 0.7, 0.65, 1.0];
+const FLASH_FRACTION = 0.12;
+const FLASH_SIZE_NDC = 0.03;
+const PLUME_PUFFS = 14;
+const PLUME_EMIT_FRACTION = 0.6;
+const PLUME_RISE_MPS = 120;
+const PLUME_DRIFT_MPS = 20;
+const IMPACT_RING_M = 1500;
+const DEBRIS_COUNT = 18;
+const GRAVITY_MPS2 = 9.81;
+const BURST_PARTICLES = 26;
+const BURST_RADIUS_M = 600;
+const SHOCKWAVE_RADIUS_M = 2500;
+const DETECTION_RING_M = 1200;
+const RING_SEGMENTS = 48;
+
+type LocalFrame = { origin: Vec3; north: Vec3; east: Vec3; up: Vec3 };
+
+const localOffset = ({ origin, north, east, up }: LocalFrame, n: number, e: number, u: number): Vec3 => [
+  origin[0] + n * north[0] + e * east[0] + u * up[0],
+  origin[1] + n * north[1] + e * east[1] + u * up[1],
+  origin[2] + n * north[2] + e * east[2] + u * up[2]
+];
+
+const hashUnit = (seed: string, index: number): number => {
+  let h = 0x811c9dc5 ^ Math.imul(index + 1, 0x9e3779b1);
+  for (let i = 0; i < seed.length; i += 1) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 0x01000193);
+  }
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 0x100000000;
+};
+
+const easeOut = (u: number): number => 1 - (1 - u) * (1 - u);
+
+const withAlpha = ([r, g, b]: Rgba, alpha: number): Rgba => [r, g, b, alpha];
+
+const mix = (a: Rgba, b: Rgba, u: number): Rgba => [
+  a[0] + (b[0] - a[0]) * u,
+  a[1] + (b[1] - a[1]) * u,
+  a[2] + (b[2] - a[2]) * u,
+  a[3] + (b[3] - a[3]) * u
+];
+
+const ring = (
+  frame: LocalFrame,
+  radiusM: number,
+  axes: (angle: number) => [number, number, number],
+  color: Rgba
+): EffectLine => ({
+  pointsEcefM: Array.from({ length: RING_SEGMENTS + 1 }, (_, i) => {
+    const [n, e, u] = axes((2 * Math.PI * i) / RING_SEGMENTS);
+    return localOffset(frame, n * radiusM, e * radiusM, u * radiusM);
+  }),
+  color
+});
+
+const horizontal = (angle: number): [number, number, number] => [Math.cos(angle), Math.sin(angle), 0];
+
+const flash = (frame: LocalFrame, ageSec: number, durationSec: number): EffectSprite[] => {
+  const f = ageSec / (durationSec * FLASH_FRACTION);
+  if (f >= 1) {
+    return [];
+  }
+  return [
+    {
+      positionEcefM: frame.origin,
+      size: FLASH_SIZE_NDC * (0.4 + 0.6 * (1 - f)),
+      sizeMode: "screen",
+      color: withAlpha(FLASH_COLOR, 1 - f)
+    }
+  ];
+};
+
+const launchEffect = (event: CombatEvent, frame: LocalFrame, ageSec: number, durationSec: number): EventEffect => {
+  const sprites = flash(frame, ageSec, durationSec);
+  const emitInterval = (durationSec * PLUME_EMIT_FRACTION) / PLUME_PUFFS;
+  for (let k = 0; k < PLUME_PUFFS; k += 1) {
+    const emittedAt = k * emitInterval;
+    const puffAge = ageSec - emittedAt;
+    if (puffAge < 0) {
+      break;
+    }
+    const v = puffAge / (durationSec - emittedAt);
+    const driftN = (hashUnit(event.id, 2 * k) - 0.5) * 2 * PLUME_DRIFT_MPS * puffAge;
+    const driftE = (hashUnit(event.id, 2 * k + 1) - 0.5) * 2 * PLUME_DRIFT_MPS * puffAge;
+    sprites.push({
+      positionEcefM: localOffset(frame, driftN, driftE, PLUME_RISE_MPS * puffAge),
+      size: 40 + 200 * v,
+      sizeMode: "world",
+      color: withAlpha(mix(EVENT_EFFECT_COLORS.launch, SMOKE_COLOR, Math.min(1, v * 3)), 0.55 * (1 - v))
+    });
+  }
+  return { sprites, lines: [] };
+};
+
+const impactEffect = (event: CombatEvent, frame: LocalFrame, ageSec: number, durationSec: number): EventEffect => {
+  const u = ageSec / durationSec;
+  const color = EVENT_EFFECT_COLORS.impact;
+  const sprites = flash(frame, ageSec, durationSec);
+  for (let k = 0; k < DEBRIS_COUNT; k += 1) {
+    const azimuth = 2 * Math.PI * hashUnit(event.id, 3 * k);
+    const elevation = ((25 + 55 * hashUnit(event.id, 3 * k + 1)) * Math.PI) / 180;
+    const speed = 60 + 140 * hashUnit(event.id, 3 * k + 2);
+    const horizontalM = speed * Math.cos(elevation) * ageSec;
+    const upM = Math.max(0, speed * Math.sin(elevation) * ageSec - 0.5 * GRAVITY_MPS2 * ageSec * ageSec);
+    sprites.push({
+      positionEcefM: localOffset(frame, horizontalM * Math.cos(azimuth), horizontalM * Math.sin(azimuth), upM),
+      size: 25,
+      sizeMode: "world",
+      color: withAlpha(color, color[3] * (1 - u))
+    });
+  }
+  const ringColor = withAlpha(color, color[3] * (1 - u));
+  return { sprites, lines: [ring(frame, IMPACT_RING_M * easeOut(u), horizontal, ringColor)] };
+};
+
+const interceptEffect = (event: CombatEvent, frame: LocalFrame, ageSec: number, durationSec: number): EventEffect => {
+  const u = ageSec / durationSec;
+  const color = EVENT_EFFECT_COLORS.intercept;
+  const sprites = flash(frame, ageSec, durationSec);
+  const radiusM = BURST_RADIUS_M * easeOut(u);
+  for (let k = 0; k < BURST_PARTICLES; k += 1) {
+    const z = 1 - (2 * (k + 0.5)) / BURST_PARTICLES;
+    const r = Math.sqrt(1 - z * z);
+    const phi = k * Math.PI * (3 - Math.sqrt(5)) + 2 * Math.PI * hashUnit(event.id, 0);
+    sprites.push({
+      positionEcefM: localOffset(frame, radiusM * r * Math.cos(phi), radiusM * r * Math.sin(phi), radiusM * z),
+      size: 30 * (1 - 0.5 * u),
+      sizeMode: "world",
+      color: withAlpha(mix(FLASH_COLOR, color, Math.min(1, u * 2)), color[3] * (1 - u))
+    });
+  }
+  const shockM = SHOCKWAVE_RADIUS_M * Math.sqrt(u);
+  const shockColor = withAlpha(color, 0.8 * (1 - u) * (1 - u));
+  const lines = [
+    ring(frame, shockM, horizontal, shockColor),
+    ring(frame, shockM, (angle) => [Math.cos(angle), 0, Math.sin(angle)], shockColor),
+    ring(frame, shockM, (angle) => [0, Math.cos(angle), Math.sin(angle)], shockColor)
+  ];
+  return { sprites, lines };
+};
+
+const detectionEffect = (frame: LocalFrame, ageSec: number, durationSec: number): EventEffect => {
+  const u = ageSec / durationSec;
+  const color = EVENT_EFFECT_COLORS.detection;
+  const radiusM = DETECTION_RING_M * (0.3 + 0.7 * easeOut(u));
+  return { sprites: [], lines: [ring(frame, radiusM, horizontal, withAlpha(color, color[3] * (1 - u)))] };
+};
+
+const missEffect = (frame: LocalFrame, ageSec: number, durationSec: number): EventEffect => {
+  const u = ageSec / durationSec;
+  const color = EVENT_EFFECT_COLORS.miss;
+  return {
+    sprites: [
+      {
+        positionEcefM: frame.origin,
+        size: FLASH_SIZE_NDC * 0.4,
+        sizeMode: "screen",
+        color: withAlpha(color, color[3] * (1 - u))
+      }
+    ],
+    lines: []
+  };
+};
+
+export const eventEffectAt = (
+  event: CombatEvent,
+  scenarioT: number,
+  durationsSec: EventEffectDurations = DEFAULT_EVENT_EFFECT_DURATIONS_SEC
+): EventEffect | null => {
+  const ageSec = scenarioT - event.t;
+  const durationSec = durationsSec[event.type];
+  if (!(durationSec > 0) || ageSec < 0 || ageSec >= durationSec) {
+    return null;
+  }
+  const basis = nedBasisAtLla(event.positionLlaDegM);
+  const frame: LocalFrame = {
+    origin: llaToEcef(event.positionLlaDegM),
+    north: basis.north,
+    east: basis.east,
+    up: [-basis.down[0], -basis.down[1], -basis.down[2]]
+  };
+  switch (event.type) {
+    case "launch":
+      return launchEffect(event, frame, ageSec, durationSec);
+    case "impact":
+      return impactEffect(event, frame, ageSec, durationSec);
+    case "intercept":
+      return interceptEffect(event, frame, ageSec, durationSec);
+    case "detection":
+      return detectionEffect(frame, ageSec, durationSec);
+    case "miss":
+      return missEffect(frame, ageSec, durationSec);
+  }
+};
@@ -0,0 +1,194 @@
+export const SDF_FONT_SIZE_PX = 32;
+export const SDF_RADIUS_PX = 6;
+export const LABEL_FONT_FAMILY = "ui-monospace, Menlo, Consolas, monospace";
+export const LABEL_CHARSET =
+  Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join("") + "°′″";
+
+const ATLAS_WIDTH_PX = 512;
+const LINE_HEIGHT_EM = 1.25;
+const INF = 1e20;
+
+export interface GlyphBitmap {
+  width: number;
+  height: number;
+  alpha: Uint8ClampedArray;
+  advance: number;
+}
+
+export type GlyphRasterizer = (char: string) => GlyphBitmap;
+
+export interface AtlasGlyph {
+  advance: number;
+  width: number;
+  height: number;
+  u0: number;
+  v0: number;
+  u1: number;
+  v1: number;
+}
+
+export interface FontAtlas {
+  width: number;
+  height: number;
+  pixels: Uint8Array<ArrayBuffer>;
+  fontSizePx: number;
+  lineHeightPx: number;
+  paddingPx: number;
+  glyphs: Map<string, AtlasGlyph>;
+}
+
+const edt1d = (
+  grid: Float64Array,
+  offset: number,
+  stride: number,
+  length: number,
+  f: Float64Array,
+  v: Uint16Array,
+  z: Float64Array
+): void => {
+  for (let q = 0; q < length; q += 1) {
+    f[q] = grid[offset + q * stride];
+  }
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  let k = 0;
+  for (let q = 1; q < length; q += 1) {
+    let s = 0;
+    do {
+      const r = v[k];
+      s = (f[q] - f[r] + q * q - r * r) / (q - r) / 2;
+    } while (s <= z[k] && --k > -1);
+    k += 1;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < length; q += 1) {
+    while (z[k + 1] < q) {
+      k += 1;
+    }
+    const r = v[k];
+    grid[offset + q * stride] = f[r] + (q - r) * (q - r);
+  }
+};
+
+const edt = (grid: Float64Array, width: number, height: number): void => {
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const v = new Uint16Array(size);
+  const z = new Float64Array(size + 1);
+  for (let x = 0; x < width; x += 1) {
+    edt1d(grid, x, width, height, f, v, z);
+  }
+  for (let y = 0; y < height; y += 1) {
+    edt1d(grid, y * width, 1, width, f, v, z);
+  }
+};
+
+export const computeSdf = (alpha: ArrayLike<number>, width: number, height: number, radiusPx: number): Uint8Array => {
+  const outer = new Float64Array(width * height);
+  const inner = new Float64Array(width * height);
+  for (let i = 0; i < width * height; i += 1) {
+    const a = alpha[i] / 255;
+    outer[i] = a >= 1 ? 0 : a <= 0 ? INF : Math.max(0, 0.5 - a) ** 2;
+    inner[i] = a >= 1 ? INF : a <= 0 ? 0 : Math.max(0, a - 0.5) ** 2;
+  }
+  edt(outer, width, height);
+  edt(inner, width, height);
+  const out = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i += 1) {
+    const distance = Math.sqrt(outer[i]) - Math.sqrt(inner[i]);
+    out[i] = Math.round(255 * Math.min(1, Math.max(0, 0.5 - distance / (2 * radiusPx))));
+  }
+  return out;
+};
+
+export const buildFontAtlas = (
+  rasterize: GlyphRasterizer,
+  charset = LABEL_CHARSET,
+  fontSizePx = SDF_FONT_SIZE_PX,
+  radiusPx = SDF_RADIUS_PX
+): FontAtlas => {
+  const chars = [...new Set(charset)];
+  const bitmaps = chars.map((char) => ({ char, bitmap: rasterize(char) }));
+  const placements: Array<{ char: string; bitmap: GlyphBitmap; x: number; y: number }> = [];
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  for (const { char, bitmap } of bitmaps) {
+    if (x + bitmap.width > ATLAS_WIDTH_PX) {
+      x = 0;
+      y += rowHeight;
+      rowHeight = 0;
+    }
+    placements.push({ char, bitmap, x, y });
+    x += bitmap.width;
+    rowHeight = Math.max(rowHeight, bitmap.height);
+  }
+  const width = ATLAS_WIDTH_PX;
+  const height = 2 ** Math.ceil(Math.log2(Math.max(1, y + rowHeight)));
+  const pixels = new Uint8Array(width * height);
+  const glyphs = new Map<string, AtlasGlyph>();
+  for (const { char, bitmap, x: gx, y: gy } of placements) {
+    const sdf = computeSdf(bitmap.alpha, bitmap.width, bitmap.height, radiusPx);
+    for (let row = 0; row < bitmap.height; row += 1) {
+      pixels.set(sdf.subarray(row * bitmap.width, (row + 1) * bitmap.width), (gy + row) * width + gx);
+    }
+    glyphs.set(char, {
+      advance: bitmap.advance,
+      width: bitmap.width,
+      height: bitmap.height,
+      u0: gx / width,
+      v0: gy / height,
+      u1: (gx + bitmap.width) / width,
+      v1: (gy + bitmap.height) / height
+    });
+  }
+  return {
+    width,
+    height,
+    pixels,
+    fontSizePx,
+    lineHeightPx: fontSizePx * LINE_HEIGHT_EM,
+    paddingPx: radiusPx,
+    glyphs
+  };
+};
+
+export const createCanvasGlyphRasterizer = (
+  fontFamily = LABEL_FONT_FAMILY,
+  fontSizePx = SDF_FONT_SIZE_PX,
+  paddingPx = SDF_RADIUS_PX
+): GlyphRasterizer => {
+  const cellHeight = Math.ceil(fontSizePx * LINE_HEIGHT_EM) + 2 * paddingPx;
+  const maxWidth = fontSizePx * 2 + 2 * paddingPx;
+  const canvas =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(maxWidth, cellHeight)
+      : Object.assign(document.createElement("canvas"), { width: maxWidth, height: cellHeight });
+  const context = canvas.getContext("2d", { willReadFrequently: true }) as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+  if (!context) {
+    throw new Error("2D canvas unavailable for the label font atlas.");
+  }
+  const font = `${fontSizePx}px ${fontFamily}`;
+  return (char) => {
+    context.font = font;
+    const advance = context.measureText(char).width;
+    const width = Math.min(maxWidth, Math.ceil(advance) + 2 * paddingPx);
+    context.clearRect(0, 0, maxWidth, cellHeight);
+    context.textBaseline = "middle";
+    context.fillStyle = "#fff";
+    context.fillText(char, paddingPx, cellHeight / 2);
+    const rgba = context.getImageData(0, 0, width, cellHeight).data;
+    const alpha = new Uint8ClampedArray(width * cellHeight);
+    for (let i = 0; i < alpha.length; i += 1) {
+      alpha[i] = rgba[i * 4 + 3];
+    }
+    return { width, height: cellHeight, alpha, advance };
+  };
+};
@@ -0,0 +1,163 @@
+import { add3, ecefToLla, ecefToWorld, llaToEcef, nedBasisAtLla, scale3 } from "../core/math";
+import type { LlaDegM } from "../core/math";
+
+export const GRID_LEVEL_STEPS_DEG: readonly number[] = [10, 1, 1 / 6, 1 / 60];
+export const GRID_ALTITUDE_PER_SPACING = 20;
+export const GRID_FADE_RATIO = 2;
+export const GRID_HALF_WINDOW_LINES = 20;
+export const GRID_MAJOR_WEIGHT = 1;
+export const GRID_MINOR_WEIGHT = 0.45;
+export const LOCAL_GRID_SPACINGS_M: readonly number[] = [1000, 10000, 100000];
+export const LOCAL_GRID_HALF_LINES = 10;
+
+const METERS_PER_DEG = 111_320;
+const MEAN_EARTH_RADIUS_M = 6_371_000;
+const SEGMENTS_PER_STEP = 4;
+const SEGMENT_MAX_DEG = 1;
+const DASH_UNITS_PER_STEP = 10;
+const FINE_LAT_LIMIT_DEG = 89;
+const MIN_LON_SCALE = 0.05;
+const EPSILON = 1e-9;
+
+export interface GridWindow {
+  latMinDeg: number;
+  latMaxDeg: number;
+  lonMinDeg: number;
+  lonMaxDeg: number;
+}
+
+export interface GridLevel {
+  stepDeg: number;
+  alpha: number;
+  weight: number;
+}
+
+export const GLOBAL_GRID_WINDOW: GridWindow = { latMinDeg: -90, latMaxDeg: 90, lonMinDeg: -180, lonMaxDeg: 180 };
+
+export const gridLevelAlpha = (stepDeg: number, altitudeM: number): number => {
+  if (stepDeg >= GRID_LEVEL_STEPS_DEG[0]) {
+    return 1;
+  }
+  const fadeOutAltitudeM = stepDeg * METERS_PER_DEG * GRID_ALTITUDE_PER_SPACING;
+  const alpha = Math.log(fadeOutAltitudeM / Math.max(1, altitudeM)) / Math.log(GRID_FADE_RATIO);
+  return Math.min(1, Math.max(0, alpha));
+};
+
+export const selectGridLevels = (altitudeM: number): GridLevel[] => {
+  const alphas = GRID_LEVEL_STEPS_DEG.map((stepDeg) => gridLevelAlpha(stepDeg, altitudeM));
+  const minorWeight = (finerAlpha: number): number =>
+    GRID_MINOR_WEIGHT + (GRID_MAJOR_WEIGHT - GRID_MINOR_WEIGHT) * finerAlpha;
+  return GRID_LEVEL_STEPS_DEG.map((stepDeg, i) => ({
+    stepDeg,
+    alpha: alphas[i],
+    weight: i === 0 ? GRID_MAJOR_WEIGHT : minorWeight(alphas[i + 1] ?? 0)
+  })).filter((level) => level.alpha > 0);
+};
+
+export const gridLabelStepDeg = (levels: GridLevel[]): number =>
+  levels
+    .filter((level) => level.alpha >= 0.5)
+    .reduce((step, level) => Math.min(step, level.stepDeg), GRID_LEVEL_STEPS_DEG[0]);
+
+export const gridWindowAround = (latDeg: number, lonDeg: number, stepDeg: number, altitudeM: number): GridWindow => {
+  const horizonDeg =
+    (Math.acos(MEAN_EARTH_RADIUS_M / (MEAN_EARTH_RADIUS_M + Math.max(0, altitudeM))) * 180) / Math.PI;
+  const halfLatDeg = Math.max(stepDeg, Math.min(stepDeg * GRID_HALF_WINDOW_LINES, horizonDeg));
+  const halfLonDeg = Math.min(180, halfLatDeg / Math.max(MIN_LON_SCALE, Math.cos((latDeg * Math.PI) / 180)));
+  const snap = (deg: number): number => Math.round(deg / stepDeg) * stepDeg;
+  return {
+    latMinDeg: Math.max(-FINE_LAT_LIMIT_DEG, snap(latDeg - halfLatDeg)),
+    latMaxDeg: Math.min(FINE_LAT_LIMIT_DEG, snap(latDeg + halfLatDeg)),
+    lonMinDeg: snap(lonDeg - halfLonDeg),
+    lonMaxDeg: snap(lonDeg + halfLonDeg)
+  };
+};
+
+const pushSurfacePath = (
+  out: number[],
+  segments: number,
+  llaAt: (f: number) => LlaDegM,
+  arcAt: (f: number) => number
+): void => {
+  let prev = ecefToWorld(llaToEcef(llaAt(0)));
+  for (let s = 1; s <= segments; s += 1) {
+    const next = ecefToWorld(llaToEcef(llaAt(s / segments)));
+    out.push(...prev, arcAt((s - 1) / segments), ...next, arcAt(s / segments));
+    prev = next;
+  }
+};
+
+export const graticuleVertices = (stepDeg: number, window: GridWindow, coarserStepDeg?: number): Float32Array => {
+  const vertices: number[] = [];
+  const { latMinDeg, latMaxDeg, lonMinDeg, lonMaxDeg } = window;
+  const segmentDeg = Math.min(SEGMENT_MAX_DEG, stepDeg / SEGMENTS_PER_STEP);
+  const dashScale = DASH_UNITS_PER_STEP / stepDeg;
+  const fullTurn = lonMaxDeg - lonMinDeg >= 360 - EPSILON;
+  const onCoarserLine = (deg: number): boolean =>
+    coarserStepDeg !== undefined && Math.abs(deg / coarserStepDeg - Math.round(deg / coarserStepDeg)) < 1e-6;
+
+  const lonSegments = Math.max(1, Math.ceil((lonMaxDeg - lonMinDeg) / segmentDeg - EPSILON));
+  for (let k = Math.ceil(latMinDeg / stepDeg - EPSILON); k <= Math.floor(latMaxDeg / stepDeg + EPSILON); k += 1) {
+    const lat = k * stepDeg;
+    if (Math.abs(lat) >= 90 - EPSILON || onCoarserLine(lat)) {
+      continue;
+    }
+    pushSurfacePath(
+      vertices,
+      lonSegments,
+      (f) => [lat, lonMinDeg + (lonMaxDeg - lonMinDeg) * f, 0],
+      (f) => (lonMinDeg + 180 + (lonMaxDeg - lonMinDeg) * f) * dashScale
+    );
+  }
+
+  const latSegments = Math.max(1, Math.ceil((latMaxDeg - latMinDeg) / segmentDeg - EPSILON));
+  for (let k = Math.ceil(lonMinDeg / stepDeg - EPSILON); k <= Math.floor(lonMaxDeg / stepDeg + EPSILON); k += 1) {
+    const lon = k * stepDeg;
+    if ((fullTurn && lon >= lonMaxDeg - EPSILON) || onCoarserLine(lon)) {
+      continue;
+    }
+    pushSurfacePath(
+      vertices,
+      latSegments,
+      (f) => [latMinDeg + (latMaxDeg - latMinDeg) * f, lon, 0],
+      (f) => (latMinDeg + 90 + (latMaxDeg - latMinDeg) * f) * dashScale
+    );
+  }
+
+  return new Float32Array(vertices);
+};
+
+export const localGridSpacingM = (altitudeM: number): number | null =>
+  LOCAL_GRID_SPACINGS_M.find((spacingM) => altitudeM <= spacingM * GRID_ALTITUDE_PER_SPACING) ?? null;
+
+export const localGridAnchor = (latDeg: number, lonDeg: number, spacingM: number): [number, number] => {
+  const latStepDeg = spacingM / METERS_PER_DEG;
+  const anchorLat = Math.round(latDeg / latStepDeg) * latStepDeg;
+  const lonStepDeg = latStepDeg / Math.max(MIN_LON_SCALE, Math.cos((anchorLat * Math.PI) / 180));
+  return [anchorLat, Math.round(lonDeg / lonStepDeg) * lonStepDeg];
+};
+
+export const localGridVertices = (
+  anchorLatDeg: number,
+  anchorLonDeg: number,
+  spacingM: number,
+  halfLines = LOCAL_GRID_HALF_LINES
+): Float32Array => {
+  const anchor: LlaDegM = [anchorLatDeg, anchorLonDeg, 0];
+  const origin = llaToEcef(anchor);
+  const { north, east } = nedBasisAtLla(anchor);
+  const extentM = spacingM * halfLines;
+  const segments = 2 * halfLines * SEGMENTS_PER_STEP;
+  const surfaceAt = (eastM: number, northM: number): LlaDegM => {
+    const [lat, lon] = ecefToLla(add3(origin, add3(scale3(east, eastM), scale3(north, northM))));
+    return [lat, lon, 0];
+  };
+  const arcAt = (f: number): number => 2 * halfLines * f * DASH_UNITS_PER_STEP;
+  const vertices: number[] = [];
+  for (let k = -halfLines; k <= halfLines; k += 1) {
+    const offsetM = k * spacingM;
+    pushSurfacePath(vertices, segments, (f) => surfaceAt(-extentM + 2 * extentM * f, offsetM), arcAt);
+    pushSurfacePath(vertices, segments, (f) => surfaceAt(offsetM, -extentM + 2 * extentM * f), arcAt);
+  }
+  return new Float32Array(vertices);
+};
@@ -1,2 +1,11 @@
+export * from "./effects";
+export * from "./fontAtlas";
+export * from "./grid";
+export * from "./labels";
+export * from "./occlusion";
+export * from "./picking";
+export * from "./precision";
+export * from "./symbology";
 export * from "./types";
+export * from "./vectorMap";
 export * from "./webgpu";
@@ -0,0 +1,197 @@
+import type { LlaDegM, Mat4, Vec3 } from "../core/math";
+import type { EntityState } from "../core/schema";
+import type { AtlasGlyph, FontAtlas } from "./fontAtlas";
+import { isOccludedByGlobe } from "./occlusion";
+import { projectToScreen } from "./picking";
+import type { Rgba } from "./symbology";
+
+export const LABEL_FONT_SIZE_PX = 13;
+export const LABEL_MARGIN_PX = 2;
+export const GRID_LABEL_STEP_DEG = 10;
+export const GRID_LABEL_HALF_LINES = 20;
+
+export type LabelAlign = "left" | "center";
+
+export interface LabelRequest {
+  id: string;
+  anchorWorld: Vec3;
+  lines: string[];
+  color: Rgba;
+  priority: number;
+  offsetPx: [number, number];
+  align: LabelAlign;
+}
+
+export interface LabelRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface GlyphQuad {
+  xPx: number;
+  yPx: number;
+  widthPx: number;
+  heightPx: number;
+  glyph: AtlasGlyph;
+}
+
+export interface PlacedLabel {
+  request: LabelRequest;
+  rect: LabelRect;
+  quads: GlyphQuad[];
+}
+
+export interface GridLabel {
+  id: string;
+  text: string;
+  lla: LlaDegM;
+}
+
+export const labelCallsign = (entity: Pick<EntityState, "id" | "metadata">): string => {
+  const callsign = entity.metadata?.callsign;
+  return (typeof callsign === "string" || typeof callsign === "number") && String(callsign).trim() !== ""
+    ? String(callsign).trim()
+    : entity.id;
+};
+
+export const formatLabelAltitude = (altitudeM: number): string =>
+  Math.abs(altitudeM) >= 10000 ? `${(altitudeM / 1000).toFixed(1)} km` : `${Math.round(altitudeM)} m`;
+
+const formatGridAngle = (absDeg: number): string => {
+  const minutes = Math.round(absDeg * 60);
+  const degrees = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${degrees}°` : `${degrees}°${String(minutes % 60).padStart(2, "0")}′`;
+};
+
+export const formatLatitudeLabel = (latDeg: number): string => {
+  const text = formatGridAngle(Math.abs(latDeg));
+  return text === "0°" ? text : `${text}${latDeg > 0 ? "N" : "S"}`;
+};
+
+export const formatLongitudeLabel = (lonDeg: number): string => {
+  const lon = ((((lonDeg + 180) % 360) + 360) % 360) - 180;
+  const text = formatGridAngle(Math.abs(lon));
+  if (text === "0°" || text === "180°") {
+    return text;
+  }
+  return `${text}${lon > 0 ? "E" : "W"}`;
+};
+
+export const gridLabelsNear = (
+  latDeg: number,
+  lonDeg: number,
+  stepDeg = GRID_LABEL_STEP_DEG,
+  halfLines = GRID_LABEL_HALF_LINES
+): GridLabel[] => {
+  const labels: GridLabel[] = [];
+  const column = Math.round(lonDeg / stepDeg);
+  const meridian = column * stepDeg;
+  const parallel = Math.min(80 - stepDeg, Math.max(-80, Math.floor(latDeg / stepDeg) * stepDeg));
+  const row = Math.round(parallel / stepDeg);
+  const rowMin = Math.max(row - halfLines, Math.ceil(-80 / stepDeg - 1e-9));
+  const rowMax = Math.min(row + halfLines, Math.floor(80 / stepDeg + 1e-9));
+  for (let k = rowMin; k <= rowMax; k += 1) {
+    const lat = k * stepDeg;
+    labels.push({ id: `grid:lat:${lat}`, text: formatLatitudeLabel(lat), lla: [lat, meridian + stepDeg / 2, 0] });
+  }
+  const columnsPerTurn = Math.round(360 / stepDeg);
+  const columns = new Set<number>();
+  for (let k = column - halfLines; k <= column + halfLines; k += 1) {
+    columns.add(((((k + columnsPerTurn / 2) % columnsPerTurn) + columnsPerTurn) % columnsPerTurn) - columnsPerTurn / 2);
+  }
+  for (const k of columns) {
+    const lon = k * stepDeg;
+    labels.push({ id: `grid:lon:${lon}`, text: formatLongitudeLabel(lon), lla: [parallel + stepDeg / 2, lon, 0] });
+  }
+  return labels;
+};
+
+export const layoutLabelText = (
+  atlas: FontAtlas,
+  lines: string[],
+  fontSizePx: number
+): { widthPx: number; heightPx: number; quads: GlyphQuad[] } => {
+  const scale = fontSizePx / atlas.fontSizePx;
+  const lineHeight = atlas.lineHeightPx * scale;
+  const pad = atlas.paddingPx * scale;
+  const fallback = atlas.glyphs.get("?");
+  const quads: GlyphQuad[] = [];
+  let widthPx = 0;
+  lines.forEach((line, row) => {
+    let pen = 0;
+    for (const char of line) {
+      const glyph = atlas.glyphs.get(char) ?? fallback;
+      if (!glyph) {
+        continue;
+      }
+      if (char !== " ") {
+        const heightPx = glyph.height * scale;
+        quads.push({
+          xPx: pen - pad,
+          yPx: row * lineHeight + (lineHeight - heightPx) / 2,
+          widthPx: glyph.width * scale,
+          heightPx,
+          glyph
+        });
+      }
+      pen += glyph.advance * scale;
+    }
+    widthPx = Math.max(widthPx, pen);
+  });
+  return { widthPx, heightPx: lines.length * lineHeight, quads };
+};
+
+export const rectsOverlap = (a: LabelRect, b: LabelRect, marginPx = 0): boolean =>
+  a.x0 < b.x1 + marginPx && b.x0 < a.x1 + marginPx && a.y0 < b.y1 + marginPx && b.y0 < a.y1 + marginPx;
+
+export const resolveLabelCollisions = <T extends { rect: LabelRect; request: { priority: number } }>(
+  labels: T[],
+  marginPx = LABEL_MARGIN_PX
+): T[] => {
+  const ordered = [...labels].sort((a, b) => b.request.priority - a.request.priority);
+  const accepted: T[] = [];
+  for (const label of ordered) {
+    if (!accepted.some((other) => rectsOverlap(other.rect, label.rect, marginPx))) {
+      accepted.push(label);
+    }
+  }
+  return accepted;
+};
+
+export const placeLabels = (
+  atlas: FontAtlas,
+  viewProj: Mat4,
+  eye: Vec3,
+  requests: LabelRequest[],
+  widthPx: number,
+  heightPx: number,
+  pixelRatio = 1
+): PlacedLabel[] => {
+  const candidates: PlacedLabel[] = [];
+  for (const request of requests) {
+    if (request.lines.length === 0 || isOccludedByGlobe(eye, request.anchorWorld)) {
+      continue;
+    }
+    const screen = projectToScreen(viewProj, request.anchorWorld, widthPx, heightPx);
+    if (!screen) {
+      continue;
+    }
+    const text = layoutLabelText(atlas, request.lines, LABEL_FONT_SIZE_PX * pixelRatio);
+    const dx = request.offsetPx[0] * pixelRatio - (request.align === "center" ? text.widthPx / 2 : 0);
+    const dy = request.offsetPx[1] * pixelRatio - text.heightPx / 2;
+    const rect = {
+      x0: screen.x + dx,
+      y0: screen.y + dy,
+      x1: screen.x + dx + text.widthPx,
+      y1: screen.y + dy + text.heightPx
+    };
+    if (rect.x1 < 0 || rect.y1 < 0 || rect.x0 > widthPx || rect.y0 > heightPx) {
+      continue;
+    }
+    const quads = text.quads.map((quad) => ({ ...quad, xPx: quad.xPx + dx, yPx: quad.yPx + dy }));
+    candidates.push({ request, rect, quads });
+  }
+  return resolveLabelCollisions(candidates, LABEL_MARGIN_PX * pixelRatio);
+};
@@ -0,0 +1,53 @@
+import { bodyFrdToEcefQuat, ecefToLla, WGS84_A, WGS84_B } from "../core/math";
+import type { Quat, Vec3 } from "../core/math";
+
+export const MODEL_MIN_RADIUS_PX = 6;
+
+export const projectedRadiusPx = (
+  radiusM: number,
+  distanceM: number,
+  fovYRad: number,
+  viewportHeightPx: number
+): number => {
+  if (distanceM <= radiusM) {
+    return Number.POSITIVE_INFINITY;
+  }
+  return (radiusM / (distanceM * Math.tan(fovYRad / 2))) * (viewportHeightPx / 2);
+};
+
+const rotateByQuat = ([x, y, z, w]: Quat, v: Vec3): Vec3 => {
+  const tx = 2 * (y * v[2] - z * v[1]);
+  const ty = 2 * (z * v[0] - x * v[2]);
+  const tz = 2 * (x * v[1] - y * v[0]);
+  return [
+    v[0] + w * tx + (y * tz - z * ty),
+    v[1] + w * ty + (z * tx - x * tz),
+    v[2] + w * tz + (x * ty - y * tx)
+  ];
+};
+
+export const bodyToWorldMatrix = (
+  positionEcefM: Vec3,
+  orientationBodyToNedQuat: Quat,
+  originWorld: Vec3 = [0, 0, 0]
+): Float32Array => {
+  const bodyToEcef = bodyFrdToEcefQuat(orientationBodyToNedQuat, ecefToLla(positionEcefM));
+  const scale: Vec3 = [1 / WGS84_A, 1 / WGS84_A, 1 / WGS84_B];
+  const out = new Float32Array(16);
+  for (let column = 0; column < 3; column += 1) {
+    const axis: Vec3 = [0, 0, 0];
+    axis[column] = 1;
+    const rotated = rotateByQuat(bodyToEcef, axis);
+    out.set([rotated[0] * scale[0], rotated[1] * scale[1], rotated[2] * scale[2], 0], column * 4);
+  }
+  out.set(
+    [
+      positionEcefM[0] * scale[0] - originWorld[0],
+      positionEcefM[1] * scale[1] - originWorld[1],
+      positionEcefM[2] * scale[2] - originWorld[2],
+      1
+    ],
+    12
+  );
+  return out;
+};
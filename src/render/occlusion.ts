@@ -0,0 +1,41 @@
+import { cross3, dot3, normalize3, scale3, sub3 } from "../core/math";
+import type { Vec3 } from "../core/math";
+
+export const OCCLUDER_RADIUS = 0.9995;
+
+export interface OccluderRayBasis {
+  right: Vec3;
+  up: Vec3;
+  forward: Vec3;
+}
+
+export const isOccludedByGlobe = (eye: Vec3, point: Vec3, radius = 1): boolean => {
+  const d = sub3(point, eye);
+  const a = dot3(d, d);
+  const b = 2 * dot3(eye, d);
+  const c = dot3(eye, eye) - radius * radius;
+  const disc = b * b - 4 * a * c;
+  if (a < 1e-18 || disc <= 0) {
+    return false;
+  }
+  const tNear = (-b - Math.sqrt(disc)) / (2 * a);
+  return tNear > 0 && tNear < 1 - 1e-4;
+};
+
+export const occluderRayBasis = (
+  eye: Vec3,
+  target: Vec3,
+  up: Vec3,
+  fovYRad: number,
+  aspect: number
+): OccluderRayBasis => {
+  const forward = normalize3(sub3(target, eye));
+  const right = normalize3(cross3(forward, up));
+  const trueUp = cross3(right, forward);
+  const tanHalf = Math.tan(fovYRad / 2);
+  return {
+    right: scale3(right, tanHalf * aspect),
+    up: scale3(trueUp, tanHalf),
+    forward
+  };
+};
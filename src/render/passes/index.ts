@@ -1,3 +1,7 @@
 export * from "./globeGridPass";
+export * from "./meshPass";
+export * from "./occluderPass";
 export * from "./spritePass";
-
+export * from "./symbolPass";
+export * from "./textPass";
+export * from "./trailPass";
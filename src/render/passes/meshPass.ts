@@ -0,0 +1,221 @@
+import type { MeshModel } from "../../io";
+
+const meshShader = /* wgsl */ `
+struct Globals {
+  view_proj : mat4x4<f32>,
+  eye : vec4<f32>,
+};
+
+@group(0) @binding(0)
+var<uniform> globals : Globals;
+
+struct FillOut {
+  @builtin(position) position : vec4<f32>,
+  @location(0) color : vec4<f32>,
+  @location(1) @interpolate(flat) normal : vec3<f32>,
+  @location(2) view_dir : vec3<f32>,
+};
+
+struct EdgeOut {
+  @builtin(position) position : vec4<f32>,
+  @location(0) color : vec4<f32>,
+};
+
+const FILL_SCALE = 0.42;
+
+@vertex
+fn vs_fill(
+  @location(0) position: vec3<f32>,
+  @location(1) normal: vec3<f32>,
+  @location(2) m0: vec4<f32>,
+  @location(3) m1: vec4<f32>,
+  @location(4) m2: vec4<f32>,
+  @location(5) m3: vec4<f32>,
+  @location(6) color: vec4<f32>
+) -> FillOut {
+  let model = mat4x4<f32>(m0, m1, m2, m3);
+  let world = model * vec4<f32>(position, 1.0);
+  var out : FillOut;
+  out.position = globals.view_proj * world;
+  out.color = color;
+  out.normal = normalize((model * vec4<f32>(normal, 0.0)).xyz);
+  out.view_dir = globals.eye.xyz - world.xyz;
+  return out;
+}
+
+@fragment
+fn fs_fill(in: FillOut) -> @location(0) vec4<f32> {
+  let facing = abs(dot(in.normal, normalize(in.view_dir)));
+  let shade = (0.25 + 0.75 * facing) * FILL_SCALE;
+  return vec4<f32>(in.color.rgb * shade, in.color.a);
+}
+
+@vertex
+fn vs_edge(
+  @location(0) position: vec3<f32>,
+  @location(2) m0: vec4<f32>,
+  @location(3) m1: vec4<f32>,
+  @location(4) m2: vec4<f32>,
+  @location(5) m3: vec4<f32>,
+  @location(6) color: vec4<f32>
+) -> EdgeOut {
+  let model = mat4x4<f32>(m0, m1, m2, m3);
+  var out : EdgeOut;
+  out.position = globals.view_proj * model * vec4<f32>(position, 1.0);
+  out.color = color;
+  return out;
+}
+
+@fragment
+fn fs_edge(in: EdgeOut) -> @location(0) vec4<f32> {
+  return in.color;
+}
+`;
+
+export const MESH_INSTANCE_FLOATS = 20;
+
+export interface MeshPass {
+  fillPipeline: GPURenderPipeline;
+  edgePipeline: GPURenderPipeline;
+  bindGroupLayout: GPUBindGroupLayout;
+}
+
+export interface GpuMeshModel {
+  fillBuffer: GPUBuffer;
+  fillVertexCount: number;
+  edgeBuffer: GPUBuffer;
+  edgeVertexCount: number;
+  radiusM: number;
+}
+
+const instanceLayout: GPUVertexBufferLayout = {
+  arrayStride: MESH_INSTANCE_FLOATS * 4,
+  stepMode: "instance",
+  attributes: [
+    { shaderLocation: 2, offset: 0, format: "float32x4" },
+    { shaderLocation: 3, offset: 4 * 4, format: "float32x4" },
+    { shaderLocation: 4, offset: 8 * 4, format: "float32x4" },
+    { shaderLocation: 5, offset: 12 * 4, format: "float32x4" },
+    { shaderLocation: 6, offset: 16 * 4, format: "float32x4" }
+  ]
+};
+
+const alphaBlend: GPUBlendState = {
+  color: {
+    srcFactor: "src-alpha",
+    dstFactor: "one-minus-src-alpha",
+    operation: "add"
+  },
+  alpha: {
+    srcFactor: "one",
+    dstFactor: "one-minus-src-alpha",
+    operation: "add"
+  }
+};
+
+export const createMeshPass = (device: GPUDevice, format: GPUTextureFormat): MeshPass => {
+  const module = device.createShaderModule({ code: meshShader });
+  const bindGroupLayout = device.createBindGroupLayout({
+    entries: [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
+        buffer: { type: "uniform" }
+      }
+    ]
+  });
+  const layout = device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] });
+  const fillPipeline = device.createRenderPipeline({
+    layout,
+    vertex: {
+      module,
+      entryPoint: "vs_fill",
+      buffers: [
+        {
+          arrayStride: 6 * 4,
+          stepMode: "vertex",
+          attributes: [
+            { shaderLocation: 0, offset: 0, format: "float32x3" },
+            { shaderLocation: 1, offset: 3 * 4, format: "float32x3" }
+          ]
+        },
+        instanceLayout
+      ]
+    },
+    fragment: {
+      module,
+      entryPoint: "fs_fill",
+      targets: [{ format, blend: alphaBlend }]
+    },
+    primitive: {
+      topology: "triangle-list",
+      cullMode: "none"
+    },
+    depthStencil: {
+      format: "depth24plus",
+      depthWriteEnabled: true,
+      depthCompare: "less",
+      depthBias: 2,
+      depthBiasSlopeScale: 1.5
+    }
+  });
+  const edgePipeline = device.createRenderPipeline({
+    layout,
+    vertex: {
+      module,
+      entryPoint: "vs_edge",
+      buffers: [
+        {
+          arrayStride: 3 * 4,
+          stepMode: "vertex",
+          attributes: [{ shaderLocation: 0, offset: 0, format: "float32x3" }]
+        },
+        instanceLayout
+      ]
+    },
+    fragment: {
+      module,
+      entryPoint: "fs_edge",
+      targets: [{ format, blend: alphaBlend }]
+    },
+    primitive: {
+      topology: "line-list",
+      cullMode: "none"
+    },
+    depthStencil: {
+      format: "depth24plus",
+      depthWriteEnabled: true,
+      depthCompare: "less-equal"
+    }
+  });
+
+  return { fillPipeline, edgePipeline, bindGroupLayout };
+};
+
+export const uploadMeshModel = (device: GPUDevice, model: MeshModel): GpuMeshModel => {
+  const vertexCount = model.positions.length / 3;
+  const interleaved = new Float32Array(vertexCount * 6);
+  for (let i = 0; i < vertexCount; i += 1) {
+    interleaved.set(model.positions.subarray(i * 3, i * 3 + 3), i * 6);
+    interleaved.set(model.normals.subarray(i * 3, i * 3 + 3), i * 6 + 3);
+  }
+  const fillBuffer = device.createBuffer({
+    size: interleaved.byteLength,
+    usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+  });
+  device.queue.writeBuffer(fillBuffer, 0, interleaved);
+  const edgeBuffer = device.createBuffer({
+    size: Math.max(4, model.edges.byteLength),
+    usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+  });
+  if (model.edges.byteLength > 0) {
+    device.queue.writeBuffer(edgeBuffer, 0, new Float32Array(model.edges));
+  }
+  return {
+    fillBuffer,
+    fillVertexCount: vertexCount,
+    edgeBuffer,
+    edgeVertexCount: model.edges.length / 3,
+    radiusM: model.radiusM
+  };
+};
@@ -0,0 +1,101 @@
+const occluderShader = /* wgsl */ `
+struct Globals {
+  view_proj : mat4x4<f32>,
+  eye : vec4<f32>,
+  right : vec4<f32>,
+  up : vec4<f32>,
+  forward : vec4<f32>,
+};
+
+@group(0) @binding(0)
+var<uniform> globals : Globals;
+
+struct VsOut {
+  @builtin(position) position : vec4<f32>,
+  @location(0) ndc : vec2<f32>,
+};
+
+struct FsOut {
+  @builtin(frag_depth) depth : f32,
+  @location(0) color : vec4<f32>,
+};
+
+@vertex
+fn vs_main(@builtin(vertex_index) index: u32) -> VsOut {
+  let ndc = vec2<f32>(select(-1.0, 3.0, index == 1u), select(-1.0, 3.0, index == 2u));
+  var out : VsOut;
+  out.position = vec4<f32>(ndc, 0.0, 1.0);
+  out.ndc = ndc;
+  return out;
+}
+
+@fragment
+fn fs_main(in: VsOut) -> FsOut {
+  let dir = normalize(globals.forward.xyz + in.ndc.x * globals.right.xyz + in.ndc.y * globals.up.xyz);
+  let eye = globals.eye.xyz;
+  let radius = globals.eye.w;
+  let b = dot(eye, dir);
+  let c = dot(eye, eye) - radius * radius;
+  let disc = b * b - c;
+  if (disc < 0.0) {
+    discard;
+  }
+  let t = -b - sqrt(disc);
+  if (t <= 0.0) {
+    discard;
+  }
+  let clip = globals.view_proj * vec4<f32>(dir * t, 1.0);
+  var out : FsOut;
+  out.depth = clamp(clip.z / clip.w, 0.0, 1.0);
+  out.color = vec4<f32>(0.0);
+  return out;
+}
+`;
+
+export const OCCLUDER_UNIFORM_FLOATS = 32;
+
+export interface OccluderPass {
+  pipeline: GPURenderPipeline;
+  bindGroupLayout: GPUBindGroupLayout;
+  vertexCount: number;
+}
+
+export const createOccluderPass = (device: GPUDevice, format: GPUTextureFormat): OccluderPass => {
+  const module = device.createShaderModule({ code: occluderShader });
+  const bindGroupLayout = device.createBindGroupLayout({
+    entries: [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.FRAGMENT,
+        buffer: { type: "uniform" }
+      }
+    ]
+  });
+  const pipeline = device.createRenderPipeline({
+    layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] }),
+    vertex: {
+      module,
+      entryPoint: "vs_main"
+    },
+    fragment: {
+      module,
+      entryPoint: "fs_main",
+      targets: [{ format, writeMask: 0 }]
+    },
+    primitive: {
+      topology: "triangle-list",
+      cullMode: "none"
+    },
+    depthStencil: {
+      format: "depth24plus",
+      depthWriteEnabled: true,
+      depthCompare: "less"
+    }
+  });
+
+  return {
+    pipeline,
+    bindGroupLayout,
+    vertexCount: 3
+  };
+};
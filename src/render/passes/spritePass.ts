@@ -6,6 +6,11 @@ struct Globals {
 @group(0) @binding(0)
 var<uniform> globals : Globals;
 
+override GHOST : bool = false;
+
+const GHOST_ALPHA = 0.35;
+const GHOST_STRIPE_PX = 3.0;
+
 struct VsOut {
   @builtin(position) position : vec4<f32>,
   @location(0) color : vec4<f32>,
@@ -33,13 +38,17 @@ fn vs_main(
 }
 
 @fragment
-fn fs_main(@location(0) color : vec4<f32>) -> @location(0) vec4<f32> {
-  return color;
+fn fs_main(in: VsOut) -> @location(0) vec4<f32> {
+  if (GHOST && fract((in.position.x + in.position.y) / (2.0 * GHOST_STRIPE_PX)) > 0.5) {
+    discard;
+  }
+  return vec4<f32>(in.color.rgb, in.color.a * select(1.0, GHOST_ALPHA, GHOST));
 }
 `;
 
 export interface SpritePass {
   pipeline: GPURenderPipeline;
+  ghostPipeline: GPURenderPipeline;
   bindGroupLayout: GPUBindGroupLayout;
   cornerBuffer: GPUBuffer;
   cornerVertexCount: number;
@@ -56,59 +65,64 @@ export const createSpritePass = (device: GPUDevice, format: GPUTextureFormat): S
       }
     ]
   });
-  const pipeline = device.createRenderPipeline({
-    layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] }),
-    vertex: {
-      module,
-      entryPoint: "vs_main",
-      buffers: [
-        {
-          arrayStride: 2 * 4,
-          stepMode: "vertex",
-          attributes: [{ shaderLocation: 0, offset: 0, format: "float32x2" }]
-        },
-        {
-          arrayStride: 9 * 4,
-          stepMode: "instance",
-          attributes: [
-            { shaderLocation: 1, offset: 0, format: "float32x4" },
-            { shaderLocation: 2, offset: 4 * 4, format: "float32" },
-            { shaderLocation: 3, offset: 5 * 4, format: "float32x4" }
-          ]
-        }
-      ]
-    },
-    fragment: {
-      module,
-      entryPoint: "fs_main",
-      targets: [
-        {
-          format,
-          blend: {
-            color: {
-              srcFactor: "src-alpha",
-              dstFactor: "one-minus-src-alpha",
-              operation: "add"
-            },
-            alpha: {
-              srcFactor: "one",
-              dstFactor: "one-minus-src-alpha",
-              operation: "add"
+  const layout = device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] });
+  const createPipeline = (ghost: boolean): GPURenderPipeline =>
+    device.createRenderPipeline({
+      layout,
+      vertex: {
+        module,
+        entryPoint: "vs_main",
+        buffers: [
+          {
+            arrayStride: 2 * 4,
+            stepMode: "vertex",
+            attributes: [{ shaderLocation: 0, offset: 0, format: "float32x2" }]
+          },
+          {
+            arrayStride: 9 * 4,
+            stepMode: "instance",
+            attributes: [
+              { shaderLocation: 1, offset: 0, format: "float32x4" },
+              { shaderLocation: 2, offset: 4 * 4, format: "float32" },
+              { shaderLocation: 3, offset: 5 * 4, format: "float32x4" }
+            ]
+          }
+        ]
+      },
+      fragment: {
+        module,
+        entryPoint: "fs_main",
+        constants: { GHOST: ghost ? 1 : 0 },
+        targets: [
+          {
+            format,
+            blend: {
+              color: {
+                srcFactor: "src-alpha",
+                dstFactor: "one-minus-src-alpha",
+                operation: "add"
+              },
+              alpha: {
+                srcFactor: "one",
+                dstFactor: "one-minus-src-alpha",
+                operation: "add"
+              }
             }
           }
-        }
-      ]
-    },
-    primitive: {
-      topology: "triangle-list",
-      cullMode: "none"
-    },
-    depthStencil: {
-      format: "depth24plus",
-      depthWriteEnabled: false,
-      depthCompare: "less"
-    }
-  });
+        ]
+      },
+      primitive: {
+        topology: "triangle-list",
+        cullMode: "none"
+      },
+      depthStencil: {
+        format: "depth24plus",
+        depthWriteEnabled: false,
+        depthCompare: ghost ? "greater" : "less"
+      }
+    });
+  const pipeline = createPipeline(false);
+  const ghostPipeline = createPipeline(true);
 
   const corners = new Float32Array([
     -1, -1, //
@@ -123,6 +137,7 @@ export const createSpritePass = (device: GPUDevice, format: GPUTextureFormat): S
 
   return {
     pipeline,
+    ghostPipeline,
     bindGroupLayout,
     cornerBuffer,
     cornerVertexCount: 3
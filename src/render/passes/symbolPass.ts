@@ -0,0 +1,203 @@
+const symbolShader = /* wgsl */ `
+struct Globals {
+  view_proj : mat4x4<f32>,
+};
+
+@group(0) @binding(0)
+var<uniform> globals : Globals;
+
+override GHOST : bool = false;
+
+const GHOST_ALPHA = 0.35;
+const GHOST_DASHES = 12.0;
+
+struct VsOut {
+  @builtin(position) position : vec4<f32>,
+  @location(0) color : vec4<f32>,
+  @location(1) uv : vec2<f32>,
+  @location(2) @interpolate(flat) frame : vec2<f32>,
+};
+
+const STROKE_WIDTH = 0.1;
+const FILL_ALPHA = 0.16;
+
+@vertex
+fn vs_main(
+  @location(0) corner: vec2<f32>,
+  @location(1) posSize: vec4<f32>,
+  @location(2) sizeMode: f32,
+  @location(3) color: vec4<f32>,
+  @location(4) frame: vec2<f32>
+) -> VsOut {
+  let world = vec4<f32>(posSize.xyz, 1.0);
+  let clip = globals.view_proj * world;
+  let clipW = max(1e-6, abs(clip.w));
+  let depthSizeNdc = clamp(posSize.w / clipW, 0.00035, 0.07);
+  let depthOffset = corner * depthSizeNdc * clip.w;
+  let screenOffset = corner * posSize.w * clip.w;
+  let offset = select(depthOffset, screenOffset, sizeMode > 0.5);
+
+  var out : VsOut;
+  out.position = vec4<f32>(clip.xy + offset, clip.zw);
+  out.color = color;
+  out.uv = corner;
+  out.frame = frame;
+  return out;
+}
+
+fn box_distance(p: vec2<f32>, extent: vec2<f32>) -> f32 {
+  let d = abs(p) - extent;
+  return length(max(d, vec2<f32>(0.0))) + min(max(d.x, d.y), 0.0);
+}
+
+fn quatrefoil_distance(p: vec2<f32>) -> f32 {
+  let a = length(p - vec2<f32>(0.42, 0.0));
+  let b = length(p + vec2<f32>(0.42, 0.0));
+  let c = length(p - vec2<f32>(0.0, 0.42));
+  let d = length(p + vec2<f32>(0.0, 0.42));
+  return min(min(a, b), min(c, d)) - 0.5;
+}
+
+fn frame_distance(p: vec2<f32>, shape: i32) -> f32 {
+  switch shape {
+    case 0: {
+      return box_distance(p, vec2<f32>(0.9, 0.62));
+    }
+    case 1: {
+      return length(p) - 0.82;
+    }
+    case 2: {
+      return (abs(p.x) + abs(p.y) - 0.95) * 0.7071;
+    }
+    case 3: {
+      return box_distance(p, vec2<f32>(0.72, 0.72));
+    }
+    default: {
+      return quatrefoil_distance(p);
+    }
+  }
+}
+
+@fragment
+fn fs_main(in: VsOut) -> @location(0) vec4<f32> {
+  let d = frame_distance(in.uv, i32(in.frame.x + 0.5));
+  let aa = max(fwidth(d), 1e-4);
+  let opening = i32(in.frame.y + 0.5);
+  if ((opening == 1 && in.uv.y < 0.0) || (opening == 2 && in.uv.y > 0.0)) {
+    discard;
+  }
+  let gap = GHOST && fract(atan2(in.uv.y, in.uv.x) / 6.2831853 * GHOST_DASHES) > 0.5;
+  let edge = 1.0 - smoothstep(STROKE_WIDTH * 0.5 - aa, STROKE_WIDTH * 0.5 + aa, abs(d));
+  let stroke = select(edge, 0.0, gap);
+  let fill = select(0.0, FILL_ALPHA, d < 0.0 && !GHOST);
+  let alpha = max(stroke, fill) * in.color.a * select(1.0, GHOST_ALPHA, GHOST);
+  if (alpha < 0.01) {
+    discard;
+  }
+  return vec4<f32>(in.color.rgb, alpha);
+}
+`;
+
+export const SYMBOL_INSTANCE_FLOATS = 11;
+
+export interface SymbolPass {
+  pipeline: GPURenderPipeline;
+  ghostPipeline: GPURenderPipeline;
+  bindGroupLayout: GPUBindGroupLayout;
+  cornerBuffer: GPUBuffer;
+  cornerVertexCount: number;
+}
+
+export const createSymbolPass = (device: GPUDevice, format: GPUTextureFormat): SymbolPass => {
+  const module = device.createShaderModule({ code: symbolShader });
+  const bindGroupLayout = device.createBindGroupLayout({
+    entries: [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.VERTEX,
+        buffer: { type: "uniform" }
+      }
+    ]
+  });
+  const layout = device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] });
+  const createPipeline = (ghost: boolean): GPURenderPipeline =>
+    device.createRenderPipeline({
+      layout,
+      vertex: {
+        module,
+        entryPoint: "vs_main",
+        buffers: [
+          {
+            arrayStride: 2 * 4,
+            stepMode: "vertex",
+            attributes: [{ shaderLocation: 0, offset: 0, format: "float32x2" }]
+          },
+          {
+            arrayStride: SYMBOL_INSTANCE_FLOATS * 4,
+            stepMode: "instance",
+            attributes: [
+              { shaderLocation: 1, offset: 0, format: "float32x4" },
+              { shaderLocation: 2, offset: 4 * 4, format: "float32" },
+              { shaderLocation: 3, offset: 5 * 4, format: "float32x4" },
+              { shaderLocation: 4, offset: 9 * 4, format: "float32x2" }
+            ]
+          }
+        ]
+      },
+      fragment: {
+        module,
+        entryPoint: "fs_main",
+        constants: { GHOST: ghost ? 1 : 0 },
+        targets: [
+          {
+            format,
+            blend: {
+              color: {
+                srcFactor: "src-alpha",
+                dstFactor: "one-minus-src-alpha",
+                operation: "add"
+              },
+              alpha: {
+                srcFactor: "one",
+                dstFactor: "one-minus-src-alpha",
+                operation: "add"
+              }
+            }
+          }
+        ]
+      },
+      primitive: {
+        topology: "triangle-list",
+        cullMode: "none"
+      },
+      depthStencil: {
+        format: "depth24plus",
+        depthWriteEnabled: false,
+        depthCompare: ghost ? "greater" : "less"
+      }
+    });
+  const pipeline = createPipeline(false);
+  const ghostPipeline = createPipeline(true);
+
+  const corners = new Float32Array([
+    -1, -1, //
+    1, -1, //
+    1, 1, //
+    -1, -1, //
+    1, 1, //
+    -1, 1
+  ]);
+  const cornerBuffer = device.createBuffer({
+    size: corners.byteLength,
+    usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+  });
+  device.queue.writeBuffer(cornerBuffer, 0, corners);
+
+  return {
+    pipeline,
+    ghostPipeline,
+    bindGroupLayout,
+    cornerBuffer,
+    cornerVertexCount: 6
+  };
+};
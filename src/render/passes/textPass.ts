@@ -0,0 +1,184 @@
+import type { FontAtlas } from "../fontAtlas";
+
+const textShader = /* wgsl */ `
+struct Globals {
+  view_proj : mat4x4<f32>,
+  viewport : vec4<f32>,
+};
+
+@group(0) @binding(0)
+var<uniform> globals : Globals;
+
+@group(0) @binding(1)
+var atlasSampler : sampler;
+
+@group(0) @binding(2)
+var atlasTexture : texture_2d<f32>;
+
+struct VsOut {
+  @builtin(position) position : vec4<f32>,
+  @location(0) uv : vec2<f32>,
+  @location(1) color : vec4<f32>,
+};
+
+@vertex
+fn vs_main(
+  @location(0) corner: vec2<f32>,
+  @location(1) anchor: vec3<f32>,
+  @location(2) rect: vec4<f32>,
+  @location(3) uvRect: vec4<f32>,
+  @location(4) color: vec4<f32>
+) -> VsOut {
+  let clip = globals.view_proj * vec4<f32>(anchor, 1.0);
+  let px = rect.xy + corner * rect.zw;
+  let ndcOffset = vec2<f32>(px.x, -px.y) * 2.0 / globals.viewport.xy;
+
+  var out : VsOut;
+  out.position = select(
+    vec4<f32>(clip.xy + ndcOffset * clip.w, 0.0, clip.w),
+    vec4<f32>(0.0, 0.0, 2.0, 1.0),
+    clip.w <= 0.0
+  );
+  out.uv = mix(uvRect.xy, uvRect.zw, corner);
+  out.color = color;
+  return out;
+}
+
+@fragment
+fn fs_main(in: VsOut) -> @location(0) vec4<f32> {
+  let distance = textureSample(atlasTexture, atlasSampler, in.uv).r;
+  let aa = max(fwidth(distance) * 0.75, 1e-3);
+  let fill = smoothstep(0.5 - aa, 0.5 + aa, distance);
+  let halo = smoothstep(0.32 - aa, 0.32 + aa, distance) * 0.75;
+  let alpha = max(fill, halo) * in.color.a;
+  if (alpha <= 0.002) {
+    discard;
+  }
+  let rgb = mix(vec3<f32>(0.0, 0.03, 0.01), in.color.rgb, fill / max(max(fill, halo), 1e-4));
+  return vec4<f32>(rgb, alpha);
+}
+`;
+
+export const TEXT_GLYPH_FLOATS = 15;
+
+export interface TextPass {
+  pipeline: GPURenderPipeline;
+  bindGroupLayout: GPUBindGroupLayout;
+  cornerBuffer: GPUBuffer;
+  cornerVertexCount: number;
+  atlasTexture: GPUTexture;
+  atlasSampler: GPUSampler;
+}
+
+export const createTextPass = (device: GPUDevice, format: GPUTextureFormat, atlas: FontAtlas): TextPass => {
+  const module = device.createShaderModule({ code: textShader });
+  const bindGroupLayout = device.createBindGroupLayout({
+    entries: [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.VERTEX,
+        buffer: { type: "uniform" }
+      },
+      {
+        binding: 1,
+        visibility: GPUShaderStage.FRAGMENT,
+        sampler: { type: "filtering" }
+      },
+      {
+        binding: 2,
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: { sampleType: "float" }
+      }
+    ]
+  });
+  const pipeline = device.createRenderPipeline({
+    layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] }),
+    vertex: {
+      module,
+      entryPoint: "vs_main",
+      buffers: [
+        {
+          arrayStride: 2 * 4,
+          stepMode: "vertex",
+          attributes: [{ shaderLocation: 0, offset: 0, format: "float32x2" }]
+        },
+        {
+          arrayStride: TEXT_GLYPH_FLOATS * 4,
+          stepMode: "instance",
+          attributes: [
+            { shaderLocation: 1, offset: 0, format: "float32x3" },
+            { shaderLocation: 2, offset: 3 * 4, format: "float32x4" },
+            { shaderLocation: 3, offset: 7 * 4, format: "float32x4" },
+            { shaderLocation: 4, offset: 11 * 4, format: "float32x4" }
+          ]
+        }
+      ]
+    },
+    fragment: {
+      module,
+      entryPoint: "fs_main",
+      targets: [
+        {
+          format,
+          blend: {
+            color: {
+              srcFactor: "src-alpha",
+              dstFactor: "one-minus-src-alpha",
+              operation: "add"
+            },
+            alpha: {
+              srcFactor: "one",
+              dstFactor: "one-minus-src-alpha",
+              operation: "add"
+            }
+          }
+        }
+      ]
+    },
+    primitive: {
+      topology: "triangle-list",
+      cullMode: "none"
+    },
+    depthStencil: {
+      format: "depth24plus",
+      depthWriteEnabled: false,
+      depthCompare: "always"
+    }
+  });
+
+  const corners = new Float32Array([
+    0, 0, //
+    1, 0, //
+    1, 1, //
+    0, 0, //
+    1, 1, //
+    0, 1
+  ]);
+  const cornerBuffer = device.createBuffer({
+    size: corners.byteLength,
+    usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+  });
+  device.queue.writeBuffer(cornerBuffer, 0, corners);
+
+  const atlasTexture = device.createTexture({
+    size: { width: atlas.width, height: atlas.height },
+    format: "r8unorm",
+    usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST
+  });
+  device.queue.writeTexture(
+    { texture: atlasTexture },
+    atlas.pixels,
+    { bytesPerRow: atlas.width },
+    { width: atlas.width, height: atlas.height }
+  );
+  const atlasSampler = device.createSampler({ magFilter: "linear", minFilter: "linear" });
+
+  return {
+    pipeline,
+    bindGroupLayout,
+    cornerBuffer,
+    cornerVertexCount: 6,
+    atlasTexture,
+    atlasSampler
+  };
+};
@@ -0,0 +1,161 @@
+const trailShader = /* wgsl */ `
+struct Globals {
+  view_proj : mat4x4<f32>,
+  viewport : vec4<f32>,
+};
+
+@group(0) @binding(0)
+var<uniform> globals : Globals;
+
+override GHOST : bool = false;
+
+const GHOST_ALPHA = 0.35;
+const GHOST_DASH_PX = 8.0;
+
+struct VsOut {
+  @builtin(position) position : vec4<f32>,
+  @location(0) color : vec4<f32>,
+  @location(1) side : f32,
+  @location(2) along_px : f32,
+};
+
+@vertex
+fn vs_main(
+  @location(0) corner: vec2<f32>,
+  @location(1) start: vec4<f32>,
+  @location(2) end: vec4<f32>,
+  @location(3) colorWidth: vec4<f32>
+) -> VsOut {
+  let clipA = globals.view_proj * vec4<f32>(start.xyz, 1.0);
+  let clipB = globals.view_proj * vec4<f32>(end.xyz, 1.0);
+  let screenA = clipA.xy / max(clipA.w, 1e-6) * globals.viewport.xy;
+  let screenB = clipB.xy / max(clipB.w, 1e-6) * globals.viewport.xy;
+  let delta = screenB - screenA;
+  let dir = select(vec2<f32>(1.0, 0.0), normalize(delta), dot(delta, delta) > 1e-8);
+  let normal = vec2<f32>(-dir.y, dir.x);
+  let atEnd = corner.x > 0.5;
+  let clip = select(clipA, clipB, atEnd);
+  let offset = normal * corner.y * colorWidth.w / globals.viewport.xy * clip.w;
+  let behind = clipA.w <= 0.0 || clipB.w <= 0.0;
+
+  var out : VsOut;
+  out.position = select(vec4<f32>(clip.xy + offset, clip.zw), vec4<f32>(0.0, 0.0, 2.0, 1.0), behind);
+  out.color = vec4<f32>(colorWidth.rgb, select(start.w, end.w, atEnd));
+  out.side = corner.y;
+  out.along_px = corner.x * length(delta) * 0.5;
+  return out;
+}
+
+@fragment
+fn fs_main(in: VsOut) -> @location(0) vec4<f32> {
+  let aa = max(fwidth(in.side), 1e-4);
+  let coverage = 1.0 - smoothstep(1.0 - aa, 1.0, abs(in.side));
+  if (GHOST && fract(in.along_px / (2.0 * GHOST_DASH_PX)) > 0.5) {
+    discard;
+  }
+  return vec4<f32>(in.color.rgb, in.color.a * coverage * select(1.0, GHOST_ALPHA, GHOST));
+}
+`;
+
+export const TRAIL_SEGMENT_FLOATS = 12;
+
+export interface TrailPass {
+  pipeline: GPURenderPipeline;
+  ghostPipeline: GPURenderPipeline;
+  bindGroupLayout: GPUBindGroupLayout;
+  cornerBuffer: GPUBuffer;
+  cornerVertexCount: number;
+}
+
+export const createTrailPass = (device: GPUDevice, format: GPUTextureFormat): TrailPass => {
+  const module = device.createShaderModule({ code: trailShader });
+  const bindGroupLayout = device.createBindGroupLayout({
+    entries: [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.VERTEX,
+        buffer: { type: "uniform" }
+      }
+    ]
+  });
+  const layout = device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] });
+  const createPipeline = (ghost: boolean): GPURenderPipeline =>
+    device.createRenderPipeline({
+      layout,
+      vertex: {
+        module,
+        entryPoint: "vs_main",
+        buffers: [
+          {
+            arrayStride: 2 * 4,
+            stepMode: "vertex",
+            attributes: [{ shaderLocation: 0, offset: 0, format: "float32x2" }]
+          },
+          {
+            arrayStride: TRAIL_SEGMENT_FLOATS * 4,
+            stepMode: "instance",
+            attributes: [
+              { shaderLocation: 1, offset: 0, format: "float32x4" },
+              { shaderLocation: 2, offset: 4 * 4, format: "float32x4" },
+              { shaderLocation: 3, offset: 8 * 4, format: "float32x4" }
+            ]
+          }
+        ]
+      },
+      fragment: {
+        module,
+        entryPoint: "fs_main",
+        constants: { GHOST: ghost ? 1 : 0 },
+        targets: [
+          {
+            format,
+            blend: {
+              color: {
+                srcFactor: "src-alpha",
+                dstFactor: "one-minus-src-alpha",
+                operation: "add"
+              },
+              alpha: {
+                srcFactor: "one",
+                dstFactor: "one-minus-src-alpha",
+                operation: "add"
+              }
+            }
+          }
+        ]
+      },
+      primitive: {
+        topology: "triangle-list",
+        cullMode: "none"
+      },
+      depthStencil: {
+        format: "depth24plus",
+        depthWriteEnabled: false,
+        depthCompare: ghost ? "greater" : "less"
+      }
+    });
+  const pipeline = createPipeline(false);
+  const ghostPipeline = createPipeline(true);
+
+  const corners = new Float32Array([
+    0, -1, //
+    1, -1, //
+    1, 1, //
+    0, -1, //
+    1, 1, //
+    0, 1
+  ]);
+  const cornerBuffer = device.createBuffer({
+    size: corners.byteLength,
+    usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+  });
+  device.queue.writeBuffer(cornerBuffer, 0, corners);
+
+  return {
+    pipeline,
+    ghostPipeline,
+    bindGroupLayout,
+    cornerBuffer,
+    cornerVertexCount: 6
+  };
+};
@@ -0,0 +1,55 @@
+import type { Mat4, Vec3 } from "../core/math";
+
+export const PICK_RADIUS_PX = 12;
+
+export interface PickCandidate {
+  id: string;
+  world: Vec3;
+}
+
+export const projectToScreen = (
+  viewProj: Mat4,
+  world: Vec3,
+  widthPx: number,
+  heightPx: number
+): { x: number; y: number; w: number } | null => {
+  const [x, y, z] = world;
+  const clipX = viewProj[0] * x + viewProj[4] * y + viewProj[8] * z + viewProj[12];
+  const clipY = viewProj[1] * x + viewProj[5] * y + viewProj[9] * z + viewProj[13];
+  const clipW = viewProj[3] * x + viewProj[7] * y + viewProj[11] * z + viewProj[15];
+  if (clipW <= 1e-9) {
+    return null;
+  }
+  return {
+    x: (clipX / clipW + 1) * 0.5 * widthPx,
+    y: (1 - clipY / clipW) * 0.5 * heightPx,
+    w: clipW
+  };
+};
+
+export const pickNearest = (
+  viewProj: Mat4,
+  candidates: PickCandidate[],
+  xPx: number,
+  yPx: number,
+  widthPx: number,
+  heightPx: number,
+  radiusPx = PICK_RADIUS_PX
+): string | null => {
+  let best: string | null = null;
+  let bestDistance = radiusPx;
+  let bestDepth = Number.POSITIVE_INFINITY;
+  for (const { id, world } of candidates) {
+    const screen = projectToScreen(viewProj, world, widthPx, heightPx);
+    if (!screen) {
+      continue;
+    }
+    const distance = Math.hypot(screen.x - xPx, screen.y - yPx);
+    if (distance < bestDistance || (distance === bestDistance && screen.w < bestDepth)) {
+      best = id;
+      bestDistance = distance;
+      bestDepth = screen.w;
+    }
+  }
+  return best;
+};
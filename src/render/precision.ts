@@ -0,0 +1,17 @@
+import { mat4LookAt, mat4Multiply, sub3 } from "../core/math";
+import type { Mat4, Vec3 } from "../core/math";
+
+export interface SplitVec3 {
+  high: Vec3;
+  low: Vec3;
+}
+
+export const relativeToEye = (world: Vec3, eye: Vec3): Vec3 => sub3(world, eye);
+
+export const viewProjRelativeToEye = (projection: Mat4, eye: Vec3, target: Vec3, up: Vec3): Mat4 =>
+  mat4Multiply(projection, mat4LookAt([0, 0, 0], sub3(target, eye), up));
+
+export const splitVec3 = (v: Vec3): SplitVec3 => {
+  const high: Vec3 = [Math.fround(v[0]), Math.fround(v[1]), Math.fround(v[2])];
+  return { high, low: sub3(v, high) };
+};
@@ -0,0 +1,76 @@
+import { resolveAffiliation, resolveDimension } from "../core/schema";
+import type { Affiliation, EntityState, SymbolDimension } from "../core/schema";
+import type { SymbologyTheme } from "./types";
+
+export type FrameShape = "rectangle" | "circle" | "diamond" | "square" | "quatrefoil";
+export type FrameOpening = "none" | "bottom" | "top";
+export type Rgba = [number, number, number, number];
+
+export interface SymbolFrame {
+  shape: FrameShape;
+  opening: FrameOpening;
+}
+
+export const FRAME_SHAPES: readonly FrameShape[] = ["rectangle", "circle", "diamond", "square", "quatrefoil"];
+
+export const FRAME_OPENINGS: readonly FrameOpening[] = ["none", "bottom", "top"];
+
+export const SYMBOLOGY_THEMES: readonly SymbologyTheme[] = ["phosphor", "affiliation"];
+
+export const AFFILIATION_PALETTE: Record<Affiliation, Rgba> = {
+  friend: [0.5, 0.88, 1.0, 0.95],
+  hostile: [1.0, 0.5, 0.5, 0.95],
+  neutral: [0.67, 1.0, 0.67, 0.95],
+  unknown: [1.0, 1.0, 0.5, 0.95],
+  pending: [1.0, 1.0, 0.5, 0.95]
+};
+
+const WEAPON_PHOSPHOR_COLOR: Rgba = [1.0, 0.42, 0.2, 0.95];
+
+const DOMAIN_PHOSPHOR_COLORS: Record<EntityState["domain"], Rgba> = {
+  air: [0.6, 1.0, 0.8, 0.95],
+  ground: [0.45, 0.9, 0.4, 0.95],
+  sea: [0.45, 0.78, 1.0, 0.95],
+  space: [1.0, 0.95, 0.65, 0.95]
+};
+
+const dimensionOpening = (dimension: SymbolDimension): FrameOpening => {
+  switch (dimension) {
+    case "air":
+    case "space":
+      return "bottom";
+    case "subsurface":
+      return "top";
+    default:
+      return "none";
+  }
+};
+
+const affiliationShape = (affiliation: Affiliation, dimension: SymbolDimension): FrameShape => {
+  switch (affiliation) {
+    case "friend":
+      return dimension === "land" ? "rectangle" : "circle";
+    case "hostile":
+      return "diamond";
+    case "neutral":
+      return "square";
+    case "unknown":
+    case "pending":
+      return "quatrefoil";
+  }
+};
+
+export const symbolFrame = (affiliation: Affiliation, dimension: SymbolDimension): SymbolFrame => ({
+  shape: affiliationShape(affiliation, dimension),
+  opening: dimensionOpening(dimension)
+});
+
+export const entitySymbolFrame = (entity: EntityState): SymbolFrame =>
+  symbolFrame(resolveAffiliation(entity), resolveDimension(entity));
+
+export const entityColor = (entity: EntityState, theme: SymbologyTheme): Rgba => {
+  if (theme === "affiliation") {
+    return AFFILIATION_PALETTE[resolveAffiliation(entity)];
+  }
+  return entity.kind === "weapon" ? WEAPON_PHOSPHOR_COLOR : DOMAIN_PHOSPHOR_COLORS[entity.domain];
+};
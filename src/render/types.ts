@@ -1,9 +1,24 @@
 import type { FrameMessage } from "../core/schema";
+import type { EntityTrail } from "../core/sim";
+import type { EventEffectDurations } from "./effects";
+
+export type SymbologyTheme = "phosphor" | "affiliation";
+export type FarSideMode = "hidden" | "ghosted";
+export type FrameModel = "ecef" | "eci";
 
 export interface RenderOptions {
   showGrid: boolean;
+  showLocalGrid: boolean;
+  showCoastlines: boolean;
+  showBorders: boolean;
   showTrails: boolean;
   showEvents: boolean;
+  showLabels: boolean;
+  symbologyTheme: SymbologyTheme;
+  farSide: FarSideMode;
+  frameModel: FrameModel;
+  trailWindowSec: number | null;
+  eventEffectDurationsSec: EventEffectDurations;
 }
 
 export type CameraMode = "static" | "orbit" | "entityLock";
@@ -16,11 +31,20 @@ export interface CameraInputState {
   isInteracting: boolean;
 }
 
+export interface GroundTrack {
+  id: string;
+  pointsEcefM: [number, number, number][];
+}
+
 export interface SimulationContext {
   cameraMode: CameraMode;
   cameraTargetEntityId?: string;
   userInput: CameraInputState;
   cameraPresetRequest?: CameraPreset;
+  trails?: EntityTrail[];
+  groundTracks?: GroundTrack[];
+  selectedEntityId?: string;
+  epochUnixMs?: number;
 }
 
 export interface Renderer {
@@ -0,0 +1,36 @@
+import { ecefToWorld, llaToEcef } from "../core/math";
+import type { LatLonDeg } from "../io";
+
+export const MAP_FINE_LOD_MAX_ALTITUDE_M = 4_000_000;
+export const MAP_SEGMENT_MAX_DEG = 1;
+
+export const selectMapLod = (lods: readonly number[], cameraAltitudeM: number): number | null => {
+  if (lods.length === 0) {
+    return null;
+  }
+  return cameraAltitudeM <= MAP_FINE_LOD_MAX_ALTITUDE_M ? Math.max(...lods) : Math.min(...lods);
+};
+
+export const mapLinesToVertices = (lines: LatLonDeg[][], maxSegmentDeg = MAP_SEGMENT_MAX_DEG): Float32Array => {
+  const vertices: number[] = [];
+  for (const line of lines) {
+    let arcDeg = 0;
+    let prev = line[0];
+    let prevWorld = ecefToWorld(llaToEcef([prev[0], prev[1], 0]));
+    for (let k = 1; k < line.length; k += 1) {
+      const next = line[k];
+      const dLat = next[0] - prev[0];
+      const dLon = next[1] - prev[1];
+      const steps = Math.max(1, Math.ceil(Math.max(Math.abs(dLat), Math.abs(dLon)) / maxSegmentDeg));
+      const stepArc = Math.hypot(dLat, dLon * Math.cos(((prev[0] + next[0]) * Math.PI) / 360)) / steps;
+      for (let s = 1; s <= steps; s += 1) {
+        const world = ecefToWorld(llaToEcef([prev[0] + (dLat * s) / steps, prev[1] + (dLon * s) / steps, 0]));
+        vertices.push(...prevWorld, arcDeg, ...world, arcDeg + stepArc);
+        arcDeg += stepArc;
+        prevWorld = world;
+      }
+      prev = next;
+    }
+  }
+  return new Float32Array(vertices);
+};
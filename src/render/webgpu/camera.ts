@@ -1,3 +1,4 @@
+import { rotateAboutZ } from "../../core/math";
 import type { CameraInputState, CameraMode, CameraPreset } from "../types";
 
 const ORBIT_PERIOD_SECONDS_SOLAR = 86400;
@@ -81,6 +82,8 @@ export interface CameraState {
   up: [number, number, number];
 }
 
+export type CameraView = Pick<CameraState, "eye" | "target" | "up">;
+
 interface CameraUpdateParams {
   mode: CameraMode;
   dtSec: number;
@@ -196,6 +199,20 @@ export const applyCameraPreset = (state: CameraState, preset: CameraPreset): Cam
   };
 };
 
+export const rotateCameraState = (state: CameraState, angleRad: number): CameraState => ({
+  ...state,
+  yawRad: state.yawRad + angleRad,
+  eye: rotateAboutZ(state.eye, angleRad),
+  target: rotateAboutZ(state.target, angleRad),
+  up: rotateAboutZ(state.up, angleRad)
+});
+
+export const cameraViewAt = (state: CameraState, earthRotationRad: number): CameraView => ({
+  eye: rotateAboutZ(state.eye, -earthRotationRad),
+  target: rotateAboutZ(state.target, -earthRotationRad),
+  up: rotateAboutZ(state.up, -earthRotationRad)
+});
+
 export const updateCameraState = (prev: CameraState, params: CameraUpdateParams): CameraState => {
   const input = params.input ?? zeroInput;
   let state = prev;
@@ -1,21 +1,76 @@
 import {
+  J2000_UNIX_MS,
   WGS84_A,
   WGS84_B,
   ecefToLla,
   ecefToWorld,
+  gmstRad,
   llaToEcef,
   mat4LookAt,
   mat4Multiply,
   mat4Perspective,
-  nedBasisAtLla
+  nedBasisAtLla,
+  rotateAboutZ
 } from "../../core/math";
+import type { Mat4 } from "../../core/math";
 import type { EntityState, FrameMessage } from "../../core/schema";
-import { createGlobeGridPass, createSpritePass } from "../passes";
-import type { RenderOptions, Renderer, SimulationContext } from "../types";
-import { createInitialCameraState, updateCameraState } from "./camera";
+import type { EntityTrail } from "../../core/sim";
+import { loadVectorMap, ModelCatalog, VECTOR_MAP_URL } from "../../io";
+import type { VectorMapLayerKind } from "../../io";
+import { eventEffectAt } from "../effects";
+import type { EventEffectDurations } from "../effects";
+import { buildFontAtlas, createCanvasGlyphRasterizer } from "../fontAtlas";
+import type { FontAtlas } from "../fontAtlas";
+import {
+  GLOBAL_GRID_WINDOW,
+  GRID_LEVEL_STEPS_DEG,
+  graticuleVertices,
+  gridLabelStepDeg,
+  gridWindowAround,
+  localGridAnchor,
+  localGridSpacingM,
+  localGridVertices,
+  selectGridLevels
+} from "../grid";
+import { formatLabelAltitude, gridLabelsNear, labelCallsign, placeLabels } from "../labels";
+import type { LabelRequest } from "../labels";
+import { bodyToWorldMatrix, MODEL_MIN_RADIUS_PX, projectedRadiusPx } from "../models";
+import { isOccludedByGlobe, OCCLUDER_RADIUS, occluderRayBasis } from "../occlusion";
+import { pickNearest } from "../picking";
+import { relativeToEye, splitVec3, viewProjRelativeToEye } from "../precision";
+import {
+  createGlobeGridPass,
+  createMeshPass,
+  createOccluderPass,
+  createSpritePass,
+  createSymbolPass,
+  createTextPass,
+  createTrailPass,
+  GRID_UNIFORM_FLOATS,
+  MESH_INSTANCE_FLOATS,
+  OCCLUDER_UNIFORM_FLOATS,
+  SYMBOL_INSTANCE_FLOATS,
+  TEXT_GLYPH_FLOATS,
+  TRAIL_SEGMENT_FLOATS,
+  uploadMeshModel
+} from "../passes";
+import type { GpuMeshModel } from "../passes";
+import { entityColor, entitySymbolFrame, FRAME_OPENINGS, FRAME_SHAPES } from "../symbology";
+import type { Rgba } from "../symbology";
+import type {
+  FarSideMode,
+  FrameModel,
+  GroundTrack,
+  RenderOptions,
+  Renderer,
+  SimulationContext,
+  SymbologyTheme
+} from "../types";
+import { mapLinesToVertices, selectMapLod } from "../vectorMap";
+import { cameraViewAt, createInitialCameraState, rotateCameraState, updateCameraState } from "./camera";
+import type { CameraView } from "./camera";
 
 const INITIAL_INSTANCE_BYTES = 64 * 1024;
-const TRAIL_HISTORY = 48;
 const CHASE_BEHIND_M = 4000;
 const CHASE_ABOVE_M = 900;
 const SPRITE_INSTANCE_FLOATS = 9;
@@ -23,6 +78,25 @@ const SIZE_MODE_DEPTH_SCALED = 0;
 const SIZE_MODE_SCREEN_STABLE = 1;
 const PLATFORM_ICON_SIZE_M = 30;
 const WEAPON_ICON_SIZE_M = 8;
+const COASTING_ALPHA_SCALE = 0.4;
+const FOV_Y_RAD = (50 * Math.PI) / 180;
+const TRAIL_WIDTH_PX = 2.5;
+const TRAIL_ALPHA = 0.6;
+const FULL_HISTORY_MIN_FADE = 0.25;
+const GROUND_TRACK_WIDTH_PX = 1.5;
+const GROUND_TRACK_ALPHA = 0.45;
+const EFFECT_LINE_WIDTH_PX = 2;
+const SELECTION_COLOR = [1.0, 1.0, 1.0, 1.0];
+const SELECTION_RING_SCALE = 1.9;
+const GRID_COLOR: [number, number, number, number] = [0.52, 0.98, 0.62, 0.7];
+const COASTLINE_COLOR: [number, number, number, number] = [0.66, 1.0, 0.72, 0.95];
+const BORDER_COLOR: [number, number, number, number] = [0.42, 0.78, 0.5, 0.6];
+const LOCAL_GRID_COLOR: [number, number, number, number] = [0.98, 0.86, 0.42, 0.55];
+const ENTITY_LABEL_OFFSET_PX: [number, number] = [12, 0];
+const LABEL_PRIORITY_SELECTED = 3;
+const LABEL_PRIORITY_PLATFORM = 2;
+const LABEL_PRIORITY_WEAPON = 1;
+const LABEL_PRIORITY_GRID = 0;
 
 const asGpuSource = (data: Float32Array): GPUAllowSharedBufferSource => {
   if (data.buffer instanceof ArrayBuffer && data.byteOffset === 0 && data.byteLength === data.buffer.byteLength) {
@@ -33,33 +107,49 @@ const asGpuSource = (data: Float32Array): GPUAllowSharedBufferSource => {
   return bytes.buffer;
 };
 
-const domainColor = (entity: EntityState): [number, number, number, number] => {
-  if (entity.kind === "weapon") {
-    return [1.0, 0.42, 0.2, 0.95];
-  }
-  switch (entity.domain) {
-    case "air":
-      return [0.6, 1.0, 0.8, 0.95];
-    case "ground":
-      return [0.45, 0.9, 0.4, 0.95];
-    case "sea":
-      return [0.45, 0.78, 1.0, 0.95];
-    case "space":
-      return [1.0, 0.95, 0.65, 0.95];
+const concatFloat32 = (a: Float32Array, b: Float32Array): Float32Array => {
+  if (b.length === 0) {
+    return a;
   }
+  const out = new Float32Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
 };
 
 const depthSpriteWorldSize = (entity: EntityState): number =>
   (entity.kind === "weapon" ? WEAPON_ICON_SIZE_M : PLATFORM_ICON_SIZE_M) / WGS84_A;
 type Vec3 = [number, number, number];
-type RuntimeRenderableEntityState = EntityState & { positionEcefM?: Vec3 };
+type RuntimeRenderableEntityState = EntityState & { positionEcefM?: Vec3; coasting?: boolean };
 type WorldEntity = { entity: RuntimeRenderableEntityState; world: Vec3; ecef: Vec3 };
+type MeshBatch = { model: GpuMeshModel; items: WorldEntity[] };
+type MapLineBuffer = { kind: VectorMapLayerKind; lod: number; vertexBuffer: GPUBuffer; vertexCount: number };
+type GridLayer = {
+  key: string;
+  vertexBuffer: GPUBuffer | null;
+  vertexCount: number;
+  uniformBuffer: GPUBuffer;
+  bindGroup: GPUBindGroup;
+  color: Rgba;
+};
+type OverlayLayers = {
+  grid: GridLayer[];
+  mapLines: MapLineBuffer[];
+  trailSegments: number;
+  effectLineSegments: number;
+  eventSprites: number;
+  entitySymbols: number;
+};
 export interface CameraDebugData {
   chaseEnabled: boolean;
   eyeEcefM: Vec3;
   rangeToTargetM: number;
 }
 
+export interface WebGpuRendererOptions {
+  onWarning?: (message: string) => void;
+}
+
 const add3 = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
 const scale3 = (v: Vec3, s: number): Vec3 => [v[0] * s, v[1] * s, v[2] * s];
 const dot3 = (a: Vec3, b: Vec3): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
@@ -125,38 +215,104 @@ export class WebGpuCombatRenderer implements Renderer {
 
   private format: GPUTextureFormat | null = null;
 
+  private occluderPass: ReturnType<typeof createOccluderPass> | null = null;
+
   private globePass: ReturnType<typeof createGlobeGridPass> | null = null;
 
   private spritePass: ReturnType<typeof createSpritePass> | null = null;
 
-  private globeUniformBuffer: GPUBuffer | null = null;
+  private symbolPass: ReturnType<typeof createSymbolPass> | null = null;
+
+  private meshPass: ReturnType<typeof createMeshPass> | null = null;
+
+  private trailPass: ReturnType<typeof createTrailPass> | null = null;
+
+  private textPass: ReturnType<typeof createTextPass> | null = null;
+
+  private fontAtlas: FontAtlas | null = null;
+
+  private occluderUniformBuffer: GPUBuffer | null = null;
+
+  private coastlineUniformBuffer: GPUBuffer | null = null;
+
+  private borderUniformBuffer: GPUBuffer | null = null;
 
   private spriteUniformBuffer: GPUBuffer | null = null;
 
-  private globeBindGroup: GPUBindGroup | null = null;
+  private meshUniformBuffer: GPUBuffer | null = null;
+
+  private screenUniformBuffer: GPUBuffer | null = null;
+
+  private occluderBindGroup: GPUBindGroup | null = null;
+
+  private coastlineBindGroup: GPUBindGroup | null = null;
+
+  private borderBindGroup: GPUBindGroup | null = null;
 
   private spriteBindGroup: GPUBindGroup | null = null;
 
+  private symbolBindGroup: GPUBindGroup | null = null;
+
+  private meshBindGroup: GPUBindGroup | null = null;
+
+  private trailBindGroup: GPUBindGroup | null = null;
+
+  private textBindGroup: GPUBindGroup | null = null;
+
   private entityInstanceBuffer: GPUBuffer | null = null;
 
   private trailInstanceBuffer: GPUBuffer | null = null;
 
   private eventInstanceBuffer: GPUBuffer | null = null;
 
+  private meshInstanceBuffer: GPUBuffer | null = null;
+
+  private effectLineInstanceBuffer: GPUBuffer | null = null;
+
+  private textInstanceBuffer: GPUBuffer | null = null;
+
   private entityInstanceCapacityBytes = 0;
 
   private trailInstanceCapacityBytes = 0;
 
   private eventInstanceCapacityBytes = 0;
 
+  private meshInstanceCapacityBytes = 0;
+
+  private effectLineInstanceCapacityBytes = 0;
+
+  private textInstanceCapacityBytes = 0;
+
   private depthTexture: GPUTexture | null = null;
 
   private cameraState = createInitialCameraState();
 
-  private trails = new Map<string, [number, number, number][]>();
+  private viewCamera: CameraView = createInitialCameraState();
+
+  private lastFrameModel: FrameModel = "ecef";
+
+  private earthRotationRad = 0;
+
+  private lastViewProj: Mat4 | null = null;
+
+  private lastWorldEntities: WorldEntity[] = [];
+
+  private lastFarSide: FarSideMode = "hidden";
+
+  private readonly onWarning: (message: string) => void;
 
-  constructor(canvas: HTMLCanvasElement) {
+  private readonly models: ModelCatalog;
+
+  private readonly gpuModels = new Map<string, GpuMeshModel>();
+
+  private mapLines: MapLineBuffer[] = [];
+
+  private gridLayers: GridLayer[] = [];
+
+  constructor(canvas: HTMLCanvasElement, options: WebGpuRendererOptions = {}) {
     this.canvas = canvas;
+    this.onWarning = options.onWarning ?? (() => undefined);
+    this.models = new ModelCatalog({ onWarning: (message) => this.onWarning(`Models: ${message}`) });
   }
 
   isReady(): boolean {
@@ -186,6 +342,8 @@ export class WebGpuCombatRenderer implements Renderer {
     this.createPasses();
     this.createUniforms();
     this.createInstanceBuffers();
+    void this.models.loadManifest();
+    void this.loadVectorMap();
     this.resize(this.canvas.clientWidth || 1, this.canvas.clientHeight || 1);
   }
 
@@ -202,13 +360,35 @@ export class WebGpuCombatRenderer implements Renderer {
   }
 
   render(frame: FrameMessage, dtSec: number, options: RenderOptions, simContext: SimulationContext): void {
-    if (!this.device || !this.context || !this.format || !this.globePass || !this.spritePass) {
+    if (
+      !this.device ||
+      !this.context ||
+      !this.format ||
+      !this.occluderPass ||
+      !this.globePass ||
+      !this.spritePass ||
+      !this.symbolPass ||
+      !this.meshPass ||
+      !this.trailPass ||
+      !this.textPass
+    ) {
       return;
     }
 
+    const epochUnixMs = simContext.epochUnixMs ?? J2000_UNIX_MS;
+    const inertialRotationAt = (t: number): number =>
+      options.frameModel === "eci" ? gmstRad(epochUnixMs + t * 1000) : 0;
+    const earthRotationRad = inertialRotationAt(frame.t);
+    if (options.frameModel !== this.lastFrameModel) {
+      this.cameraState = rotateCameraState(this.cameraState, earthRotationRad - this.earthRotationRad);
+      this.lastFrameModel = options.frameModel;
+    }
+    this.earthRotationRad = earthRotationRad;
+    const toDisplay = (world: Vec3): Vec3 => rotateAboutZ(world, earthRotationRad);
+
     const worldEntities = this.toWorldEntities(frame.entities);
     const lockEntity = this.resolveEntityLockTarget(worldEntities, simContext.cameraTargetEntityId);
-    const entityLockTarget = lockEntity?.world ?? null;
+    const entityLockTarget = lockEntity ? toDisplay(lockEntity.world) : null;
     const chasePose = lockEntity ? this.buildChasePose(lockEntity) : null;
     this.cameraState = updateCameraState(this.cameraState, {
       mode: simContext.cameraMode,
@@ -216,23 +396,49 @@ export class WebGpuCombatRenderer implements Renderer {
       input: simContext.userInput,
       presetRequest: simContext.cameraPresetRequest,
       entityLockTarget,
-      chasePose
+      chasePose: chasePose && {
+        ...chasePose,
+        eye: toDisplay(chasePose.eye),
+        target: toDisplay(chasePose.target),
+        up: toDisplay(chasePose.up)
+      }
     });
+    this.viewCamera = cameraViewAt(this.cameraState, earthRotationRad);
     const aspect = this.canvas.width / this.canvas.height;
     const nearPlane = this.computeNearPlane();
-    const projection = mat4Perspective((50 * Math.PI) / 180, aspect, nearPlane, 100);
-    const view = mat4LookAt(this.cameraState.eye, this.cameraState.target, this.cameraState.up);
-    const viewProj = mat4Multiply(projection, view);
-
-    this.writeUniforms(viewProj);
-
-    const entityData = this.buildEntityInstances(worldEntities);
-    const trailData = this.buildTrailInstances(worldEntities);
-    const eventData = this.buildEventInstances(frame);
+    const projection = mat4Perspective(FOV_Y_RAD, aspect, nearPlane, 100);
+    const { eye, target, up } = this.viewCamera;
+    const viewProj = mat4Multiply(projection, mat4LookAt(eye, target, up));
+    const gridLayers = this.updateGridLayers(options);
+
+    this.writeUniforms(viewProjRelativeToEye(projection, eye, target, up), aspect);
+    this.lastViewProj = viewProj;
+    this.lastWorldEntities = worldEntities;
+    this.lastFarSide = options.farSide;
+
+    const { sprites, meshBatches } = this.partitionByModel(worldEntities);
+    const selected = worldEntities.find((item) => item.entity.id === simContext.selectedEntityId) ?? null;
+    const entityData = this.buildEntityInstances(sprites, selected, options.symbologyTheme, eye);
+    const meshData = this.buildMeshInstances(meshBatches, options.symbologyTheme, eye);
+    const trailData = options.showTrails
+      ? this.buildTrailInstances(worldEntities, simContext.trails ?? [], frame.t, options, eye, (pointT) =>
+          inertialRotationAt(pointT) - earthRotationRad
+        )
+      : new Float32Array(0);
+    const groundTrackData = this.buildGroundTrackInstances(worldEntities, simContext.groundTracks ?? [], options, eye);
+    const { sprites: eventData, lines: effectLineData } = options.showEvents
+      ? this.buildEventInstances(frame, options.eventEffectDurationsSec, eye)
+      : { sprites: new Float32Array(0), lines: new Float32Array(0) };
+    const textData = options.showLabels
+      ? this.buildLabelInstances(viewProj, worldEntities, simContext.selectedEntityId, options)
+      : new Float32Array(0);
 
     this.writeInstanceData("entity", entityData);
-    this.writeInstanceData("trail", trailData);
+    this.writeInstanceData("trail", concatFloat32(trailData, groundTrackData));
     this.writeInstanceData("event", eventData);
+    this.writeInstanceData("mesh", meshData);
+    this.writeInstanceData("effectLine", effectLineData);
+    this.writeInstanceData("text", textData);
 
     const encoder = this.device.createCommandEncoder();
     const pass = encoder.beginRenderPass({
@@ -254,39 +460,56 @@ export class WebGpuCombatRenderer implements Renderer {
         : undefined
     });
 
-    if (options.showGrid) {
-      pass.setPipeline(this.globePass.pipeline);
-      pass.setBindGroup(0, this.globeBindGroup!);
-      pass.setVertexBuffer(0, this.globePass.vertexBuffer);
-      pass.draw(this.globePass.vertexCount, 1, 0, 0);
+    pass.setPipeline(this.occluderPass.pipeline);
+    pass.setBindGroup(0, this.occluderBindGroup!);
+    pass.draw(this.occluderPass.vertexCount, 1, 0, 0);
+
+    const layers: OverlayLayers = {
+      grid: gridLayers,
+      mapLines: this.visibleMapLines(options),
+      trailSegments: (trailData.length + groundTrackData.length) / TRAIL_SEGMENT_FLOATS,
+      effectLineSegments: effectLineData.length / TRAIL_SEGMENT_FLOATS,
+      eventSprites: eventData.length / SPRITE_INSTANCE_FLOATS,
+      entitySymbols: entityData.length / SYMBOL_INSTANCE_FLOATS
+    };
+    if (options.farSide === "ghosted") {
+      this.drawOverlayLayers(pass, layers, true);
     }
 
-    pass.setPipeline(this.spritePass.pipeline);
-    pass.setBindGroup(0, this.spriteBindGroup!);
-    pass.setVertexBuffer(0, this.spritePass.cornerBuffer);
-
-    if (options.showTrails && trailData.length > 0) {
-      pass.setVertexBuffer(1, this.trailInstanceBuffer!);
-      pass.draw(this.spritePass.cornerVertexCount, trailData.length / SPRITE_INSTANCE_FLOATS, 0, 0);
+    if (meshBatches.length > 0) {
+      this.drawMeshBatches(pass, meshBatches);
     }
 
-    if (entityData.length > 0) {
-      pass.setVertexBuffer(1, this.entityInstanceBuffer!);
-      pass.draw(this.spritePass.cornerVertexCount, entityData.length / SPRITE_INSTANCE_FLOATS, 0, 0);
-    }
+    this.drawOverlayLayers(pass, layers, false);
 
-    if (options.showEvents && eventData.length > 0) {
-      pass.setVertexBuffer(1, this.eventInstanceBuffer!);
-      pass.draw(this.spritePass.cornerVertexCount, eventData.length / SPRITE_INSTANCE_FLOATS, 0, 0);
+    if (textData.length > 0) {
+      pass.setPipeline(this.textPass.pipeline);
+      pass.setBindGroup(0, this.textBindGroup!);
+      pass.setVertexBuffer(0, this.textPass.cornerBuffer);
+      pass.setVertexBuffer(1, this.textInstanceBuffer!);
+      pass.draw(this.textPass.cornerVertexCount, textData.length / TEXT_GLYPH_FLOATS, 0, 0);
     }
 
     pass.end();
     this.device.queue.submit([encoder.finish()]);
   }
 
+  pickEntity(xCssPx: number, yCssPx: number): string | null {
+    if (!this.lastViewProj) {
+      return null;
+    }
+    const eye = this.viewCamera.eye;
+    const candidates = this.lastWorldEntities
+      .filter(({ world }) => this.lastFarSide === "ghosted" || !isOccludedByGlobe(eye, world, OCCLUDER_RADIUS))
+      .map(({ entity, world }) => ({ id: entity.id, world }));
+    const width = this.canvas.clientWidth || this.canvas.width;
+    const height = this.canvas.clientHeight || this.canvas.height;
+    return pickNearest(this.lastViewProj, candidates, xCssPx, yCssPx, width, height);
+  }
+
   getCameraDebugData(): CameraDebugData {
-    const eyeEcef = worldToEcef(this.cameraState.eye);
-    const targetEcef = worldToEcef(this.cameraState.target);
+    const eyeEcef = worldToEcef(this.viewCamera.eye);
+    const targetEcef = worldToEcef(this.viewCamera.target);
     const rangeFallback = Math.hypot(
       eyeEcef[0] - targetEcef[0],
       eyeEcef[1] - targetEcef[1],
@@ -317,30 +540,100 @@ export class WebGpuCombatRenderer implements Renderer {
     if (!this.device || !this.format) {
       return;
     }
+    this.occluderPass = createOccluderPass(this.device, this.format);
     this.globePass = createGlobeGridPass(this.device, this.format);
     this.spritePass = createSpritePass(this.device, this.format);
+    this.symbolPass = createSymbolPass(this.device, this.format);
+    this.meshPass = createMeshPass(this.device, this.format);
+    this.trailPass = createTrailPass(this.device, this.format);
+    this.fontAtlas = buildFontAtlas(createCanvasGlyphRasterizer());
+    this.textPass = createTextPass(this.device, this.format, this.fontAtlas);
   }
 
   private createUniforms(): void {
-    if (!this.device || !this.globePass || !this.spritePass) {
+    if (
+      !this.device ||
+      !this.occluderPass ||
+      !this.globePass ||
+      !this.spritePass ||
+      !this.symbolPass ||
+      !this.meshPass ||
+      !this.trailPass ||
+      !this.textPass
+    ) {
       return;
     }
-    this.globeUniformBuffer = this.device.createBuffer({
-      size: (16 + 4) * 4,
+    this.occluderUniformBuffer = this.device.createBuffer({
+      size: OCCLUDER_UNIFORM_FLOATS * 4,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+    });
+    this.coastlineUniformBuffer = this.device.createBuffer({
+      size: GRID_UNIFORM_FLOATS * 4,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+    });
+    this.borderUniformBuffer = this.device.createBuffer({
+      size: GRID_UNIFORM_FLOATS * 4,
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
     });
     this.spriteUniformBuffer = this.device.createBuffer({
       size: 16 * 4,
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
     });
-    this.globeBindGroup = this.device.createBindGroup({
+    this.meshUniformBuffer = this.device.createBuffer({
+      size: (16 + 4) * 4,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+    });
+    this.screenUniformBuffer = this.device.createBuffer({
+      size: (16 + 4) * 4,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+    });
+    this.occluderBindGroup = this.device.createBindGroup({
+      layout: this.occluderPass.bindGroupLayout,
+      entries: [{ binding: 0, resource: { buffer: this.occluderUniformBuffer } }]
+    });
+    this.coastlineBindGroup = this.device.createBindGroup({
+      layout: this.globePass.bindGroupLayout,
+      entries: [{ binding: 0, resource: { buffer: this.coastlineUniformBuffer } }]
+    });
+    this.borderBindGroup = this.device.createBindGroup({
       layout: this.globePass.bindGroupLayout,
-      entries: [{ binding: 0, resource: { buffer: this.globeUniformBuffer } }]
+      entries: [{ binding: 0, resource: { buffer: this.borderUniformBuffer } }]
     });
     this.spriteBindGroup = this.device.createBindGroup({
       layout: this.spritePass.bindGroupLayout,
       entries: [{ binding: 0, resource: { buffer: this.spriteUniformBuffer } }]
     });
+    this.symbolBindGroup = this.device.createBindGroup({
+      layout: this.symbolPass.bindGroupLayout,
+      entries: [{ binding: 0, resource: { buffer: this.spriteUniformBuffer } }]
+    });
+    this.meshBindGroup = this.device.createBindGroup({
+      layout: this.meshPass.bindGroupLayout,
+      entries: [{ binding: 0, resource: { buffer: this.meshUniformBuffer } }]
+    });
+    this.trailBindGroup = this.device.createBindGroup({
+      layout: this.trailPass.bindGroupLayout,
+      entries: [{ binding: 0, resource: { buffer: this.screenUniformBuffer } }]
+    });
+    this.textBindGroup = this.device.createBindGroup({
+      layout: this.textPass.bindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.screenUniformBuffer } },
+        { binding: 1, resource: this.textPass.atlasSampler },
+        { binding: 2, resource: this.textPass.atlasTexture.createView() }
+      ]
+    });
+    this.gridLayers = Array.from({ length: GRID_LEVEL_STEPS_DEG.length + 1 }, () => {
+      const uniformBuffer = this.device!.createBuffer({
+        size: GRID_UNIFORM_FLOATS * 4,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+      });
+      const bindGroup = this.device!.createBindGroup({
+        layout: this.globePass!.bindGroupLayout,
+        entries: [{ binding: 0, resource: { buffer: uniformBuffer } }]
+      });
+      return { key: "", vertexBuffer: null, vertexCount: 0, uniformBuffer, bindGroup, color: GRID_COLOR };
+    });
   }
 
   private createInstanceBuffers(): void {
@@ -359,9 +652,24 @@ export class WebGpuCombatRenderer implements Renderer {
       size: INITIAL_INSTANCE_BYTES,
       usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
     });
+    this.meshInstanceBuffer = this.device.createBuffer({
+      size: INITIAL_INSTANCE_BYTES,
+      usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+    });
+    this.effectLineInstanceBuffer = this.device.createBuffer({
+      size: INITIAL_INSTANCE_BYTES,
+      usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+    });
+    this.textInstanceBuffer = this.device.createBuffer({
+      size: INITIAL_INSTANCE_BYTES,
+      usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+    });
     this.entityInstanceCapacityBytes = INITIAL_INSTANCE_BYTES;
     this.trailInstanceCapacityBytes = INITIAL_INSTANCE_BYTES;
     this.eventInstanceCapacityBytes = INITIAL_INSTANCE_BYTES;
+    this.meshInstanceCapacityBytes = INITIAL_INSTANCE_BYTES;
+    this.effectLineInstanceCapacityBytes = INITIAL_INSTANCE_BYTES;
+    this.textInstanceCapacityBytes = INITIAL_INSTANCE_BYTES;
   }
 
   private createDepthTexture(width: number, height: number): void {
@@ -376,80 +684,467 @@ export class WebGpuCombatRenderer implements Renderer {
     });
   }
 
-  private writeUniforms(viewProj: Float32Array): void {
-    if (!this.device || !this.globeUniformBuffer || !this.spriteUniformBuffer) {
+  private writeUniforms(viewProjRte: Float32Array, aspect: number): void {
+    if (
+      !this.device ||
+      !this.occluderUniformBuffer ||
+      !this.coastlineUniformBuffer ||
+      !this.borderUniformBuffer ||
+      !this.spriteUniformBuffer ||
+      !this.meshUniformBuffer ||
+      !this.screenUniformBuffer
+    ) {
+      return;
+    }
+    const { eye, target, up } = this.viewCamera;
+    const basis = occluderRayBasis(eye, target, up, FOV_Y_RAD, aspect);
+    const occluderData = new Float32Array(OCCLUDER_UNIFORM_FLOATS);
+    occluderData.set(viewProjRte, 0);
+    occluderData.set([...eye, OCCLUDER_RADIUS, ...basis.right, 0, ...basis.up, 0, ...basis.forward, 0], 16);
+    const origin = splitVec3(eye);
+    const gridData = (color: readonly number[]): Float32Array => {
+      const data = new Float32Array(GRID_UNIFORM_FLOATS);
+      data.set(viewProjRte, 0);
+      data.set(color, 16);
+      data.set([...origin.high, 0, ...origin.low, 0], 20);
+      return data;
+    };
+    const meshData = new Float32Array(20);
+    meshData.set(viewProjRte, 0);
+    meshData.set([0, 0, 0, 1], 16);
+    const screenData = new Float32Array(20);
+    screenData.set(viewProjRte, 0);
+    screenData.set([this.canvas.width, this.canvas.height, 0, 0], 16);
+    this.device.queue.writeBuffer(this.occluderUniformBuffer, 0, asGpuSource(occluderData));
+    for (const layer of this.gridLayers) {
+      this.device.queue.writeBuffer(layer.uniformBuffer, 0, asGpuSource(gridData(layer.color)));
+    }
+    this.device.queue.writeBuffer(this.coastlineUniformBuffer, 0, asGpuSource(gridData(COASTLINE_COLOR)));
+    this.device.queue.writeBuffer(this.borderUniformBuffer, 0, asGpuSource(gridData(BORDER_COLOR)));
+    this.device.queue.writeBuffer(this.spriteUniformBuffer, 0, asGpuSource(viewProjRte));
+    this.device.queue.writeBuffer(this.meshUniformBuffer, 0, asGpuSource(meshData));
+    this.device.queue.writeBuffer(this.screenUniformBuffer, 0, asGpuSource(screenData));
+  }
+
+  private async loadVectorMap(): Promise<void> {
+    try {
+      const layers = await loadVectorMap();
+      if (!this.device) {
+        return;
+      }
+      for (const { kind, lod, lines } of layers) {
+        const vertices = mapLinesToVertices(lines);
+        if (vertices.length === 0) {
+          continue;
+        }
+        const vertexBuffer = this.device.createBuffer({
+          size: vertices.byteLength,
+          usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+        });
+        this.device.queue.writeBuffer(vertexBuffer, 0, asGpuSource(vertices));
+        this.mapLines.push({ kind, lod, vertexBuffer, vertexCount: vertices.length / 4 });
+      }
+    } catch (error) {
+      this.onWarning(`Map: ${VECTOR_MAP_URL} unavailable, drawing the grid only (${String(error)})`);
+    }
+  }
+
+  private cameraAltitudeM(): number {
+    const eye = this.viewCamera.eye;
+    return (Math.hypot(eye[0], eye[1], eye[2]) - 1) * WGS84_A;
+  }
+
+  private updateGridLayers(options: RenderOptions): GridLayer[] {
+    const altitudeM = this.cameraAltitudeM();
+    const [lat, lon] = ecefToLla(worldToEcef(this.viewCamera.target));
+    const visible: GridLayer[] = [];
+    if (options.showGrid) {
+      for (const { stepDeg, alpha, weight } of selectGridLevels(altitudeM)) {
+        const index = GRID_LEVEL_STEPS_DEG.indexOf(stepDeg);
+        const window = index === 0 ? GLOBAL_GRID_WINDOW : gridWindowAround(lat, lon, stepDeg, altitudeM);
+        const layer = this.gridLayers[index];
+        this.ensureGridVertices(layer, JSON.stringify(window), () =>
+          graticuleVertices(stepDeg, window, GRID_LEVEL_STEPS_DEG[index - 1])
+        );
+        layer.color = [GRID_COLOR[0], GRID_COLOR[1], GRID_COLOR[2], GRID_COLOR[3] * alpha * weight];
+        visible.push(layer);
+      }
+    }
+    const spacingM = options.showLocalGrid ? localGridSpacingM(altitudeM) : null;
+    if (spacingM !== null) {
+      const [anchorLat, anchorLon] = localGridAnchor(lat, lon, spacingM);
+      const layer = this.gridLayers[GRID_LEVEL_STEPS_DEG.length];
+      this.ensureGridVertices(layer, `${spacingM}:${anchorLat}:${anchorLon}`, () =>
+        localGridVertices(anchorLat, anchorLon, spacingM)
+      );
+      layer.color = LOCAL_GRID_COLOR;
+      visible.push(layer);
+    }
+    return visible;
+  }
+
+  private ensureGridVertices(layer: GridLayer, key: string, build: () => Float32Array): void {
+    if (!this.device || (layer.key === key && layer.vertexBuffer)) {
+      return;
+    }
+    const vertices = build();
+    layer.vertexBuffer?.destroy();
+    layer.vertexBuffer = this.device.createBuffer({
+      size: Math.max(16, vertices.byteLength),
+      usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+    });
+    this.device.queue.writeBuffer(layer.vertexBuffer, 0, asGpuSource(vertices));
+    layer.key = key;
+    layer.vertexCount = vertices.length / 4;
+  }
+
+  private visibleMapLines(options: RenderOptions): MapLineBuffer[] {
+    const altitudeM = this.cameraAltitudeM();
+    const visible: MapLineBuffer[] = [];
+    for (const kind of ["coastline", "border"] as const) {
+      if ((kind === "coastline" && !options.showCoastlines) || (kind === "border" && !options.showBorders)) {
+        continue;
+      }
+      const candidates = this.mapLines.filter((layer) => layer.kind === kind);
+      const lod = selectMapLod(candidates.map((layer) => layer.lod), altitudeM);
+      visible.push(...candidates.filter((layer) => layer.lod === lod));
+    }
+    return visible;
+  }
+
+  private drawOverlayLayers(pass: GPURenderPassEncoder, layers: OverlayLayers, ghost: boolean): void {
+    if (!this.globePass || !this.trailPass || !this.spritePass || !this.symbolPass) {
       return;
     }
-    const globeData = new Float32Array(20);
-    globeData.set(viewProj, 0);
-    globeData.set([0.52, 0.98, 0.62, 0.7], 16);
-    this.device.queue.writeBuffer(this.globeUniformBuffer, 0, asGpuSource(globeData));
-    this.device.queue.writeBuffer(this.spriteUniformBuffer, 0, asGpuSource(viewProj));
+    for (const { vertexBuffer, vertexCount, bindGroup } of layers.grid) {
+      if (!vertexBuffer || vertexCount === 0) {
+        continue;
+      }
+      pass.setPipeline(ghost ? this.globePass.ghostPipeline : this.globePass.pipeline);
+      pass.setBindGroup(0, bindGroup);
+      pass.setVertexBuffer(0, vertexBuffer);
+      pass.draw(vertexCount, 1, 0, 0);
+    }
+
+    for (const { kind, vertexBuffer, vertexCount } of layers.mapLines) {
+      pass.setPipeline(ghost ? this.globePass.ghostPipeline : this.globePass.pipeline);
+      pass.setBindGroup(0, kind === "coastline" ? this.coastlineBindGroup! : this.borderBindGroup!);
+      pass.setVertexBuffer(0, vertexBuffer);
+      pass.draw(vertexCount, 1, 0, 0);
+    }
+
+    if (layers.trailSegments > 0) {
+      pass.setPipeline(ghost ? this.trailPass.ghostPipeline : this.trailPass.pipeline);
+      pass.setBindGroup(0, this.trailBindGroup!);
+      pass.setVertexBuffer(0, this.trailPass.cornerBuffer);
+      pass.setVertexBuffer(1, this.trailInstanceBuffer!);
+      pass.draw(this.trailPass.cornerVertexCount, layers.trailSegments, 0, 0);
+    }
+
+    if (layers.effectLineSegments > 0) {
+      pass.setPipeline(ghost ? this.trailPass.ghostPipeline : this.trailPass.pipeline);
+      pass.setBindGroup(0, this.trailBindGroup!);
+      pass.setVertexBuffer(0, this.trailPass.cornerBuffer);
+      pass.setVertexBuffer(1, this.effectLineInstanceBuffer!);
+      pass.draw(this.trailPass.cornerVertexCount, layers.effectLineSegments, 0, 0);
+    }
+
+    if (layers.eventSprites > 0) {
+      pass.setPipeline(ghost ? this.spritePass.ghostPipeline : this.spritePass.pipeline);
+      pass.setBindGroup(0, this.spriteBindGroup!);
+      pass.setVertexBuffer(0, this.spritePass.cornerBuffer);
+      pass.setVertexBuffer(1, this.eventInstanceBuffer!);
+      pass.draw(this.spritePass.cornerVertexCount, layers.eventSprites, 0, 0);
+    }
+
+    if (layers.entitySymbols > 0) {
+      pass.setPipeline(ghost ? this.symbolPass.ghostPipeline : this.symbolPass.pipeline);
+      pass.setBindGroup(0, this.symbolBindGroup!);
+      pass.setVertexBuffer(0, this.symbolPass.cornerBuffer);
+      pass.setVertexBuffer(1, this.entityInstanceBuffer!);
+      pass.draw(this.symbolPass.cornerVertexCount, layers.entitySymbols, 0, 0);
+    }
   }
 
-  private buildEntityInstances(worldEntities: WorldEntity[]): Float32Array {
-    const data = new Float32Array(worldEntities.length * SPRITE_INSTANCE_FLOATS);
+  private buildEntityInstances(
+    worldEntities: WorldEntity[],
+    selected: WorldEntity | null,
+    theme: SymbologyTheme,
+    eye: Vec3
+  ): Float32Array {
+    const data = new Float32Array((worldEntities.length + (selected ? 1 : 0)) * SYMBOL_INSTANCE_FLOATS);
     let i = 0;
     for (const { entity, world } of worldEntities) {
-      const color = domainColor(entity);
+      const color = entityColor(entity, theme);
+      const frame = entitySymbolFrame(entity);
+      const alpha = entity.coasting ? color[3] * COASTING_ALPHA_SCALE : color[3];
+      const position = relativeToEye(world, eye);
       data.set(
         [
-          world[0],
-          world[1],
-          world[2],
+          position[0],
+          position[1],
+          position[2],
           depthSpriteWorldSize(entity),
           SIZE_MODE_DEPTH_SCALED,
           color[0],
           color[1],
           color[2],
-          color[3]
+          alpha,
+          FRAME_SHAPES.indexOf(frame.shape),
+          FRAME_OPENINGS.indexOf(frame.opening)
+        ],
+        i
+      );
+      i += SYMBOL_INSTANCE_FLOATS;
+    }
+    if (selected) {
+      data.set(
+        [
+          ...relativeToEye(selected.world, eye),
+          depthSpriteWorldSize(selected.entity) * SELECTION_RING_SCALE,
+          SIZE_MODE_DEPTH_SCALED,
+          ...SELECTION_COLOR,
+          FRAME_SHAPES.indexOf("circle"),
+          FRAME_OPENINGS.indexOf("none")
         ],
         i
       );
-      i += SPRITE_INSTANCE_FLOATS;
     }
     return data;
   }
 
-  private buildTrailInstances(worldEntities: WorldEntity[]): Float32Array {
-    for (const { entity, world } of worldEntities) {
-      const history = this.trails.get(entity.id) ?? [];
-      history.push(world);
-      if (history.length > TRAIL_HISTORY) {
-        history.splice(0, history.length - TRAIL_HISTORY);
+  private resolveGpuModel(modelId: string): GpuMeshModel | null {
+    const cached = this.gpuModels.get(modelId);
+    if (cached || !this.device) {
+      return cached ?? null;
+    }
+    const model = this.models.get(modelId);
+    if (!model) {
+      return null;
+    }
+    const uploaded = uploadMeshModel(this.device, model);
+    this.gpuModels.set(modelId, uploaded);
+    return uploaded;
+  }
+
+  private partitionByModel(worldEntities: WorldEntity[]): { sprites: WorldEntity[]; meshBatches: MeshBatch[] } {
+    const sprites: WorldEntity[] = [];
+    const batches = new Map<string, MeshBatch>();
+    for (const item of worldEntities) {
+      const model = this.resolveGpuModel(item.entity.modelId);
+      const distanceM = Math.sqrt(distSq3(item.world, this.viewCamera.eye)) * WGS84_A;
+      if (!model || projectedRadiusPx(model.radiusM, distanceM, FOV_Y_RAD, this.canvas.height) < MODEL_MIN_RADIUS_PX) {
+        sprites.push(item);
+        continue;
       }
-      this.trails.set(entity.id, history);
+      const batch = batches.get(item.entity.modelId) ?? { model, items: [] };
+      batch.items.push(item);
+      batches.set(item.entity.modelId, batch);
     }
+    return { sprites, meshBatches: [...batches.values()] };
+  }
+
+  private buildMeshInstances(batches: MeshBatch[], theme: SymbologyTheme, eye: Vec3): Float32Array {
+    const count = batches.reduce((sum, batch) => sum + batch.items.length, 0);
+    const data = new Float32Array(count * MESH_INSTANCE_FLOATS);
+    let i = 0;
+    for (const { items } of batches) {
+      for (const { entity, ecef } of items) {
+        const color = entityColor(entity, theme);
+        const alpha = entity.coasting ? color[3] * COASTING_ALPHA_SCALE : color[3];
+        data.set(bodyToWorldMatrix(ecef, entity.pose.orientationBodyToNedQuat, eye), i);
+        data.set([color[0], color[1], color[2], alpha], i + 16);
+        i += MESH_INSTANCE_FLOATS;
+      }
+    }
+    return data;
+  }
 
-    const out: number[] = [];
-    for (const { entity } of worldEntities) {
-      const history = this.trails.get(entity.id);
-      if (!history) {
+  private drawMeshBatches(pass: GPURenderPassEncoder, batches: MeshBatch[]): void {
+    if (!this.meshPass) {
+      return;
+    }
+    pass.setBindGroup(0, this.meshBindGroup!);
+    pass.setVertexBuffer(1, this.meshInstanceBuffer!);
+    pass.setPipeline(this.meshPass.fillPipeline);
+    let firstInstance = 0;
+    for (const { model, items } of batches) {
+      pass.setVertexBuffer(0, model.fillBuffer);
+      pass.draw(model.fillVertexCount, items.length, 0, firstInstance);
+      firstInstance += items.length;
+    }
+    pass.setPipeline(this.meshPass.edgePipeline);
+    firstInstance = 0;
+    for (const { model, items } of batches) {
+      if (model.edgeVertexCount > 0) {
+        pass.setVertexBuffer(0, model.edgeBuffer);
+        pass.draw(model.edgeVertexCount, items.length, 0, firstInstance);
+      }
+      firstInstance += items.length;
+    }
+  }
+
+  private buildTrailInstances(
+    worldEntities: WorldEntity[],
+    trails: EntityTrail[],
+    t: number,
+    options: RenderOptions,
+    eye: Vec3,
+    rotationSinceAt: (t: number) => number
+  ): Float32Array {
+    const entities = new Map(worldEntities.map(({ entity }) => [entity.id, entity]));
+    const segmentCount = trails.reduce((sum, trail) => sum + Math.max(0, trail.points.length - 1), 0);
+    const data = new Float32Array(segmentCount * TRAIL_SEGMENT_FLOATS);
+    const minFade = options.trailWindowSec === null ? FULL_HISTORY_MIN_FADE : 0;
+    let i = 0;
+    for (const { id, points } of trails) {
+      const entity = entities.get(id);
+      if (!entity || points.length < 2) {
+        continue;
+      }
+      const [r, g, b, a] = entityColor(entity, options.symbologyTheme);
+      const baseAlpha = (entity.coasting ? a * COASTING_ALPHA_SCALE : a) * TRAIL_ALPHA;
+      const spanSec = options.trailWindowSec ?? t - points[0].t;
+      const alphaAt = (pointT: number): number => {
+        const age = spanSec > 0 ? Math.min(1, Math.max(0, (t - pointT) / spanSec)) : 0;
+        return baseAlpha * (minFade + (1 - minFade) * (1 - age));
+      };
+      const pointWorld = ({ t: pointT, positionEcefM }: EntityTrail["points"][number]): Vec3 =>
+        relativeToEye(rotateAboutZ(ecefToWorld(positionEcefM), rotationSinceAt(pointT)), eye);
+      let start = pointWorld(points[0]);
+      let startAlpha = alphaAt(points[0].t);
+      for (let k = 1; k < points.length; k += 1) {
+        const end = pointWorld(points[k]);
+        const endAlpha = alphaAt(points[k].t);
+        data.set([...start, startAlpha, ...end, endAlpha, r, g, b, TRAIL_WIDTH_PX], i);
+        i += TRAIL_SEGMENT_FLOATS;
+        start = end;
+        startAlpha = endAlpha;
+      }
+    }
+    return data.subarray(0, i);
+  }
+
+  private buildGroundTrackInstances(
+    worldEntities: WorldEntity[],
+    groundTracks: GroundTrack[],
+    options: RenderOptions,
+    eye: Vec3
+  ): Float32Array {
+    const entities = new Map(worldEntities.map(({ entity }) => [entity.id, entity]));
+    const segmentCount = groundTracks.reduce((sum, track) => sum + Math.max(0, track.pointsEcefM.length - 1), 0);
+    const data = new Float32Array(segmentCount * TRAIL_SEGMENT_FLOATS);
+    let i = 0;
+    for (const { id, pointsEcefM } of groundTracks) {
+      const entity = entities.get(id);
+      if (!entity || pointsEcefM.length < 2) {
         continue;
       }
-      const [r, g, b] = domainColor(entity);
-      for (let i = 0; i < history.length; i += 2) {
-        const alpha = (i + 1) / history.length;
-        const point = history[i];
-        out.push(point[0], point[1], point[2], 0.0018, SIZE_MODE_SCREEN_STABLE, r, g, b, alpha * 0.3);
+      const [r, g, b, a] = entityColor(entity, options.symbologyTheme);
+      const alpha = a * GROUND_TRACK_ALPHA;
+      let start = relativeToEye(ecefToWorld(pointsEcefM[0]), eye);
+      for (let k = 1; k < pointsEcefM.length; k += 1) {
+        const end = relativeToEye(ecefToWorld(pointsEcefM[k]), eye);
+        data.set([...start, alpha, ...end, alpha, r, g, b, GROUND_TRACK_WIDTH_PX], i);
+        i += TRAIL_SEGMENT_FLOATS;
+        start = end;
       }
     }
-    return new Float32Array(out);
+    return data.subarray(0, i);
   }
 
-  private buildEventInstances(frame: FrameMessage): Float32Array {
-    const out: number[] = [];
+  private buildEventInstances(
+    frame: FrameMessage,
+    durationsSec: EventEffectDurations,
+    eye: Vec3
+  ): { sprites: Float32Array; lines: Float32Array } {
+    const sprites: number[] = [];
+    const lines: number[] = [];
     for (const event of frame.events ?? []) {
-      const world = ecefToWorld(llaToEcef(event.positionLlaDegM));
-      const color =
-        event.type === "launch"
-          ? [1.0, 0.78, 0.22, 0.95]
-          : event.type === "intercept"
-            ? [1.0, 0.2, 0.2, 0.95]
-            : [1.0, 0.52, 0.28, 0.95];
-      out.push(world[0], world[1], world[2], 0.009, SIZE_MODE_SCREEN_STABLE, color[0], color[1], color[2], color[3]);
+      const effect = eventEffectAt(event, frame.t, durationsSec);
+      if (!effect) {
+        continue;
+      }
+      for (const { positionEcefM, size, sizeMode, color } of effect.sprites) {
+        const world = relativeToEye(ecefToWorld(positionEcefM), eye);
+        const sizeWorld = sizeMode === "world" ? size / WGS84_A : size;
+        const mode = sizeMode === "world" ? SIZE_MODE_DEPTH_SCALED : SIZE_MODE_SCREEN_STABLE;
+        sprites.push(world[0], world[1], world[2], sizeWorld, mode, color[0], color[1], color[2], color[3]);
+      }
+      for (const { pointsEcefM, color } of effect.lines) {
+        let start = relativeToEye(ecefToWorld(pointsEcefM[0]), eye);
+        for (let k = 1; k < pointsEcefM.length; k += 1) {
+          const end = relativeToEye(ecefToWorld(pointsEcefM[k]), eye);
+          lines.push(...start, color[3], ...end, color[3], color[0], color[1], color[2], EFFECT_LINE_WIDTH_PX);
+          start = end;
+        }
+      }
+    }
+    return { sprites: new Float32Array(sprites), lines: new Float32Array(lines) };
+  }
+
+  private buildLabelInstances(
+    viewProj: Mat4,
+    worldEntities: WorldEntity[],
+    selectedEntityId: string | undefined,
+    options: RenderOptions
+  ): Float32Array {
+    if (!this.fontAtlas) {
+      return new Float32Array(0);
+    }
+    const requests: LabelRequest[] = worldEntities.map(({ entity, world, ecef }) => {
+      const color = entityColor(entity, options.symbologyTheme);
+      const priority =
+        entity.id === selectedEntityId
+          ? LABEL_PRIORITY_SELECTED
+          : entity.kind === "weapon"
+            ? LABEL_PRIORITY_WEAPON
+            : LABEL_PRIORITY_PLATFORM;
+      return {
+        id: entity.id,
+        anchorWorld: world,
+        lines: [labelCallsign(entity), formatLabelAltitude(ecefToLla(ecef)[2])],
+        color: entity.coasting ? [color[0], color[1], color[2], color[3] * COASTING_ALPHA_SCALE] : color,
+        priority,
+        offsetPx: ENTITY_LABEL_OFFSET_PX,
+        align: "left"
+      };
+    });
+    if (options.showGrid) {
+      const [lat, lon] = ecefToLla(worldToEcef(this.viewCamera.target));
+      for (const label of gridLabelsNear(lat, lon, gridLabelStepDeg(selectGridLevels(this.cameraAltitudeM())))) {
+        requests.push({
+          id: label.id,
+          anchorWorld: ecefToWorld(llaToEcef(label.lla)),
+          lines: [label.text],
+          color: GRID_COLOR,
+          priority: LABEL_PRIORITY_GRID,
+          offsetPx: [0, 0],
+          align: "center"
+        });
+      }
     }
-    return new Float32Array(out);
+    const pixelRatio = this.canvas.width / (this.canvas.clientWidth || this.canvas.width);
+    const placed = placeLabels(
+      this.fontAtlas,
+      viewProj,
+      this.viewCamera.eye,
+      requests,
+      this.canvas.width,
+      this.canvas.height,
+      pixelRatio
+    );
+    const count = placed.reduce((sum, label) => sum + label.quads.length, 0);
+    const data = new Float32Array(count * TEXT_GLYPH_FLOATS);
+    let i = 0;
+    for (const { request, quads } of placed) {
+      for (const { xPx, yPx, widthPx, heightPx, glyph } of quads) {
+        data.set([...relativeToEye(request.anchorWorld, this.viewCamera.eye), xPx, yPx, widthPx, heightPx], i);
+        data.set([glyph.u0, glyph.v0, glyph.u1, glyph.v1, ...request.color], i + 7);
+        i += TEXT_GLYPH_FLOATS;
+      }
+    }
+    return data;
   }
 
   private toWorldEntities(entities: RuntimeRenderableEntityState[]): WorldEntity[] {
@@ -477,10 +1172,10 @@ export class WebGpuCombatRenderer implements Renderer {
       }
     }
     let best = worldEntities[0];
-    let bestDistance = distSq3(best.world, this.cameraState.target);
+    let bestDistance = distSq3(best.world, this.viewCamera.target);
     for (let i = 1; i < worldEntities.length; i += 1) {
       const candidate = worldEntities[i];
-      const d = distSq3(candidate.world, this.cameraState.target);
+      const d = distSq3(candidate.world, this.viewCamera.target);
       if (d < bestDistance) {
         bestDistance = d;
         best = candidate;
@@ -523,14 +1218,17 @@ export class WebGpuCombatRenderer implements Renderer {
   }
 
   private computeNearPlane(): number {
-    const dx = this.cameraState.eye[0] - this.cameraState.target[0];
-    const dy = this.cameraState.eye[1] - this.cameraState.target[1];
-    const dz = this.cameraState.eye[2] - this.cameraState.target[2];
+    const dx = this.viewCamera.eye[0] - this.viewCamera.target[0];
+    const dy = this.viewCamera.eye[1] - this.viewCamera.target[1];
+    const dz = this.viewCamera.eye[2] - this.viewCamera.target[2];
     const distance = Math.hypot(dx, dy, dz);
     return Math.max(1e-6, Math.min(0.01, distance * 0.25));
   }
 
-  private writeInstanceData(kind: "entity" | "trail" | "event", data: Float32Array): void {
+  private writeInstanceData(
+    kind: "entity" | "trail" | "event" | "mesh" | "effectLine" | "text",
+    data: Float32Array
+  ): void {
     if (!this.device) {
       return;
     }
@@ -561,6 +1259,45 @@ export class WebGpuCombatRenderer implements Renderer {
       }
       return;
     }
+    if (kind === "mesh") {
+      if (!this.meshInstanceBuffer || bytes > this.meshInstanceCapacityBytes) {
+        this.meshInstanceCapacityBytes = Math.max(bytes, this.meshInstanceCapacityBytes * 2);
+        this.meshInstanceBuffer = this.device.createBuffer({
+          size: this.meshInstanceCapacityBytes,
+          usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+        });
+      }
+      if (data.byteLength > 0) {
+        this.device.queue.writeBuffer(this.meshInstanceBuffer, 0, asGpuSource(data));
+      }
+      return;
+    }
+    if (kind === "effectLine") {
+      if (!this.effectLineInstanceBuffer || bytes > this.effectLineInstanceCapacityBytes) {
+        this.effectLineInstanceCapacityBytes = Math.max(bytes, this.effectLineInstanceCapacityBytes * 2);
+        this.effectLineInstanceBuffer = this.device.createBuffer({
+          size: this.effectLineInstanceCapacityBytes,
+          usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+        });
+      }
+      if (data.byteLength > 0) {
+        this.device.queue.writeBuffer(this.effectLineInstanceBuffer, 0, asGpuSource(data));
+      }
+      return;
+    }
+    if (kind === "text") {
+      if (!this.textInstanceBuffer || bytes > this.textInstanceCapacityBytes) {
+        this.textInstanceCapacityBytes = Math.max(bytes, this.textInstanceCapacityBytes * 2);
+        this.textInstanceBuffer = this.device.createBuffer({
+          size: this.textInstanceCapacityBytes,
+          usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
+        });
+      }
+      if (data.byteLength > 0) {
+        this.device.queue.writeBuffer(this.textInstanceBuffer, 0, asGpuSource(data));
+      }
+      return;
+    }
     if (!this.eventInstanceBuffer || bytes > this.eventInstanceCapacityBytes) {
       this.eventInstanceCapacityBytes = Math.max(bytes, this.eventInstanceCapacityBytes * 2);
       this.eventInstanceBuffer = this.device.createBuffer({
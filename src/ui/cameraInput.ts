@@ -2,6 +2,9 @@ import type { CameraInputState } from "../render";
 
 const MIN_SIZE = 1;
 
+export const CLICK_SLOP_PX = 4;
+export const DOUBLE_CLICK_MS = 350;
+
 export const normalizeCanvasDelta = (
   dxPx: number,
   dyPx: number,
@@ -9,16 +12,39 @@ export const normalizeCanvasDelta = (
   heightPx: number
 ): [number, number] => [dxPx / Math.max(MIN_SIZE, widthPx), dyPx / Math.max(MIN_SIZE, heightPx)];
 
-interface Point2D {
+export interface Point2D {
   x: number;
   y: number;
 }
 
+export interface CanvasPoint extends Point2D {
+  clientX: number;
+  clientY: number;
+}
+
+export interface CameraInputCallbacks {
+  onClick?: (point: CanvasPoint) => void;
+  onDoubleClick?: (point: CanvasPoint) => void;
+  onHover?: (point: CanvasPoint | null) => void;
+}
+
+export const exceedsClickSlop = (start: Point2D, current: Point2D, slopPx = CLICK_SLOP_PX): boolean =>
+  Math.hypot(current.x - start.x, current.y - start.y) > slopPx;
+
+export const isDoubleClick = (
+  previous: { point: Point2D; timeMs: number } | null,
+  point: Point2D,
+  timeMs: number
+): boolean =>
+  previous !== null && timeMs - previous.timeMs <= DOUBLE_CLICK_MS && !exceedsClickSlop(previous.point, point);
+
 type MouseGesture = "orbit" | "pan" | null;
 
 export class CameraInputController {
   private readonly canvas: HTMLCanvasElement;
 
+  private readonly callbacks: CameraInputCallbacks;
+
   private orbitDelta: [number, number] = [0, 0];
 
   private panDelta: [number, number] = [0, 0];
@@ -33,20 +59,30 @@ export class CameraInputController {
 
   private lastPointerPos: Point2D | null = null;
 
+  private pointerDownPos: Point2D | null = null;
+
+  private dragging = false;
+
+  private lastClick: { point: Point2D; timeMs: number } | null = null;
+
+  private tapStart: Point2D | null = null;
+
   private touchPoints = new Map<number, Point2D>();
 
   private lastTouchCenter: Point2D | null = null;
 
   private lastTouchDistance = 0;
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, callbacks: CameraInputCallbacks = {}) {
     this.canvas = canvas;
+    this.callbacks = callbacks;
     this.canvas.addEventListener("contextmenu", (event) => event.preventDefault());
     this.canvas.addEventListener("wheel", this.onWheel, { passive: false });
     this.canvas.addEventListener("pointerdown", this.onPointerDown);
     this.canvas.addEventListener("pointermove", this.onPointerMove);
     this.canvas.addEventListener("pointerup", this.onPointerUpOrCancel);
     this.canvas.addEventListener("pointercancel", this.onPointerUpOrCancel);
+    this.canvas.addEventListener("pointerleave", this.onPointerLeave);
     this.canvas.addEventListener("touchstart", this.onTouchStart, { passive: false });
     this.canvas.addEventListener("touchmove", this.onTouchMove, { passive: false });
     this.canvas.addEventListener("touchend", this.onTouchEnd, { passive: false });
@@ -82,13 +118,28 @@ export class CameraInputController {
     this.canvas.setPointerCapture(event.pointerId);
     this.activePointerId = event.pointerId;
     this.lastPointerPos = { x: event.clientX, y: event.clientY };
+    this.pointerDownPos = this.lastPointerPos;
+    this.dragging = false;
     this.isInteracting = true;
   };
 
   private readonly onPointerMove = (event: PointerEvent): void => {
-    if (event.pointerType !== "mouse" || event.pointerId !== this.activePointerId || !this.lastPointerPos) {
+    if (event.pointerType !== "mouse") {
+      return;
+    }
+    if (this.activePointerId === null) {
+      this.callbacks.onHover?.(this.toCanvasPoint(event.clientX, event.clientY));
+      return;
+    }
+    if (event.pointerId !== this.activePointerId || !this.lastPointerPos) {
       return;
     }
+    if (!this.dragging) {
+      if (!this.pointerDownPos || !exceedsClickSlop(this.pointerDownPos, { x: event.clientX, y: event.clientY })) {
+        return;
+      }
+      this.dragging = true;
+    }
     const dx = event.clientX - this.lastPointerPos.x;
     const dy = event.clientY - this.lastPointerPos.y;
     this.lastPointerPos = { x: event.clientX, y: event.clientY };
@@ -107,15 +158,27 @@ export class CameraInputController {
     if (this.canvas.hasPointerCapture(event.pointerId)) {
       this.canvas.releasePointerCapture(event.pointerId);
     }
+    if (event.type === "pointerup" && !this.dragging && this.activeMouseGesture === "orbit") {
+      this.emitClick(event.clientX, event.clientY, event.timeStamp);
+    }
     this.activePointerId = null;
+    this.pointerDownPos = null;
+    this.dragging = false;
     this.activeMouseGesture = null;
     this.lastPointerPos = null;
     this.isInteracting = this.touchPoints.size > 0;
   };
 
+  private readonly onPointerLeave = (event: PointerEvent): void => {
+    if (event.pointerType === "mouse") {
+      this.callbacks.onHover?.(null);
+    }
+  };
+
   private readonly onTouchStart = (event: TouchEvent): void => {
     event.preventDefault();
     this.syncTouchPoints(event.touches);
+    this.tapStart = this.touchPoints.size === 1 ? [...this.touchPoints.values()][0] : null;
     this.isInteracting = this.touchPoints.size > 0;
   };
 
@@ -126,6 +189,12 @@ export class CameraInputController {
     const touches = [...this.touchPoints.values()];
     if (touches.length === 1) {
       const touch = touches[0];
+      if (this.tapStart) {
+        if (!exceedsClickSlop(this.tapStart, touch)) {
+          return;
+        }
+        this.tapStart = null;
+      }
       const previousTouch = previous.get([...this.touchPoints.keys()][0]);
       if (previousTouch) {
         const [nx, ny] = normalizeCanvasDelta(
@@ -166,6 +235,12 @@ export class CameraInputController {
   private readonly onTouchEnd = (event: TouchEvent): void => {
     event.preventDefault();
     this.syncTouchPoints(event.touches);
+    if (this.tapStart && event.type === "touchend" && this.touchPoints.size === 0) {
+      this.emitClick(this.tapStart.x, this.tapStart.y, event.timeStamp);
+    }
+    if (this.touchPoints.size === 0) {
+      this.tapStart = null;
+    }
     if (this.touchPoints.size < 2) {
       this.lastTouchCenter = null;
       this.lastTouchDistance = 0;
@@ -173,6 +248,22 @@ export class CameraInputController {
     this.isInteracting = this.touchPoints.size > 0 || this.activePointerId !== null;
   };
 
+  private emitClick(clientX: number, clientY: number, timeMs: number): void {
+    const point = this.toCanvasPoint(clientX, clientY);
+    if (isDoubleClick(this.lastClick, point, timeMs)) {
+      this.lastClick = null;
+      this.callbacks.onDoubleClick?.(point);
+      return;
+    }
+    this.lastClick = { point, timeMs };
+    this.callbacks.onClick?.(point);
+  }
+
+  private toCanvasPoint(clientX: number, clientY: number): CanvasPoint {
+    const rect = this.canvas.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top, clientX, clientY };
+  }
+
   private syncTouchPoints(touches: TouchList): void {
     this.touchPoints.clear();
     for (let i = 0; i < touches.length; i += 1) {
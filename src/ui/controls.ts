@@ -1,12 +1,21 @@
-import type { CameraMode, CameraPreset } from "../render";
+import type { RecordingLoadReport } from "../io";
+import type { CameraMode, CameraPreset, FarSideMode, FrameModel, SymbologyTheme } from "../render";
 
 export interface HudState {
   playing: boolean;
   timeScale: number;
   timelineNormalized: number;
   showGrid: boolean;
+  showLocalGrid: boolean;
+  showCoastlines: boolean;
+  showBorders: boolean;
   showTrails: boolean;
   showEvents: boolean;
+  showLabels: boolean;
+  symbologyTheme: SymbologyTheme;
+  farSide: FarSideMode;
+  frameModel: FrameModel;
+  trailWindowSec: number | null;
   cameraMode: CameraMode;
   cameraTargetEntityId: string | null;
 }
@@ -15,15 +24,35 @@ export interface HudCallbacks {
   onTogglePlay: (playing: boolean) => void;
   onTimeScale: (scale: number) => void;
   onTimeline: (normalized: number) => void;
-  onLayerToggle: (state: Pick<HudState, "showGrid" | "showTrails" | "showEvents">) => void;
+  onLayerToggle: (
+    state: Pick<
+      HudState,
+      "showGrid" | "showLocalGrid" | "showCoastlines" | "showBorders" | "showTrails" | "showEvents" | "showLabels"
+    >
+  ) => void;
+  onSymbologyTheme: (theme: SymbologyTheme) => void;
+  onFarSide: (mode: FarSideMode) => void;
+  onFrameModel: (frameModel: FrameModel) => void;
+  onTrailWindow: (windowSec: number | null) => void;
   onCameraMode: (mode: CameraMode) => void;
   onCameraTarget: (entityId: string | null) => void;
   onCameraPreset: (preset: CameraPreset) => void;
+  onGoLive: () => void;
 }
 
+export interface HudTooltip {
+  text: string;
+  clientX: number;
+  clientY: number;
+}
+
+const TOOLTIP_OFFSET_PX = 14;
+
 export class HudController {
   private readonly statusEl = document.querySelector<HTMLElement>("#status");
 
+  private readonly validationEl = document.querySelector<HTMLElement>("#validation");
+
   private readonly clockEl = document.querySelector<HTMLElement>("#clock");
 
   private readonly frameModelEl = document.querySelector<HTMLElement>("#frameModel");
@@ -32,6 +61,8 @@ export class HudController {
 
   private readonly cameraDebugEl = document.querySelector<HTMLElement>("#cameraDebug");
 
+  private readonly tooltipEl = document.querySelector<HTMLElement>("#tooltip");
+
   private readonly cameraModeSelectEl = document.querySelector<HTMLSelectElement>("#cameraModeSelect");
 
   private readonly cameraTargetSelectEl = document.querySelector<HTMLSelectElement>("#cameraTargetSelect");
@@ -44,23 +75,49 @@ export class HudController {
 
   private readonly playPauseEl = document.querySelector<HTMLButtonElement>("#playPause");
 
+  private readonly goLiveEl = document.querySelector<HTMLButtonElement>("#goLive");
+
   private readonly timeScaleEl = document.querySelector<HTMLInputElement>("#timeScale");
 
   private readonly timelineEl = document.querySelector<HTMLInputElement>("#timeline");
 
   private readonly toggleGridEl = document.querySelector<HTMLInputElement>("#toggleGrid");
 
+  private readonly toggleLocalGridEl = document.querySelector<HTMLInputElement>("#toggleLocalGrid");
+
+  private readonly toggleCoastlinesEl = document.querySelector<HTMLInputElement>("#toggleCoastlines");
+
+  private readonly toggleBordersEl = document.querySelector<HTMLInputElement>("#toggleBorders");
+
   private readonly toggleTrailsEl = document.querySelector<HTMLInputElement>("#toggleTrails");
 
   private readonly toggleEventsEl = document.querySelector<HTMLInputElement>("#toggleEvents");
 
+  private readonly toggleLabelsEl = document.querySelector<HTMLInputElement>("#toggleLabels");
+
+  private readonly symbologyThemeSelectEl = document.querySelector<HTMLSelectElement>("#symbologyThemeSelect");
+
+  private readonly farSideSelectEl = document.querySelector<HTMLSelectElement>("#farSideSelect");
+
+  private readonly frameModelSelectEl = document.querySelector<HTMLSelectElement>("#frameModelSelect");
+
+  private readonly trailWindowSelectEl = document.querySelector<HTMLSelectElement>("#trailWindowSelect");
+
   readonly state: HudState = {
     playing: true,
     timeScale: 1,
     timelineNormalized: 0,
     showGrid: true,
+    showLocalGrid: false,
+    showCoastlines: true,
+    showBorders: false,
     showTrails: true,
     showEvents: true,
+    showLabels: true,
+    symbologyTheme: "phosphor",
+    farSide: "hidden",
+    frameModel: "ecef",
+    trailWindowSec: 60,
     cameraMode: "static",
     cameraTargetEntityId: null
   };
@@ -69,11 +126,12 @@ export class HudController {
     this.requireElements();
 
     this.playPauseEl!.addEventListener("click", () => {
-      this.state.playing = !this.state.playing;
-      this.playPauseEl!.textContent = this.state.playing ? "Pause" : "Play";
+      this.setPlaying(!this.state.playing);
       callbacks.onTogglePlay(this.state.playing);
     });
 
+    this.goLiveEl!.addEventListener("click", () => callbacks.onGoLive());
+
     this.timeScaleEl!.addEventListener("input", () => {
       this.state.timeScale = Number(this.timeScaleEl!.value);
       callbacks.onTimeScale(this.state.timeScale);
@@ -86,17 +144,51 @@ export class HudController {
 
     const emitLayerToggle = (): void => {
       this.state.showGrid = this.toggleGridEl!.checked;
+      this.state.showLocalGrid = this.toggleLocalGridEl!.checked;
+      this.state.showCoastlines = this.toggleCoastlinesEl!.checked;
+      this.state.showBorders = this.toggleBordersEl!.checked;
       this.state.showTrails = this.toggleTrailsEl!.checked;
       this.state.showEvents = this.toggleEventsEl!.checked;
+      this.state.showLabels = this.toggleLabelsEl!.checked;
       callbacks.onLayerToggle({
         showGrid: this.state.showGrid,
+        showLocalGrid: this.state.showLocalGrid,
+        showCoastlines: this.state.showCoastlines,
+        showBorders: this.state.showBorders,
         showTrails: this.state.showTrails,
-        showEvents: this.state.showEvents
+        showEvents: this.state.showEvents,
+        showLabels: this.state.showLabels
       });
     };
     this.toggleGridEl!.addEventListener("change", emitLayerToggle);
+    this.toggleLocalGridEl!.addEventListener("change", emitLayerToggle);
+    this.toggleCoastlinesEl!.addEventListener("change", emitLayerToggle);
+    this.toggleBordersEl!.addEventListener("change", emitLayerToggle);
     this.toggleTrailsEl!.addEventListener("change", emitLayerToggle);
     this.toggleEventsEl!.addEventListener("change", emitLayerToggle);
+    this.toggleLabelsEl!.addEventListener("change", emitLayerToggle);
+
+    this.symbologyThemeSelectEl!.addEventListener("change", () => {
+      this.state.symbologyTheme = this.symbologyThemeSelectEl!.value as SymbologyTheme;
+      callbacks.onSymbologyTheme(this.state.symbologyTheme);
+    });
+
+    this.farSideSelectEl!.addEventListener("change", () => {
+      this.state.farSide = this.farSideSelectEl!.value as FarSideMode;
+      callbacks.onFarSide(this.state.farSide);
+    });
+
+    this.frameModelSelectEl!.addEventListener("change", () => {
+      this.state.frameModel = this.frameModelSelectEl!.value as FrameModel;
+      this.setFrameModel(this.state.frameModel);
+      callbacks.onFrameModel(this.state.frameModel);
+    });
+
+    this.trailWindowSelectEl!.addEventListener("change", () => {
+      const value = this.trailWindowSelectEl!.value;
+      this.state.trailWindowSec = value === "full" ? null : Number(value);
+      callbacks.onTrailWindow(this.state.trailWindowSec);
+    });
 
     this.cameraModeSelectEl!.addEventListener("change", () => {
       const mode = this.cameraModeSelectEl!.value as CameraMode;
@@ -122,6 +214,30 @@ export class HudController {
     }
   }
 
+  setValidationSummary(
+    report: Pick<RecordingLoadReport, "summary" | "totalFrames" | "skippedFrames" | "skippedEntities"> | null
+  ): void {
+    if (!this.validationEl) {
+      return;
+    }
+    this.validationEl.hidden = report === null;
+    if (!report) {
+      return;
+    }
+    const { errors, warnings, byKind } = report.summary;
+    this.validationEl.classList.toggle("has-errors", errors > 0);
+    if (errors === 0 && warnings === 0) {
+      this.validationEl.textContent = `Validation: ${report.totalFrames} frames OK`;
+      return;
+    }
+    const kinds = Object.entries(byKind)
+      .map(([kind, count]) => `${kind} ${count}`)
+      .join(", ");
+    this.validationEl.textContent =
+      `Validation: ${errors} errors, ${warnings} warnings (${kinds}) | ` +
+      `skipped ${report.skippedFrames}/${report.totalFrames} frames, ${report.skippedEntities} entities`;
+  }
+
   setClock(seconds: number): void {
     if (this.clockEl) {
       this.clockEl.textContent = `T+${seconds.toFixed(1)}s`;
@@ -130,7 +246,8 @@ export class HudController {
 
   setFrameModel(frameModel: string): void {
     if (this.frameModelEl) {
-      this.frameModelEl.textContent = `Frame Model: ${frameModel.toUpperCase()}`;
+      const note = frameModel.toLowerCase() === "eci" ? " (data Earth-fixed)" : "";
+      this.frameModelEl.textContent = `Frame Model: ${frameModel.toUpperCase()}${note}`;
     }
   }
 
@@ -187,6 +304,44 @@ export class HudController {
     this.state.cameraTargetEntityId = selected || null;
   }
 
+  setCameraTarget(entityId: string | null): void {
+    if (!this.cameraTargetSelectEl) {
+      return;
+    }
+    const known = Array.from(this.cameraTargetSelectEl.options).some((option) => option.value === entityId);
+    this.cameraTargetSelectEl.value = entityId && known ? entityId : "";
+    this.state.cameraTargetEntityId = entityId && known ? entityId : null;
+  }
+
+  setTooltip(tooltip: HudTooltip | null): void {
+    if (!this.tooltipEl) {
+      return;
+    }
+    this.tooltipEl.hidden = tooltip === null;
+    if (!tooltip) {
+      return;
+    }
+    this.tooltipEl.textContent = tooltip.text;
+    this.tooltipEl.style.left = `${tooltip.clientX + TOOLTIP_OFFSET_PX}px`;
+    this.tooltipEl.style.top = `${tooltip.clientY + TOOLTIP_OFFSET_PX}px`;
+  }
+
+  setPlaying(playing: boolean): void {
+    this.state.playing = playing;
+    if (this.playPauseEl) {
+      this.playPauseEl.textContent = playing ? "Pause" : "Play";
+    }
+  }
+
+  setLiveState(available: boolean, following: boolean): void {
+    if (!this.goLiveEl) {
+      return;
+    }
+    this.goLiveEl.hidden = !available;
+    this.goLiveEl.classList.toggle("following", following);
+    this.goLiveEl.textContent = following ? "Live" : "Go Live";
+  }
+
   setTimeline(normalized: number): void {
     if (this.timelineEl) {
       this.timelineEl.value = String(Math.max(0, Math.min(1, normalized)));
@@ -197,21 +352,32 @@ export class HudController {
   private requireElements(): void {
     if (
       !this.statusEl ||
+      !this.validationEl ||
       !this.clockEl ||
       !this.frameModelEl ||
       !this.cameraModeEl ||
       !this.cameraDebugEl ||
+      !this.tooltipEl ||
       !this.cameraModeSelectEl ||
       !this.cameraTargetSelectEl ||
       !this.cameraPresetTacticalEl ||
       !this.cameraPresetChaseEl ||
       !this.cameraPresetCloseEl ||
       !this.playPauseEl ||
+      !this.goLiveEl ||
       !this.timeScaleEl ||
       !this.timelineEl ||
       !this.toggleGridEl ||
+      !this.toggleLocalGridEl ||
+      !this.toggleCoastlinesEl ||
+      !this.toggleBordersEl ||
       !this.toggleTrailsEl ||
-      !this.toggleEventsEl
+      !this.toggleEventsEl ||
+      !this.toggleLabelsEl ||
+      !this.symbologyThemeSelectEl ||
+      !this.farSideSelectEl ||
+      !this.frameModelSelectEl ||
+      !this.trailWindowSelectEl
     ) {
       throw new Error("Missing required HUD elements");
     }
@@ -0,0 +1,62 @@
+export const DROP_ACTIVE_CLASS = "drop-active";
+
+export interface FileDropCallbacks {
+  onFiles: (files: File[]) => void;
+  accept?: (file: File) => boolean;
+}
+
+export const hasFileExtension = (file: Pick<File, "name">, extensions: readonly string[]): boolean => {
+  const name = file.name.toLowerCase();
+  return extensions.some((extension) => name.endsWith(extension.toLowerCase()));
+};
+
+export class FileDropController {
+  private readonly target: HTMLElement;
+
+  private readonly callbacks: FileDropCallbacks;
+
+  private dragDepth = 0;
+
+  constructor(target: HTMLElement, callbacks: FileDropCallbacks) {
+    this.target = target;
+    this.callbacks = callbacks;
+    this.target.addEventListener("dragenter", this.onDragEnter);
+    this.target.addEventListener("dragover", this.onDragOver);
+    this.target.addEventListener("dragleave", this.onDragLeave);
+    this.target.addEventListener("drop", this.onDrop);
+  }
+
+  private readonly onDragEnter = (event: DragEvent): void => {
+    if (!event.dataTransfer?.types.includes("Files")) {
+      return;
+    }
+    event.preventDefault();
+    this.dragDepth += 1;
+    this.target.classList.add(DROP_ACTIVE_CLASS);
+  };
+
+  private readonly onDragOver = (event: DragEvent): void => {
+    if (!event.dataTransfer?.types.includes("Files")) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+  };
+
+  private readonly onDragLeave = (): void => {
+    this.dragDepth = Math.max(0, this.dragDepth - 1);
+    if (this.dragDepth === 0) {
+      this.target.classList.remove(DROP_ACTIVE_CLASS);
+    }
+  };
+
+  private readonly onDrop = (event: DragEvent): void => {
+    event.preventDefault();
+    this.dragDepth = 0;
+    this.target.classList.remove(DROP_ACTIVE_CLASS);
+    const files = [...(event.dataTransfer?.files ?? [])].filter((file) => this.callbacks.accept?.(file) ?? true);
+    if (files.length > 0) {
+      this.callbacks.onFiles(files);
+    }
+  };
+}
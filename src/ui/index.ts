@@ -1,2 +1,5 @@
 export * from "./cameraInput";
 export * from "./controls";
+export * from "./fileDrop";
+export * from "./inspector";
+export * from "./selection";
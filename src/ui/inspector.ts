@@ -0,0 +1,152 @@
+import type { EntityTelemetry } from "../core/sim";
+
+const MPS_TO_KT = 1.943844;
+
+export type TelemetryLookup = (entityId: string) => EntityTelemetry | null;
+
+interface InspectorPanel {
+  root: HTMLElement;
+  title: HTMLElement;
+  list: HTMLDListElement;
+  labels: string;
+}
+
+const fixed = (value: number, digits: number): string => value.toFixed(digits);
+
+export const formatTelemetryRows = (telemetry: EntityTelemetry): Array<[string, string]> => {
+  const [lat, lon, alt] = telemetry.positionLlaDegM;
+  const [x, y, z] = telemetry.positionEcefM;
+  const rows: Array<[string, string]> = [
+    ["Kind", `${telemetry.kind} / ${telemetry.domain}${telemetry.coasting ? " (coasting)" : ""}`],
+    ["Model", telemetry.modelId],
+    ["Affiliation", telemetry.affiliation],
+    ["LLA", `${fixed(lat, 5)}°, ${fixed(lon, 5)}°, ${fixed(alt, 0)} m`],
+    ["ECEF", `${fixed(x, 0)}, ${fixed(y, 0)}, ${fixed(z, 0)} m`],
+    ["MGRS", telemetry.mgrs ?? "n/a (polar)"],
+    [
+      "HDG / PIT / ROL",
+      `${fixed(telemetry.headingDeg, 1)}° / ${fixed(telemetry.pitchDeg, 1)}° / ${fixed(telemetry.rollDeg, 1)}°`
+    ],
+    [
+      "Ground Speed",
+      telemetry.groundSpeedMps === null
+        ? "n/a"
+        : `${fixed(telemetry.groundSpeedMps, 1)} m/s (${fixed(telemetry.groundSpeedMps * MPS_TO_KT, 0)} kt)`
+    ],
+    ["Vertical Speed", telemetry.verticalSpeedMps === null ? "n/a" : `${fixed(telemetry.verticalSpeedMps, 1)} m/s`],
+    ["Mach", telemetry.mach === null ? "n/a" : fixed(telemetry.mach, 2)]
+  ];
+  for (const [key, value] of telemetry.metadata) {
+    rows.push([key, String(value)]);
+  }
+  return rows;
+};
+
+export class InspectorDock {
+  private readonly containerEl = document.querySelector<HTMLElement>("#inspectors");
+
+  private followedId: string | null = null;
+
+  private readonly pinned: string[] = [];
+
+  private readonly panels = new Map<string, InspectorPanel>();
+
+  constructor() {
+    if (!this.containerEl) {
+      throw new Error("Missing #inspectors container");
+    }
+  }
+
+  get pinnedIds(): readonly string[] {
+    return this.pinned;
+  }
+
+  follow(entityId: string | null): void {
+    this.followedId = entityId;
+  }
+
+  pin(entityId: string): void {
+    if (!this.pinned.includes(entityId)) {
+      this.pinned.push(entityId);
+    }
+  }
+
+  unpin(entityId: string): void {
+    const index = this.pinned.indexOf(entityId);
+    if (index >= 0) {
+      this.pinned.splice(index, 1);
+    }
+  }
+
+  update(lookup: TelemetryLookup): void {
+    const wanted = this.pinned.map((id) => `pin:${id}`);
+    if (this.followedId && !this.pinned.includes(this.followedId)) {
+      wanted.unshift("follow");
+    }
+    for (const [key, panel] of this.panels) {
+      if (!wanted.includes(key)) {
+        panel.root.remove();
+        this.panels.delete(key);
+      }
+    }
+    const ordered = wanted.map((key) => {
+      const entityId = key === "follow" ? this.followedId! : key.slice("pin:".length);
+      const panel = this.panels.get(key) ?? this.createPanel(key);
+      panel.root.dataset.entityId = entityId;
+      this.fillPanel(panel, entityId, lookup(entityId));
+      return panel.root;
+    });
+    const current = Array.from(this.containerEl!.children);
+    if (current.length !== ordered.length || ordered.some((root, i) => current[i] !== root)) {
+      this.containerEl!.replaceChildren(...ordered);
+    }
+    this.containerEl!.hidden = ordered.length === 0;
+  }
+
+  private createPanel(key: string): InspectorPanel {
+    const root = document.createElement("section");
+    root.className = key === "follow" ? "inspector" : "inspector pinned";
+    const header = document.createElement("header");
+    const title = document.createElement("span");
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = key === "follow" ? "Pin" : "Close";
+    button.addEventListener("click", () => {
+      const entityId = root.dataset.entityId;
+      if (!entityId) {
+        return;
+      }
+      if (key === "follow") {
+        this.pin(entityId);
+      } else {
+        this.unpin(entityId);
+      }
+    });
+    header.append(title, button);
+    const list = document.createElement("dl");
+    root.append(header, list);
+    const panel = { root, title, list, labels: "" };
+    this.panels.set(key, panel);
+    return panel;
+  }
+
+  private fillPanel(panel: InspectorPanel, entityId: string, telemetry: EntityTelemetry | null): void {
+    panel.title.textContent = entityId;
+    const rows = telemetry ? formatTelemetryRows(telemetry) : [["Status", "not present at this time"]];
+    const labels = rows.map(([label]) => label).join("\n");
+    if (labels !== panel.labels) {
+      panel.list.replaceChildren(
+        ...rows.flatMap(([label]) => {
+          const dt = document.createElement("dt");
+          dt.textContent = label;
+          return [dt, document.createElement("dd")];
+        })
+      );
+      panel.labels = labels;
+    }
+    const values = panel.list.querySelectorAll("dd");
+    rows.forEach(([, value], i) => {
+      values[i].textContent = value;
+    });
+  }
+}
@@ -0,0 +1,29 @@
+export type SelectionListener = (entityId: string | null) => void;
+
+export class SelectionStore {
+  private selectedId: string | null = null;
+
+  private readonly listeners = new Set<SelectionListener>();
+
+  get selected(): string | null {
+    return this.selectedId;
+  }
+
+  select(entityId: string | null): void {
+    if (entityId === this.selectedId) {
+      return;
+    }
+    this.selectedId = entityId;
+    for (const listener of [...this.listeners]) {
+      listener(entityId);
+    }
+  }
+
+  subscribe(listener: SelectionListener): () => void {
+    this.listeners.add(listener);
+    listener(this.selectedId);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { generateDemoScenario } from "../src/core/sim";
+import { negotiateSessionHeader, parseDecodedFrame, parseFrameMessage, parseStreamFrame } from "../src/core/schema";
+import type { EntityDelta, EntityState, FrameMessage } from "../src/core/schema";
+import { decodeBinaryFrame, encodeBinaryFrame, isBinaryFrame } from "../src/io";
+
+const viaJson = (frame: FrameMessage): FrameMessage => parseFrameMessage(JSON.parse(JSON.stringify(frame)));
+
+type Quat = [number, number, number, number];
+
+const withFloat32Quaternions = (frame: FrameMessage): FrameMessage => ({
+  ...frame,
+  entities: frame.entities.map((entity) => ({
+    ...entity,
+    pose: { ...entity.pose, orientationBodyToNedQuat: entity.pose.orientationBodyToNedQuat.map(Math.fround) as Quat }
+  }))
+});
+
+const crowdFrame = (count: number, t: number): FrameMessage => ({
+  t,
+  entities: Array.from(
+    { length: count },
+    (_, i): EntityState => ({
+      id: `track-${i.toString().padStart(4, "0")}`,
+      kind: i % 10 === 0 ? "weapon" : "platform",
+      domain: i % 3 === 0 ? "ground" : "air",
+      modelId: i % 3 === 0 ? "t72_faceted" : "f16_faceted",
+      pose: {
+        positionLlaDegM: [35 + i * 1e-3 + t * 1e-5, -117 - i * 1e-3, 9000 + i],
+        orientationBodyToNedQuat: [0.1, -0.2, 0.3, Math.sqrt(1 - 0.14)]
+      },
+      velocityEcef: [120 + i, -40, 3.5]
+    })
+  )
+});
+
+const bestOfMs = (rounds: number, iterations: number, run: () => void): number => {
+  let best = Infinity;
+  for (let round = 0; round < rounds; round += 1) {
+    const start = performance.now();
+    for (let i = 0; i < iterations; i += 1) {
+      run();
+    }
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+};
+
+describe("binary frame codec", () => {
+  it("round-trips the demo scenario to the same frames as the JSON path", () => {
+    for (const frame of generateDemoScenario()) {
+      const buffer = encodeBinaryFrame(frame);
+      expect(isBinaryFrame(buffer)).toBe(true);
+      expect(parseFrameMessage(decodeBinaryFrame(buffer))).toEqual(withFloat32Quaternions(viaJson(frame)));
+    }
+  });
+
+  it("round-trips keyframes and partial delta frames", () => {
+    const protocol = negotiateSessionHeader({ protocolVersion: "1.1", capabilities: ["deltaFrames"] });
+    const keyframe = { ...crowdFrame(3, 0), keyframeId: "k0" };
+    const delta = {
+      t: 1,
+      baseKeyframeId: "k0",
+      entities: [{ id: "track-0001", pose: { positionLlaDegM: [1, 2, 3] as [number, number, number] } }],
+      removals: [{ id: "track-0002", reason: "destroyed" as const }]
+    };
+    expect(parseStreamFrame(decodeBinaryFrame(encodeBinaryFrame(keyframe)), protocol)).toEqual(
+      withFloat32Quaternions(keyframe)
+    );
+    expect(parseStreamFrame(decodeBinaryFrame(encodeBinaryFrame(delta)), protocol)).toEqual(delta);
+  });
+
+  it("applies only protocol checks to decoded frames", () => {
+    const protocol = negotiateSessionHeader({ protocolVersion: "1.1", capabilities: ["deltaFrames"] });
+    const decodedKeyframe = decodeBinaryFrame(encodeBinaryFrame({ ...crowdFrame(3, 0), keyframeId: "k0" }));
+    const accepted = parseDecodedFrame(decodedKeyframe, protocol);
+    expect(accepted.entities[0]).toBe(decodedKeyframe.entities[0]);
+
+    const delta = (entities: EntityDelta[], baseKeyframeId = "k0") =>
+      decodeBinaryFrame(encodeBinaryFrame({ t: 1, baseKeyframeId, entities }));
+    expect(parseDecodedFrame(delta([{ id: "track-0001" }]), protocol).entities).toEqual([{ id: "track-0001" }]);
+    expect(() => parseDecodedFrame(delta([{ id: "track-0009" }]), protocol)).toThrow(/no full state/);
+    expect(() => parseDecodedFrame(delta([], "k9"), protocol)).toThrow(/keyframeId/);
+    expect(() => parseDecodedFrame(decodedKeyframe)).toThrow(/deltaFrames capability/);
+    const detection: FrameMessage = {
+      t: 2,
+      entities: [],
+      events: [{ id: "e1", type: "detection", positionLlaDegM: [0, 0, 0], t: 2 }]
+    };
+    const decodedDetection = decodeBinaryFrame(encodeBinaryFrame(detection));
+    expect(() => parseDecodedFrame(decodedDetection, protocol)).toThrow(/extendedEvents/);
+  });
+
+  it("rejects malformed buffers", () => {
+    const buffer = encodeBinaryFrame(crowdFrame(2, 0));
+    expect(() => decodeBinaryFrame(buffer.slice(0, buffer.byteLength - 20))).toThrow(/truncated/);
+    const bad = buffer.slice(0);
+    new DataView(bad).setUint32(0, 0, true);
+    expect(isBinaryFrame(bad)).toBe(false);
+    expect(() => decodeBinaryFrame(bad)).toThrow(/magic/);
+    expect(() => decodeBinaryFrame(new Uint8Array([1, 2]))).toThrow(/truncated/);
+    const partial = encodeBinaryFrame({ t: 1, baseKeyframeId: "k0", entities: [{ id: "track-0001" }] });
+    new DataView(partial).setUint8(16, 0);
+    expect(() => decodeBinaryFrame(partial)).toThrow(/missing full state/);
+  });
+
+  it("is under half the size of JSON and grows by a fixed record per entity", () => {
+    const frame = crowdFrame(1000, 12.5);
+    const buffer = encodeBinaryFrame(frame);
+    expect(buffer.byteLength).toBeLessThan(new TextEncoder().encode(JSON.stringify(frame)).length * 0.5);
+
+    const recordBytes = 8 + 4 + 24 + 16 + 24;
+    const idStringBytes = 2 + "track-0000".length;
+    const doubled = encodeBinaryFrame(crowdFrame(2000, 12.5));
+    expect(doubled.byteLength - buffer.byteLength).toBe(1000 * (recordBytes + idStringBytes));
+    expect(decodeBinaryFrame(doubled).entities).toHaveLength(2000);
+  });
+
+  it("decodes 1000 entities faster than JSON.parse plus validation", () => {
+    const frame = crowdFrame(1000, 12.5);
+    const text = JSON.stringify(frame);
+    const buffer = encodeBinaryFrame(frame);
+    const jsonMs = bestOfMs(5, 20, () => parseFrameMessage(JSON.parse(text)));
+    const binaryMs = bestOfMs(5, 20, () => parseDecodedFrame(decodeBinaryFrame(buffer)));
+    expect(binaryMs * 2).toBeLessThan(jsonMs);
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, expect, it } from "vitest";
-import { applyCameraPreset, createInitialCameraState, updateCameraState } from "../src/render/webgpu";
+import {
+  applyCameraPreset,
+  cameraViewAt,
+  createInitialCameraState,
+  rotateCameraState,
+  updateCameraState
+} from "../src/render/webgpu";
 
 const noInput = {
   orbitDelta: [0, 0] as [number, number],
@@ -32,6 +38,41 @@ describe("camera mode", () => {
     expect(state1.eye).toEqual(state2.eye);
   });
 
+  it("rotates the camera about the polar axis without changing its framing", () => {
+    const state0 = updateCameraState(createInitialCameraState(), {
+      mode: "static",
+      dtSec: 0,
+      input: { ...noInput, panDelta: [0.1, 0.05] }
+    });
+    const rotated = rotateCameraState(state0, 0.8);
+    const state1 = updateCameraState(rotated, { mode: "static", dtSec: 1, input: noInput });
+    state1.eye.forEach((value, i) => expect(value).toBeCloseTo(rotated.eye[i], 12));
+    expect(dist3(rotated.eye, rotated.target)).toBeCloseTo(dist3(state0.eye, state0.target), 12);
+    const azimuth = (v: [number, number, number]) => Math.atan2(v[1], v[0]);
+    expect(azimuth(rotated.target) - azimuth(state0.target)).toBeCloseTo(0.8, 12);
+  });
+
+  it("derives each frame's view from the current camera state in either frame model", () => {
+    const orbitBy = (state: ReturnType<typeof createInitialCameraState>, orbitDelta: [number, number]) =>
+      updateCameraState(state, {
+        mode: "static",
+        dtSec: 1 / 60,
+        input: { ...noInput, orbitDelta, isInteracting: true }
+      });
+    const first = orbitBy(createInitialCameraState(), [0.05, 0]);
+    const second = orbitBy(first, [0.2, 0.1]);
+    expect(cameraViewAt(first, 0).eye).toEqual(first.eye);
+    expect(cameraViewAt(second, 0).eye).toEqual(second.eye);
+    expect(dist3(cameraViewAt(first, 0).eye, cameraViewAt(second, 0).eye)).toBeGreaterThan(0.1);
+
+    const gmst = 1.3;
+    const view = cameraViewAt(second, gmst);
+    expect(cameraViewAt(second, gmst)).toEqual(view);
+    const azimuth = (v: [number, number, number]) => Math.atan2(v[1], v[0]);
+    expect(azimuth(second.eye) - azimuth(view.eye)).toBeCloseTo(gmst, 12);
+    expect(dist3(view.eye, view.target)).toBeCloseTo(dist3(second.eye, second.target), 12);
+  });
+
   it("moves orbit camera at a 24-hour period", () => {
     const state0 = createInitialCameraState();
     const state1 = updateCameraState(state0, { mode: "orbit", dtSec: 3600, input: noInput });
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { normalizeCanvasDelta } from "../src/ui";
+import { DOUBLE_CLICK_MS, exceedsClickSlop, isDoubleClick, normalizeCanvasDelta } from "../src/ui";
 
 describe("camera input normalization", () => {
   it("normalizes pointer deltas by canvas dimensions", () => {
@@ -13,5 +13,17 @@ describe("camera input normalization", () => {
     expect(nx).toBe(10);
     expect(ny).toBe(10);
   });
-});
 
+  it("treats pointer travel within the slop as a click rather than a drag", () => {
+    expect(exceedsClickSlop({ x: 10, y: 10 }, { x: 12, y: 13 })).toBe(false);
+    expect(exceedsClickSlop({ x: 10, y: 10 }, { x: 15, y: 10 })).toBe(true);
+  });
+
+  it("pairs clicks into a double-click only when close in time and space", () => {
+    const first = { point: { x: 100, y: 100 }, timeMs: 1000 };
+    expect(isDoubleClick(null, { x: 100, y: 100 }, 1100)).toBe(false);
+    expect(isDoubleClick(first, { x: 101, y: 102 }, 1000 + DOUBLE_CLICK_MS)).toBe(true);
+    expect(isDoubleClick(first, { x: 101, y: 102 }, 1001 + DOUBLE_CLICK_MS)).toBe(false);
+    expect(isDoubleClick(first, { x: 120, y: 100 }, 1100)).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { ecefToLla, llaToEcef } from "../src/core/math";
+import type { Vec3 } from "../src/core/math";
+import type { CombatEvent } from "../src/core/schema";
+import { DEFAULT_EVENT_EFFECT_DURATIONS_SEC, eventEffectAt } from "../src/render";
+
+const eventOf = (type: CombatEvent["type"]): CombatEvent => ({
+  id: `${type}-1`,
+  type,
+  positionLlaDegM: [35, -117, 100],
+  t: 10
+});
+
+const distance = (a: Vec3, b: Vec3): number => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+describe("event effects", () => {
+  it("plays only between the event time and the end of its duration", () => {
+    const impact = eventOf("impact");
+    expect(eventEffectAt(impact, 9.99)).toBeNull();
+    expect(eventEffectAt(impact, 10)).not.toBeNull();
+    expect(eventEffectAt(impact, 10 + DEFAULT_EVENT_EFFECT_DURATIONS_SEC.impact)).toBeNull();
+    const durations = { ...DEFAULT_EVENT_EFFECT_DURATIONS_SEC, impact: 20 };
+    expect(eventEffectAt(impact, 25, durations)).not.toBeNull();
+  });
+
+  it("derives every frame from the event age so scrubbing replays it exactly", () => {
+    const intercept = eventOf("intercept");
+    const forward = eventEffectAt(intercept, 11.2);
+    eventEffectAt(intercept, 12.5);
+    eventEffectAt(intercept, 10.1);
+    expect(eventEffectAt(intercept, 11.2)).toEqual(forward);
+  });
+
+  it("expands the impact ring and fades it out", () => {
+    const impact = eventOf("impact");
+    const origin = llaToEcef(impact.positionLlaDegM);
+    const ringAt = (t: number) => eventEffectAt(impact, t)!.lines[0];
+    const early = ringAt(10.5);
+    const late = ringAt(13);
+    expect(distance(late.pointsEcefM[0], origin)).toBeGreaterThan(distance(early.pointsEcefM[0], origin));
+    expect(late.color[3]).toBeLessThan(early.color[3]);
+    expect(early.pointsEcefM[0]).toEqual(early.pointsEcefM[early.pointsEcefM.length - 1]);
+  });
+
+  it("keeps impact debris above the impact point", () => {
+    const impact = eventOf("impact");
+    for (const t of [10.5, 12, 14.5]) {
+      for (const sprite of eventEffectAt(impact, t)!.sprites) {
+        expect(ecefToLla(sprite.positionEcefM)[2]).toBeGreaterThan(99);
+      }
+    }
+  });
+
+  it("flashes a launch and lets its plume rise", () => {
+    const launch = eventOf("launch");
+    const start = eventEffectAt(launch, 10)!;
+    expect(start.sprites.some((sprite) => sprite.sizeMode === "screen")).toBe(true);
+    const later = eventEffectAt(launch, 12)!;
+    expect(later.sprites.every((sprite) => sprite.sizeMode === "world")).toBe(true);
+    const highest = Math.max(...later.sprites.map((sprite) => ecefToLla(sprite.positionEcefM)[2]));
+    expect(highest).toBeGreaterThan(200);
+  });
+
+  it("draws an intercept burst with a three-axis shockwave", () => {
+    const effect = eventEffectAt(eventOf("intercept"), 11)!;
+    expect(effect.lines).toHaveLength(3);
+    expect(effect.sprites.length).toBeGreaterThan(20);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { ecefToEci, eciToEcef, gmstRad, J2000_UNIX_MS, parseEpochUtcMs } from "../src/core/math";
+
+const DEG = Math.PI / 180;
+
+describe("earth rotation", () => {
+  it("matches the published GMST example", () => {
+    const gmst = gmstRad(Date.UTC(1992, 7, 20, 12, 14, 0));
+    expect(gmst / DEG).toBeCloseTo(152.578787810, 6);
+    expect(gmstRad(J2000_UNIX_MS) / DEG).toBeCloseTo(280.46061837, 6);
+  });
+
+  it("advances one sidereal turn plus about 0.9856 degrees per solar day", () => {
+    const start = Date.UTC(2026, 2, 1, 12, 0, 0);
+    const delta = gmstRad(start + 86_400_000) - gmstRad(start);
+    const wrapped = (delta + 2 * Math.PI) % (2 * Math.PI);
+    expect(wrapped / DEG).toBeCloseTo(0.98565, 4);
+  });
+
+  it("rotates Earth-fixed positions into the inertial frame and back", () => {
+    const gmst = 1.2;
+    const eci = ecefToEci([7000e3, 0, 1000e3], gmst);
+    expect(Math.atan2(eci[1], eci[0])).toBeCloseTo(gmst, 12);
+    expect(eci[2]).toBe(1000e3);
+    eciToEcef(eci, gmst).forEach((value, i) => expect(value).toBeCloseTo([7000e3, 0, 1000e3][i], 6));
+  });
+
+  it("reads the session epoch from the header", () => {
+    expect(parseEpochUtcMs("2026-03-01T12:00:00Z")).toBe(Date.UTC(2026, 2, 1, 12, 0, 0));
+    expect(parseEpochUtcMs(undefined)).toBeNull();
+    expect(parseEpochUtcMs("yesterday")).toBeNull();
+  });
+});
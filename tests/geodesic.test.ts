@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { geodesicDirect, geodesicInverse, WGS84_A } from "../src/core/math";
+import type { LlaDegM } from "../src/core/math";
+
+const dms = (deg: number, min: number, sec: number): number => Math.sign(deg) * (Math.abs(deg) + min / 60 + sec / 3600);
+
+const FLINDERS_PEAK: LlaDegM = [-dms(37, 57, 3.7203), dms(144, 25, 29.5244), 0];
+const BUNINYONG: LlaDegM = [-dms(37, 39, 10.1561), dms(143, 55, 35.3839), 0];
+
+describe("ellipsoidal geodesics", () => {
+  it("solves Vincenty's Flinders Peak to Buninyong inverse reference line", () => {
+    const line = geodesicInverse(FLINDERS_PEAK, BUNINYONG);
+    expect(line.distanceM).toBeCloseTo(54972.271, 3);
+    expect(line.initialAzimuthDeg).toBeCloseTo(dms(306, 52, 5.37), 5);
+    expect(line.finalAzimuthDeg).toBeCloseTo(dms(127, 10, 25.07) + 180, 5);
+  });
+
+  it("solves the matching direct problem back to Buninyong", () => {
+    const { lla, finalAzimuthDeg } = geodesicDirect(FLINDERS_PEAK, dms(306, 52, 5.37), 54972.271);
+    expect(lla[0]).toBeCloseTo(BUNINYONG[0], 7);
+    expect(lla[1]).toBeCloseTo(BUNINYONG[1], 7);
+    expect(finalAzimuthDeg).toBeCloseTo(dms(127, 10, 25.07) + 180, 5);
+  });
+
+  it("matches GeographicLib's Wellington to Salamanca line and the WGS84 quadrants", () => {
+    const line = geodesicInverse([-41.32, 174.81, 0], [40.96, -5.5, 0]);
+    expect(line.distanceM).toBeCloseTo(19959679.267353, 3);
+    expect(line.initialAzimuthDeg).toBeCloseTo(161.067669986, 7);
+    expect(line.finalAzimuthDeg).toBeCloseTo(18.825195123, 7);
+    expect(geodesicInverse([0, 0, 0], [90, 0, 0]).distanceM).toBeCloseTo(10001965.7293, 3);
+    expect(geodesicInverse([0, 0, 0], [0, 90, 0]).distanceM).toBeCloseTo((Math.PI / 2) * WGS84_A, 3);
+  });
+
+  it("round-trips long lines across the antimeridian", () => {
+    const start: LlaDegM = [52.2, 170.5, 1200];
+    const { lla } = geodesicDirect(start, 75, 4_500_000);
+    expect(lla[1]).toBeLessThan(0);
+    expect(lla[2]).toBe(1200);
+    const back = geodesicInverse(start, lla);
+    expect(back.distanceM).toBeCloseTo(4_500_000, 4);
+    expect(back.initialAzimuthDeg).toBeCloseTo(75, 9);
+    expect(geodesicInverse(start, start).distanceM).toBe(0);
+  });
+
+  it("matches GeographicLib for nearly antipodal and equatorial antipodal points", () => {
+    const nearAntipode = geodesicInverse([0, 0, 0], [0.5, 179.7, 0]);
+    expect(nearAntipode.distanceM).toBeCloseTo(19944127.42075, 5);
+    expect(nearAntipode.initialAzimuthDeg).toBeCloseTo(15.556882793, 8);
+    expect(nearAntipode.finalAzimuthDeg).toBeCloseTo(164.442513891, 8);
+    const equatorial = geodesicInverse([0, 0, 0], [0, 179.5, 0]);
+    expect(equatorial.distanceM).toBeCloseTo(19980861.908891, 5);
+    expect(equatorial.initialAzimuthDeg).toBeCloseTo(55.96649514, 8);
+    expect(equatorial.finalAzimuthDeg).toBeCloseTo(124.03350486, 8);
+    const antipode = geodesicInverse([0, 0, 0], [0, 180, 0]);
+    expect(antipode.distanceM).toBeCloseTo(20003931.458625, 5);
+    expect(antipode.initialAzimuthDeg).toBeCloseTo(0, 9);
+    expect(antipode.finalAzimuthDeg).toBeCloseTo(180, 9);
+    const { lla } = geodesicDirect([0, 0, 0], nearAntipode.initialAzimuthDeg, nearAntipode.distanceM);
+    expect(lla[0]).toBeCloseTo(0.5, 8);
+    expect(lla[1]).toBeCloseTo(179.7, 8);
+  });
+});
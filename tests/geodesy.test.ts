@@ -1,5 +1,29 @@
 import { describe, expect, it } from "vitest";
-import { bodyFrdToEcefQuat, ecefToLla, llaToEcef, nedBasisAtLla } from "../src/core/math";
+import {
+  aerBetween,
+  aerToEnu,
+  bodyFrdToEcefQuat,
+  ecefToEnu,
+  ecefToLla,
+  ecefToNed,
+  enuToAer,
+  enuToEcef,
+  llaFromAer,
+  llaToEcef,
+  nedBasisAtLla,
+  nedToEcef,
+  quatFromYawPitchRoll,
+  quatRotateVec3,
+  quatToYawPitchRoll,
+  WGS84_A
+} from "../src/core/math";
+import type { LlaDegM } from "../src/core/math";
+
+const DEG = Math.PI / 180;
+
+const expectVecClose = (actual: readonly number[], expected: readonly number[], digits: number): void => {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], digits));
+};
 
 describe("geodesy", () => {
   it("round-trips LLA <-> ECEF with low error", () => {
@@ -35,5 +59,47 @@ describe("geodesy", () => {
     const n = Math.hypot(q[0], q[1], q[2], q[3]);
     expect(n).toBeCloseTo(1, 6);
   });
-});
 
+  it("converts ECEF offsets to ENU and NED about an arbitrary origin", () => {
+    expectVecClose(ecefToEnu([WGS84_A + 1000, 100, 200], [0, 0, 0]), [100, 200, 1000], 6);
+    expectVecClose(ecefToNed([WGS84_A + 1000, 100, 200], [0, 0, 0]), [200, 100, -1000], 6);
+    const origin: LlaDegM = [-33.9, 151.2, 45];
+    expectVecClose(ecefToEnu(llaToEcef([-33.9, 151.2, 1045]), origin), [0, 0, 1000], 6);
+    const ecef = llaToEcef([-33.7, 151.5, 3000]);
+    expectVecClose(enuToEcef(ecefToEnu(ecef, origin), origin), ecef, 6);
+    expectVecClose(nedToEcef(ecefToNed(ecef, origin), origin), ecef, 6);
+  });
+
+  it("computes azimuth, elevation and slant range between two points", () => {
+    const aer = enuToAer([3000, 4000, 0]);
+    expect(aer.azimuthDeg).toBeCloseTo(Math.atan2(3, 4) / DEG, 9);
+    expect(aer.elevationDeg).toBe(0);
+    expect(aer.slantRangeM).toBeCloseTo(5000, 9);
+    expect(enuToAer([-1, 0, 0]).azimuthDeg).toBeCloseTo(270, 9);
+    expectVecClose(aerToEnu({ azimuthDeg: 225, elevationDeg: 30, slantRangeM: 2000 }), [-1224.745, -1224.745, 1000], 3);
+
+    const alongEquator = aerBetween([0, 0, 0], [0, 1, 0]);
+    expect(alongEquator.azimuthDeg).toBeCloseTo(90, 9);
+    expect(alongEquator.elevationDeg).toBeCloseTo(-0.5, 9);
+    expect(alongEquator.slantRangeM).toBeCloseTo(2 * WGS84_A * Math.sin(0.5 * DEG), 4);
+    expect(aerBetween([10, 20, 0], [10, 20, 5000]).elevationDeg).toBeCloseTo(90, 6);
+
+    const from: LlaDegM = [48.1, 11.6, 520];
+    const target = llaFromAer(from, { azimuthDeg: 310, elevationDeg: 12, slantRangeM: 85_000 });
+    const back = aerBetween(from, target);
+    expect(back.azimuthDeg).toBeCloseTo(310, 8);
+    expect(back.elevationDeg).toBeCloseTo(12, 8);
+    expect(back.slantRangeM).toBeCloseTo(85_000, 5);
+  });
+
+  it("maps yaw, pitch and roll to body-to-NED rotations", () => {
+    expectVecClose(quatFromYawPitchRoll(90 * DEG, 0, 0), [0, 0, Math.SQRT1_2, Math.SQRT1_2], 12);
+    const climbingEast = quatFromYawPitchRoll(90 * DEG, 30 * DEG, 0);
+    expectVecClose(quatRotateVec3(climbingEast, [1, 0, 0]), [0, Math.cos(30 * DEG), -0.5], 12);
+    expectVecClose(quatRotateVec3(quatFromYawPitchRoll(0, 0, 90 * DEG), [0, 1, 0]), [0, 0, 1], 12);
+    const [yaw, pitch, roll] = quatToYawPitchRoll(quatFromYawPitchRoll(-135 * DEG, -10 * DEG, 170 * DEG));
+    expect(yaw / DEG).toBeCloseTo(-135, 9);
+    expect(pitch / DEG).toBeCloseTo(-10, 9);
+    expect(roll / DEG).toBeCloseTo(170, 9);
+  });
+});
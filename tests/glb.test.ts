@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { GLB_MAGIC, parseGlb } from "../src/io";
+
+const padded = (bytes: Uint8Array, fill: number): Uint8Array => {
+  const out = new Uint8Array(Math.ceil(bytes.length / 4) * 4).fill(fill);
+  out.set(bytes);
+  return out;
+};
+
+const buildGlb = (doc: Record<string, unknown>, bin?: Uint8Array): ArrayBuffer => {
+  const json = padded(new TextEncoder().encode(JSON.stringify(doc)), 0x20);
+  const binChunk = bin ? padded(bin, 0) : null;
+  const total = 12 + 8 + json.length + (binChunk ? 8 + binChunk.length : 0);
+  const buffer = new ArrayBuffer(total);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+  view.setUint32(12, json.length, true);
+  view.setUint32(16, 0x4e4f534a, true);
+  bytes.set(json, 20);
+  if (binChunk) {
+    view.setUint32(20 + json.length, binChunk.length, true);
+    view.setUint32(24 + json.length, 0x004e4942, true);
+    bytes.set(binChunk, 28 + json.length);
+  }
+  return buffer;
+};
+
+const CUBE_CORNERS = [
+  [-1, -1, -1],
+  [1, -1, -1],
+  [1, 1, -1],
+  [-1, 1, -1],
+  [-1, -1, 1],
+  [1, -1, 1],
+  [1, 1, 1],
+  [-1, 1, 1]
+];
+
+const CUBE_FACES = [
+  [0, 2, 1, 0, 3, 2],
+  [4, 5, 6, 4, 6, 7],
+  [0, 1, 5, 0, 5, 4],
+  [3, 7, 6, 3, 6, 2],
+  [0, 4, 7, 0, 7, 3],
+  [1, 2, 6, 1, 6, 5]
+].flat();
+
+const cubeGlb = (node: Record<string, unknown> = {}, buffer: Record<string, unknown> = {}): ArrayBuffer => {
+  const positions = new Float32Array(CUBE_CORNERS.flat());
+  const indices = new Uint16Array(CUBE_FACES);
+  const bin = new Uint8Array(positions.byteLength + indices.byteLength);
+  bin.set(new Uint8Array(positions.buffer), 0);
+  bin.set(new Uint8Array(indices.buffer), positions.byteLength);
+  return buildGlb(
+    {
+      asset: { version: "2.0" },
+      scene: 0,
+      scenes: [{ nodes: [0] }],
+      nodes: [{ mesh: 0, ...node }],
+      meshes: [{ primitives: [{ attributes: { POSITION: 0 }, indices: 1 }] }],
+      accessors: [
+        { bufferView: 0, componentType: 5126, count: 8, type: "VEC3" },
+        { bufferView: 1, componentType: 5123, count: indices.length, type: "SCALAR" }
+      ],
+      bufferViews: [
+        { buffer: 0, byteOffset: 0, byteLength: positions.byteLength },
+        { buffer: 0, byteOffset: positions.byteLength, byteLength: indices.byteLength }
+      ],
+      buffers: [{ byteLength: bin.length, ...buffer }]
+    },
+    bin
+  );
+};
+
+describe("glb loader", () => {
+  it("flattens indexed triangles with per-face normals and feature edges", () => {
+    const model = parseGlb(cubeGlb());
+    expect(model.positions).toHaveLength(12 * 9);
+    expect(model.edges).toHaveLength(12 * 6);
+    expect(model.radiusM).toBeCloseTo(Math.sqrt(3), 6);
+    for (let i = 0; i < model.normals.length; i += 3) {
+      const n = [model.normals[i], model.normals[i + 1], model.normals[i + 2]];
+      expect(Math.hypot(n[0], n[1], n[2])).toBeCloseTo(1, 6);
+      expect(n.filter((value) => Math.abs(value) > 0.99)).toHaveLength(1);
+    }
+  });
+
+  it("applies node transforms and converts glTF axes to body FRD", () => {
+    const model = parseGlb(cubeGlb({ translation: [0, 5, 10], scale: [2, 2, 2] }));
+    const xs = Array.from(model.positions.filter((_, i) => i % 3 === 0));
+    const zs = Array.from(model.positions.filter((_, i) => i % 3 === 2));
+    expect(Math.min(...xs)).toBeCloseTo(8, 6);
+    expect(Math.max(...xs)).toBeCloseTo(12, 6);
+    expect(Math.min(...zs)).toBeCloseTo(-7, 6);
+    expect(Math.max(...zs)).toBeCloseTo(-3, 6);
+  });
+
+  it("rejects invalid files and external buffers", () => {
+    expect(() => parseGlb(new ArrayBuffer(16))).toThrow(/magic/);
+    expect(() => parseGlb(cubeGlb({}, { uri: "https://example.com/cube.bin" }))).toThrow(/embedded/);
+    expect(() => parseGlb(buildGlb({ asset: { version: "2.0" }, meshes: [] }))).toThrow(/no triangle meshes/);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { ecefToLla, WGS84_A, WGS84_B } from "../src/core/math";
+import type { Vec3 } from "../src/core/math";
+import {
+  GLOBAL_GRID_WINDOW,
+  graticuleVertices,
+  gridLabelStepDeg,
+  gridWindowAround,
+  localGridAnchor,
+  localGridSpacingM,
+  localGridVertices,
+  selectGridLevels
+} from "../src/render";
+
+const worldToEcef = (world: Vec3): Vec3 => [world[0] * WGS84_A, world[1] * WGS84_A, world[2] * WGS84_B];
+
+const vertexAt = (vertices: Float32Array, index: number): Vec3 => [
+  vertices[index * 4],
+  vertices[index * 4 + 1],
+  vertices[index * 4 + 2]
+];
+
+const distanceM = (a: Vec3, b: Vec3): number => {
+  const [ea, eb] = [worldToEcef(a), worldToEcef(b)];
+  return Math.hypot(ea[0] - eb[0], ea[1] - eb[1], ea[2] - eb[2]);
+};
+
+describe("adaptive grid levels", () => {
+  it("adds finer levels as the camera descends and cross-fades them in", () => {
+    expect(selectGridLevels(20_000_000).map((level) => level.stepDeg)).toEqual([10]);
+    const fading = selectGridLevels(1_500_000);
+    expect(fading.map((level) => level.stepDeg)).toEqual([10, 1]);
+    expect(fading[1].alpha).toBeGreaterThan(0.4);
+    expect(fading[1].alpha).toBeLessThan(0.7);
+    expect(fading[0].weight).toBe(1);
+    expect(fading[1].weight).toBeCloseTo(0.45, 6);
+
+    const close = selectGridLevels(10_000);
+    expect(close.map((level) => level.stepDeg)).toEqual([10, 1, 1 / 6, 1 / 60]);
+    expect(close.every((level) => level.alpha === 1)).toBe(true);
+    expect(close.map((level) => level.weight)).toEqual([1, 1, 1, 0.45]);
+    expect(gridLabelStepDeg(close)).toBe(1 / 60);
+    expect(gridLabelStepDeg(fading)).toBe(1);
+  });
+
+  it("keeps fine windows around the target, snapped to the level step and inside the horizon", () => {
+    const window = gridWindowAround(45.02, 7.03, 1 / 60, 10_000);
+    expect(window.latMinDeg).toBeCloseTo(44.6833, 3);
+    expect(window.latMaxDeg).toBeCloseTo(45.35, 3);
+    expect(window.lonMaxDeg - window.lonMinDeg).toBeCloseTo((2 / 3) / Math.cos((45.02 * Math.PI) / 180), 1);
+    const low = gridWindowAround(45, 7, 1, 10_000);
+    expect(low.latMaxDeg - low.latMinDeg).toBeLessThan(8);
+  });
+});
+
+describe("graticule geometry", () => {
+  it("builds the global 10 degree grid on the ellipsoid", () => {
+    const vertices = graticuleVertices(10, GLOBAL_GRID_WINDOW);
+    expect(vertices.length / 8).toBe(17 * 360 + 36 * 180);
+    for (let i = 0; i < vertices.length / 4; i += 97) {
+      expect(Math.hypot(...vertexAt(vertices, i))).toBeCloseTo(1, 6);
+    }
+  });
+
+  it("skips lines owned by the coarser level and keeps chords hugging the surface", () => {
+    const vertices = graticuleVertices(1, { latMinDeg: 40, latMaxDeg: 50, lonMinDeg: 0, lonMaxDeg: 10 }, 10);
+    expect(vertices.length / 8).toBe(18 * 40);
+    const first = ecefToLla(worldToEcef(vertexAt(vertices, 0)));
+    expect(first[0]).toBeCloseTo(41, 5);
+    expect(first[1]).toBeCloseTo(0, 5);
+    for (let segment = 0; segment < vertices.length / 8; segment += 1) {
+      const a = vertexAt(vertices, segment * 2);
+      const b = vertexAt(vertices, segment * 2 + 1);
+      const mid: Vec3 = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+      expect((1 - Math.hypot(...mid)) * WGS84_A).toBeLessThan(20);
+    }
+    const meridian = ecefToLla(worldToEcef(vertexAt(vertices, 9 * 80 + 41)));
+    expect(meridian[1]).toBeCloseTo(1, 5);
+  });
+});
+
+describe("local kilometer grid", () => {
+  it("picks a spacing by altitude and anchors it to a stable snapped point", () => {
+    expect(localGridSpacingM(5_000)).toBe(1000);
+    expect(localGridSpacingM(50_000)).toBe(10_000);
+    expect(localGridSpacingM(1_500_000)).toBe(100_000);
+    expect(localGridSpacingM(5_000_000)).toBeNull();
+    expect(localGridAnchor(45.0001, 7.0001, 1000)).toEqual(localGridAnchor(45.0002, 7.0002, 1000));
+  });
+
+  it("spaces lines evenly on the surface around the anchor", () => {
+    const vertices = localGridVertices(45, 7, 1000, 10);
+    const pathFloats = 80 * 8;
+    const center = vertexAt(vertices, (20 * pathFloats + 40 * 8) / 4);
+    const next = vertexAt(vertices, (22 * pathFloats + 40 * 8) / 4);
+    const [lat, lon, alt] = ecefToLla(worldToEcef(center));
+    expect(lat).toBeCloseTo(45, 5);
+    expect(lon).toBeCloseTo(7, 5);
+    expect(Math.abs(alt)).toBeLessThan(1);
+    expect(distanceM(center, next)).toBeCloseTo(1000, 0);
+  });
+});
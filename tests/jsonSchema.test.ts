@@ -0,0 +1,197 @@
+import { readFileSync } from "node:fs";
+import Ajv2020 from "ajv/dist/2020";
+import { describe, expect, it } from "vitest";
+import {
+  FRAME_PROTOCOL_SCHEMA,
+  FRAME_PROTOCOL_SCHEMA_ID,
+  negotiateSessionHeader,
+  parseSessionHeader,
+  parseStreamFrame,
+  SESSION_CAPABILITIES,
+  tryParseFrameMessage
+} from "../src/core/schema";
+import {
+  ENTITY_FIELDS,
+  EVENT_FIELDS,
+  FRAME_FIELDS,
+  HEADER_FIELDS,
+  POSE_FIELDS,
+  REMOVAL_FIELDS
+} from "../src/core/schema/fields";
+import type { FieldTable } from "../src/core/schema/fields";
+
+const ajv = new Ajv2020({ allErrors: true, validateFormats: false });
+ajv.addSchema(FRAME_PROTOCOL_SCHEMA);
+
+const schemaFor = (name: string) => ajv.getSchema(`${FRAME_PROTOCOL_SCHEMA_ID}#/$defs/${name}`)!;
+
+type FixtureKind = "header" | "frame" | "delta";
+
+const SCHEMA_DEFS: Record<FixtureKind, string> = {
+  header: "SessionHeader",
+  frame: "FrameMessage",
+  delta: "DeltaFrameMessage"
+};
+
+const fullProtocol = () =>
+  negotiateSessionHeader({
+    protocolVersion: "1.1",
+    epochUtc: "2026-03-01T12:00:00Z",
+    capabilities: [...SESSION_CAPABILITIES]
+  });
+
+const parserAccepts = (kind: FixtureKind, value: unknown): boolean => {
+  if (kind === "frame") {
+    return tryParseFrameMessage(value, fullProtocol()).ok;
+  }
+  try {
+    if (kind === "header") {
+      parseSessionHeader(value);
+    } else {
+      const protocol = fullProtocol();
+      parseStreamFrame({ t: 0, keyframeId: "k0", entities: [entity] }, protocol);
+      parseStreamFrame(value, protocol);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const pose = { positionLlaDegM: [34.1, -117.3, 10000], orientationBodyToNedQuat: [0, 0, 0, 1] };
+const entity = { id: "air-1", kind: "platform", domain: "air", modelId: "f16_faceted", pose };
+const event = { id: "e1", type: "launch", positionLlaDegM: [0, 0, 0], t: 1 };
+const frameWith = (patch: Record<string, unknown>) => ({ t: 1, entities: [entity], ...patch });
+const entityWith = (patch: Record<string, unknown>) => frameWith({ entities: [{ ...entity, ...patch }] });
+const ecefPose = { positionEcefM: [6378137, 0, 0], orientationBodyToNedQuat: [0, 0, 0, 1] };
+const entityExtras = { velocityEcef: [1, 2, 3], staleAfterSec: 4, metadata: { a: "x", b: 2, c: true } };
+
+const deltaWith = (patch: Record<string, unknown>) => ({ t: 2, baseKeyframeId: "k0", entities: [], ...patch });
+const changed = (patch: Record<string, unknown>) => deltaWith({ entities: [{ id: "air-1", ...patch }] });
+
+const corpus: Array<[name: string, kind: FixtureKind, value: unknown, valid: boolean]> = [
+  ["minimal 1.0 header", "header", { protocolVersion: "1.0" }, true],
+  ["1.0 header with scenario", "header", { protocolVersion: "1.0", scenarioId: "demo", staleAfterSec: 2 }, true],
+  ["1.0 header ignores 1.1 fields", "header", { protocolVersion: "1.0", capabilities: ["bogus"] }, true],
+  ["1.1 header", "header", { protocolVersion: "1.1", capabilities: ["deltaFrames"] }, true],
+  ["1.1 epoch", "header", { protocolVersion: "1.1", epochUtc: "2026-03-01T12:00:00.5+02:00" }, true],
+  ["missing version", "header", { scenarioId: "demo" }, false],
+  ["unknown version", "header", { protocolVersion: "2.0" }, false],
+  ["numeric version", "header", { protocolVersion: 1.1 }, false],
+  ["numeric scenario", "header", { protocolVersion: "1.0", scenarioId: 7 }, false],
+  ["zero stale", "header", { protocolVersion: "1.0", staleAfterSec: 0 }, false],
+  ["unknown capability", "header", { protocolVersion: "1.1", capabilities: ["teleport"] }, false],
+  ["capabilities not array", "header", { protocolVersion: "1.1", capabilities: "epochTime" }, false],
+  ["epochTime without epoch", "header", { protocolVersion: "1.1", capabilities: ["epochTime"] }, false],
+  ["non-ISO epoch", "header", { protocolVersion: "1.1", epochUtc: "March 1 2026" }, false],
+  ["minimal frame", "frame", { t: 0, entities: [] }, true],
+  ["full frame", "frame", frameWith({ events: [event], removals: [{ id: "air-1", reason: "destroyed" }] }), true],
+  ["extended event", "frame", frameWith({ events: [{ ...event, type: "miss", sourceId: "a", targetId: "b" }] }), true],
+  ["ecef pose", "frame", entityWith({ pose: ecefPose }), true],
+  ["entity extras", "frame", entityWith(entityExtras), true],
+  ["2525C symbol", "frame", entityWith({ affiliation: "hostile", sidc: "SHAPMF----*****" }), true],
+  ["2525D symbol", "frame", entityWith({ affiliation: "pending", sidc: "10030100001101000000" }), true],
+  ["missing t", "frame", { entities: [] }, false],
+  ["string t", "frame", { t: "1", entities: [] }, false],
+  ["entities not array", "frame", { t: 1, entities: {} }, false],
+  ["events not array", "frame", frameWith({ events: {} }), false],
+  ["empty id", "frame", entityWith({ id: "" }), false],
+  ["bad kind", "frame", entityWith({ kind: "decoy" }), false],
+  ["bad domain", "frame", entityWith({ domain: "subsurface" }), false],
+  ["missing model", "frame", entityWith({ modelId: undefined }), false],
+  ["no position", "frame", entityWith({ pose: { orientationBodyToNedQuat: [0, 0, 0, 1] } }), false],
+  ["short quaternion", "frame", entityWith({ pose: { ...pose, orientationBodyToNedQuat: [0, 0, 1] } }), false],
+  ["long position", "frame", entityWith({ pose: { ...pose, positionLlaDegM: [1, 2, 3, 4] } }), false],
+  ["string coordinate", "frame", entityWith({ pose: { ...pose, positionLlaDegM: [1, "2", 3] } }), false],
+  ["negative stale", "frame", entityWith({ staleAfterSec: -1 }), false],
+  ["nested metadata", "frame", entityWith({ metadata: { a: { b: 1 } } }), false],
+  ["array metadata", "frame", entityWith({ metadata: ["fuel"] }), false],
+  ["bad affiliation", "frame", entityWith({ affiliation: "ally" }), false],
+  ["short sidc", "frame", entityWith({ sidc: "SFAP" }), false],
+  ["lowercase sidc", "frame", entityWith({ sidc: "sfapmf---------" }), false],
+  ["bad event type", "frame", frameWith({ events: [{ ...event, type: "jamming" }] }), false],
+  ["event without t", "frame", frameWith({ events: [{ ...event, t: undefined }] }), false],
+  ["bad removal", "frame", frameWith({ removals: [{ id: "air-1", reason: "exploded" }] }), false],
+  ["keyframe", "frame", frameWith({ keyframeId: "k1" }), true],
+  ["empty keyframe id", "frame", frameWith({ keyframeId: "" }), false],
+  ["empty delta", "delta", deltaWith({}), true],
+  ["pose-only delta", "delta", changed({ pose: { positionLlaDegM: [1, 2, 3] } }), true],
+  ["metadata-only delta", "delta", changed({ metadata: { fuel: 0.5 } }), true],
+  ["affiliation change delta", "delta", changed({ affiliation: "hostile" }), true],
+  ["spawn in delta", "delta", deltaWith({ entities: [{ ...entity, id: "air-9" }], events: [event] }), true],
+  ["delta with empty base", "delta", deltaWith({ baseKeyframeId: "" }), false],
+  ["delta marked as keyframe", "delta", deltaWith({ keyframeId: "k2" }), false],
+  ["delta bad kind", "delta", changed({ kind: "decoy" }), false],
+  ["delta short position", "delta", changed({ pose: { positionLlaDegM: [1, 2] } }), false],
+  ["delta without id", "delta", deltaWith({ entities: [{ modelId: "x" }] }), false]
+];
+
+describe("json schema export", () => {
+  it.each(corpus)("agrees with the parser on %s", (_name, kind, value, valid) => {
+    const raw = JSON.parse(JSON.stringify(value)) as unknown;
+    const schemaValid = schemaFor(SCHEMA_DEFS[kind])(raw);
+    expect(parserAccepts(kind, raw)).toBe(valid);
+    expect(schemaValid).toBe(valid);
+  });
+
+  it("builds schema properties and parser checks from the same field definitions", () => {
+    const tables: FieldTable[] = [
+      HEADER_FIELDS,
+      POSE_FIELDS,
+      ENTITY_FIELDS,
+      EVENT_FIELDS,
+      REMOVAL_FIELDS,
+      FRAME_FIELDS
+    ];
+    const probes: unknown[] = [
+      "",
+      "air-1",
+      0,
+      -1,
+      2.5,
+      true,
+      null,
+      [1, 2, 3],
+      [1, "2", 3],
+      [0, 0, 0, 1],
+      { fuel: 0.5, callsign: "VIPER", armed: true },
+      { nested: { a: 1 } },
+      "2026-03-01T12:00:00Z",
+      "SHAPMF----*****",
+      "air",
+      "platform",
+      "hostile",
+      "destroyed",
+      "1.1",
+      ["deltaFrames", "epochTime"],
+      ["teleport"]
+    ];
+    for (const table of tables) {
+      for (const [key, field] of Object.entries(table)) {
+        const validate = ajv.compile(field.schema);
+        for (const probe of probes) {
+          let parsed = true;
+          try {
+            field.parse(probe, key);
+          } catch {
+            parsed = false;
+          }
+          expect([key, probe, validate(probe)]).toEqual([key, probe, parsed]);
+        }
+      }
+    }
+  });
+
+  it("classifies stream messages at the top level", () => {
+    const validate = ajv.getSchema(FRAME_PROTOCOL_SCHEMA_ID)!;
+    expect(validate({ protocolVersion: "1.0" })).toBe(true);
+    expect(validate({ t: 0, entities: [] })).toBe(true);
+    expect(validate({ t: 0, baseKeyframeId: "k0", entities: [] })).toBe(true);
+    expect(validate({ hello: "world" })).toBe(false);
+  });
+
+  it("matches the exported public/schema.json", () => {
+    const exported = JSON.parse(readFileSync("public/schema.json", "utf8")) as unknown;
+    expect(exported).toEqual(FRAME_PROTOCOL_SCHEMA);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { encodeBinaryFrame, JsonStreamClient, reconnectDelayMs } from "../src/io";
+import type { StreamConnectionState } from "../src/io";
+import type { StreamFrame } from "../src/core/schema";
+
+class FakeSocket {
+  onopen: (() => void) | null = null;
+
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  onerror: (() => void) | null = null;
+
+  onclose: (() => void) | null = null;
+
+  closed = false;
+
+  close(): void {
+    this.closed = true;
+  }
+
+  emit(payload: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(payload) });
+  }
+
+  emitBinary(buffer: ArrayBuffer): void {
+    this.onmessage?.({ data: buffer });
+  }
+}
+
+const createClient = () => {
+  const sockets: FakeSocket[] = [];
+  const client = new JsonStreamClient({
+    reconnect: { initialDelayMs: 100, maxDelayMs: 400, multiplier: 2 },
+    createSocket: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket as unknown as WebSocket;
+    }
+  });
+  return { client, sockets };
+};
+
+const frame = { t: 1, entities: [] };
+
+describe("json stream client", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("grows reconnect delay exponentially up to the cap", () => {
+    const policy = { initialDelayMs: 250, maxDelayMs: 2000, multiplier: 2 };
+    expect(reconnectDelayMs(0, policy)).toBe(250);
+    expect(reconnectDelayMs(2, policy)).toBe(1000);
+    expect(reconnectDelayMs(10, policy)).toBe(2000);
+  });
+
+  it("routes the session header before frames and rejects headerless frames", () => {
+    const { client, sockets } = createClient();
+    const frames: StreamFrame[] = [];
+    const errors: Error[] = [];
+    const onHeader = vi.fn();
+    client.connect("ws://test", { onHeader, onFrame: (f) => frames.push(f), onError: (e) => errors.push(e) });
+
+    sockets[0].emit(frame);
+    expect(frames).toHaveLength(0);
+    expect(errors[0].message).toMatch(/before session header/);
+
+    sockets[0].emit({ protocolVersion: "1.0", scenarioId: "alpha" });
+    sockets[0].emit(frame);
+    expect(onHeader).toHaveBeenCalledWith({ protocolVersion: "1.0", scenarioId: "alpha", capabilities: [] });
+    expect(frames).toHaveLength(1);
+  });
+
+  it("reconnects with backoff after the socket closes and resets on open", () => {
+    vi.useFakeTimers();
+    const { client, sockets } = createClient();
+    const states: Array<[StreamConnectionState, number | undefined]> = [];
+    client.connect("ws://test", {
+      onFrame: () => undefined,
+      onStateChange: (state, detail) => states.push([state, detail.retryInMs])
+    });
+
+    sockets[0].onclose?.();
+    expect(states.at(-1)).toEqual(["reconnecting", 100]);
+    vi.advanceTimersByTime(100);
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].onclose?.();
+    expect(states.at(-1)).toEqual(["reconnecting", 200]);
+    vi.advanceTimersByTime(200);
+    sockets[2].onopen?.();
+    sockets[2].onclose?.();
+    expect(states.at(-1)).toEqual(["reconnecting", 100]);
+
+    client.disconnect();
+    vi.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(3);
+  });
+
+  it("reports lenient-mode warnings from a newer minor protocol", () => {
+    const { client, sockets } = createClient();
+    const warnings: string[] = [];
+    const frames: StreamFrame[] = [];
+    client.connect("ws://test", { onFrame: (f) => frames.push(f), onWarning: (w) => warnings.push(w) });
+
+    sockets[0].emit({ protocolVersion: "1.4", scenarioId: "alpha" });
+    sockets[0].emit({
+      t: 1,
+      entities: [],
+      events: [{ id: "e1", type: "jamming", positionLlaDegM: [0, 0, 0], t: 1 }]
+    });
+    expect(frames[0].events).toEqual([]);
+    expect(warnings).toHaveLength(2);
+    expect(warnings[1]).toMatch(/jamming/);
+  });
+
+  it("decodes binary frames alongside JSON text frames", () => {
+    const { client, sockets } = createClient();
+    const frames: StreamFrame[] = [];
+    const errors: Error[] = [];
+    client.connect("ws://test", { onFrame: (f) => frames.push(f), onError: (e) => errors.push(e) });
+    sockets[0].emitBinary(encodeBinaryFrame({ t: 1, entities: [] }));
+    sockets[0].emit({ protocolVersion: "1.0" });
+    sockets[0].emitBinary(encodeBinaryFrame({ t: 2, entities: [] }));
+    sockets[0].emit({ t: 3, entities: [] });
+    sockets[0].emitBinary(new ArrayBuffer(4));
+    expect(frames.map((f) => f.t)).toEqual([2, 3]);
+    expect(errors[0].message).toMatch(/before session header/);
+    expect(errors[1].message).toMatch(/magic/);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { mat4LookAt, mat4Multiply, mat4Perspective } from "../src/core/math";
+import {
+  buildFontAtlas,
+  computeSdf,
+  formatLabelAltitude,
+  formatLatitudeLabel,
+  formatLongitudeLabel,
+  gridLabelsNear,
+  labelCallsign,
+  layoutLabelText,
+  placeLabels
+} from "../src/render";
+import type { GlyphRasterizer, LabelRequest } from "../src/render";
+
+const blockRasterizer: GlyphRasterizer = (char) => {
+  const width = 24;
+  const height = 32;
+  const alpha = new Uint8ClampedArray(width * height);
+  if (char !== " ") {
+    for (let y = 10; y < 22; y += 1) {
+      for (let x = 6; x < 18; x += 1) {
+        alpha[y * width + x] = 255;
+      }
+    }
+  }
+  return { width, height, alpha, advance: 12 };
+};
+
+const atlas = buildFontAtlas(blockRasterizer, "ABC0123456789 ?°", 32, 6);
+
+const viewProj = mat4Multiply(mat4Perspective(Math.PI / 2, 2, 0.01, 100), mat4LookAt([0, 0, 3], [0, 0, 0], [0, 1, 0]));
+
+const request = (id: string, anchorWorld: [number, number, number], priority: number): LabelRequest => ({
+  id,
+  anchorWorld,
+  lines: ["ABC", "1200 m"],
+  color: [1, 1, 1, 1],
+  priority,
+  offsetPx: [12, 0],
+  align: "left"
+});
+
+describe("sdf font atlas", () => {
+  it("encodes signed distance around the glyph edge", () => {
+    const width = 16;
+    const alpha = new Uint8ClampedArray(width * width);
+    for (let y = 4; y < 12; y += 1) {
+      for (let x = 4; x < 12; x += 1) {
+        alpha[y * width + x] = 255;
+      }
+    }
+    const sdf = computeSdf(alpha, width, width, 4);
+    expect(sdf[8 * width + 8]).toBeGreaterThan(200);
+    expect(sdf[0]).toBe(0);
+    expect(sdf[8 * width + 4]).toBeGreaterThan(127);
+    expect(sdf[8 * width + 3]).toBeLessThan(128);
+    expect(sdf[8 * width + 5]).toBeGreaterThan(sdf[8 * width + 4]);
+  });
+
+  it("packs every glyph into a power-of-two atlas with normalized uvs", () => {
+    expect(atlas.width).toBe(512);
+    expect(Math.log2(atlas.height) % 1).toBe(0);
+    expect(atlas.glyphs.size).toBe(16);
+    for (const glyph of atlas.glyphs.values()) {
+      expect(glyph.u1).toBeGreaterThan(glyph.u0);
+      expect(glyph.v1).toBeGreaterThan(glyph.v0);
+      expect(glyph.u1).toBeLessThanOrEqual(1);
+      expect(glyph.v1).toBeLessThanOrEqual(1);
+    }
+    expect(atlas.lineHeightPx).toBe(40);
+  });
+});
+
+describe("label layout", () => {
+  it("lays out lines at the requested font size and falls back to ?", () => {
+    const text = layoutLabelText(atlas, ["AB C", "ZZ"], 16);
+    expect(text.widthPx).toBeCloseTo(24, 6);
+    expect(text.heightPx).toBeCloseTo(40, 6);
+    expect(text.quads).toHaveLength(5);
+    expect(text.quads[0].xPx).toBeCloseTo(-3, 6);
+    expect(text.quads[1].xPx).toBeCloseTo(3, 6);
+    expect(text.quads[3].glyph).toBe(atlas.glyphs.get("?"));
+    expect(text.quads[3].yPx).toBeGreaterThan(text.quads[0].yPx);
+  });
+
+  it("reads the callsign from metadata and formats altitude and grid labels", () => {
+    expect(labelCallsign({ id: "f16-1", metadata: { callsign: "VIPER 1" } })).toBe("VIPER 1");
+    expect(labelCallsign({ id: "f16-1", metadata: { callsign: " " } })).toBe("f16-1");
+    expect(labelCallsign({ id: "f16-1" })).toBe("f16-1");
+    expect(formatLabelAltitude(9144.4)).toBe("9144 m");
+    expect(formatLabelAltitude(35210)).toBe("35.2 km");
+    expect(formatLatitudeLabel(-30)).toBe("30°S");
+    expect(formatLatitudeLabel(0)).toBe("0°");
+    expect(formatLongitudeLabel(-120)).toBe("120°W");
+    expect(formatLongitudeLabel(180)).toBe("180°");
+    expect(formatLongitudeLabel(190)).toBe("170°W");
+  });
+
+  it("places grid labels along the meridian and parallel nearest the camera target", () => {
+    const labels = gridLabelsNear(47, -122);
+    const lat40 = labels.find((label) => label.id === "grid:lat:40")!;
+    const lonMinus120 = labels.find((label) => label.id === "grid:lon:-120")!;
+    expect(lat40.text).toBe("40°N");
+    expect(lat40.lla).toEqual([40, -115, 0]);
+    expect(lonMinus120.lla).toEqual([45, -120, 0]);
+    expect(labels).toHaveLength(17 + 36);
+  });
+
+  it("labels fine graticule steps in degrees and minutes around the camera target", () => {
+    expect(formatLatitudeLabel(45 + 1 / 6)).toBe("45°10′N");
+    expect(formatLongitudeLabel(-7.5)).toBe("7°30′W");
+    expect(formatLongitudeLabel(-(179 + 59 / 60))).toBe("179°59′W");
+    const labels = gridLabelsNear(45.02, 7.03, 1 / 60);
+    expect(labels).toHaveLength(41 + 41);
+    expect(labels.map((label) => label.text)).toContain("45°01′N");
+    expect(labels.map((label) => label.text)).toContain("7°02′E");
+  });
+});
+
+describe("label placement", () => {
+  it("hides anchors behind the globe", () => {
+    const placed = placeLabels(atlas, viewProj, [0, 0, 3], [request("back", [0, 0, -1], 2)], 800, 400);
+    expect(placed).toHaveLength(0);
+  });
+
+  it("keeps the higher-priority label when two overlap", () => {
+    const placed = placeLabels(
+      atlas,
+      viewProj,
+      [0, 0, 3],
+      [request("low", [0, 0, 1.001], 1), request("high", [0.001, 0, 1], 2), request("apart", [0.5, 0.5, 1], 1)],
+      800,
+      400
+    );
+    expect(placed.map((label) => label.request.id)).toEqual(["high", "apart"]);
+    const [high] = placed;
+    expect(high.rect.x0).toBeGreaterThan(400 + 12);
+    expect(high.rect.y1 - high.rect.y0).toBeCloseTo(2 * 40 * (13 / 32), 6);
+    expect(high.quads[0].xPx).toBeCloseTo(12 - 6 * (13 / 32), 6);
+  });
+
+  it("scales label metrics by the device pixel ratio", () => {
+    const placed = placeLabels(atlas, viewProj, [0, 0, 3], [request("a", [0, 0, 1], 1)], 1600, 800, 2);
+    expect(placed[0].rect.x0).toBeCloseTo(800 + 24, 3);
+    expect(placed[0].rect.y1 - placed[0].rect.y0).toBeCloseTo(2 * 40 * (26 / 32), 6);
+  });
+});
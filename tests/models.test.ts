@@ -0,0 +1,66 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { WGS84_A, WGS84_B } from "../src/core/math";
+import { ModelCatalog, parseModelManifest, resolveAssetUrl } from "../src/io";
+import { bodyToWorldMatrix, projectedRadiusPx } from "../src/render/models";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+describe("model assets", () => {
+  it("parses the shipped manifest and keeps asset urls same-origin", () => {
+    const manifest = parseModelManifest(JSON.parse(readFileSync("public/assets/models/manifest.json", "utf8")));
+    expect(manifest.models.map((model) => model.id)).toContain("f16_faceted");
+    expect(resolveAssetUrl("/assets/models/a.glb", "http://host:5173")).toBe("http://host:5173/assets/models/a.glb");
+    expect(() => resolveAssetUrl("https://cdn.example.com/a.glb", "http://host:5173")).toThrow(/same-origin/);
+    expect(() => parseModelManifest({ version: 1, models: [{ id: "x", path: "/x.glb", domain: "lunar" }] })).toThrow(
+      /domain/
+    );
+  });
+
+  it("loads models lazily and reports missing ones for the sprite fallback", async () => {
+    const requested: string[] = [];
+    const warnings: string[] = [];
+    const catalog = new ModelCatalog({
+      origin: "http://host",
+      onWarning: (message) => warnings.push(message),
+      fetch: async (url) => {
+        requested.push(url);
+        if (url.endsWith("manifest.json")) {
+          return jsonResponse({ version: 1, models: [{ id: "jet", path: "/assets/models/jet.glb" }] });
+        }
+        return new Response("not found", { status: 404 });
+      }
+    });
+    expect(catalog.status("jet")).toBe("pending");
+    await catalog.loadManifest();
+    expect(catalog.status("tank")).toBe("missing");
+    expect(catalog.get("jet")).toBeNull();
+    expect(catalog.status("jet")).toBe("loading");
+    await flush();
+    expect(catalog.status("jet")).toBe("missing");
+    expect(catalog.get("jet")).toBeNull();
+    expect(requested).toEqual(["http://host/assets/models/manifest.json", "http://host/assets/models/jet.glb"]);
+    expect(warnings[0]).toMatch(/jet.*HTTP 404/);
+  });
+});
+
+describe("model placement", () => {
+  it("estimates projected pixel radius", () => {
+    const fovY = Math.PI / 2;
+    expect(projectedRadiusPx(10, 1000, fovY, 1000)).toBeCloseTo(5, 6);
+    expect(projectedRadiusPx(10, 5, fovY, 1000)).toBe(Number.POSITIVE_INFINITY);
+  });
+
+  it("maps body FRD axes to scaled world axes at the entity position", () => {
+    const m = bodyToWorldMatrix([WGS84_A, 0, 0], [0, 0, 0, 1]);
+    const column = (c: number) => Array.from(m.slice(c * 4, c * 4 + 3));
+    const expectClose = (actual: number[], expected: number[]) =>
+      actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 12));
+    expectClose(column(0), [0, 0, 1 / WGS84_B]);
+    expectClose(column(1), [0, 1 / WGS84_A, 0]);
+    expectClose(column(2), [-1 / WGS84_A, 0, 0]);
+    expectClose(column(3), [1, 0, 0]);
+  });
+});
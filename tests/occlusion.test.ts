@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { mat4LookAt, mat4Multiply, mat4Perspective, normalize3, sub3 } from "../src/core/math";
+import type { Vec3 } from "../src/core/math";
+import { isOccludedByGlobe, occluderRayBasis } from "../src/render";
+
+describe("globe occlusion", () => {
+  it("hides points behind the ellipsoid and keeps the visible cap", () => {
+    expect(isOccludedByGlobe([0, 0, 3], [0, 0, 1])).toBe(false);
+    expect(isOccludedByGlobe([0, 0, 3], [0, 0, -1])).toBe(true);
+    expect(isOccludedByGlobe([0, 0, 3], [0, 0.8, 0.6])).toBe(false);
+    expect(isOccludedByGlobe([0, 0, 3], [0, 0.99, 0.1])).toBe(true);
+  });
+
+  it("keeps high-altitude points above the horizon visible", () => {
+    expect(isOccludedByGlobe([0, 0, 3], [3, 0, 0])).toBe(false);
+    expect(isOccludedByGlobe([0, 0, 3], [0, 2, -1.2])).toBe(false);
+    expect(isOccludedByGlobe([0, 0, 3], [0, 0.2, -1.2])).toBe(true);
+  });
+
+  it("reconstructs the view ray through any pixel for the analytic occluder", () => {
+    const eye: Vec3 = [0.4, -2.5, 1.3];
+    const target: Vec3 = [0, 0, 0.2];
+    const up: Vec3 = [0, 0, 1];
+    const fovY = Math.PI / 3.6;
+    const aspect = 1.6;
+    const viewProj = mat4Multiply(mat4Perspective(fovY, aspect, 0.01, 100), mat4LookAt(eye, target, up));
+    const basis = occluderRayBasis(eye, target, up, fovY, aspect);
+    const point: Vec3 = [0.3, 0.1, 0.6];
+    const clipX = viewProj[0] * point[0] + viewProj[4] * point[1] + viewProj[8] * point[2] + viewProj[12];
+    const clipY = viewProj[1] * point[0] + viewProj[5] * point[1] + viewProj[9] * point[2] + viewProj[13];
+    const clipW = viewProj[3] * point[0] + viewProj[7] * point[1] + viewProj[11] * point[2] + viewProj[15];
+    const [nx, ny] = [clipX / clipW, clipY / clipW];
+    const ray = normalize3([
+      basis.forward[0] + nx * basis.right[0] + ny * basis.up[0],
+      basis.forward[1] + nx * basis.right[1] + ny * basis.up[1],
+      basis.forward[2] + nx * basis.right[2] + ny * basis.up[2]
+    ]);
+    const expected = normalize3(sub3(point, eye));
+    ray.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 5));
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { ecefToLla, gmstRad, length3, temeToEcef } from "../src/core/math";
+import {
+  createSgp4Satellite,
+  createTleSatellites,
+  groundTrackEcef,
+  parseTle,
+  parseTleLines,
+  propagateSgp4,
+  sgp4OrbitalPeriodMin,
+  tleChecksum,
+  tleFrames,
+  tleSessionStartMs
+} from "../src/core/orbit";
+import type { Vec3 } from "../src/core/math";
+
+const NEAR_EARTH_00005 = [
+  "1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753",
+  "2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667"
+] as const;
+
+const MOLNIYA_08195 = [
+  "1 08195U 75081A   06176.33215444  .00000099  00000-0  11873-3 0   813",
+  "2 08195  64.1586 279.0717 6877146 264.7651  20.2257  2.00491383225656"
+] as const;
+
+const expectVecClose = (actual: Vec3, expected: Vec3, tolerance: number): void => {
+  actual.forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThan(tolerance));
+};
+
+describe("two-line element parsing", () => {
+  it("reads the element fields, epoch and optional name line", () => {
+    const [tle] = parseTle(`VANGUARD 1\n${NEAR_EARTH_00005.join("\n")}\n`);
+    expect(tle.name).toBe("VANGUARD 1");
+    expect(tle.satnum).toBe("00005");
+    expect(tle.epochUnixMs).toBeCloseTo(Date.UTC(2000, 5, 27, 18, 50, 19) + 733.57, 1);
+    expect(tle.bstar).toBeCloseTo(2.8098e-5, 12);
+    expect(tle.eccentricity).toBeCloseTo(0.1859667, 10);
+    expect(tle.meanMotionRevPerDay).toBeCloseTo(10.82419157, 8);
+    expect(parseTle(MOLNIYA_08195.join("\r\n"))[0].name).toBe("08195");
+  });
+
+  it("rejects lines that fail the modulo-10 checksum", () => {
+    expect(tleChecksum(NEAR_EARTH_00005[0])).toBe(3);
+    const corrupted = NEAR_EARTH_00005[1].replace("34.2682", "34.2683");
+    expect(() => parseTleLines(NEAR_EARTH_00005[0], corrupted)).toThrow(/checksum/);
+    expect(() => parseTleLines(NEAR_EARTH_00005[0], MOLNIYA_08195[1])).toThrow(/belongs to 08195/);
+  });
+});
+
+describe("sgp4 propagation", () => {
+  it("matches the published near-earth verification vectors for 00005", () => {
+    const sat = createSgp4Satellite(parseTleLines(...NEAR_EARTH_00005));
+    expect(sat.method).toBe("near");
+    const cases: Array<[number, Vec3, Vec3]> = [
+      [0, [7022.46529266, -1400.08296755, 0.03995155], [1.893841015, 6.405893759, 4.53480725]],
+      [360, [-7154.03120202, -3783.17682504, -3536.19412294], [4.741887409, -4.151817765, -2.093935425]],
+      [720, [-7134.59340119, 6531.68641334, 3260.27186483], [-4.113793027, -2.911922039, -2.557327851]]
+    ];
+    for (const [tsince, position, velocity] of cases) {
+      const state = propagateSgp4(sat, tsince);
+      if (!state.ok) {
+        throw new Error(state.error);
+      }
+      expectVecClose(state.positionKm, position, 1e-6);
+      expectVecClose(state.velocityKmPerSec, velocity, 1e-8);
+    }
+  });
+
+  it("matches the published deep-space vectors for the 12-hour resonant Molniya 08195", () => {
+    const sat = createSgp4Satellite(parseTleLines(...MOLNIYA_08195));
+    expect(sat.method).toBe("deep");
+    expect(sgp4OrbitalPeriodMin(sat)).toBeCloseTo(718.2, 0);
+    const epoch = propagateSgp4(sat, 0);
+    const later = propagateSgp4(sat, 120);
+    if (!epoch.ok || !later.ok) {
+      throw new Error("propagation failed");
+    }
+    expectVecClose(epoch.positionKm, [2349.8948335, -14785.93811562, 0.02119378], 1e-6);
+    expectVecClose(epoch.velocityKmPerSec, [2.721488096, -3.256811655, 4.498416672], 1e-8);
+    expectVecClose(later.positionKm, [15223.91713658, -17852.95881713, 25280.39558224], 1e-6);
+  });
+});
+
+describe("tle frame source", () => {
+  it("rotates TEME into ECEF about the pole and removes the earth-rotation velocity", () => {
+    const { position, velocity } = temeToEcef([7000, 0, 0], [0, 7.5, 0], Math.PI / 2);
+    expectVecClose(position, [0, -7000, 0], 1e-9);
+    expect(velocity[0]).toBeCloseTo(7.5 - 7.292115e-5 * 7000, 6);
+    expect(velocity[1]).toBeCloseTo(0, 9);
+  });
+
+  it("samples space-domain frames from the latest element epoch", () => {
+    const satellites = createTleSatellites(parseTle([...NEAR_EARTH_00005, ...MOLNIYA_08195].join("\n")));
+    const startUnixMs = tleSessionStartMs(satellites.map((satellite) => satellite.tle));
+    expect(new Date(startUnixMs).toISOString()).toBe("2006-06-25T07:58:00.000Z");
+    const frames = tleFrames(satellites, { startUnixMs, durationSec: 600, stepSec: 60 });
+    expect(frames).toHaveLength(11);
+    expect(frames[10].t).toBe(600);
+    const molniya = frames[0].entities.find((entity) => entity.id === "sat-08195")!;
+    expect(molniya.domain).toBe("space");
+    expect(molniya.metadata?.noradId).toBe("08195");
+    const state = propagateSgp4(satellites[1].sgp4, (startUnixMs - satellites[1].tle.epochUnixMs) / 60000);
+    if (!state.ok) {
+      throw new Error(state.error);
+    }
+    const ecef = temeToEcef(state.positionKm, state.velocityKmPerSec, gmstRad(startUnixMs)).position;
+    expect(molniya.pose.positionLlaDegM[2]).toBeCloseTo(ecefToLla(ecef.map((km) => km * 1000) as Vec3)[2], 3);
+    expect(length3(molniya.velocityEcef!)).toBeGreaterThan(1000);
+  });
+
+  it("builds a surface ground track spanning one orbit around the current time", () => {
+    const [satellite] = createTleSatellites(parseTle(NEAR_EARTH_00005.join("\n")));
+    const track = groundTrackEcef(satellite.sgp4, satellite.tle.epochUnixMs);
+    expect(track).toHaveLength(Math.ceil((sgp4OrbitalPeriodMin(satellite.sgp4) * 60) / 20) + 1);
+    for (const point of track) {
+      expect(Math.abs(ecefToLla(point)[2])).toBeLessThan(1e-3);
+    }
+    const latitudes = track.map((point) => ecefToLla(point)[0]);
+    expect(Math.max(...latitudes)).toBeCloseTo(34.27, 0);
+    expect(Math.min(...latitudes)).toBeCloseTo(-34.27, 0);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { mat4LookAt, mat4Multiply, mat4Perspective } from "../src/core/math";
+import { pickNearest, projectToScreen } from "../src/render";
+
+const viewProj = mat4Multiply(mat4Perspective(Math.PI / 2, 2, 0.1, 100), mat4LookAt([0, 0, 10], [0, 0, 0], [0, 1, 0]));
+
+describe("entity picking", () => {
+  it("projects world points to canvas pixels", () => {
+    const center = projectToScreen(viewProj, [0, 0, 0], 800, 400)!;
+    expect(center.x).toBeCloseTo(400, 3);
+    expect(center.y).toBeCloseTo(200, 3);
+    const upRight = projectToScreen(viewProj, [5, 5, 0], 800, 400)!;
+    expect(upRight.x).toBeGreaterThan(400);
+    expect(upRight.y).toBeLessThan(200);
+    expect(projectToScreen(viewProj, [0, 0, 20], 800, 400)).toBeNull();
+  });
+
+  it("picks the closest instance within the pick radius", () => {
+    const candidates = [
+      { id: "a", world: [0, 0, 0] as [number, number, number] },
+      { id: "b", world: [0.1, 0, 0] as [number, number, number] }
+    ];
+    expect(pickNearest(viewProj, candidates, 400, 200, 800, 400)).toBe("a");
+    expect(pickNearest(viewProj, candidates, 405, 200, 800, 400)).toBe("b");
+    expect(pickNearest(viewProj, candidates, 500, 300, 800, 400)).toBeNull();
+  });
+
+  it("prefers the nearer instance when two overlap on screen", () => {
+    const candidates = [
+      { id: "far", world: [0, 0, -5] as [number, number, number] },
+      { id: "near", world: [0, 0, 5] as [number, number, number] }
+    ];
+    expect(pickNearest(viewProj, candidates, 400, 200, 800, 400)).toBe("near");
+  });
+
+  it("ignores instances behind the camera", () => {
+    const candidates = [{ id: "behind", world: [0, 0, 12] as [number, number, number] }];
+    expect(pickNearest(viewProj, candidates, 400, 200, 800, 400)).toBeNull();
+  });
+});
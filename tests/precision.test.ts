@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  add3,
+  ecefToWorld,
+  llaToEcef,
+  mat4LookAt,
+  mat4Multiply,
+  mat4Perspective,
+  nedBasisAtLla,
+  normalize3,
+  scale3
+} from "../src/core/math";
+import type { Mat4, Vec3 } from "../src/core/math";
+import { relativeToEye, splitVec3, viewProjRelativeToEye } from "../src/render";
+
+const WIDTH_PX = 1920;
+const HEIGHT_PX = 1080;
+const FOV_Y_RAD = (50 * Math.PI) / 180;
+
+const f32 = Math.fround;
+
+const projectF32 = (m: Mat4, p: Vec3): [number, number] => {
+  const [x, y, z] = p.map(f32);
+  const row = (r: number) => f32(f32(f32(f32(m[r] * x) + f32(m[4 + r] * y)) + f32(m[8 + r] * z)) + m[12 + r]);
+  const w = row(3);
+  return [(f32(row(0) / w) + 1) * 0.5 * WIDTH_PX, (1 - f32(row(1) / w)) * 0.5 * HEIGHT_PX];
+};
+
+const chaseFrames = (steps: number) =>
+  Array.from({ length: steps }, (_, k) => {
+    const lla: [number, number, number] = [45, 120 + k * 1e-6, 10000];
+    const ecef = llaToEcef(lla);
+    const { north, down } = nedBasisAtLla(lla);
+    const target = ecefToWorld(ecef);
+    const eye = ecefToWorld(add3(ecef, add3(scale3(north, -100), scale3(down, -20))));
+    const up = normalize3(target);
+    const distance = Math.hypot(eye[0] - target[0], eye[1] - target[1], eye[2] - target[2]);
+    const projection = mat4Perspective(FOV_Y_RAD, WIDTH_PX / HEIGHT_PX, distance * 0.25, 100);
+    return { target, eye, up, projection };
+  });
+
+const maxJitterPx = (project: (frame: ReturnType<typeof chaseFrames>[number]) => [number, number]): number =>
+  Math.max(
+    ...chaseFrames(200).map((frame) => {
+      const [x, y] = project(frame);
+      return Math.hypot(x - WIDTH_PX / 2, y - HEIGHT_PX / 2);
+    })
+  );
+
+describe("relative-to-eye precision", () => {
+  it("keeps a chased entity steady on screen where absolute float32 coordinates jitter", () => {
+    const absolute = maxJitterPx(({ target, eye, up, projection }) =>
+      projectF32(mat4Multiply(projection, mat4LookAt(eye, target, up)), target)
+    );
+    const relative = maxJitterPx(({ target, eye, up, projection }) =>
+      projectF32(viewProjRelativeToEye(projection, eye, target, up), relativeToEye(target, eye))
+    );
+    expect(absolute).toBeGreaterThan(1);
+    expect(relative).toBeLessThan(0.01);
+  });
+
+  it("splits a position into float32 high and low parts that sum back exactly", () => {
+    const v: Vec3 = [0.7071234567891234, -0.1234567890123456, 0.6960000000000001];
+    const { high, low } = splitVec3(v);
+    high.forEach((value, i) => {
+      expect(Math.fround(value)).toBe(value);
+      expect(value + low[i]).toBe(v[i]);
+      expect(Math.abs(low[i])).toBeLessThan(1e-7);
+    });
+  });
+});
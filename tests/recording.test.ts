@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { loadJsonRecording, loadNdjsonRecording, loadRecording } from "../src/io";
+
+const entity = (id: string, lat: unknown = 10) => ({
+  id,
+  kind: "platform",
+  domain: "air",
+  modelId: "f16_faceted",
+  pose: { positionLlaDegM: [lat, 20, 1000], orientationBodyToNedQuat: [0, 0, 0, 1] }
+});
+
+const ndjson = [
+  JSON.stringify({ protocolVersion: "1.0", scenarioId: "rec", staleAfterSec: 3 }),
+  JSON.stringify({ t: 0, entities: [entity("a"), entity("b")] }),
+  "{ not json",
+  "",
+  JSON.stringify({ t: 2, entities: [entity("a"), entity("b", "north")] }),
+  JSON.stringify({ t: "three", entities: [entity("a")] }),
+  JSON.stringify({ t: 4, entities: [entity("a"), entity("b")] })
+].join("\n");
+
+describe("recording loader", () => {
+  it("loads the valid remainder of an NDJSON recording and reports line numbers", () => {
+    const report = loadNdjsonRecording(ndjson);
+    expect(report.header?.scenarioId).toBe("rec");
+    expect(report.frames.map((frame) => frame.t)).toEqual([0, 2, 4]);
+    expect(report.frames[1].entities.map((e) => e.id)).toEqual(["a"]);
+    expect(report.totalFrames).toBe(5);
+    expect(report.skippedFrames).toBe(2);
+    expect(report.skippedEntities).toBe(1);
+    expect(report.issues.map((issue) => [issue.line, issue.kind, issue.path])).toEqual([
+      [3, "syntax", "frame"],
+      [5, "type", "frame.entities[1].pose.positionLlaDegM[0]"],
+      [6, "type", "frame.t"]
+    ]);
+    expect(report.summary).toEqual({ errors: 3, warnings: 0, byKind: { syntax: 1, type: 2 } });
+  });
+
+  it("drops whole frames under the frame skip policy", () => {
+    const report = loadNdjsonRecording(ndjson, { skipInvalid: "frame" });
+    expect(report.frames.map((frame) => frame.t)).toEqual([0, 4]);
+    expect(report.skippedFrames).toBe(3);
+    expect(report.skippedEntities).toBe(0);
+  });
+
+  it("indexes JSON array recordings and detects the format", () => {
+    const raw = JSON.stringify([{ t: 0, entities: [entity("a")] }, { t: 1, entities: "none" }]);
+    const report = loadJsonRecording(raw);
+    expect(report.frames).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({ index: 1, path: "frame.entities", expected: "an array" });
+    expect(loadRecording(`  ${raw}`).frames).toHaveLength(1);
+    expect(loadRecording(ndjson).header?.scenarioId).toBe("rec");
+    expect(loadJsonRecording("{}").summary.errors).toBe(1);
+  });
+});
@@ -1,5 +1,25 @@
 import { describe, expect, it } from "vitest";
-import { parseFrameMessage, parseSessionHeader, tryParseFrameMessage } from "../src/core/schema";
+import { llaToEcef } from "../src/core/math";
+import {
+  diagnoseFrameMessage,
+  encodeSessionHeader,
+  negotiateSessionHeader,
+  parseFrameMessage,
+  parseSessionHeader,
+  parseStreamFrame,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  tryParseFrameMessage
+} from "../src/core/schema";
+
+const headerFixtures: Record<string, Record<string, unknown>> = {
+  "1.0": { protocolVersion: "1.0", scenarioId: "legacy", staleAfterSec: 5 },
+  "1.1": {
+    protocolVersion: "1.1",
+    scenarioId: "modern",
+    epochUtc: "2026-03-01T12:00:00Z",
+    capabilities: ["epochTime", "ecefPositions", "extendedEvents"]
+  }
+};
 
 describe("schema parser", () => {
   it("parses valid frame messages", () => {
@@ -50,4 +70,139 @@ describe("schema parser", () => {
     expect(header.protocolVersion).toBe("1.0");
     expect(header.scenarioId).toBe("demo");
   });
+
+  it("parses entity removals and staleness hints", () => {
+    const frame = parseFrameMessage({
+      t: 3,
+      entities: [],
+      removals: [{ id: "weapon-1", reason: "destroyed" }]
+    });
+    expect(frame.removals).toEqual([{ id: "weapon-1", reason: "destroyed" }]);
+    expect(tryParseFrameMessage({ t: 3, entities: [], removals: [{ id: "weapon-1", reason: "gone" }] }).ok).toBe(
+      false
+    );
+    expect(parseSessionHeader({ protocolVersion: "1.0", staleAfterSec: 4 }).staleAfterSec).toBe(4);
+    expect(() => parseSessionHeader({ protocolVersion: "1.0", staleAfterSec: 0 })).toThrow(/staleAfterSec/);
+  });
+
+  it("round-trips every supported protocol version", () => {
+    for (const version of SUPPORTED_PROTOCOL_VERSIONS) {
+      const fixture = headerFixtures[version];
+      const header = parseSessionHeader(fixture);
+      expect(header.protocolVersion).toBe(version);
+      expect(encodeSessionHeader(header)).toEqual(fixture);
+      expect(parseSessionHeader(encodeSessionHeader(header))).toEqual(header);
+    }
+  });
+
+  it("upgrades 1.0 headers to the current internal shape", () => {
+    const header = parseSessionHeader({ protocolVersion: "1.0", capabilities: ["deltaFrames"] });
+    expect(header.capabilities).toEqual([]);
+    expect(header.epochUtc).toBeUndefined();
+  });
+
+  it("rejects unknown capabilities and unsupported major versions", () => {
+    expect(() => parseSessionHeader({ protocolVersion: "1.1", capabilities: ["teleport"] })).toThrow(
+      /capabilities\[0\]/
+    );
+    expect(() => parseSessionHeader({ protocolVersion: "1.1", capabilities: ["epochTime"] })).toThrow(/epochUtc/);
+    expect(() => parseSessionHeader({ protocolVersion: "2.0" })).toThrow(/protocolVersion/);
+  });
+
+  it("parses newer minor versions leniently with warnings", () => {
+    const protocol = negotiateSessionHeader({
+      protocolVersion: "1.3",
+      capabilities: ["ecefPositions", "hyperspectral"],
+      weather: "clear"
+    });
+    expect(protocol.lenient).toBe(true);
+    expect(protocol.header.protocolVersion).toBe("1.1");
+    expect(protocol.header.capabilities).toEqual(["ecefPositions"]);
+    expect(protocol.warnings).toHaveLength(3);
+  });
+
+  it("gates 1.1 frame features on declared capabilities", () => {
+    const entity = {
+      id: "sat-1",
+      kind: "platform",
+      domain: "space",
+      modelId: "satellite_faceted",
+      pose: { positionEcefM: llaToEcef([10, 20, 400000]), orientationBodyToNedQuat: [0, 0, 0, 1] }
+    };
+    const raw = {
+      t: 0,
+      entities: [entity],
+      events: [{ id: "d1", type: "detection", positionLlaDegM: [0, 0, 0], t: 0 }]
+    };
+    expect(tryParseFrameMessage(raw).ok).toBe(false);
+
+    const protocol = negotiateSessionHeader(headerFixtures["1.1"]);
+    const frame = parseFrameMessage(raw, protocol);
+    expect(frame.entities[0].pose.positionLlaDegM[0]).toBeCloseTo(10, 6);
+    expect(frame.entities[0].pose.positionLlaDegM[2]).toBeCloseTo(400000, 2);
+    expect(frame.events?.[0].type).toBe("detection");
+    expect(protocol.warnings).toEqual([]);
+  });
+
+  it("collects every issue with path, expected and actual values", () => {
+    const raw = {
+      t: 4,
+      entities: [
+        { id: "", kind: "tank", domain: "ground", modelId: "m", pose: { orientationBodyToNedQuat: [0, 0, 1] } },
+        {
+          id: "ok",
+          kind: "platform",
+          domain: "air",
+          modelId: "m",
+          pose: { positionLlaDegM: [1, 2, 3], orientationBodyToNedQuat: [0, 0, 0, 1] }
+        }
+      ],
+      removals: [{ id: "x", reason: "gone" }]
+    };
+    const result = diagnoseFrameMessage(raw);
+    expect(result.issues.map((issue) => [issue.kind, issue.path])).toEqual([
+      ["type", "frame.entities[0].id"],
+      ["enum", "frame.entities[0].kind"],
+      ["shape", "frame.entities[0].pose.orientationBodyToNedQuat"],
+      ["missing", "frame.entities[0].pose.positionLlaDegM"],
+      ["enum", "frame.removals[0].reason"]
+    ]);
+    expect(result.issues[1]).toMatchObject({ expected: "platform|weapon", actual: '"tank"', severity: "error" });
+    expect(result.frame?.entities.map((entity) => entity.id)).toEqual(["ok"]);
+    expect(result.frame?.removals).toEqual([]);
+    expect(result.skippedEntities).toBe(1);
+
+    expect(diagnoseFrameMessage(raw, { skipInvalid: "frame" }).frame).toBeNull();
+    expect(diagnoseFrameMessage({ t: "late", entities: [] }).frame).toBeNull();
+    expect(() => parseFrameMessage(raw)).toThrow(/frame.entities\[0\].id must be a non-empty string/);
+  });
+
+  it("validates delta frames against the referenced keyframe", () => {
+    const protocol = negotiateSessionHeader({ protocolVersion: "1.1", capabilities: ["deltaFrames"] });
+    const entity = {
+      id: "tank-1",
+      kind: "platform",
+      domain: "ground",
+      modelId: "t72_faceted",
+      pose: { positionLlaDegM: [1, 2, 0], orientationBodyToNedQuat: [0, 0, 0, 1] }
+    };
+    expect(() => parseStreamFrame({ t: 0, baseKeyframeId: "k0", entities: [] }, protocol)).toThrow(/keyframeId/);
+    parseStreamFrame({ t: 0, keyframeId: "k0", entities: [entity] }, protocol);
+
+    const delta = parseStreamFrame(
+      { t: 1, baseKeyframeId: "k0", entities: [{ id: "tank-1", pose: { orientationBodyToNedQuat: [0, 0, 1, 0] } }] },
+      protocol
+    );
+    expect(delta.entities[0]).toMatchObject({ id: "tank-1", pose: { orientationBodyToNedQuat: [0, 0, 1, 0] } });
+
+    const unknown = diagnoseFrameMessage(
+      { t: 2, baseKeyframeId: "k0", entities: [{ id: "ghost", metadata: { fuel: 1 } }] },
+      { protocol }
+    );
+    expect(unknown.issues[0]).toMatchObject({ kind: "reference", path: "frame.entities[0].id", actual: '"ghost"' });
+
+    parseStreamFrame({ t: 3, baseKeyframeId: "k0", entities: [{ ...entity, id: "tank-2" }] }, protocol);
+    expect(parseStreamFrame({ t: 4, baseKeyframeId: "k0", entities: [{ id: "tank-2" }] }, protocol).t).toBe(4);
+    expect(() => parseFrameMessage({ t: 0, keyframeId: "k0", entities: [] })).toThrow(/deltaFrames/);
+  });
 });
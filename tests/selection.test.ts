@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { SelectionStore } from "../src/ui";
+
+describe("selection store", () => {
+  it("notifies subscribers of the current and later selections", () => {
+    const store = new SelectionStore();
+    const seen: Array<string | null> = [];
+    store.subscribe((id) => seen.push(id));
+    store.select("eagle-1");
+    store.select("eagle-1");
+    store.select(null);
+    expect(seen).toEqual([null, "eagle-1", null]);
+    expect(store.selected).toBeNull();
+  });
+
+  it("stops notifying after unsubscribe", () => {
+    const store = new SelectionStore();
+    const seen: Array<string | null> = [];
+    const unsubscribe = store.subscribe((id) => seen.push(id));
+    unsubscribe();
+    store.select("frigate-1");
+    expect(seen).toEqual([null]);
+    expect(store.selected).toBe("frigate-1");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { decodeSidc, resolveAffiliation, resolveDimension } from "../src/core/schema";
+import type { EntityState } from "../src/core/schema";
+import { AFFILIATION_PALETTE, entityColor, entitySymbolFrame, symbolFrame } from "../src/render/symbology";
+
+const entity = (patch: Partial<EntityState>): EntityState => ({
+  id: "track-1",
+  kind: "platform",
+  domain: "air",
+  modelId: "f16_faceted",
+  pose: { positionLlaDegM: [34, -117, 9000], orientationBodyToNedQuat: [0, 0, 0, 1] },
+  ...patch
+});
+
+describe("symbology", () => {
+  it("decodes affiliation and dimension from 2525C and 2525D codes", () => {
+    expect(decodeSidc("SHAPMF----*****")).toEqual({ standard: "2525C", affiliation: "hostile", dimension: "air" });
+    expect(decodeSidc("SFUPSN---------")).toEqual({
+      standard: "2525C",
+      affiliation: "friend",
+      dimension: "subsurface"
+    });
+    expect(decodeSidc("10043000001201000000")).toEqual({
+      standard: "2525D",
+      affiliation: "neutral",
+      dimension: "seaSurface"
+    });
+    expect(decodeSidc("10000500001101000000")?.affiliation).toBe("pending");
+    expect(decodeSidc("not-a-sidc")).toBeNull();
+  });
+
+  it("prefers the explicit affiliation, then the SIDC, then unknown", () => {
+    expect(resolveAffiliation({ affiliation: "friend", sidc: "SHAPMF---------" })).toBe("friend");
+    expect(resolveAffiliation({ sidc: "SHAPMF---------" })).toBe("hostile");
+    expect(resolveAffiliation({})).toBe("unknown");
+  });
+
+  it("maps domains to symbol dimensions with submerged sea tracks as subsurface", () => {
+    const atAltitude = (altM: number): EntityState["pose"] => ({
+      positionLlaDegM: [20, -150, altM],
+      orientationBodyToNedQuat: [0, 0, 0, 1]
+    });
+    expect(resolveDimension(entity({ domain: "ground" }))).toBe("land");
+    expect(resolveDimension(entity({ domain: "sea", pose: atAltitude(0) }))).toBe("seaSurface");
+    expect(resolveDimension(entity({ domain: "sea", pose: atAltitude(-80) }))).toBe("subsurface");
+    expect(resolveDimension(entity({ domain: "air", sidc: "SFPPS----------" }))).toBe("space");
+  });
+
+  it("selects frame shapes by affiliation and openings by dimension", () => {
+    expect(symbolFrame("friend", "land")).toEqual({ shape: "rectangle", opening: "none" });
+    expect(symbolFrame("friend", "seaSurface")).toEqual({ shape: "circle", opening: "none" });
+    expect(symbolFrame("friend", "air")).toEqual({ shape: "circle", opening: "bottom" });
+    expect(symbolFrame("hostile", "subsurface")).toEqual({ shape: "diamond", opening: "top" });
+    expect(symbolFrame("neutral", "space")).toEqual({ shape: "square", opening: "bottom" });
+    expect(symbolFrame("pending", "land")).toEqual({ shape: "quatrefoil", opening: "none" });
+    expect(entitySymbolFrame(entity({ domain: "ground" }))).toEqual({ shape: "quatrefoil", opening: "none" });
+  });
+
+  it("colors by affiliation only in the affiliation theme", () => {
+    const hostile = entity({ affiliation: "hostile" });
+    expect(entityColor(hostile, "affiliation")).toEqual(AFFILIATION_PALETTE.hostile);
+    expect(entityColor(hostile, "phosphor")).toEqual(entityColor(entity({ affiliation: "friend" }), "phosphor"));
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  llaToEcef,
+  llaToMgrs,
+  llaToUtm,
+  nedBasisAtLla,
+  quatFromYawPitchRoll,
+  quatToYawPitchRoll,
+  speedOfSoundMps
+} from "../src/core/math";
+import type { Vec3 } from "../src/core/math";
+import type { FrameMessage } from "../src/core/schema";
+import { computeTelemetry, TimelineStore } from "../src/core/sim";
+import type { RuntimeEntityState } from "../src/core/sim";
+import { formatTelemetryRows } from "../src/ui";
+
+const DEG = Math.PI / 180;
+
+const entityAt = (lla: [number, number, number], velocityNed: Vec3): RuntimeEntityState => {
+  const basis = nedBasisAtLla(lla);
+  const velocityEcef = [0, 1, 2].map(
+    (k) => velocityNed[0] * basis.north[k] + velocityNed[1] * basis.east[k] + velocityNed[2] * basis.down[k]
+  ) as Vec3;
+  return {
+    id: "air-1",
+    kind: "platform",
+    domain: "air",
+    modelId: "f16_faceted",
+    pose: { positionLlaDegM: lla, orientationBodyToNedQuat: quatFromYawPitchRoll(250 * DEG, 5 * DEG, -20 * DEG) },
+    velocityEcef,
+    metadata: { callsign: "EAGLE01", fuelKg: 3100 },
+    positionEcefM: llaToEcef(lla),
+    coasting: false
+  };
+};
+
+describe("entity telemetry", () => {
+  it("round-trips yaw, pitch and roll through a body-to-NED quaternion", () => {
+    const [yaw, pitch, roll] = quatToYawPitchRoll(quatFromYawPitchRoll(1.2, -0.4, 0.7));
+    expect(yaw).toBeCloseTo(1.2, 9);
+    expect(pitch).toBeCloseTo(-0.4, 9);
+    expect(roll).toBeCloseTo(0.7, 9);
+  });
+
+  it("converts to UTM and MGRS", () => {
+    expect(llaToMgrs(0, 0)).toBe("31N AA 66021 00000");
+    expect(llaToMgrs(38.889484, -77.035278)).toMatch(/^18S UJ 234\d\d 064\d\d$/);
+    const nyc = llaToUtm(40.7128, -74.006)!;
+    expect(nyc.zone).toBe(18);
+    expect(nyc.eastingM).toBeCloseTo(583959.4, 0);
+    expect(nyc.northingM).toBeCloseTo(4507351.0, 0);
+    expect(llaToUtm(60, 5)!.zone).toBe(32);
+    expect(llaToMgrs(78, 15)).toMatch(/^33X WG 00000 /);
+    expect(llaToMgrs(85, 0)).toBeNull();
+  });
+
+  it("uses the ISA speed of sound", () => {
+    expect(speedOfSoundMps(0)).toBeCloseTo(340.29, 1);
+    expect(speedOfSoundMps(11000)).toBeCloseTo(295.07, 1);
+    expect(speedOfSoundMps(15000)).toBeCloseTo(295.07, 1);
+  });
+
+  it("decomposes attitude and velocity into flight telemetry", () => {
+    const telemetry = computeTelemetry(entityAt([35, -117, 11000], [200, 0, -10]), null);
+    expect(telemetry.headingDeg).toBeCloseTo(250, 6);
+    expect(telemetry.pitchDeg).toBeCloseTo(5, 6);
+    expect(telemetry.rollDeg).toBeCloseTo(-20, 6);
+    expect(telemetry.groundSpeedMps).toBeCloseTo(200, 6);
+    expect(telemetry.verticalSpeedMps).toBeCloseTo(10, 6);
+    expect(telemetry.mach).toBeCloseTo(Math.hypot(200, 10) / 295.07, 3);
+    expect(telemetry.positionLlaDegM[2]).toBeCloseTo(11000, 3);
+    expect(telemetry.metadata).toEqual([
+      ["callsign", "EAGLE01"],
+      ["fuelKg", 3100]
+    ]);
+    const rows = formatTelemetryRows(telemetry);
+    expect(rows.find(([label]) => label === "callsign")?.[1]).toBe("EAGLE01");
+    expect(rows.find(([label]) => label === "MGRS")?.[1]).toMatch(/^11S /);
+  });
+
+  it("derives velocity from timeline samples", () => {
+    const timeline = new TimelineStore();
+    const frameAt = (t: number, lat: number): FrameMessage => ({
+      t,
+      entities: [
+        {
+          id: "air-1",
+          kind: "platform",
+          domain: "air",
+          modelId: "f16_faceted",
+          pose: { positionLlaDegM: [lat, -117, 5000 + 20 * t], orientationBodyToNedQuat: [0, 0, 0, 1] }
+        }
+      ]
+    });
+    timeline.setFrames([frameAt(0, 35), frameAt(10, 35.01)]);
+    const velocity = timeline.velocityAt("air-1", 5)!;
+    const telemetry = computeTelemetry(timeline.sampleAtRuntime(5).entities[0], velocity);
+    expect(telemetry.groundSpeedMps).toBeGreaterThan(100);
+    expect(telemetry.groundSpeedMps).toBeLessThan(120);
+    expect(telemetry.verticalSpeedMps).toBeCloseTo(20, 0);
+    expect(timeline.velocityAt("air-1", -1)).toBeNull();
+    expect(timeline.velocityAt("ghost", 5)).toBeNull();
+  });
+});
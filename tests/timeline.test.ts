@@ -1,6 +1,8 @@
 import { describe, expect, it } from "vitest";
+import { ecefToLla, llaToEcef, nedBasisAtLla } from "../src/core/math";
+import type { Vec3 } from "../src/core/math";
 import { TimelineStore } from "../src/core/sim";
-import type { FrameMessage } from "../src/core/schema";
+import type { FrameMessage, ValidationIssue } from "../src/core/schema";
 
 const frameAt = (t: number, lon: number): FrameMessage => ({
   t,
@@ -18,6 +20,47 @@ const frameAt = (t: number, lon: number): FrameMessage => ({
   ]
 });
 
+const frameAtEcef = (t: number, ecef: Vec3, velocityEcef?: Vec3): FrameMessage => ({
+  t,
+  entities: [
+    {
+      id: "air-1",
+      kind: "platform",
+      domain: "air",
+      modelId: "f16_faceted",
+      pose: {
+        positionLlaDegM: ecefToLla(ecef),
+        orientationBodyToNedQuat: [0, 0, 0, 1]
+      },
+      velocityEcef
+    }
+  ]
+});
+
+const ORIGIN_ECEF = llaToEcef([35, -117, 9000]);
+const { north: NORTH, east: EAST, down: DOWN } = nedBasisAtLla([35, -117, 9000]);
+const TURN_RADIUS_M = 20_000;
+const TURN_RATE = (2 * Math.PI) / 120;
+
+const circleAt = (t: number): { position: Vec3; velocity: Vec3 } => {
+  const c = Math.cos(TURN_RATE * t);
+  const s = Math.sin(TURN_RATE * t);
+  const r = TURN_RADIUS_M;
+  const w = TURN_RATE * r;
+  return {
+    position: [0, 1, 2].map((k) => ORIGIN_ECEF[k] + r * (c * NORTH[k] + s * EAST[k])) as Vec3,
+    velocity: [0, 1, 2].map((k) => w * (-s * NORTH[k] + c * EAST[k])) as Vec3
+  };
+};
+
+const ballisticAt = (t: number): Vec3 =>
+  [0, 1, 2].map((k) => ORIGIN_ECEF[k] + 600 * t * NORTH[k] + (-250 * t + 0.5 * 9.81 * t * t) * DOWN[k]) as Vec3;
+
+const errorAt = (timeline: TimelineStore, t: number, truth: Vec3): number => {
+  const p = timeline.sampleAtRuntime(t).entities[0].positionEcefM;
+  return Math.hypot(p[0] - truth[0], p[1] - truth[1], p[2] - truth[2]);
+};
+
 describe("timeline store", () => {
   it("interpolates between frames", () => {
     const timeline = new TimelineStore();
@@ -54,4 +97,348 @@ describe("timeline store", () => {
     expect(runtime.entities[0].positionEcefM).toHaveLength(3);
     expect(Number.isFinite(runtime.entities[0].positionEcefM[0])).toBe(true);
   });
+
+  it("inserts out-of-order frames at their sorted position", () => {
+    const timeline = new TimelineStore();
+    timeline.appendFrame(frameAt(0, 0));
+    timeline.appendFrame(frameAt(10, 10));
+    timeline.appendFrame(frameAt(5, 20));
+    expect(timeline.getRange()).toEqual({ start: 0, end: 10, duration: 10 });
+    expect(timeline.sampleAt(5).entities[0].pose.positionLlaDegM[1]).toBeCloseTo(20, 6);
+    expect(timeline.sampleAt(7.5).entities[0].pose.positionLlaDegM[1]).toBeCloseTo(15, 1);
+  });
+
+  it("appends batches in time order", () => {
+    const timeline = new TimelineStore();
+    timeline.appendFrames([frameAt(10, 10), frameAt(0, 0)]);
+    timeline.appendFrames([frameAt(20, 20)]);
+    expect(timeline.getRange()).toEqual({ start: 0, end: 20, duration: 20 });
+    expect(timeline.sampleAt(15).entities[0].pose.positionLlaDegM[1]).toBeCloseTo(15, 1);
+  });
+
+  it("keeps append cost flat as history grows", () => {
+    let timeReads = 0;
+    const countedFrame = (t: number): FrameMessage =>
+      Object.defineProperty({ ...frameAt(t, t) }, "t", {
+        enumerable: true,
+        get: () => {
+          timeReads += 1;
+          return t;
+        }
+      });
+    const readsToAppend = (timeline: TimelineStore, t: number): number => {
+      const before = timeReads;
+      timeline.appendFrame(countedFrame(t));
+      return timeReads - before;
+    };
+
+    const timeline = new TimelineStore();
+    readsToAppend(timeline, 0);
+    const early = readsToAppend(timeline, 0.05);
+    for (let i = 2; i < 4000; i += 1) {
+      timeline.appendFrame(countedFrame(i * 0.05));
+    }
+    const late = readsToAppend(timeline, 200);
+    const outOfOrder = readsToAppend(timeline, 100.025);
+    expect(late).toBe(early);
+    expect(outOfOrder).toBeLessThanOrEqual(early + Math.ceil(Math.log2(4001)) + 1);
+  });
+
+  it("evicts samples outside the retention window", () => {
+    const timeline = new TimelineStore({ retention: { maxDurationSec: 10 } });
+    for (let t = 0; t <= 30; t += 1) {
+      timeline.appendFrame(frameAt(t, t));
+    }
+    const range = timeline.getRange();
+    expect(range.end).toBe(30);
+    expect(range.duration).toBeLessThanOrEqual(10);
+    expect(timeline.sampleAt(0).entities).toHaveLength(0);
+    expect(timeline.sampleAt(range.start).entities[0].pose.positionLlaDegM[1]).toBeCloseTo(range.start, 6);
+  });
+
+  it("bounds retained samples by count", () => {
+    const timeline = new TimelineStore({ retention: { maxSamples: 50 } });
+    timeline.setFrames(Array.from({ length: 200 }, (_, i) => frameAt(i, i)));
+    const range = timeline.getRange();
+    expect(range.end).toBe(199);
+    expect(range.duration + 1).toBeLessThanOrEqual(50);
+  });
+
+  it("keeps a decimated archive beyond the full-resolution window", () => {
+    const timeline = new TimelineStore({ retention: { maxDurationSec: 10, archiveIntervalSec: 5 } });
+    for (let t = 0; t <= 60; t += 0.5) {
+      timeline.appendFrame(frameAt(t, t));
+    }
+    expect(timeline.getRange()).toEqual({ start: 0, end: 60, duration: 60 });
+    expect(timeline.sampleAt(20).entities[0].pose.positionLlaDegM[1]).toBeCloseTo(20, 1);
+    expect(timeline.sampleAtRuntime(22.5).entities[0].coasting).toBe(false);
+    expect(timeline.sampleAt(57.25).entities[0].pose.positionLlaDegM[1]).toBeCloseTo(57.25, 1);
+  });
+
+  it("ignores late frames older than the evicted window", () => {
+    const timeline = new TimelineStore({ retention: { maxDurationSec: 10 } });
+    for (let t = 0; t <= 30; t += 1) {
+      timeline.appendFrame(frameAt(t, t));
+    }
+    const before = timeline.getRange();
+    timeline.appendFrame(frameAt(1, 1));
+    expect(timeline.getRange()).toEqual(before);
+  });
+
+  it("hides entities outside their sampled interval", () => {
+    const timeline = new TimelineStore();
+    timeline.setFrames([{ t: 0, entities: [] }, frameAt(5, 0), frameAt(10, 10), { t: 15, entities: [] }]);
+    expect(timeline.sampleAt(2).entities).toHaveLength(0);
+    expect(timeline.sampleAt(5).entities).toHaveLength(1);
+    expect(timeline.sampleAt(10).entities).toHaveLength(1);
+    expect(timeline.sampleAt(12).entities).toHaveLength(0);
+  });
+
+  it("removes entities at an explicit removal marker", () => {
+    const timeline = new TimelineStore({ lifecycle: { staleAfterSec: 60 } });
+    timeline.setFrames([
+      frameAt(0, 0),
+      frameAt(10, 10),
+      { t: 12, entities: [], removals: [{ id: "air-1", reason: "destroyed" }] },
+      frameAt(20, 20)
+    ]);
+    expect(timeline.sampleAt(11).entities).toHaveLength(1);
+    expect(timeline.sampleAt(12).entities).toHaveLength(0);
+    expect(timeline.sampleAt(15).entities).toHaveLength(0);
+    expect(timeline.sampleAt(20).entities).toHaveLength(1);
+  });
+
+  it("flags coasting entities and hides them once stale", () => {
+    const timeline = new TimelineStore({ lifecycle: { staleAfterSec: 5, coastAfterSec: 1 } });
+    timeline.setFrames([frameAt(0, 0), frameAt(0.5, 0.5), frameAt(20, 20)]);
+    const reporting = timeline.sampleAtRuntime(0.25).entities[0];
+    const coasting = timeline.sampleAtRuntime(3).entities[0];
+    expect(reporting.coasting).toBe(false);
+    expect(coasting.coasting).toBe(true);
+    expect(timeline.sampleAtRuntime(8).entities).toHaveLength(0);
+    expect(timeline.sampleAtRuntime(22).entities[0].coasting).toBe(true);
+    expect(timeline.sampleAtRuntime(26).entities).toHaveLength(0);
+  });
+
+  it("prefers per-entity staleness over the session default", () => {
+    const timeline = new TimelineStore({ lifecycle: { staleAfterSec: 30 } });
+    const frame = frameAt(0, 0);
+    frame.entities[0].staleAfterSec = 2;
+    timeline.setFrames([frame, { t: 10, entities: [] }]);
+    expect(timeline.sampleAt(1.5).entities).toHaveLength(1);
+    expect(timeline.sampleAt(3).entities).toHaveLength(0);
+  });
+
+  it("follows a coordinated turn with velocity-aware hermite interpolation", () => {
+    const frames = Array.from({ length: 13 }, (_, i) => {
+      const { position, velocity } = circleAt(i * 10);
+      return frameAtEcef(i * 10, position, velocity);
+    });
+    const linear = new TimelineStore();
+    const hermite = new TimelineStore({ motion: { interpolation: "hermite" } });
+    linear.setFrames(frames);
+    hermite.setFrames(frames);
+
+    const truth = circleAt(35).position;
+    expect(errorAt(linear, 35, truth)).toBeGreaterThan(500);
+    expect(errorAt(hermite, 35, truth)).toBeLessThan(10);
+  });
+
+  it("reconstructs a ballistic arc from finite-difference velocities", () => {
+    const frames = Array.from({ length: 9 }, (_, i) => frameAtEcef(i * 5, ballisticAt(i * 5)));
+    const linear = new TimelineStore();
+    const estimated = new TimelineStore({ motion: { interpolation: "hermite" } });
+    linear.setFrames(frames);
+    estimated.setFrames(frames);
+
+    for (const t of [12.5, 21, 33.3]) {
+      expect(errorAt(linear, t, ballisticAt(t))).toBeGreaterThan(5);
+      expect(errorAt(estimated, t, ballisticAt(t))).toBeLessThan(0.05);
+    }
+  });
+
+  it("ignores reported velocities in finite-difference mode", () => {
+    const bogus: Vec3 = [5000, 5000, 5000];
+    const frames = Array.from({ length: 9 }, (_, i) => frameAtEcef(i * 5, ballisticAt(i * 5), bogus));
+    const timeline = new TimelineStore({ motion: { interpolation: "finiteDifference" } });
+    timeline.setFrames(frames);
+    expect(errorAt(timeline, 17.5, ballisticAt(17.5))).toBeLessThan(0.05);
+  });
+
+  it("dead-reckons past the last sample up to the extrapolation horizon", () => {
+    const velocity: Vec3 = [0, 1, 2].map((k) => 250 * EAST[k]) as Vec3;
+    const at = (t: number): Vec3 => [0, 1, 2].map((k) => ORIGIN_ECEF[k] + velocity[k] * t) as Vec3;
+    const frames = [0, 1, 2].map((t) => frameAtEcef(t, at(t), velocity));
+    const timeline = new TimelineStore({ motion: { interpolation: "hermite", extrapolationHorizonSec: 3 } });
+    timeline.setFrames(frames);
+
+    expect(errorAt(timeline, 4, at(4))).toBeLessThan(0.01);
+    expect(timeline.sampleAtRuntime(6).entities).toHaveLength(0);
+
+    timeline.setLifecycle({ staleAfterSec: 10 });
+    expect(errorAt(timeline, 8, at(5))).toBeLessThan(0.01);
+  });
+
+  it("answers indexed event queries", () => {
+    const timeline = new TimelineStore();
+    timeline.setFrames([
+      {
+        t: 1,
+        entities: [],
+        events: [{ id: "l1", type: "launch", sourceId: "air-1", positionLlaDegM: [0, 0, 0], t: 1 }]
+      },
+      {
+        t: 5,
+        entities: [],
+        events: [{ id: "l2", type: "launch", sourceId: "air-2", positionLlaDegM: [0, 0, 0], t: 5 }]
+      },
+      {
+        t: 9,
+        entities: [],
+        events: [
+          { id: "i1", type: "intercept", sourceId: "wpn-2", targetId: "wpn-1", positionLlaDegM: [0, 0, 0], t: 9 },
+          { id: "h1", type: "impact", sourceId: "wpn-1", targetId: "sea-1", positionLlaDegM: [0, 0, 0], t: 9 }
+        ]
+      }
+    ]);
+    const ids = (events: { id: string }[]) => events.map((event) => event.id);
+    expect(ids(timeline.eventsInRange(1, 5))).toEqual(["l1", "l2"]);
+    expect(ids(timeline.queryEvents({ sourceId: "air-2" }))).toEqual(["l2"]);
+    expect(ids(timeline.queryEvents({ targetId: "sea-1" }))).toEqual(["h1"]);
+    expect(ids(timeline.queryEvents({ types: ["launch"] }))).toEqual(["l1", "l2"]);
+    expect(ids(timeline.queryEvents({ types: ["impact", "intercept"], startT: 2 }))).toEqual(["i1", "h1"]);
+    expect(timeline.nextEvent(1)?.id).toBe("l2");
+    expect(timeline.nextEvent(5, { types: ["impact"] })?.id).toBe("h1");
+    expect(timeline.previousEvent(9)?.id).toBe("l2");
+    expect(timeline.previousEvent(1)).toBeNull();
+  });
+
+  it("keeps events active for a per-type persistence window", () => {
+    const timeline = new TimelineStore({ eventPersistenceSec: { launch: 0.5, impact: 4 } });
+    timeline.setFrames([
+      {
+        t: 10,
+        entities: [],
+        events: [
+          { id: "l1", type: "launch", positionLlaDegM: [0, 0, 0], t: 10 },
+          { id: "h1", type: "impact", positionLlaDegM: [0, 0, 0], t: 10 }
+        ]
+      }
+    ]);
+    const active = (t: number) => (timeline.sampleAtRuntime(t).events ?? []).map((event) => event.id);
+    expect(active(9.9)).toEqual([]);
+    expect(active(10.2)).toEqual(["l1", "h1"]);
+    expect(active(12)).toEqual(["h1"]);
+    expect(active(14.5)).toEqual([]);
+  });
+
+  it("reconstructs full state from keyframes and delta frames", () => {
+    const tank = { ...frameAt(0, 5).entities[0], id: "tank-1", domain: "ground" as const, modelId: "t72_faceted" };
+    const jet = frameAt(0, 0).entities[0];
+    const destroyed = [{ id: "air-1", reason: "destroyed" as const }];
+    const timeline = new TimelineStore();
+    timeline.setFrames([
+      { t: 0, keyframeId: "k0", entities: [tank, jet] },
+      { t: 1, baseKeyframeId: "k0", entities: [{ id: "air-1", pose: { positionLlaDegM: [0, 1, 10000] } }] },
+      { t: 2, baseKeyframeId: "k0", entities: [{ id: "air-1", pose: { positionLlaDegM: [0, 2, 10000] } }] },
+      { t: 3, baseKeyframeId: "k0", entities: [{ ...jet, id: "air-2" }], removals: destroyed },
+      { t: 10, keyframeId: "k1", entities: [{ ...jet, id: "air-2" }] }
+    ]);
+
+    const mid = timeline.sampleAt(1.5);
+    const jetMid = mid.entities.find((entity) => entity.id === "air-1");
+    expect(jetMid?.modelId).toBe("f16_faceted");
+    expect(jetMid?.pose.positionLlaDegM[1]).toBeCloseTo(1.5, 6);
+
+    const afterDeltas = timeline.sampleAtRuntime(3);
+    expect(afterDeltas.entities.map((entity) => entity.id).sort()).toEqual(["air-2", "tank-1"]);
+    expect(afterDeltas.entities.find((entity) => entity.id === "tank-1")?.coasting).toBe(false);
+
+    expect(timeline.sampleAt(10).entities.map((entity) => entity.id)).toEqual(["air-2"]);
+  });
+
+  it("keeps keyframe members visible between delta frames until the next keyframe", () => {
+    const tank = { ...frameAt(0, 5).entities[0], id: "tank-1", domain: "ground" as const, modelId: "t72_faceted" };
+    const jet = frameAt(0, 0).entities[0];
+    const moveJet = (t: number) => ({
+      t,
+      baseKeyframeId: "k0",
+      entities: [{ id: "air-1", pose: { positionLlaDegM: [0, t, 10000] as Vec3 } }]
+    });
+    const timeline = new TimelineStore();
+    timeline.setFrames([
+      { t: 0, keyframeId: "k0", entities: [tank, jet] },
+      moveJet(1),
+      moveJet(2),
+      moveJet(3),
+      { t: 5, keyframeId: "k1", entities: [jet] }
+    ]);
+    const idsAt = (t: number) => timeline.sampleAtRuntime(t).entities.map((entity) => entity.id).sort();
+    for (const t of [0.5, 1, 1.5, 2, 2.5, 3, 4.5]) {
+      expect(idsAt(t)).toEqual(["air-1", "tank-1"]);
+    }
+    expect(idsAt(5.5)).toEqual(["air-1"]);
+
+    const stale = new TimelineStore({ lifecycle: { staleAfterSec: 0.4 } });
+    stale.setFrames([{ t: 0, keyframeId: "k0", entities: [tank, jet] }, moveJet(1)]);
+    expect(stale.sampleAtRuntime(0.5).entities).toEqual([]);
+  });
+
+  it("reports partial deltas whose base sample was evicted by retention", () => {
+    const tank = { ...frameAt(0, 5).entities[0], id: "tank-1", domain: "ground" as const, modelId: "t72_faceted" };
+    const issues: ValidationIssue[] = [];
+    const timeline = new TimelineStore({ retention: { maxDurationSec: 5 }, onIssue: (issue) => issues.push(issue) });
+    timeline.setFrames([
+      { t: 0, keyframeId: "k0", entities: [tank, frameAt(0, 0).entities[0]] },
+      ...Array.from({ length: 10 }, (_, i) => ({
+        t: i + 1,
+        baseKeyframeId: "k0",
+        entities: [{ id: "air-1", pose: { positionLlaDegM: [0, i + 1, 10000] as Vec3 } }]
+      }))
+    ]);
+    expect(issues).toEqual([]);
+    const tankMoved = { id: "tank-1", pose: { positionLlaDegM: [0, 6, 0] as Vec3 } };
+    timeline.appendFrame({ t: 11, baseKeyframeId: "k0", entities: [tankMoved] });
+    expect(timeline.sampleAt(11).entities.map((entity) => entity.id)).toEqual(["air-1"]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: "reference", path: "frame.entities[0]", severity: "error" });
+    expect(issues[0].message).toContain("tank-1");
+  });
+
+  it("builds trails from history inside the scenario-time window", () => {
+    const timeline = new TimelineStore({ lifecycle: { staleAfterSec: 60 } });
+    timeline.setFrames(Array.from({ length: 11 }, (_, i) => frameAt(i * 10, i)));
+    const trailAt = (t: number, windowSec: number | null) =>
+      timeline.trailsAt(timeline.sampleAtRuntime(t), { windowSec })[0].points.map((point) => point.t);
+
+    expect(trailAt(55, 20)).toEqual([40, 50, 55]);
+    expect(trailAt(55, null)).toEqual([0, 10, 20, 30, 40, 50, 55]);
+    expect(trailAt(100, 20)).toEqual([80, 90, 100]);
+    expect(trailAt(15, 20)).toEqual([0, 10, 15]);
+    const trail = timeline.trailsAt(timeline.sampleAtRuntime(55), { windowSec: 20 })[0];
+    expect(ecefToLla(trail.points[2].positionEcefM)[1]).toBeCloseTo(5.5, 6);
+  });
+
+  it("decimates long trails but keeps the newest samples", () => {
+    const timeline = new TimelineStore();
+    timeline.setFrames(Array.from({ length: 101 }, (_, i) => frameAt(i, i * 0.01)));
+    const points = timeline.trailsAt(timeline.sampleAtRuntime(100), { windowSec: null, maxPoints: 11 })[0].points;
+    expect(points.length).toBeLessThanOrEqual(11);
+    expect(points[points.length - 1].t).toBe(100);
+    expect(points[0].t).toBe(0);
+  });
+
+  it("drops trails of despawned entities and restarts them on respawn", () => {
+    const timeline = new TimelineStore({ lifecycle: { staleAfterSec: 60 } });
+    timeline.setFrames([
+      frameAt(0, 0),
+      frameAt(10, 10),
+      { t: 12, entities: [], removals: [{ id: "air-1", reason: "destroyed" }] },
+      frameAt(20, 20),
+      frameAt(30, 30)
+    ]);
+    expect(timeline.trailsAt(timeline.sampleAtRuntime(15), { windowSec: null })).toEqual([]);
+    const respawned = timeline.trailsAt(timeline.sampleAtRuntime(25), { windowSec: null })[0].points;
+    expect(respawned.map((point) => point.t)).toEqual([20, 25]);
+  });
 });
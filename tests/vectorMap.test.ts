@@ -0,0 +1,132 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { decodeVectorMap, encodeVectorMap, geoJsonToLines, loadVectorMap } from "../src/io";
+import type { VectorMapLayer } from "../src/io";
+import { MAP_FINE_LOD_MAX_ALTITUDE_M, mapLinesToVertices, selectMapLod } from "../src/render";
+
+const layers: VectorMapLayer[] = [
+  {
+    kind: "coastline",
+    lod: 0,
+    lines: [
+      [
+        [21.3, -157.9],
+        [21.3001, -157.8],
+        [21.2, -157.7]
+      ]
+    ]
+  },
+  {
+    kind: "border",
+    lod: 1,
+    lines: [
+      [
+        [49, -123.3],
+        [49, -60.5]
+      ],
+      [[0, 0]]
+    ]
+  }
+];
+
+describe("vector map asset", () => {
+  it("round-trips layers with quantized delta coordinates", () => {
+    const decoded = decodeVectorMap(encodeVectorMap(layers));
+    expect(decoded.map(({ kind, lod }) => [kind, lod])).toEqual([
+      ["coastline", 0],
+      ["border", 1]
+    ]);
+    expect(decoded[0].lines[0]).toEqual([
+      [21.3, -157.9],
+      [21.3, -157.8],
+      [21.2, -157.7]
+    ]);
+    expect(decoded[1].lines).toHaveLength(1);
+  });
+
+  it("splits deltas that overflow 16 bits", () => {
+    const [border] = decodeVectorMap(encodeVectorMap([layers[1]]));
+    const line = border.lines[0];
+    expect(line.length).toBeGreaterThan(2);
+    expect(line[0]).toEqual([49, -123.3]);
+    expect(line[line.length - 1]).toEqual([49, -60.5]);
+    for (let k = 1; k < line.length; k += 1) {
+      expect(Math.abs(line[k][1] - line[k - 1][1])).toBeLessThanOrEqual(32.767);
+    }
+  });
+
+  it("rejects foreign and truncated buffers", () => {
+    expect(() => decodeVectorMap(new ArrayBuffer(8))).toThrow(/magic/);
+    const encoded = encodeVectorMap(layers);
+    expect(() => decodeVectorMap(encoded.slice(0, encoded.byteLength - 4))).toThrow(/malformed|truncated/);
+  });
+
+  it("converts Natural Earth GeoJSON geometries to lat/lon lines", () => {
+    const lines = geoJsonToLines({
+      type: "FeatureCollection",
+      features: [
+        { type: "Feature", geometry: { type: "LineString", coordinates: [[10, 1], [11, 2]] } },
+        {
+          type: "Feature",
+          geometry: { type: "MultiPolygon", coordinates: [[[[0, 0], [1, 0], [1, 1], [0, 0]]]] }
+        },
+        { type: "Feature", geometry: { type: "Point", coordinates: [5, 5] } }
+      ]
+    });
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toEqual([
+      [1, 10],
+      [2, 11]
+    ]);
+    expect(lines[1]).toHaveLength(4);
+  });
+
+  it("loads the asset through fetch and reports HTTP failures", async () => {
+    const encoded = encodeVectorMap(layers);
+    const loaded = await loadVectorMap("/map.bin", async () => new Response(encoded));
+    expect(loaded).toHaveLength(2);
+    await expect(loadVectorMap("/map.bin", async () => new Response(null, { status: 404 }))).rejects.toThrow(/404/);
+  });
+});
+
+describe("vector map rendering", () => {
+  it("densifies long segments onto the ellipsoid with a running arc length", () => {
+    const vertices = mapLinesToVertices([
+      [
+        [0, 0],
+        [0, 3]
+      ]
+    ]);
+    expect(vertices.length).toBe(3 * 2 * 4);
+    for (let i = 0; i < vertices.length; i += 4) {
+      expect(Math.hypot(vertices[i], vertices[i + 1], vertices[i + 2])).toBeCloseTo(1, 6);
+    }
+    expect(vertices[3]).toBe(0);
+    expect(vertices[vertices.length - 1]).toBeCloseTo(3, 5);
+  });
+
+  it("switches to the finest level of detail when the camera is close", () => {
+    expect(selectMapLod([0, 1], MAP_FINE_LOD_MAX_ALTITUDE_M / 2)).toBe(1);
+    expect(selectMapLod([0, 1], MAP_FINE_LOD_MAX_ALTITUDE_M * 2)).toBe(0);
+    expect(selectMapLod([0], 1000)).toBe(0);
+    expect(selectMapLod([], 1000)).toBeNull();
+  });
+
+  it("bundles both Natural Earth levels of detail for coastlines and borders", () => {
+    const bytes = readFileSync("public/assets/map/naturalearth.bin");
+    const bundled = decodeVectorMap(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+    expect(bundled.map(({ kind, lod }) => `${kind}:${lod}`).sort()).toEqual([
+      "border:0",
+      "border:1",
+      "coastline:0",
+      "coastline:1"
+    ]);
+    const points = (kind: string, lod: number) =>
+      bundled.find((layer) => layer.kind === kind && layer.lod === lod)!.lines.flat();
+    expect(points("coastline", 1).length).toBeGreaterThan(points("coastline", 0).length);
+    for (const [lat, lon] of points("coastline", 1)) {
+      expect(Math.abs(lat)).toBeLessThanOrEqual(90);
+      expect(Math.abs(lon)).toBeLessThanOrEqual(180);
+    }
+  });
+});